@@ -0,0 +1,24 @@
+// Writes a synthetic labelled applicant CSV for the training pipeline.
+//
+//   npm run risk:generate -- --rows 5000 --seed 42 --out scripts/risk/out/applicants.csv
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { parseArgs } from "node:util";
+import { generateApplicants } from "./synthetic.ts";
+import { formatApplicantsCsv } from "./training.ts";
+
+const { values } = parseArgs({
+  options: {
+    rows: { type: "string", default: "5000" },
+    seed: { type: "string", default: "42" },
+    out: { type: "string", default: "scripts/risk/out/applicants.csv" },
+  },
+});
+
+const applicants = generateApplicants(Number(values.rows), Number(values.seed));
+mkdirSync(dirname(values.out), { recursive: true });
+writeFileSync(values.out, formatApplicantsCsv(applicants));
+
+const rate = applicants.filter((a) => a.defaulted).length / applicants.length;
+console.log(`Wrote ${applicants.length} applicants (${(rate * 100).toFixed(1)}% defaulted) to ${values.out}`);
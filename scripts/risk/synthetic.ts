@@ -0,0 +1,49 @@
+// Synthetic labelled applicants for exercising the training pipeline without
+// real customer data. Defaults are drawn from a known "true" logistic model with
+// a smooth income effect, so a trained model should recover its direction
+// (income and verification lower risk; students, freelancers and heavy
+// obligations raise it)
+// without ever scoring perfectly.
+
+import { mulberry32, type LabelledApplicant } from "./training.ts";
+
+const EMPLOYMENT_MIX = [
+  { type: "salaried", share: 0.5, medianIncome: 45000, effect: -0.9 },
+  { type: "freelancer", share: 0.2, medianIncome: 35000, effect: 0.5 },
+  { type: "business", share: 0.15, medianIncome: 60000, effect: 0 },
+  { type: "student", share: 0.1, medianIncome: 8000, effect: 1 },
+  { type: "retired", share: 0.05, medianIncome: 25000, effect: 0.3 },
+];
+
+/** Standard normal draw (Box–Muller). */
+function normal(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+export function generateApplicants(count: number, seed = 42): LabelledApplicant[] {
+  const random = mulberry32(seed);
+
+  return Array.from({ length: count }, () => {
+    let pick = random();
+    const employment = EMPLOYMENT_MIX.find((e) => (pick -= e.share) < 0) ?? EMPLOYMENT_MIX[0];
+    const monthlyIncome = Math.round(employment.medianIncome * Math.exp(0.6 * normal(random)) / 100) * 100;
+    const documentsVerified = random() < 0.92;
+    const faceVerified = random() < 0.9;
+    const obligations = {
+      emi: random() < 0.4 ? Math.round(monthlyIncome * 0.35 * random() / 100) * 100 : 0,
+      rent: random() < 0.5 ? Math.round(monthlyIncome * (0.1 + 0.25 * random()) / 100) * 100 : 0,
+      creditCardDues: random() < 0.3 ? Math.round(monthlyIncome * 0.1 * random() / 100) * 100 : 0,
+    };
+    const foir = (obligations.emi + obligations.rent + obligations.creditCardDues) / Math.max(monthlyIncome, 1);
+
+    const z = -1.4
+      - 1.1 * Math.log(Math.max(monthlyIncome, 1000) / 30000)
+      + employment.effect
+      + (documentsVerified ? -0.5 : 0.6)
+      + (faceVerified ? -0.3 : 0.4)
+      + 2 * (foir - 0.3);
+    const defaulted = random() < 1 / (1 + Math.exp(-z));
+
+    return { monthlyIncome, employmentType: employment.type, documentsVerified, faceVerified, obligations, defaulted };
+  });
+}
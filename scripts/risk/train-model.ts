@@ -0,0 +1,72 @@
+// Trains a risk model from a labelled applicant CSV and reports how it does.
+//
+//   npm run risk:train -- --input scripts/risk/out/applicants.csv --version lr-v3
+//
+// Options: --base <model.json> (bands and categories to train; defaults to
+// DEFAULT_RISK_MODEL in risk.ts), --ridge <penalty>, --seed <split seed>,
+// --out <dir>. Writes <version>.json (a RiskModel) and <version>.sql, which
+// loads it as the challenger so it runs in shadow before anyone promotes it.
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { DEFAULT_RISK_MODEL, parseRiskModel } from "../../supabase/functions/_shared/risk.ts";
+import { parseApplicantsCsv, train, type EvaluationReport } from "./training.ts";
+
+const { values } = parseArgs({
+  options: {
+    input: { type: "string" },
+    version: { type: "string" },
+    base: { type: "string" },
+    ridge: { type: "string", default: "1" },
+    seed: { type: "string", default: "1" },
+    out: { type: "string", default: "scripts/risk/out" },
+  },
+});
+
+if (!values.input || !values.version) {
+  console.error("Usage: npm run risk:train -- --input <applicants.csv> --version <model version> [--base <model.json>] [--ridge 1] [--seed 1] [--out dir]");
+  process.exit(1);
+}
+
+const base = values.base ? parseRiskModel(JSON.parse(readFileSync(values.base, "utf8"))) : DEFAULT_RISK_MODEL;
+const applicants = parseApplicantsCsv(readFileSync(values.input, "utf8"));
+const run = train(applicants, { base, version: values.version, ridge: Number(values.ridge), seed: Number(values.seed) });
+
+// ── Report ────────────────────────────────────────────────────────────────────
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+const metrics = (label: string, r: EvaluationReport) =>
+  `${label.padEnd(22)} n=${String(r.count).padEnd(6)} default=${pct(r.defaultRate).padEnd(7)} AUC=${r.auc.toFixed(3)}  KS=${r.ks.toFixed(3)}  Brier=${r.brier.toFixed(4)}`;
+
+console.log(`Fit ${run.fit.converged ? "converged" : "did NOT converge"} after ${run.fit.iterations} iterations\n`);
+console.log(metrics(`${values.version} (train)`, run.train));
+console.log(metrics(`${values.version} (holdout)`, run.holdout));
+console.log(metrics(`${base.version} (holdout)`, run.baseline));
+
+console.log("\nHoldout calibration (equal-count bins)");
+console.log("  predicted  observed  n");
+run.holdout.calibration.forEach((b) => console.log(`  ${pct(b.meanPredicted).padStart(9)}  ${pct(b.observedRate).padStart(8)}  ${b.count}`));
+
+console.log("\nCoefficients");
+console.log(`  intercept ${run.model.intercept}`);
+run.model.incomeBands.forEach((b) => console.log(`  income ${b.band}: ${b.coefficient}`));
+Object.entries(run.model.employment).forEach(([type, c]) => console.log(`  employment ${type}: ${c}`));
+console.log(`  employment (other): ${run.model.otherEmployment}`);
+console.log(`  documents verified/unverified: ${run.model.documents.verified} / ${run.model.documents.unverified}`);
+console.log(`  face verified/unverified: ${run.model.face.verified} / ${run.model.face.unverified}`);
+run.model.foirBands?.forEach((b) => console.log(`  FOIR ${b.band}: ${b.coefficient}`));
+
+// ── Export ────────────────────────────────────────────────────────────────────
+
+const { version, ...definition } = run.model;
+mkdirSync(values.out, { recursive: true });
+writeFileSync(join(values.out, `${version}.json`), JSON.stringify(run.model, null, 2) + "\n");
+writeFileSync(
+  join(values.out, `${version}.sql`),
+  `-- Trained from ${values.input}; holdout AUC ${run.holdout.auc.toFixed(3)}, KS ${run.holdout.ks.toFixed(3)}\n`
+    + `update public.risk_models set status = 'retired' where status = 'challenger';\n`
+    + `insert into public.risk_models (version, status, definition)\n`
+    + `values ('${version.replace(/'/g, "''")}', 'challenger', '${JSON.stringify(definition).replace(/'/g, "''")}'::jsonb);\n`,
+);
+console.log(`\nWrote ${join(values.out, `${version}.json`)} and ${version}.sql`);
@@ -0,0 +1,320 @@
+// Offline training for the logistic regression risk model in
+// supabase/functions/_shared/risk.ts.
+//
+// Applicants are encoded exactly as calculateRisk scores them: one-hot income
+// band, employment type, document and face verification, and FOIR band when
+// the base model has FOIR bands. The fit is a ridge
+// regularised Newton–Raphson (IRLS); the penalty keeps the one-hot groups
+// identifiable alongside the intercept. The trained coefficients are written
+// back into a RiskModel, so the result loads into the risk_models table as is.
+
+import { calculateRisk, findBand, parseRiskModel, type RiskInputs, type RiskModel } from "../../supabase/functions/_shared/risk.ts";
+
+// ── Data ──────────────────────────────────────────────────────────────────────
+
+export interface LabelledApplicant extends RiskInputs {
+  defaulted: boolean;
+}
+
+export const CSV_COLUMNS = [
+  "monthly_income",
+  "employment_type",
+  "documents_verified",
+  "face_verified",
+  "monthly_emi",
+  "monthly_rent",
+  "credit_card_dues",
+  "defaulted",
+] as const;
+
+const truthy = (value: string) => ["1", "true", "yes"].includes(value.trim().toLowerCase());
+
+/** Parses the training CSV. Columns may come in any order; extra columns are ignored. */
+export function parseApplicantsCsv(csv: string): LabelledApplicant[] {
+  const [header, ...rows] = csv.trim().split(/\r?\n/);
+  const columns = header.split(",").map((c) => c.trim());
+  const index = Object.fromEntries(CSV_COLUMNS.map((c) => [c, columns.indexOf(c)]));
+  const missing = CSV_COLUMNS.filter((c) => index[c] === -1);
+  if (missing.length) throw new Error(`CSV is missing column(s): ${missing.join(", ")}`);
+
+  return rows.filter((r) => r.trim()).map((row, i) => {
+    const cells = row.split(",");
+    const amount = (column: (typeof CSV_COLUMNS)[number]) => {
+      const value = Number(cells[index[column]]);
+      if (!Number.isFinite(value)) throw new Error(`Row ${i + 2}: ${column} is not a number`);
+      return value;
+    };
+    return {
+      monthlyIncome: amount("monthly_income"),
+      employmentType: cells[index.employment_type].trim().toLowerCase(),
+      documentsVerified: truthy(cells[index.documents_verified]),
+      faceVerified: truthy(cells[index.face_verified]),
+      obligations: { emi: amount("monthly_emi"), rent: amount("monthly_rent"), creditCardDues: amount("credit_card_dues") },
+      defaulted: truthy(cells[index.defaulted]),
+    };
+  });
+}
+
+export function formatApplicantsCsv(applicants: LabelledApplicant[]): string {
+  const rows = applicants.map((a) => [
+    a.monthlyIncome,
+    a.employmentType,
+    Number(a.documentsVerified),
+    Number(a.faceVerified),
+    a.obligations.emi,
+    a.obligations.rent,
+    a.obligations.creditCardDues,
+    Number(a.defaulted),
+  ].join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+// ── Feature encoding ──────────────────────────────────────────────────────────
+
+/** Column layout shared by encode() and toRiskModel(); derived from the base model's bands and categories. */
+interface FeatureLayout {
+  bands: number;
+  employment: string[];
+  foirBands: number;
+}
+
+function layoutOf(base: RiskModel): FeatureLayout {
+  return { bands: base.incomeBands.length, employment: Object.keys(base.employment), foirBands: base.foirBands?.length ?? 0 };
+}
+
+/** Index 0 is the intercept; then bands, employment types, "other" employment, documents ±, face ±, FOIR bands. */
+function encode(a: RiskInputs, base: RiskModel, layout: FeatureLayout): number[] {
+  const x = new Array(1 + layout.bands + layout.employment.length + 1 + 4 + layout.foirBands).fill(0);
+  x[0] = 1;
+  x[1 + base.incomeBands.indexOf(findBand(base.incomeBands, a.monthlyIncome))] = 1;
+  const emp = layout.employment.indexOf(a.employmentType.toLowerCase());
+  x[1 + layout.bands + (emp === -1 ? layout.employment.length : emp)] = 1;
+  const v = 1 + layout.bands + layout.employment.length + 1;
+  x[v + (a.documentsVerified ? 0 : 1)] = 1;
+  x[v + 2 + (a.faceVerified ? 0 : 1)] = 1;
+  if (base.foirBands) {
+    const foir = calculateRisk(a, base).foir;
+    x[v + 4 + base.foirBands.indexOf(findBand(base.foirBands, foir))] = 1;
+  }
+  return x;
+}
+
+// ── Fitting ───────────────────────────────────────────────────────────────────
+
+export interface TrainingOptions {
+  /** L2 penalty on every coefficient except the intercept. */
+  ridge?: number;
+  maxIterations?: number;
+  tolerance?: number;
+}
+
+export interface FitResult {
+  weights: number[];
+  iterations: number;
+  converged: boolean;
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+/** Solves A·x = b by Gaussian elimination with partial pivoting. */
+function solve(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) throw new Error("Training matrix is singular; increase the ridge penalty");
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    x[r] = (m[r][n] - dot(m[r].slice(r + 1, n), x.slice(r + 1))) / m[r][r];
+  }
+  return x;
+}
+
+export function fitLogistic(X: number[][], y: number[], options: TrainingOptions = {}): FitResult {
+  const { ridge = 1, maxIterations = 50, tolerance = 1e-8 } = options;
+  const k = X[0].length;
+  let w = new Array(k).fill(0);
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    const gradient = w.map((wj, j) => (j === 0 ? 0 : ridge * wj));
+    const hessian = Array.from({ length: k }, (_, i) => Array.from({ length: k }, (_, j) => (i === j && i !== 0 ? ridge : 0)));
+
+    X.forEach((x, n) => {
+      const p = sigmoid(dot(w, x));
+      const s = p * (1 - p);
+      for (let i = 0; i < k; i++) {
+        if (!x[i]) continue;
+        gradient[i] += (p - y[n]) * x[i];
+        for (let j = 0; j < k; j++) if (x[j]) hessian[i][j] += s * x[i] * x[j];
+      }
+    });
+
+    const step = solve(hessian, gradient);
+    w = w.map((wj, j) => wj - step[j]);
+    if (Math.max(...step.map(Math.abs)) < tolerance) return { weights: w, iterations: iteration, converged: true };
+  }
+  return { weights: w, iterations: maxIterations, converged: false };
+}
+
+/** Writes fitted weights into a copy of the base model under a new version. */
+function toRiskModel(weights: number[], base: RiskModel, layout: FeatureLayout, version: string): RiskModel {
+  const round = (n: number) => Math.round(n * 1e4) / 1e4;
+  const at = (i: number) => round(weights[i]);
+  const e = 1 + layout.bands;
+  const v = e + layout.employment.length + 1;
+  return parseRiskModel({
+    ...base,
+    version,
+    intercept: at(0),
+    incomeBands: base.incomeBands.map((b, i) => ({ ...b, coefficient: at(1 + i) })),
+    employment: Object.fromEntries(layout.employment.map((name, i) => [name, at(e + i)])),
+    otherEmployment: at(e + layout.employment.length),
+    documents: { verified: at(v), unverified: at(v + 1) },
+    face: { verified: at(v + 2), unverified: at(v + 3) },
+    ...(base.foirBands ? { foirBands: base.foirBands.map((b, i) => ({ ...b, coefficient: at(v + 4 + i) })) } : {}),
+  });
+}
+
+// ── Evaluation ────────────────────────────────────────────────────────────────
+
+export interface CalibrationBin {
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface EvaluationReport {
+  count: number;
+  defaultRate: number;
+  auc: number;
+  ks: number;
+  brier: number;
+  /** Equal-count bins ordered by predicted probability. */
+  calibration: CalibrationBin[];
+}
+
+/** Area under the ROC curve via the rank-sum statistic, averaging tied ranks. */
+export function auc(scores: number[], labels: boolean[]): number {
+  const order = scores.map((s, i) => ({ s, y: labels[i] })).sort((a, b) => a.s - b.s);
+  let rankSum = 0;
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j < order.length && order[j].s === order[i].s) j++;
+    const rank = (i + 1 + j) / 2;
+    for (let t = i; t < j; t++) if (order[t].y) rankSum += rank;
+    i = j;
+  }
+  const positives = labels.filter(Boolean).length;
+  const negatives = labels.length - positives;
+  if (!positives || !negatives) return NaN;
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+/** Kolmogorov–Smirnov: the largest gap between the score distributions of defaulters and non-defaulters. */
+export function ks(scores: number[], labels: boolean[]): number {
+  const positives = labels.filter(Boolean).length;
+  const negatives = labels.length - positives;
+  if (!positives || !negatives) return NaN;
+  const order = scores.map((s, i) => ({ s, y: labels[i] })).sort((a, b) => a.s - b.s);
+  let tp = 0;
+  let fp = 0;
+  let best = 0;
+  for (let i = 0; i < order.length; i++) {
+    if (order[i].y) tp++;
+    else fp++;
+    if (i + 1 < order.length && order[i + 1].s === order[i].s) continue;
+    best = Math.max(best, Math.abs(tp / positives - fp / negatives));
+  }
+  return best;
+}
+
+export function calibration(scores: number[], labels: boolean[], bins = 10): CalibrationBin[] {
+  const order = scores.map((s, i) => ({ s, y: labels[i] })).sort((a, b) => a.s - b.s);
+  const size = Math.ceil(order.length / bins);
+  const result: CalibrationBin[] = [];
+  for (let i = 0; i < order.length; i += size) {
+    const bin = order.slice(i, i + size);
+    result.push({
+      count: bin.length,
+      meanPredicted: bin.reduce((sum, b) => sum + b.s, 0) / bin.length,
+      observedRate: bin.filter((b) => b.y).length / bin.length,
+    });
+  }
+  return result;
+}
+
+export function evaluate(model: RiskModel, applicants: LabelledApplicant[]): EvaluationReport {
+  const scores = applicants.map((a) => calculateRisk(a, model).probability);
+  const labels = applicants.map((a) => a.defaulted);
+  return {
+    count: applicants.length,
+    defaultRate: labels.filter(Boolean).length / labels.length,
+    auc: auc(scores, labels),
+    ks: ks(scores, labels),
+    brier: scores.reduce((sum, p, i) => sum + (p - Number(labels[i])) ** 2, 0) / scores.length,
+    calibration: calibration(scores, labels),
+  };
+}
+
+// ── Pipeline ──────────────────────────────────────────────────────────────────
+
+export interface TrainingRun {
+  model: RiskModel;
+  fit: FitResult;
+  train: EvaluationReport;
+  holdout: EvaluationReport;
+  /** The base model scored on the same holdout, for comparison. */
+  baseline: EvaluationReport;
+}
+
+/** Deterministic shuffle so the same seed always gives the same split. */
+function shuffled<T>(items: T[], seed: number): T[] {
+  const random = mulberry32(seed);
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+export function train(
+  applicants: LabelledApplicant[],
+  { base, version, holdoutFraction = 0.2, seed = 1, ...options }: TrainingOptions & { base: RiskModel; version: string; holdoutFraction?: number; seed?: number },
+): TrainingRun {
+  const split = shuffled(applicants, seed);
+  const holdoutSize = Math.round(split.length * holdoutFraction);
+  const holdout = split.slice(0, holdoutSize);
+  const training = split.slice(holdoutSize);
+
+  const layout = layoutOf(base);
+  const fit = fitLogistic(training.map((a) => encode(a, base, layout)), training.map((a) => Number(a.defaulted)), options);
+  const model = toRiskModel(fit.weights, base, layout, version);
+
+  return { model, fit, train: evaluate(model, training), holdout: evaluate(model, holdout), baseline: evaluate(base, holdout) };
+}
+
+/** Small seeded PRNG (mulberry32) so synthetic data and splits are reproducible. */
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
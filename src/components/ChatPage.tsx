@@ -2,7 +2,57 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import ChatStarCanvas from "./ChatStarCanvas";
 import FaceVerification from "./FaceVerification";
 import { scanQRFromBase64 } from "@/utils/qrScanner";
+import {
+  eAadhaarPasswordCandidates,
+  extractPdfText,
+  isPdfFile,
+  openPdf,
+  PdfPasswordError,
+  renderPdfPages,
+  type RenderedPdfPage,
+} from "@/utils/pdfDocument";
 import { useBehavioralFraud } from "@/hooks/useBehavioralFraud";
+import {
+  checkMonthlyIncome,
+  detectEmployment,
+  initialOnboardingState,
+  transition,
+  type DocumentType,
+  type IdentitySummary,
+  type MonthlyObligations,
+  type OnboardingEvent,
+  type OnboardingMachineState,
+  type OnboardingStep,
+  type TransitionResult,
+} from "@shared/onboarding";
+import { issueAccount } from "@shared/account";
+import { HANDOFF_POLL_MS, readHandoffId } from "@shared/handoff";
+import { parseStreamLine, type ChatStreamEvent } from "@shared/protocol";
+import { reviewTriggers, type BehaviorSummary, type ReviewTrigger } from "@shared/review";
+import { REASON_CODES, type RiskResult } from "@shared/risk";
+import {
+  isClientEvent,
+  replaysOnResume,
+  resumeTranscript,
+  type ClientOnboardingEvent,
+  type SessionAccount,
+  type SessionSnapshot,
+} from "@shared/session";
+import {
+  ENDPOINTS,
+  type AccountCreateResponse,
+  type ChatRequest,
+  type DocumentVerification,
+  type ErrorResponse,
+  type OnboardRequest,
+  type RequestReviewResponse,
+  type ScoreRiskResponse,
+  type ScreenApplicantResponse,
+  type SessionStartResponse,
+  type VerifyDocumentResponse,
+  type VerifyIncomeRequest,
+  type VerifyIncomeResponse,
+} from "@shared/api";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -11,28 +61,32 @@ interface Message {
   content: string;
   isFile?: boolean;
   isAccountDetails?: boolean;
+  fromServer?: boolean;
 }
 
 interface ChatPageProps {
   onClose: () => void;
 }
 
-interface RiskResult {
-  probability: number;
-  level: "Low" | "Medium" | "High";
-  dti: number;
-  explanation: string;
+type StreamAction = Exclude<ChatStreamEvent, { type: "text_delta" | "error" }>;
+
+/** A PDF upload waiting for its password (locked) or for the user to pick a page. */
+interface PdfUpload {
+  fileName: string;
+  data: ArrayBuffer;
+  locked: boolean;
+  pages: RenderedPdfPage[];
 }
 
-type OnboardingStep = "chat" | "awaitingIncome" | "awaitingFace" | "awaitingEmail" | "done";
+/** Income entered at the income step while its obligations are still being asked for. */
+interface IncomeDraft {
+  monthlyIncome: number;
+  obligations: Partial<MonthlyObligations>;
+}
 
 interface OnboardingState {
-  employmentType: string;
-  monthlyIncome: number | null;
-  documentsVerified: boolean;
-  faceVerified: boolean;
+  machine: OnboardingMachineState;
   riskResult: RiskResult | null;
-  step: OnboardingStep;
   accountNumber: string;
   ifsc: string;
   accountType: string;
@@ -42,43 +96,100 @@ interface OnboardingState {
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
-
-const FACE_TRIGGER_PHRASES = [
-  "face verification",
-  "camera will open",
-  "open the camera",
-  "liveness check",
-  "selfie",
-  "face scan",
-];
-
-const INCOME_TRIGGER_PHRASES = [
-  "monthly income",
-  "financial profile",
-  "income in inr",
-  "your income",
+const SESSION_STORAGE_KEY = "onboardx.sessionId";
+
+const STEP_PROGRESS: Record<OnboardingStep, number> = {
+  employment: 5,
+  pan: 15,
+  aadhaar: 30,
+  income: 40,
+  statement: 50,
+  face: 60,
+  risk: 75,
+  account: 85,
+  email: 95,
+  done: 100,
+};
+
+/** Asked in order after the monthly income. */
+const OBLIGATION_QUESTIONS: { key: keyof MonthlyObligations; question: string; hint: string }[] = [
+  { key: "emi", question: "🏦 Do you pay any loan EMIs? Enter the total per month in ₹, or 0 if none.", hint: "Total monthly loan EMIs in ₹ (0 if none)" },
+  { key: "rent", question: "🏠 How much rent do you pay per month? Enter 0 if none.", hint: "Monthly rent in ₹ (0 if none)" },
+  { key: "creditCardDues", question: "💳 How much do you pay towards credit cards each month? Enter 0 if none.", hint: "Monthly credit card payments in ₹ (0 if none)" },
 ];
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
-function generateAccountDetails() {
-  const accountNumber = "3" + Math.floor(Math.random() * 90000000000 + 10000000000);
-  const ifscCodes = ["ONBX0001234", "ONBX0005678", "ONBX0009012"];
-  const ifsc = ifscCodes[Math.floor(Math.random() * ifscCodes.length)];
-  return { accountNumber, ifsc };
+const rupees = (n: number) => `₹${n.toLocaleString("en-IN")}`;
+
+/** Reads a rupee amount typed in chat; "none", "no" and "nil" count as zero. */
+function parseAmount(text: string): number {
+  if (/^\s*(none|no|nil|nothing)\s*$/i.test(text)) return 0;
+  return parseFloat(text.replace(/[^0-9.]/g, ""));
+}
+
+function nextObligationQuestion(draft: IncomeDraft) {
+  return OBLIGATION_QUESTIONS.find((q) => draft.obligations[q.key] === undefined) ?? null;
+}
+
+function isCsvFile(file: File): boolean {
+  return file.type === "text/csv" || file.name.toLowerCase().endsWith(".csv");
+}
+
+/** Summary of a bank statement analysis for the chat. */
+function describeIncomeVerification(v: VerifyIncomeResponse): string {
+  const lines = [
+    `${v.consistent ? "✅" : "⚠️"} Bank Statement — ${v.consistent ? "Income Verified" : "Income Mismatch"}\n`,
+    `📅 Period: ${v.periodStart} to ${v.periodEnd} (${v.monthsCovered} months, ${v.transactionCount} transactions)`,
+    `💼 Salary credits: ${v.salaryDetected ? `✅ ${v.salaryCredits.length} found` : "❌ None found"}`,
+    `📈 Average monthly inflow: ${rupees(v.averageMonthlyInflow)}`,
+    `↩️ Returned/bounced payments: ${v.bounces.length ? `⚠️ ${v.bounces.length}` : "✅ None"}`,
+    `💰 Verified income: ${rupees(v.verifiedIncome)}/month (declared ${rupees(v.declaredIncome)})`,
+  ];
+  if (v.flags.length) lines.push(`\n🚩 ${v.flags.join("; ")}`);
+  return lines.join("\n");
+}
+
+/** Log-odds breakdown of a risk score, largest driver first, plus its reason codes. */
+function describeRiskBreakdown(result: RiskResult): string {
+  if (!result.contributions.length) return "";
+  const signed = (n: number) => `${n > 0 ? "+" : n < 0 ? "−" : ""}${Math.abs(n).toFixed(2)}`;
+  const z = result.contributions.reduce((sum, c) => sum + c.contribution, result.baseline);
+
+  const lines = [...result.contributions]
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .map((c) => `${c.contribution > 0 ? "▲" : "▼"} ${signed(c.contribution)}  ${c.label}`);
+
+  const reasons = result.reasonCodes.length
+    ? `\n\n🧾 Reason codes:\n${result.reasonCodes.map((r) => `${r.code} — ${r.description}`).join("\n")}`
+    : "";
+
+  return `\n\n📊 What drove this score (log-odds, ▲ raises risk):\n`
+    + `Baseline ${signed(result.baseline)}\n${lines.join("\n")}\n`
+    + `Total ${signed(z)} → ${(result.probability * 100).toFixed(0)}% default probability`
+    + reasons;
 }
 
-function detectEmployment(text: string): string {
-  const t = text.toLowerCase();
-  if (t.includes("freelan")) return "freelancer";
-  if (t.includes("salar")) return "salaried";
-  if (t.includes("business") || t.includes("owner")) return "business";
-  if (t.includes("student")) return "student";
-  return "";
+function expectedDocumentType(step: OnboardingStep): DocumentType | null {
+  if (step === "pan") return "PAN";
+  if (step === "aadhaar") return "Aadhaar";
+  return null;
 }
 
-async function callEdgeFunction(body: Record<string, unknown>) {
-  return fetch(`${SUPABASE_URL}/functions/v1/onboardx-chat`, {
+const REVIEW_HOLD_MESSAGE =
+  "🛡️ Your application is under review by our team before the account can be opened. We'll be in touch — there's nothing more you need to do right now.";
+const REVIEW_REJECTED_MESSAGE = "We're sorry — after review we can't open an account for you at this time.";
+const RISK_UNAVAILABLE_MESSAGE =
+  "⚠️ We couldn't complete the risk assessment right now, so your account hasn't been opened yet. Your progress is saved — please come back in a little while.";
+const ACCOUNT_UNAVAILABLE_MESSAGE =
+  "⚠️ We couldn't open your account right now. Your progress is saved — please come back in a little while.";
+const HANDED_OFF_MESSAGE = "📱 Your face check is done and your application is carrying on on your phone. You can close this page.";
+
+/** Students get a fixed policy result rather than a model score. */
+const STUDENT_POLICY_VERSION = "student-policy";
+
+async function callEdgeFunction(body: OnboardRequest) {
+  return fetch(`${SUPABASE_URL}/functions/v1/${ENDPOINTS[body.action]}`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -94,18 +205,17 @@ export default function ChatPage({ onClose }: ChatPageProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [progress, setProgress] = useState(5);
   const [showFaceVerify, setShowFaceVerify] = useState(false);
+  /** waiting: the face check was handed to a phone; phone: the phone has taken the session over. Either way this page no longer writes. */
+  const [handoff, setHandoff] = useState<"none" | "waiting" | "phone">("none");
   const [documentBase64, setDocumentBase64] = useState<string | undefined>();
-  const [productRecommended, setProductRecommended] = useState(false);
+  const [requestedDocument, setRequestedDocument] = useState<DocumentType | null>(null);
+  const [pdfUpload, setPdfUpload] = useState<PdfUpload | null>(null);
+  const [incomeDraft, setIncomeDraft] = useState<IncomeDraft | null>(null);
 
   const [onboarding, setOnboarding] = useState<OnboardingState>({
-    employmentType: "",
-    monthlyIncome: null,
-    documentsVerified: false,
-    faceVerified: false,
+    machine: initialOnboardingState(),
     riskResult: null,
-    step: "chat",
     accountNumber: "",
     ifsc: "",
     accountType: "",
@@ -113,45 +223,279 @@ export default function ChatPage({ onClose }: ChatPageProps) {
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textInputRef = useRef<HTMLInputElement>(null);
   const chatStarted = useRef(false);
-  const accountCreated = useRef(false);
   const onboardingRef = useRef(onboarding);
+  const messagesRef = useRef(messages);
+  const sessionIdRef = useRef<string | null>(null);
+  /** Events applied here since the last save; the server replays them on the stored state. */
+  const pendingEventsRef = useRef<ClientOnboardingEvent[]>([]);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const startSessionRef = useRef(startSession);
+  const streamActionRef = useRef<(event: StreamAction) => void>(() => {});
 
   const { recordKeystroke, recordPaste, recordIdUpload, analyze: analyzeBehavior } = useBehavioralFraud();
 
+  const step = onboarding.machine.step;
+  const progress = STEP_PROGRESS[step];
+
   useEffect(() => { onboardingRef.current = onboarding; }, [onboarding]);
+  useEffect(() => { messagesRef.current = messages; }, [messages]);
   useEffect(() => { messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }); }, [messages]);
 
   useEffect(() => {
     if (!chatStarted.current) {
       chatStarted.current = true;
-      streamBot(
-        "Greet the user warmly and ask if they are a freelancer, salaried employee, business owner, or student — in one short sentence.",
-        []
-      );
+      startSessionRef.current();
     }
   }, []);
 
+  // Persist the conversation once the UI settles so a refresh can resume it
+  useEffect(() => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId || isLoading || handoff !== "none") return;
+
+    const timer = setTimeout(() => {
+      saveSession();
+      if (onboarding.machine.step === "done") localStorage.removeItem(SESSION_STORAGE_KEY);
+    }, 800);
+
+    return () => clearTimeout(timer);
+  }, [messages, onboarding, isLoading, handoff]);
+
+  // Once the phone has finished the face check it drives the rest of the
+  // application, so this page only mirrors the transcript: replaying the step
+  // here would score risk and open an account a second time.
+  useEffect(() => {
+    const sessionId = sessionIdRef.current;
+    if (handoff !== "waiting" || !sessionId) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const resp = await callEdgeFunction({ action: "session_resume", sessionId });
+        if (!resp.ok) return;
+        const snapshot: SessionSnapshot = await resp.json();
+        if (snapshot.onboarding.step === "face") return;
+        setHandoff("phone");
+        setShowFaceVerify(false);
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+        setOnboarding((prev) => ({ ...prev, machine: snapshot.onboarding, riskResult: snapshot.riskResult, ...snapshot.account }));
+        setMessages([...snapshot.messages, { role: "bot", content: HANDED_OFF_MESSAGE }]);
+      } catch {
+        // Try again on the next tick
+      }
+    }, HANDOFF_POLL_MS);
+    return () => clearInterval(timer);
+  }, [handoff]);
+
+  // ── Session ─────────────────────────────────────────────────────────────────
+
+  async function startSession() {
+    // Opened from another device's handoff link: continue that session here
+    const handoffId = readHandoffId(window.location.search);
+    if (handoffId) {
+      window.history.replaceState(null, "", window.location.pathname);
+      try {
+        const resp = await callEdgeFunction({ action: "session_claim", handoffId });
+        if (resp.ok) {
+          const snapshot: SessionSnapshot = await resp.json();
+          localStorage.setItem(SESSION_STORAGE_KEY, snapshot.sessionId);
+          restoreSession(snapshot, "📱 Carrying on from your computer.");
+          return;
+        }
+        const error = ((await resp.json().catch(() => null)) as ErrorResponse | null)?.error ?? "This link didn't work";
+        setMessages([{ role: "bot", content: `⚠️ ${error}. Ask for a new one on your computer, or start here.` }]);
+      } catch {
+        // Fall through to this device's own session
+      }
+    }
+
+    const storedId = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (storedId) {
+      try {
+        const resp = await callEdgeFunction({ action: "session_resume", sessionId: storedId });
+        if (resp.ok) {
+          restoreSession(await resp.json());
+          return;
+        }
+      } catch {
+        // Fall through to a fresh session
+      }
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+
+    try {
+      const resp = await callEdgeFunction({ action: "session_start" });
+      if (resp.ok) {
+        const { sessionId }: SessionStartResponse = await resp.json();
+        sessionIdRef.current = sessionId;
+        localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+      }
+    } catch {
+      // Continue without persistence
+    }
+
+    streamBot("Greet the user warmly and ask the question for the current step — in one short sentence.", []);
+  }
+
+  function restoreSession(snapshot: SessionSnapshot, greeting?: string) {
+    sessionIdRef.current = snapshot.sessionId;
+    pendingEventsRef.current = [];
+    updateOnboarding({ machine: snapshot.onboarding, riskResult: snapshot.riskResult, ...snapshot.account });
+    if (snapshot.documentBase64) setDocumentBase64(snapshot.documentBase64);
+
+    const restored: Message[] = resumeTranscript(snapshot, greeting);
+    setMessages(restored);
+
+    // Re-entering the step through the stream replays its action (camera, upload prompt, …)
+    if (replaysOnResume(snapshot.onboarding.step)) {
+      streamBot("I'm back. Remind me what's needed for the current step in one short sentence.", restored);
+    }
+  }
+
+
+  // ── State machine ───────────────────────────────────────────────────────────
+
+  // The ref is updated synchronously so follow-up handlers in the same tick see
+  // the new step before React re-renders.
+  function updateOnboarding(patch: Partial<OnboardingState>) {
+    onboardingRef.current = { ...onboardingRef.current, ...patch };
+    setOnboarding((prev) => ({ ...prev, ...patch }));
+  }
+
+  function dispatch(event: OnboardingEvent): TransitionResult {
+    const result = transition(onboardingRef.current.machine, event);
+    if (result.accepted) updateOnboarding({ machine: result.state });
+    if (result.accepted && isClientEvent(event)) pendingEventsRef.current.push(event);
+    return result;
+  }
+
+  // Saves go out one at a time so the server applies the events in the order
+  // they happened; a failed save's events go out again with the next one.
+  function saveSession(): Promise<void> {
+    const save = async () => {
+      const sessionId = sessionIdRef.current;
+      if (!sessionId) return;
+      const events = pendingEventsRef.current;
+      pendingEventsRef.current = [];
+      try {
+        const resp = await callEdgeFunction({
+          action: "session_save",
+          save: { sessionId, events, riskResult: onboardingRef.current.riskResult, messages: messagesRef.current },
+        });
+        if (resp.ok) return;
+      } catch {
+        // Best effort
+      }
+      pendingEventsRef.current = [...events, ...pendingEventsRef.current];
+    };
+    saveQueueRef.current = saveQueueRef.current.then(save);
+    return saveQueueRef.current;
+  }
+
+  // ── Stream actions ──────────────────────────────────────────────────────────
+
+  // Action events arrive after the model's text for the current step; see
+  // _shared/protocol.ts for the schema.
+  function handleStreamAction(event: StreamAction) {
+    switch (event.type) {
+      case "request_document":
+        setRequestedDocument(event.documentType);
+        break;
+      case "request_income":
+      case "request_statement":
+        setTimeout(() => textInputRef.current?.focus(), 0);
+        break;
+      case "start_face_verification":
+        setTimeout(() => setShowFaceVerify(true), 1000);
+        break;
+      case "run_risk_scoring":
+        setTimeout(() => handleRiskStep(messagesRef.current), 1000);
+        break;
+      case "show_account":
+        setTimeout(() => finalizeAccount(), 1200);
+        break;
+    }
+  }
+  streamActionRef.current = handleStreamAction;
+
   // ── Risk Scoring ────────────────────────────────────────────────────────────
 
-  async function runRiskScoring(income: number): Promise<RiskResult | null> {
-    const ob = onboardingRef.current;
+  async function runRiskScoring(): Promise<RiskResult | null> {
+    const { context } = onboardingRef.current.machine;
     try {
       const resp = await callEdgeFunction({
-        riskData: {
-          monthlyIncome: income,
-          employmentType: ob.employmentType || "salaried",
-          documentsVerified: ob.documentsVerified,
-          faceVerified: ob.faceVerified,
-        },
+        action: "score_risk",
+        monthlyIncome: context.monthlyIncome ?? 0,
+        employmentType: context.employmentType || "salaried",
+        documentsVerified: context.panVerified && context.aadhaarVerified,
+        faceVerified: context.faceVerified,
+        obligations: context.obligations ?? { emi: 0, rent: 0, creditCardDues: 0 },
+        verifiedIncome: context.verifiedIncome,
+        sessionId: sessionIdRef.current,
       });
       if (!resp.ok) return null;
-      return await resp.json();
+      return (await resp.json()) as ScoreRiskResponse;
     } catch {
       return null;
     }
   }
 
+  async function handleRiskStep(currentMessages: Message[]) {
+    const isStudent = onboardingRef.current.machine.context.employmentType === "student";
+    let riskMsg: Message;
+
+    if (isStudent) {
+      // Students are not model-scored, so there is no breakdown to show
+      const studentRisk: RiskResult = {
+        modelVersion: STUDENT_POLICY_VERSION,
+        probability: 0.65,
+        level: "High",
+        dti: 0,
+        foir: 0,
+        explanation: "Limited credit history. Secured student products recommended.",
+        baseline: 0,
+        contributions: [],
+        reasonCodes: [REASON_CODES.employment],
+      };
+      updateOnboarding({ riskResult: studentRisk });
+      riskMsg = {
+        role: "bot",
+        content:
+          `🎓 Student Profile Detected\n\n` +
+          `🔵 Limited credit history detected. Recommending secured student products.\n\n` +
+          `✅ Student Savings Account + Secured Student Card\n` +
+          `❌ High-value loans: Not applicable`,
+      };
+    } else {
+      const loadingMsg: Message = { role: "bot", content: "⏳ Running risk assessment…" };
+      setMessages([...currentMessages, loadingMsg]);
+
+      const riskResult = await runRiskScoring();
+      if (riskResult) {
+        updateOnboarding({ riskResult });
+        const emoji = riskResult.level === "Low" ? "🟢" : riskResult.level === "Medium" ? "🟡" : "🔴";
+        riskMsg = {
+          role: "bot",
+          content:
+            `${emoji} Risk Assessment — ${riskResult.level} Risk\n\n` +
+            `${riskResult.explanation}\n\n` +
+            `Default probability: ${(riskResult.probability * 100).toFixed(0)}% | DTI: ${riskResult.dti.toFixed(0)}% | FOIR: ${riskResult.foir.toFixed(0)}%` +
+            describeRiskBreakdown(riskResult),
+        };
+      } else {
+        // Without a score the risk_high review trigger cannot fire, so the account waits
+        setMessages([...currentMessages, { role: "bot", content: RISK_UNAVAILABLE_MESSAGE }]);
+        return;
+      }
+    }
+
+    const newMsgs = [...currentMessages, riskMsg];
+    setMessages(newMsgs);
+    dispatch({ type: "RISK_SCORED" });
+    streamBot("Risk scoring is complete.", newMsgs);
+  }
+
   // ── Finalize account ────────────────────────────────────────────────────────
 
   function getProductRecommendation(empType: string, riskLevel?: string): string {
@@ -165,23 +509,120 @@ export default function ChatPage({ onClose }: ChatPageProps) {
     return recs[empType] || recs.salaried;
   }
 
-  function finalizeAccount(currentMessages: Message[]) {
-    if (accountCreated.current) return;
-    accountCreated.current = true;
+  // Screens the PAN card details stored with the session, so it needs this page's events saved first
+  async function runScreening(): Promise<ScreenApplicantResponse | null> {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return null;
+    try {
+      await saveSession();
+      const resp = await callEdgeFunction({ action: "screen_applicant", sessionId });
+      if (!resp.ok) return null;
+      return (await resp.json()) as ScreenApplicantResponse;
+    } catch {
+      return null;
+    }
+  }
 
-    const { accountNumber, ifsc } = generateAccountDetails();
-    const ob = onboardingRef.current;
+  /** Parks the application with the review team instead of opening the account. */
+  async function submitForReview(triggers: ReviewTrigger[], behavior: BehaviorSummary) {
+    let caseId: string | null = null;
+    if (sessionIdRef.current) {
+      try {
+        await saveSession();
+        const resp = await callEdgeFunction({ action: "request_review", triggers, behavior, sessionId: sessionIdRef.current });
+        if (resp.ok) caseId = ((await resp.json()) as RequestReviewResponse).caseId;
+      } catch {
+        // Reported below
+      }
+    }
+
+    if (!caseId || !dispatch({ type: "REVIEW_REQUESTED" }).accepted) {
+      setMessages((prev) => [...prev, {
+        role: "bot",
+        content: "⚠️ Your application needs a manual check, but we couldn't send it to our review team right now. Your progress is saved — please come back in a little while.",
+      }]);
+      return;
+    }
+    setMessages((prev) => [...prev, { role: "bot", content: REVIEW_HOLD_MESSAGE }]);
+  }
+
+  // The session function opens the account, so the number is issued and
+  // recorded on the audit trail server-side; without a session it is issued here.
+  // It checks the review triggers again and may hold the application instead.
+  async function openAccount(behavior: BehaviorSummary): Promise<SessionAccount | null> {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) {
+      if (dispatch({ type: "ACCOUNT_CREATED" }).accepted) return issueAccount(onboardingRef.current.machine.context.employmentType);
+      setMessages((prev) => [...prev, { role: "bot", content: REVIEW_HOLD_MESSAGE }]);
+      return null;
+    }
+
+    try {
+      await saveSession();
+      const resp = await callEdgeFunction({ action: "account_create", behavior, sessionId });
+      if (resp.ok) {
+        const { onboarding, account }: AccountCreateResponse = await resp.json();
+        updateOnboarding({ machine: onboarding });
+        return account;
+      }
+      if (resp.status === 409) {
+        setMessages((prev) => [...prev, { role: "bot", content: REVIEW_HOLD_MESSAGE }]);
+        return null;
+      }
+    } catch {
+      // Reported below
+    }
+    setMessages((prev) => [...prev, { role: "bot", content: ACCOUNT_UNAVAILABLE_MESSAGE }]);
+    return null;
+  }
+
+  async function finalizeAccount() {
+    // Screening is mandatory: without a result the account is not opened. A
+    // resumed session keeps its earlier outcome instead of screening again.
+    const screening = onboardingRef.current.machine.context.screening ?? (await runScreening())?.outcome;
+    if (!screening) {
+      setMessages((prev) => [...prev, {
+        role: "bot",
+        content: "⚠️ We couldn't complete the mandatory compliance checks right now, so your account hasn't been opened yet. Your progress is saved — please come back in a little while.",
+      }]);
+      return;
+    }
+    dispatch({ type: "SCREENING_COMPLETED", outcome: screening });
+
+    if (!onboardingRef.current.riskResult) {
+      setMessages((prev) => [...prev, { role: "bot", content: RISK_UNAVAILABLE_MESSAGE }]);
+      return;
+    }
 
-    // Check behavioral fraud before finalizing
+    // Flagged applications wait for a reviewer; the applicant is not told why
     const behaviorAnalysis = analyzeBehavior();
+    const behavior: BehaviorSummary = { riskScore: behaviorAnalysis.riskScore, flags: behaviorAnalysis.flags };
+    const { review } = onboardingRef.current.machine.context;
+    if (review === "pending" || review === "rejected") {
+      setMessages((prev) => [...prev, { role: "bot", content: review === "pending" ? REVIEW_HOLD_MESSAGE : REVIEW_REJECTED_MESSAGE }]);
+      return;
+    }
+    if (review !== "approved") {
+      const { riskResult } = onboardingRef.current;
+      const triggers = reviewTriggers({
+        suspiciousDocuments: onboardingRef.current.machine.context.suspiciousDocuments,
+        behavior,
+        riskLevel: riskResult && riskResult.modelVersion !== STUDENT_POLICY_VERSION ? riskResult.level : null,
+        screening,
+        review,
+      });
+      if (triggers.length) {
+        await submitForReview(triggers, behavior);
+        return;
+      }
+    }
 
-    const accountTypeMap: Record<string, string> = {
-      student: "Student Savings Account",
-      salaried: "Savings Account",
-      freelancer: "Freelancer Current Account",
-      business: "Business Current Account",
-    };
-    const accountType = accountTypeMap[ob.employmentType] || "Savings Account";
+    const account = await openAccount(behavior);
+    if (!account) return;
+
+    const { accountNumber, ifsc, accountType } = account;
+    const ob = onboardingRef.current;
+    const { employmentType, monthlyIncome } = ob.machine.context;
 
     const riskLine = ob.riskResult
       ? `\n🔍 Risk Level: ${ob.riskResult.level} (${(ob.riskResult.probability * 100).toFixed(0)}% default probability)`
@@ -197,13 +638,13 @@ export default function ChatPage({ onClose }: ChatPageProps) {
         `🔢 IFSC Code: ${ifsc}\n` +
         `🏛️  Branch: OnboardX Digital Bank, Mumbai\n` +
         `💼 Account Type: ${accountType}\n` +
-        (ob.monthlyIncome ? `💰 Monthly Income: ₹${ob.monthlyIncome.toLocaleString("en-IN")}\n` : "") +
+        (monthlyIncome ? `💰 Monthly Income: ₹${monthlyIncome.toLocaleString("en-IN")}\n` : "") +
         riskLine +
         `\n━━━━━━━━━━━━━━━━━━━━\n\n` +
         `Please save these details. Welcome to OnboardX! 🚀`,
     };
 
-    const msgsAfterAccount = [...currentMessages, accountMsg];
+    const msgsAfterAccount = [accountMsg];
 
     // Behavioral fraud alert if suspicious
     if (behaviorAnalysis.riskScore > 0) {
@@ -217,7 +658,7 @@ export default function ChatPage({ onClose }: ChatPageProps) {
     // Product recommendation
     const productMsg: Message = {
       role: "bot",
-      content: getProductRecommendation(ob.employmentType, ob.riskResult?.level),
+      content: getProductRecommendation(employmentType, ob.riskResult?.level),
     };
     msgsAfterAccount.push(productMsg);
 
@@ -227,18 +668,16 @@ export default function ChatPage({ onClose }: ChatPageProps) {
     };
     msgsAfterAccount.push(emailPrompt);
 
-    setOnboarding((prev) => ({ ...prev, step: "awaitingEmail", accountNumber, ifsc, accountType }));
-    setMessages(msgsAfterAccount);
-    setProgress(95);
+    updateOnboarding({ accountNumber, ifsc, accountType });
+    setMessages((prev) => [...prev, ...msgsAfterAccount]);
   }
 
   // ── Handle email input ──────────────────────────────────────────────────────
 
   async function handleEmailInput(text: string, currentMessages: Message[]) {
     if (text.toLowerCase() === "skip") {
-      setOnboarding((prev) => ({ ...prev, step: "done" }));
+      dispatch({ type: "EMAIL_SKIPPED" });
       setMessages([...currentMessages, { role: "bot", content: "✅ No problem! Your account details are shown above. Welcome to OnboardX! 🚀" }]);
-      setProgress(100);
       return;
     }
 
@@ -249,28 +688,31 @@ export default function ChatPage({ onClose }: ChatPageProps) {
     }
 
     const ob = onboardingRef.current;
+    const { monthlyIncome } = ob.machine.context;
     const sendingMsg: Message = { role: "bot", content: "📤 Sending account details to your email…" };
     setMessages([...currentMessages, sendingMsg]);
 
+    let sent = false;
     try {
       const resp = await callEdgeFunction({
-        sendEmail: {
-          to: text,
-          accountDetails: {
-            accountNumber: ob.accountNumber,
-            ifsc: ob.ifsc,
-            accountType: ob.accountType,
-            monthlyIncome: ob.monthlyIncome ? ob.monthlyIncome.toLocaleString("en-IN") : null,
-            riskLevel: ob.riskResult ? `${ob.riskResult.level} (${(ob.riskResult.probability * 100).toFixed(0)}%)` : null,
-          },
+        action: "send_email",
+        to: text,
+        accountDetails: {
+          accountNumber: ob.accountNumber,
+          ifsc: ob.ifsc,
+          accountType: ob.accountType,
+          monthlyIncome: monthlyIncome ? monthlyIncome.toLocaleString("en-IN") : null,
+          riskLevel: ob.riskResult ? `${ob.riskResult.level} (${(ob.riskResult.probability * 100).toFixed(0)}%)` : null,
         },
+        sessionId: sessionIdRef.current,
       });
 
       const data = await resp.json();
+      sent = resp.ok && data.success;
 
       setMessages((prev) => prev.filter((m) => m.content !== "📤 Sending account details to your email…"));
 
-      if (resp.ok && data.success) {
+      if (sent) {
         setMessages((prev) => [...prev, { role: "bot", content: `✅ Account details sent to ${text}! Check your inbox. Welcome to OnboardX! 🚀` }]);
       } else {
         setMessages((prev) => [...prev, { role: "bot", content: `⚠️ Couldn't send email, but your account details are displayed above. Welcome to OnboardX! 🚀` }]);
@@ -280,8 +722,7 @@ export default function ChatPage({ onClose }: ChatPageProps) {
       setMessages((prev) => [...prev, { role: "bot", content: `⚠️ Email service unavailable, but your account details are shown above. Welcome to OnboardX! 🚀` }]);
     }
 
-    setOnboarding((prev) => ({ ...prev, step: "done" }));
-    setProgress(100);
+    dispatch({ type: sent ? "EMAIL_SENT" : "EMAIL_SKIPPED" });
   }
 
   // ── Stream bot ──────────────────────────────────────────────────────────────
@@ -293,9 +734,9 @@ export default function ChatPage({ onClose }: ChatPageProps) {
   ) {
     setIsLoading(true);
 
-    const apiMessages = [
+    const apiMessages: ChatRequest["messages"] = [
       ...history.map((m) => ({
-        role: m.role === "bot" ? "assistant" : "user",
+        role: m.role === "bot" ? ("assistant" as const) : ("user" as const),
         content: m.content,
       })),
       { role: "user", content: userText },
@@ -315,13 +756,12 @@ export default function ChatPage({ onClose }: ChatPageProps) {
     };
 
     try {
-      const resp = await fetch(`${SUPABASE_URL}/functions/v1/onboardx-chat`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${SUPABASE_KEY}`,
-        },
-        body: JSON.stringify({ messages: apiMessages, fileData }),
+      const resp = await callEdgeFunction({
+        action: "chat",
+        messages: apiMessages,
+        fileData,
+        onboarding: onboardingRef.current.machine,
+        sessionId: sessionIdRef.current,
       });
 
       if (!resp.ok || !resp.body) {
@@ -346,35 +786,21 @@ export default function ChatPage({ onClose }: ChatPageProps) {
           let line = buffer.slice(0, idx);
           buffer = buffer.slice(idx + 1);
           if (line.endsWith("\r")) line = line.slice(0, -1);
-          if (!line.startsWith("data: ")) continue;
-          const json = line.slice(6).trim();
-          if (json === "[DONE]") { done = true; break; }
+
+          let event: ChatStreamEvent | "done" | null;
           try {
-            const parsed = JSON.parse(json);
-            const chunk = parsed.choices?.[0]?.delta?.content as string | undefined;
-            if (chunk) appendChunk(chunk);
+            event = parseStreamLine(line);
           } catch {
-            buffer = line + "\n" + buffer;
-            break;
+            continue;
           }
-        }
-      }
-
-      const lower = botReply.toLowerCase();
-      const ob = onboardingRef.current;
+          if (event === "done") { done = true; break; }
+          if (!event) continue;
 
-      // Detect income request
-      if (INCOME_TRIGGER_PHRASES.some((p) => lower.includes(p)) && ob.step === "chat") {
-        setOnboarding((prev) => ({ ...prev, step: "awaitingIncome" }));
-      }
-
-      // Detect face verify trigger
-      if (FACE_TRIGGER_PHRASES.some((p) => lower.includes(p)) && ob.step !== "done") {
-        setOnboarding((prev) => ({ ...prev, step: "awaitingFace" }));
-        setTimeout(() => setShowFaceVerify(true), 1000);
+          if (event.type === "text_delta") appendChunk(event.text);
+          else if (event.type === "error") appendChunk(event.message);
+          else streamActionRef.current(event);
+        }
       }
-
-      setProgress((p) => Math.min(p + 10, 90));
     } catch (e) {
       console.error(e);
       appendChunk("Connection error. Please try again.");
@@ -385,130 +811,218 @@ export default function ChatPage({ onClose }: ChatPageProps) {
 
   // ── Handle income ───────────────────────────────────────────────────────────
 
+  // Income first, then each obligation in OBLIGATION_QUESTIONS; the machine
+  // only sees the complete picture.
   async function handleIncomeInput(text: string, currentMessages: Message[]) {
-    const income = parseFloat(text.replace(/[^0-9.]/g, ""));
-    if (!income || income < 500) {
-      setMessages((prev) => [...prev, { role: "bot", content: "Please enter a valid monthly income in INR (e.g. 45000)." }]);
+    const amount = parseAmount(text);
+    const ask = (content: string) => setMessages((prev) => [...prev, { role: "bot", content }]);
+
+    if (!incomeDraft) {
+      const problem = checkMonthlyIncome(amount);
+      if (problem) {
+        ask(`${problem} Please enter a valid monthly income in INR (e.g. 45000).`);
+        return;
+      }
+      setIncomeDraft({ monthlyIncome: amount, obligations: {} });
+      ask(OBLIGATION_QUESTIONS[0].question);
       return;
     }
 
-    setOnboarding((prev) => ({ ...prev, monthlyIncome: income, step: "chat" }));
-    const isStudent = onboardingRef.current.employmentType === "student";
+    const pending = nextObligationQuestion(incomeDraft);
+    if (!Number.isFinite(amount) || amount < 0) {
+      ask(`Please enter an amount in ₹, or 0 if none. ${pending.question}`);
+      return;
+    }
 
-    if (isStudent) {
-      const studentRisk: RiskResult = { probability: 0.65, level: "High", dti: 55, explanation: "Limited credit history. Secured student products recommended." };
-      setOnboarding((prev) => ({ ...prev, riskResult: studentRisk }));
+    const draft: IncomeDraft = { ...incomeDraft, obligations: { ...incomeDraft.obligations, [pending.key]: amount } };
+    const next = nextObligationQuestion(draft);
+    if (next) {
+      setIncomeDraft(draft);
+      ask(next.question);
+      return;
+    }
 
-      const msg: Message = {
-        role: "bot",
-        content:
-          `🎓 Student Profile Detected\n\n` +
-          `🔵 Limited credit history detected. Recommending secured student products.\n\n` +
-          `✅ Student Savings Account + Secured Student Card\n` +
-          `❌ High-value loans: Not applicable`,
-      };
-      const newMsgs = [...currentMessages, msg];
-      setMessages(newMsgs);
-      setProgress((p) => Math.min(p + 10, 90));
-
-      setTimeout(() => {
-        streamBot(
-          "Student profile and risk noted. Now tell the user face verification is next and the camera will open now.",
-          newMsgs
-        );
-      }, 1000);
+    setIncomeDraft(null);
+    const obligations = draft.obligations as MonthlyObligations;
+    const result = dispatch({ type: "INCOME_SUBMITTED", monthlyIncome: draft.monthlyIncome, obligations });
+    if (!result.accepted) {
+      ask(`${result.reason} Please enter your monthly income in INR again (e.g. 45000).`);
       return;
     }
 
-    // Non-student: risk scoring
-    const loadingMsg: Message = { role: "bot", content: "⏳ Running risk assessment…" };
-    setMessages([...currentMessages, loadingMsg]);
+    streamBot(
+      `My monthly income is ${rupees(draft.monthlyIncome)}. I pay ${rupees(obligations.emi)} in EMIs, `
+        + `${rupees(obligations.rent)} in rent and ${rupees(obligations.creditCardDues)} towards credit cards each month.`,
+      currentMessages.slice(0, -1),
+    );
+  }
 
-    const riskResult = await runRiskScoring(income);
-    setMessages((prev) => prev.filter((m) => m.content !== "⏳ Running risk assessment…"));
+  // ── Bank statement ──────────────────────────────────────────────────────────
 
-    if (riskResult) {
-      setOnboarding((prev) => ({ ...prev, riskResult }));
-      const emoji = riskResult.level === "Low" ? "🟢" : riskResult.level === "Medium" ? "🟡" : "🔴";
-      const riskMsg: Message = {
-        role: "bot",
-        content:
-          `${emoji} Risk Assessment — ${riskResult.level} Risk\n\n` +
-          `${riskResult.explanation}\n\n` +
-          `Default probability: ${(riskResult.probability * 100).toFixed(0)}% | Estimated DTI: ${riskResult.dti.toFixed(0)}%`,
-      };
-      const newMsgs = [...currentMessages, riskMsg];
-      setMessages(newMsgs);
-      setProgress((p) => Math.min(p + 10, 90));
-
-      setTimeout(() => {
-        streamBot(
-          `Risk scoring done — ${riskResult.level} risk. Now tell the user face verification is next and the camera will open now.`,
-          newMsgs
-        );
-      }, 1000);
+  function handleStatementInput(text: string, currentMessages: Message[]) {
+    if (text.toLowerCase() !== "skip") {
+      setMessages([...currentMessages, { role: "bot", content: "📄 Please upload your bank statement (CSV or PDF) using the + button, or type 'skip'." }]);
+      return;
+    }
+    dispatch({ type: "STATEMENT_SKIPPED" });
+    streamBot("I'd rather not upload a bank statement.", currentMessages.slice(0, -1));
+  }
+
+  function handleStatementFile(file: File, history: Message[]) {
+    if (isPdfFile(file)) {
+      file.arrayBuffer().then((data) => readStatementPdf(file.name, data, history));
+    } else if (isCsvFile(file)) {
+      file.text().then((content) => verifyStatement(file.name, "csv", content, history));
     } else {
-      setTimeout(() => {
-        streamBot(
-          "Income noted. Tell the user face verification is next and the camera will open now.",
-          currentMessages
-        );
-      }, 800);
+      setMessages([...history, { role: "bot", content: "⚠️ Please upload your bank statement as a CSV or PDF file, or type 'skip'." }]);
     }
   }
 
+  async function readStatementPdf(fileName: string, data: ArrayBuffer, history: Message[], password?: string) {
+    setIsLoading(true);
+    try {
+      const pdf = await openPdf(data, password ? [password] : []);
+      const lines = await extractPdfText(pdf);
+      await pdf.destroy();
+      setIsLoading(false);
+      setPdfUpload(null);
+
+      if (!lines.length) {
+        setMessages([...history, {
+          role: "bot",
+          content: "⚠️ This PDF has no readable text — it looks like a scan. Please download the statement from your net banking as a PDF or CSV, or type 'skip'.",
+        }]);
+        return;
+      }
+      verifyStatement(fileName, "text", lines.join("\n"), history);
+    } catch (err) {
+      setIsLoading(false);
+      if (err instanceof PdfPasswordError) {
+        setPdfUpload({ fileName, data, locked: true, pages: [] });
+        const prompt = password ? "❌ That password didn't work. Please try again." : "🔒 This statement is password-protected. Type its password to unlock it.";
+        setMessages([...history, { role: "bot", content: `${prompt}\nYour bank's statement email says which password it uses.` }]);
+        return;
+      }
+      setPdfUpload(null);
+      setMessages([...history, { role: "bot", content: "⚠️ I couldn't read that PDF. Please upload another copy or a CSV export, or type 'skip'." }]);
+    }
+  }
+
+  async function verifyStatement(fileName: string, format: VerifyIncomeRequest["format"], content: string, history: Message[]) {
+    const { monthlyIncome } = onboardingRef.current.machine.context;
+    setMessages([...history, { role: "bot", content: "🔍 Analysing your bank statement…" }]);
+
+    let verification: VerifyIncomeResponse | null = null;
+    let problem = "I couldn't analyse that statement right now.";
+    try {
+      const resp = await callEdgeFunction({
+        action: "verify_income",
+        format,
+        content,
+        declaredIncome: monthlyIncome ?? 0,
+        sessionId: sessionIdRef.current,
+      });
+      const data = await resp.json();
+      if (resp.ok) verification = data;
+      else if (data.error) problem = data.error;
+    } catch {
+      // Reported below
+    }
+
+    if (!verification) {
+      setMessages([...history, { role: "bot", content: `⚠️ ${problem} Please upload another statement (CSV or PDF) or type 'skip'.` }]);
+      return;
+    }
+
+    const updatedMsgs = [...history, { role: "bot" as const, content: describeIncomeVerification(verification) }];
+    setMessages(updatedMsgs);
+
+    const outcome = dispatch({ type: "STATEMENT_VERIFIED", verifiedIncome: verification.verifiedIncome });
+    const stepNote = outcome.accepted
+      ? "The statement was accepted."
+      : `The statement was NOT accepted: ${outcome.reason} Ask the user to upload another statement or type 'skip'.`;
+    streamBot(
+      `The user uploaded a bank statement: ${fileName}. It supports a monthly income of ${rupees(verification.verifiedIncome)} `
+        + `against ${rupees(verification.declaredIncome)} declared (${verification.consistent ? "consistent" : "MISMATCH"}).`
+        + (verification.flags.length ? ` Flags: ${verification.flags.join("; ")}.` : "")
+        + ` ${stepNote}`,
+      updatedMsgs,
+    );
+  }
+
   // ── Face verification result ────────────────────────────────────────────────
 
   function handleFaceVerified(result: { success: boolean; message: string; capturedImage: string }) {
     setShowFaceVerify(false);
-    setOnboarding((prev) => ({ ...prev, faceVerified: result.success }));
 
-    if (result.success) {
+    if (result.success && dispatch({ type: "FACE_VERIFIED" }).accepted) {
       const botMsg: Message = {
         role: "bot",
-        content: "✅ Face verification successful! Creating your account now… 🏦",
+        content: "✅ Face verification successful! Running your risk assessment… 📊",
       };
       const newMessages = [...messages, botMsg];
       setMessages(newMessages);
-      setProgress((p) => Math.min(p + 10, 95));
-      // Go directly to finalizeAccount — no AI stream needed
-      setTimeout(() => finalizeAccount(newMessages), 1200);
+      setTimeout(() => handleRiskStep(newMessages), 1000);
     } else {
       const botMsg: Message = {
         role: "bot",
         content: `❌ ${result.message} Please try the face scan again.`,
       };
       setMessages([...messages, botMsg]);
-      setOnboarding((prev) => ({ ...prev, step: "awaitingFace" }));
     }
   }
 
+  function handleHandoff() {
+    // The phone carries on from the stored session, so it needs this page's last events
+    saveSession();
+    setHandoff("waiting");
+    setMessages((prev) => [...prev, { role: "bot", content: "📱 Carry on on your phone — this page will follow along once your face check is done." }]);
+  }
+
   // ── Send message ────────────────────────────────────────────────────────────
 
   const sendMessage = async () => {
     const text = input.trim();
-    if (!text || isLoading || onboarding.step === "done" || onboarding.step === "awaitingFace") return;
+    if (!text || isLoading || isInputDisabled) return;
+
+    if (pdfUpload?.locked) {
+      setInput("");
+      const history = [...messages, { role: "user" as const, content: `🔑 ${"•".repeat(text.length)}` }];
+      setMessages(history);
+      const unlock = step === "statement" ? readStatementPdf : openPdfUpload;
+      await unlock(pdfUpload.fileName, pdfUpload.data, history, text);
+      return;
+    }
+    if (pdfUpload && /^\d+$/.test(text) && selectPdfPage(Number(text))) {
+      setInput("");
+      return;
+    }
 
     const userMsg: Message = { role: "user", content: text };
     const newHistory = [...messages, userMsg];
     setMessages(newHistory);
     setInput("");
 
-    const emp = detectEmployment(text);
-    if (emp && !onboarding.employmentType) {
-      setOnboarding((prev) => ({ ...prev, employmentType: emp }));
-    }
-
-    if (onboarding.step === "awaitingEmail") {
+    if (step === "email") {
       await handleEmailInput(text, newHistory);
       return;
     }
 
-    if (onboarding.step === "awaitingIncome") {
+    if (step === "income") {
       await handleIncomeInput(text, newHistory);
       return;
     }
 
+    if (step === "statement") {
+      handleStatementInput(text, newHistory);
+      return;
+    }
+
+    if (step === "employment") {
+      const emp = detectEmployment(text);
+      if (emp) dispatch({ type: "EMPLOYMENT_SELECTED", employmentType: emp });
+    }
+
     streamBot(text, messages);
   };
 
@@ -537,124 +1051,233 @@ export default function ChatPage({ onClose }: ChatPageProps) {
     const fileMsg: Message = { role: "user", content: `📎 ${file.name}`, isFile: true };
     const newHistory = [...messages, fileMsg];
     setMessages(newHistory);
+    setRequestedDocument(null);
+    setPdfUpload(null);
 
-    const reader = new FileReader();
-    reader.onload = async (ev) => {
-      const result = ev.target?.result as string;
-      const base64 = result.split(",")[1];
-      const mimeType = file.type;
-      setDocumentBase64(base64);
-      recordIdUpload();
+    if (step === "statement") {
+      handleStatementFile(file, newHistory);
+    } else if (isPdfFile(file)) {
+      file.arrayBuffer().then((data) => openPdfUpload(file.name, data, newHistory));
+    } else {
+      const reader = new FileReader();
+      reader.onload = (ev) => {
+        const result = ev.target?.result as string;
+        verifyDocument(file.name, result.split(",")[1], file.type, newHistory);
+      };
+      reader.readAsDataURL(file);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
 
-      // Show scanning message
-      const scanMsg: Message = { role: "bot", content: "🔍 Scanning document for authenticity…" };
-      setMessages((prev) => [...prev, scanMsg]);
+  // ── PDF upload ──────────────────────────────────────────────────────────────
 
-      // 1. Attempt QR code scanning (for Aadhaar)
-      let qrData: string | null = null;
-      try {
-        qrData = await scanQRFromBase64(base64, mimeType);
-      } catch {
-        // QR scan failed silently
+  async function openPdfUpload(fileName: string, data: ArrayBuffer, history: Message[], password?: string) {
+    const { panIdentity } = onboardingRef.current.machine.context;
+    const passwords = password ? [password] : eAadhaarPasswordCandidates(panIdentity?.name, panIdentity?.dob);
+
+    setIsLoading(true);
+    try {
+      const pdf = await openPdf(data, passwords);
+      const total = pdf.numPages;
+      const pages = await renderPdfPages(pdf);
+      await pdf.destroy();
+      setIsLoading(false);
+
+      if (pages.length === 1) {
+        setPdfUpload(null);
+        verifyDocument(`${fileName} (page 1)`, pages[0].base64, pages[0].mimeType, history);
+        return;
       }
 
-      // 2. Call document verification endpoint
-      try {
-        const verifyResp = await callEdgeFunction({
-          documentVerifyMode: {
-            imageBase64: base64,
-            mimeType,
-            qrData,
-            documentType: file.name.toLowerCase().includes("pan") ? "PAN" : file.name.toLowerCase().includes("aadhaar") || file.name.toLowerCase().includes("aadhar") ? "Aadhaar" : "auto-detect",
-          },
-        });
+      // e-Aadhaar PDFs carry the Secure QR on the card page, so suggest that one
+      const qrHits = await Promise.all(pages.map((p) => scanQRFromBase64(p.base64, p.mimeType).catch(() => null)));
+      const suggested = pages[qrHits.findIndex(Boolean)]?.pageNumber ?? 1;
+      setPdfUpload({ fileName, data, locked: false, pages });
+      const shown = total > pages.length ? ` (showing the first ${pages.length})` : "";
+      setMessages([...history, {
+        role: "bot",
+        content: `📑 This PDF has ${total} pages${shown}. Tap the page that shows your card, or type its number. Page ${suggested} looks like the best match.`,
+      }]);
+    } catch (err) {
+      setIsLoading(false);
+      if (err instanceof PdfPasswordError) {
+        setPdfUpload({ fileName, data, locked: true, pages: [] });
+        const prompt = password ? "❌ That password didn't work. Please try again." : "🔒 This PDF is password-protected. Type its password to unlock it.";
+        setMessages([...history, {
+          role: "bot",
+          content: `${prompt}\nFor an e-Aadhaar it is the first four letters of your name in capitals followed by your year of birth (e.g. RAVI1990).`,
+        }]);
+        return;
+      }
+      setPdfUpload(null);
+      setMessages([...history, { role: "bot", content: "⚠️ I couldn't read that PDF. Please upload a photo or another PDF of your document." }]);
+      setRequestedDocument(expectedDocumentType(onboardingRef.current.machine.step));
+    }
+  }
+
+  const selectPdfPage = (pageNumber: number) => {
+    const page = pdfUpload?.pages.find((p) => p.pageNumber === pageNumber);
+    if (!pdfUpload || !page) return false;
 
-        const verifyData = await verifyResp.json();
-        const v = verifyData.verification;
+    const history = [...messages, { role: "user" as const, content: `📄 Page ${pageNumber}` }];
+    setMessages(history);
+    setPdfUpload(null);
+    verifyDocument(`${pdfUpload.fileName} (page ${pageNumber})`, page.base64, page.mimeType, history);
+    return true;
+  };
 
-        // Remove scanning message
-        setMessages((prev) => prev.filter((m) => m.content !== "🔍 Scanning document for authenticity…"));
+  // ── Document verification ───────────────────────────────────────────────────
 
-        if (v) {
-          const verdictEmoji = v.overallVerdict === "GENUINE" ? "✅" : v.overallVerdict === "SUSPICIOUS" ? "⚠️" : "🚫";
-          const verdictColor = v.overallVerdict === "GENUINE" ? "Verified" : v.overallVerdict === "SUSPICIOUS" ? "Suspicious" : "Rejected";
+  async function verifyDocument(fileName: string, base64: string, mimeType: string, history: Message[]) {
+    const expectedType = expectedDocumentType(onboardingRef.current.machine.step);
 
-          let verifyMsg = `${verdictEmoji} Document Analysis — ${verdictColor}\n\n`;
-          verifyMsg += `📄 Type: ${v.documentType || "Unknown"}\n`;
-          verifyMsg += `🎯 Confidence: ${v.confidenceScore || "N/A"}%\n`;
-          verifyMsg += `📋 Format: ${v.formatValid ? "✅ Valid" : "❌ Invalid"}\n`;
+    setDocumentBase64(base64);
+    recordIdUpload();
 
-          if (qrData) {
-            verifyMsg += `📱 QR Code: ${v.qrConsistent ? "✅ Data consistent" : "❌ Data mismatch"}\n`;
-          } else if (v.documentType === "Aadhaar") {
-            verifyMsg += `📱 QR Code: ⚠️ Not detected\n`;
-          }
+    // Show scanning message
+    const scanMsg: Message = { role: "bot", content: "🔍 Scanning document for authenticity…" };
+    setMessages((prev) => [...prev, scanMsg]);
 
-          if (v.securityFeatures) {
-            if (v.securityFeatures.detected?.length) {
-              verifyMsg += `🔒 Security: ${v.securityFeatures.detected.join(", ")}\n`;
-            }
-            if (v.securityFeatures.missing?.length) {
-              verifyMsg += `⚠️ Missing: ${v.securityFeatures.missing.join(", ")}\n`;
-            }
-          }
+    // 1. Attempt QR code scanning (for Aadhaar)
+    let qrData: string | null = null;
+    try {
+      qrData = await scanQRFromBase64(base64, mimeType);
+    } catch {
+      // QR scan failed silently
+    }
 
-          if (v.riskFlags?.length) {
-            verifyMsg += `\n🚩 Risk Flags: ${v.riskFlags.join("; ")}`;
-          }
+    // Advances the machine and tells the model whether the upload was accepted
+    const acceptDocument = (
+      documentType: DocumentType | null,
+      verifyContext: string,
+      chatHistory: Message[],
+      match?: { identity?: IdentitySummary; identityMatched?: boolean; suspicious?: boolean },
+    ) => {
+      const outcome: TransitionResult = documentType
+        ? dispatch({ type: "DOCUMENT_VERIFIED", documentType, ...match })
+        : { state: onboardingRef.current.machine, accepted: false, reason: "The document type could not be identified." };
+      const stepNote = outcome.accepted
+        ? "The document was accepted."
+        : `The document was NOT accepted: ${outcome.reason} Ask the user to upload the correct document.`;
+      streamBot(`The user uploaded a document: ${fileName}. ${verifyContext} ${stepNote}`, chatHistory, { base64, mimeType });
+    };
 
-          verifyMsg += `\n\n${v.reason || ""}`;
-
-          const verifyBotMsg: Message = { role: "bot", content: verifyMsg };
-          const updatedMsgs = [...newHistory, verifyBotMsg];
-          setMessages(updatedMsgs);
-
-          // If genuine or suspicious, proceed with onboarding
-          if (v.overallVerdict !== "LIKELY_FAKE") {
-            setOnboarding((prev) => ({ ...prev, documentsVerified: true }));
-            setProgress((p) => Math.min(p + 12, 90));
-            if (v.extractedData?.idNumber) recordIdUpload(v.extractedData.idNumber);
-
-            const verifyContext = `Document verification result: ${v.overallVerdict} (${v.confidenceScore}% confidence). ${v.reason}. Extracted name: ${v.extractedData?.name || "unknown"}, ID: ${v.extractedData?.idNumber || "unknown"}.`;
-            streamBot(
-              `The user uploaded a document: ${file.name}. ${verifyContext} Extract details and cross-check with any previously uploaded document.`,
-              updatedMsgs,
-              { base64, mimeType }
-            );
-          } else {
-            // Document likely fake - don't proceed
-            streamBot(
-              `The user uploaded a document: ${file.name}. Document verification FAILED — verdict: LIKELY_FAKE. Reason: ${v.reason}. Risk flags: ${v.riskFlags?.join(", ")}. Tell the user this document appears to be fraudulent and ask them to upload a genuine document.`,
-              updatedMsgs,
-              { base64, mimeType }
-            );
+    // Without a verdict the document is neither accepted nor rejected: the applicant uploads it again
+    const retryDocument = (problem = "We couldn't complete the authenticity check on this document") => {
+      setMessages((prev) => [...prev.filter((m) => m.content !== "🔍 Scanning document for authenticity…"), {
+        role: "bot",
+        content: `⚠️ ${problem}, so it hasn't been accepted yet. Please upload a clear, well-lit photo of your ${expectedType ?? "ID"} card again.`,
+      }]);
+    };
+
+    // 2. Call document verification endpoint
+    try {
+      const verifyResp = await callEdgeFunction({
+        action: "verify_document",
+        imageBase64: base64,
+        mimeType,
+        qrData,
+        documentType: expectedType ?? "auto-detect",
+        compareWith: expectedType === "Aadhaar" ? onboardingRef.current.machine.context.panIdentity : null,
+        sessionId: sessionIdRef.current,
+      });
+
+      const verifyData: Partial<VerifyDocumentResponse> = await verifyResp.json();
+      const outcome = verifyResp.ok ? verifyData.outcome ?? "inconclusive" : "inconclusive";
+      const v: DocumentVerification | null | undefined = outcome === "inconclusive" ? null : verifyData.verification;
+      const qrCheck = verifyData.qrCheck ?? null;
+      const idNumberCheck = verifyData.idNumberCheck ?? null;
+      const identityMatch = verifyData.identityMatch ?? null;
+
+      // Remove scanning message
+      setMessages((prev) => prev.filter((m) => m.content !== "🔍 Scanning document for authenticity…"));
+
+      if (v) {
+        const verdictEmoji = v.overallVerdict === "GENUINE" ? "✅" : v.overallVerdict === "SUSPICIOUS" ? "⚠️" : "🚫";
+        const verdictColor = v.overallVerdict === "GENUINE" ? "Verified" : v.overallVerdict === "SUSPICIOUS" ? "Suspicious" : "Rejected";
+
+        let verifyMsg = `${verdictEmoji} Document Analysis — ${verdictColor}\n\n`;
+        verifyMsg += `📄 Type: ${v.documentType || "Unknown"}\n`;
+        verifyMsg += `🎯 Confidence: ${v.confidenceScore || "N/A"}%\n`;
+        verifyMsg += `📋 Format: ${v.formatValid ? "✅ Valid" : "❌ Invalid"}\n`;
+
+        if (idNumberCheck) {
+          const label = idNumberCheck.documentType === "Aadhaar" ? "Aadhaar Number" : "PAN Number";
+          const status = !idNumberCheck.valid ? "❌ Invalid"
+            : idNumberCheck.masked ? "⚠️ Masked — checksum not verifiable"
+            : idNumberCheck.documentType === "Aadhaar" ? "✅ Checksum valid" : "✅ Format valid";
+          verifyMsg += `🔢 ${label}: ${status}\n`;
+        }
+
+        if (qrCheck?.format === "secure") {
+          verifyMsg += `📱 Secure QR: ${qrCheck.consistent === null ? "⚠️ Nothing to compare" : qrCheck.consistent ? "✅ Data consistent" : "❌ Data mismatch"}\n`;
+          verifyMsg += `🔏 QR Signature: ${qrCheck.signatureValid === null ? "⚠️ Not verified" : qrCheck.signatureValid ? "✅ Valid UIDAI signature" : "❌ Invalid signature"}\n`;
+        } else if (qrData) {
+          verifyMsg += `📱 QR Code: ⚠️ Not an Aadhaar Secure QR\n`;
+        } else if (v.documentType === "Aadhaar") {
+          verifyMsg += `📱 QR Code: ⚠️ Not detected\n`;
+        }
+
+        if (identityMatch) {
+          verifyMsg += `🪪 PAN ↔ Aadhaar: ${identityMatch.match ? "✅ Match" : "❌ Mismatch"} (${identityMatch.score}%)\n`;
+          verifyMsg += identityMatch.reasons.map((r) => `   • ${r}\n`).join("");
+        }
+
+        if (v.securityFeatures) {
+          if (v.securityFeatures.detected?.length) {
+            verifyMsg += `🔒 Security: ${v.securityFeatures.detected.join(", ")}\n`;
           }
+          if (v.securityFeatures.missing?.length) {
+            verifyMsg += `⚠️ Missing: ${v.securityFeatures.missing.join(", ")}\n`;
+          }
+        }
+
+        if (v.riskFlags?.length) {
+          verifyMsg += `\n🚩 Risk Flags: ${v.riskFlags.join("; ")}`;
+        }
+
+        verifyMsg += `\n\n${v.reason || ""}`;
+
+        const verifyBotMsg: Message = { role: "bot", content: verifyMsg };
+        const updatedMsgs = [...history, verifyBotMsg];
+        setMessages(updatedMsgs);
+
+        // If genuine or suspicious, proceed with onboarding
+        if (outcome === "passed") {
+          if (v.extractedData?.idNumber) recordIdUpload(v.extractedData.idNumber);
+
+          const detectedType: DocumentType | null =
+            v.documentType === "PAN" || v.documentType === "Aadhaar" ? v.documentType : null;
+          const qrContext = qrCheck?.format === "secure"
+            ? ` Secure QR check: ${qrCheck.consistent === false ? "FAILED (data mismatch)" : "passed"}, signature ${qrCheck.signatureValid === null ? "not verified" : qrCheck.signatureValid ? "valid" : "INVALID"}.`
+            : "";
+          const idContext = idNumberCheck ? ` ${idNumberCheck.documentType} number check: ${idNumberCheck.reason}` : "";
+          const matchContext = identityMatch
+            ? ` PAN/Aadhaar identity match: ${identityMatch.match ? "MATCH" : "MISMATCH"} (${identityMatch.reasons.join("; ")}).`
+            : "";
+          const verifyContext = `Document verification result: ${v.overallVerdict} (${v.confidenceScore}% confidence). ${v.reason}. Extracted name: ${v.extractedData?.name || "unknown"}, ID: ${v.extractedData?.idNumber || "unknown"}.${qrContext}${idContext}${matchContext}`;
+          acceptDocument(detectedType, verifyContext, updatedMsgs, {
+            identity: { name: v.extractedData?.name ?? null, dob: v.extractedData?.dob ?? null },
+            identityMatched: identityMatch?.match,
+            suspicious: v.overallVerdict === "SUSPICIOUS",
+          });
         } else {
-          // Verification parsing failed, fall back to regular flow
-          setMessages((prev) => prev.filter((m) => m.content !== "🔍 Scanning document for authenticity…"));
-          setOnboarding((prev) => ({ ...prev, documentsVerified: true }));
-          setProgress((p) => Math.min(p + 12, 90));
+          // Document likely fake - don't proceed
           streamBot(
-            `The user uploaded a document: ${file.name}. Extract the name, ID number, and document type. Cross-check with any previously uploaded document.`,
-            messages,
+            `The user uploaded a document: ${fileName}. Document verification FAILED — verdict: LIKELY_FAKE. Reason: ${v.reason}. Risk flags: ${v.riskFlags?.join(", ")}. Tell the user this document appears to be fraudulent and ask them to upload a genuine document.`,
+            updatedMsgs,
             { base64, mimeType }
           );
         }
-      } catch {
-        // Verification failed, fall back
-        setMessages((prev) => prev.filter((m) => m.content !== "🔍 Scanning document for authenticity…"));
-        setOnboarding((prev) => ({ ...prev, documentsVerified: true }));
-        setProgress((p) => Math.min(p + 12, 90));
-        streamBot(
-          `The user uploaded a document: ${file.name}. Extract the name, ID number, and document type. Cross-check with any previously uploaded document.`,
-          messages,
-          { base64, mimeType }
-        );
+      } else if (idNumberCheck?.missing) {
+        retryDocument(`We couldn't read the ${idNumberCheck.documentType} number on this document`);
+      } else {
+        retryDocument();
       }
-    };
-    reader.readAsDataURL(file);
-    if (fileInputRef.current) fileInputRef.current.value = "";
-  };
+    } catch {
+      retryDocument();
+    }
+  }
 
   // ── Derived UI ──────────────────────────────────────────────────────────────
 
@@ -665,13 +1288,19 @@ export default function ChatPage({ onClose }: ChatPageProps) {
     : null;
 
   const inputPlaceholder =
-    onboarding.step === "awaitingEmail" ? "Enter your email (e.g. yourname@gmail.com) or type 'skip'…"
-    : onboarding.step === "awaitingIncome" ? "Enter monthly income in ₹ (e.g. 45000)…"
-    : onboarding.step === "awaitingFace" ? "Complete face verification — click the camera icon…"
-    : onboarding.step === "done" ? "Account created! 🎉"
+    pdfUpload?.locked ? "Enter the PDF password…"
+    : pdfUpload ? "Type a page number or tap a page above…"
+    : step === "email" ? "Enter your email (e.g. yourname@gmail.com) or type 'skip'…"
+    : step === "income" ? `${incomeDraft ? nextObligationQuestion(incomeDraft).hint : "Enter monthly income in ₹ (e.g. 45000)"}…`
+    : step === "statement" ? "Upload your bank statement with + or type 'skip'…"
+    : step === "face" ? "Complete face verification — click the camera icon…"
+    : step === "account" && onboarding.machine.context.review === "pending" ? "Your application is under review…"
+    : step === "account" && onboarding.machine.context.review === "rejected" ? "Application closed"
+    : step === "risk" || step === "account" ? "Setting up your account…"
+    : step === "done" ? "Account created! 🎉"
     : "Type your message…";
 
-  const isInputDisabled = onboarding.step === "done" || onboarding.step === "awaitingFace";
+  const isInputDisabled = step === "done" || step === "face" || step === "risk" || step === "account" || handoff !== "none";
 
   const ribbonSvg = (
     <svg viewBox="0 0 700 400" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -718,7 +1347,7 @@ export default function ChatPage({ onClose }: ChatPageProps) {
       {onboarding.riskResult && riskColor && (
         <div className="absolute top-[16px] right-6 z-10 text-xs font-bold px-3 py-1 rounded-full border"
           style={{ color: riskColor, borderColor: riskColor, background: `${riskColor}18` }}>
-          {onboarding.employmentType === "student" ? "🎓 Student" : `${onboarding.riskResult.level} Risk`}
+          {onboarding.machine.context.employmentType === "student" ? "🎓 Student" : `${onboarding.riskResult.level} Risk`}
         </div>
       )}
 
@@ -726,13 +1355,10 @@ export default function ChatPage({ onClose }: ChatPageProps) {
       {showFaceVerify && (
         <FaceVerification
           documentBase64={documentBase64}
+          sessionId={sessionIdRef.current ?? undefined}
           onVerified={handleFaceVerified}
-          onClose={() => {
-            setShowFaceVerify(false);
-            if (onboardingRef.current.step === "awaitingFace") {
-              setOnboarding((prev) => ({ ...prev, step: "chat" }));
-            }
-          }}
+          onHandoff={handleHandoff}
+          onClose={() => setShowFaceVerify(false)}
         />
       )}
 
@@ -809,18 +1435,46 @@ export default function ChatPage({ onClose }: ChatPageProps) {
           <div ref={messagesEndRef} />
         </div>
 
+        {/* PDF page picker */}
+        {pdfUpload && !pdfUpload.locked && (
+          <div className="w-full max-w-[780px] mb-3 flex gap-3 justify-center flex-wrap">
+            {pdfUpload.pages.map((page) => (
+              <button key={page.pageNumber}
+                onClick={() => selectPdfPage(page.pageNumber)}
+                disabled={isLoading}
+                className="flex flex-col items-center gap-1 p-1.5 rounded-lg cursor-pointer transition-transform hover:scale-105 disabled:opacity-40"
+                style={{ background: "rgba(30,30,30,0.9)", border: "1px solid rgba(255,42,42,0.5)" }}
+                title={`Use page ${page.pageNumber}`}>
+                <img src={`data:${page.mimeType};base64,${page.base64}`} alt={`Page ${page.pageNumber}`}
+                  className="h-24 w-auto rounded bg-white" />
+                <span className="text-xs text-[#ccc]">Page {page.pageNumber}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Step hints */}
-        {onboarding.step === "awaitingIncome" && (
+        {requestedDocument && (
+          <div className="w-full max-w-[780px] mb-2 text-xs text-red-400 text-center tracking-wider">
+            📄 Upload your {requestedDocument} card using the + button
+          </div>
+        )}
+        {step === "income" && (
           <div className="w-full max-w-[780px] mb-2 text-xs text-yellow-400 text-center tracking-wider">
-            💰 Enter your monthly income in INR (e.g. 45000)
+            💰 {incomeDraft ? nextObligationQuestion(incomeDraft).hint : "Enter your monthly income in INR (e.g. 45000)"}
+          </div>
+        )}
+        {step === "statement" && !pdfUpload?.locked && (
+          <div className="w-full max-w-[780px] mb-2 text-xs text-red-400 text-center tracking-wider">
+            🏦 Upload a bank statement for the last 3–6 months (CSV or PDF) using the + button, or type 'skip'
           </div>
         )}
-        {onboarding.step === "awaitingFace" && (
+        {step === "face" && (
           <div className="w-full max-w-[780px] mb-2 text-xs text-blue-400 text-center tracking-wider animate-pulse">
             📸 Click the camera icon to complete face verification
           </div>
         )}
-        {onboarding.step === "awaitingEmail" && (
+        {step === "email" && (
           <div className="w-full max-w-[780px] mb-2 text-xs text-emerald-400 text-center tracking-wider">
             📧 Enter your email to receive account details or type 'skip'
           </div>
@@ -837,16 +1491,19 @@ export default function ChatPage({ onClose }: ChatPageProps) {
 
           {/* Upload */}
           <button onClick={() => fileInputRef.current?.click()}
-            disabled={onboarding.step === "done"}
+            disabled={step === "done"}
             className="flex items-center justify-center flex-shrink-0 w-8 h-8 rounded-full text-[#aaa] text-xl cursor-pointer transition-colors hover:text-white disabled:opacity-30"
-            style={{ background: "none", border: "1.5px solid #555" }}
-            title="Upload document">
+            style={{ background: "none", border: `1.5px solid ${requestedDocument || step === "statement" ? "#ff2a2a" : "#555"}` }}
+            title={step === "statement" ? "Upload bank statement" : "Upload document"}>
             +
           </button>
-          <input ref={fileInputRef} type="file" accept="image/*,.pdf" className="hidden" onChange={handleFileUpload} />
+          <input ref={fileInputRef} type="file" accept={step === "statement" ? ".csv,.pdf,text/csv,application/pdf" : "image/*,.pdf"}
+            className="hidden" onChange={handleFileUpload} />
 
           {/* Text */}
           <input
+            ref={textInputRef}
+            type={pdfUpload?.locked ? "password" : "text"}
             value={input}
             onChange={handleInputChange}
             onPaste={handlePaste}
@@ -859,12 +1516,12 @@ export default function ChatPage({ onClose }: ChatPageProps) {
           {/* Camera */}
           <button
             onClick={() => setShowFaceVerify(true)}
-            disabled={onboarding.step === "done"}
+            disabled={step !== "face" || handoff !== "none"}
             className="w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 hover:text-white transition-colors bg-transparent border-none cursor-pointer disabled:opacity-30"
             title="Face Verification"
             style={{
-              color: onboarding.step === "awaitingFace" ? "#60a5fa" : "#aaa",
-              filter: onboarding.step === "awaitingFace" ? "drop-shadow(0 0 6px #60a5fa)" : "none",
+              color: step === "face" ? "#60a5fa" : "#aaa",
+              filter: step === "face" ? "drop-shadow(0 0 6px #60a5fa)" : "none",
             }}>
             <svg viewBox="0 0 24 24" width="18" height="18" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z" />
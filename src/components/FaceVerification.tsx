@@ -1,191 +1,510 @@
 import { useRef, useState, useEffect, useCallback } from "react";
+import QRCode from "qrcode";
+import {
+  ENDPOINTS,
+  type DetectSpoofRequest,
+  type DetectSpoofResponse,
+  type ErrorResponse,
+  type FaceLocateResponse,
+  type FaceMatchRequest,
+  type FaceMatchResponse,
+  type LivenessRequest,
+  type LivenessStartResponse,
+  type LivenessVerifyResponse,
+  type SessionHandoffResponse,
+  type SessionRequest,
+} from "@shared/api";
+import {
+  frameSignals,
+  summarizeBurst,
+  SPOOF_ANALYSIS_WIDTH,
+  SPOOF_BURST_FRAMES,
+  SPOOF_BURST_MS,
+  SPOOF_KEY_FRAMES,
+  type SpoofSignals,
+} from "@shared/antiSpoof";
+import { cropRect, FACE_CROP_SIZE, type FaceBox } from "@shared/faceMatch";
+import { handoffUrl } from "@shared/handoff";
+import { LIVENESS_FRAMES_PER_PROMPT, LIVENESS_PROMPT_TEXT, type LivenessPrompt } from "@shared/liveness";
+import { assessSelfieFrame, faceBoxFromPixels, SELFIE_CHECK_INTERVAL_MS, type SelfieQuality } from "@shared/selfieQuality";
+import type { FaceDetector } from "@mediapipe/tasks-vision";
+import { useIsMobile } from "@/hooks/use-mobile";
 
 interface FaceVerificationProps {
   onVerified: (result: { success: boolean; message: string; capturedImage: string }) => void;
   onClose: () => void;
   documentBase64?: string;
+  sessionId?: string;
+  /** Called once the handoff link is on screen; the caller waits for the phone to finish. */
+  onHandoff?: () => void;
 }
 
-export default function FaceVerification({ onVerified, onClose, documentBase64 }: FaceVerificationProps) {
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+/** Time to read a prompt before its frames are captured, and the gap between frames. */
+const PROMPT_LEAD_MS = 1200;
+const FRAME_INTERVAL_MS = 350;
+/** Liveness frames are downscaled; the model only needs to see the movement. */
+const FRAME_WIDTH = 320;
+
+/** Shown when a check could not reach a verdict; the applicant simply tries again. */
+const INCONCLUSIVE_MESSAGE = "⚠️ We couldn't complete the check this time. This is not a rejection — please try again.";
+
+interface Burst {
+  /** Full-resolution data URL of the sharpest frame. */
+  selfie: string;
+  signals: SpoofSignals;
+  keyFrames: string[];
+}
+
+/** The MediaPipe runtime and BlazeFace model, fetched on first use; keep the runtime in step with package.json. */
+const MEDIAPIPE_WASM_URL = "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.17/wasm";
+const FACE_DETECTOR_MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite";
+
+let faceDetector: Promise<FaceDetector | null> | null = null;
+
+/** Loads the on-device face detector once per page; resolves to null when it cannot load, and the quality gate then checks only lighting and blur. */
+function loadFaceDetector(): Promise<FaceDetector | null> {
+  faceDetector ??= import("@mediapipe/tasks-vision")
+    .then(async ({ FaceDetector, FilesetResolver }) => FaceDetector.createFromOptions(
+      await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL),
+      { baseOptions: { modelAssetPath: FACE_DETECTOR_MODEL_URL }, runningMode: "VIDEO", minDetectionConfidence: 0.6 },
+    ))
+    .catch(() => null);
+  return faceDetector;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function postFunction(body: LivenessRequest | DetectSpoofRequest | FaceMatchRequest | SessionRequest) {
+  return fetch(`${SUPABASE_URL}/functions/v1/${ENDPOINTS[body.action]}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Cuts a face out of a base64 image (see cropRect), scaled down to FACE_CROP_SIZE; resolves to base64 JPEG. */
+function cropFace(base64: string, box: FaceBox): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const rect = cropRect(box, img.naturalWidth, img.naturalHeight);
+      const scale = Math.min(1, FACE_CROP_SIZE / Math.max(rect.width, rect.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(rect.width * scale));
+      canvas.height = Math.max(1, Math.round(rect.height * scale));
+      const ctx = canvas.getContext("2d");
+      if (!ctx) { reject(new Error("Couldn't crop the face.")); return; }
+      ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.9).split(",")[1]);
+    };
+    img.onerror = () => reject(new Error("Couldn't read the image to crop the face."));
+    img.src = `data:image/jpeg;base64,${base64}`;
+  });
+}
+
+/** What went wrong opening the camera, by the DOMException getUserMedia rejected with. */
+function cameraErrorMessage(error: unknown): string {
+  switch (error instanceof DOMException || error instanceof Error ? error.name : "") {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "Camera access denied. Please allow camera permissions in your browser's site settings and try again.";
+    case "NotFoundError":
+      return "No camera was found on this device.";
+    case "NotReadableError":
+      return "Your camera is in use by another app, or couldn't be started. Close any video calls or apps using it and try again.";
+    case "OverconstrainedError":
+      return "This camera doesn't support the required video settings. Please pick another camera.";
+    case "AbortError":
+      return "The camera stopped unexpectedly. Please try again.";
+    default:
+      return "Couldn't open the camera. Please try again.";
+  }
+}
+
+async function errorMessage(resp: Response, fallback: string): Promise<string> {
+  const body = (await resp.json().catch(() => null)) as ErrorResponse | null;
+  return body?.error ?? fallback;
+}
+
+export default function FaceVerification({ onVerified, onClose, documentBase64, sessionId, onHandoff }: FaceVerificationProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const [phase, setPhase] = useState<"camera" | "verifying" | "result">("camera");
+  const mountedRef = useRef(true);
+  const isMobile = useIsMobile();
+  const [phase, setPhase] = useState<"camera" | "capturing" | "verifying" | "result" | "handoff">("camera");
   const [countdown, setCountdown] = useState<number | null>(null);
+  const [activePrompt, setActivePrompt] = useState<LivenessPrompt | null>(null);
+  const [starting, setStarting] = useState(false);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [challengeResult, setChallengeResult] = useState<LivenessVerifyResponse | null>(null);
+  const [spoofResult, setSpoofResult] = useState<DetectSpoofResponse | null>(null);
+  const [faceMatch, setFaceMatch] = useState<FaceMatchResponse | null>(null);
   const [resultMsg, setResultMsg] = useState("");
   const [resultOk, setResultOk] = useState(false);
   const [cameraError, setCameraError] = useState<string | null>(null);
+  const [quality, setQuality] = useState<SelfieQuality | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [cameraId, setCameraId] = useState<string | null>(null);
+  const [mirrored, setMirrored] = useState(true);
+  const [handoff, setHandoff] = useState<{ url: string; qr: string; expiresAt: string } | null>(null);
+  const [handoffError, setHandoffError] = useState<string | null>(null);
 
-  const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+  /** Opens the chosen camera, or the front camera when none is chosen; sizes are preferences so any camera can open. */
+  const openCamera = useCallback(async (deviceId: string | null) => {
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    setCameraError(null);
+    setQuality(null);
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError("This browser can't open the camera. Please use an up-to-date browser over a secure (https) connection.");
+      return;
+    }
+    try {
+      const size = { width: { ideal: 640 }, height: { ideal: 480 } };
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: deviceId ? { deviceId: { exact: deviceId }, ...size } : { facingMode: "user", ...size },
+      });
+      if (!mountedRef.current) { stream.getTracks().forEach(t => t.stop()); return; }
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        videoRef.current.play();
+      }
+      const settings = stream.getVideoTracks()[0]?.getSettings();
+      setCameraId(settings?.deviceId ?? deviceId);
+      setMirrored(settings?.facingMode !== "environment");
+      // Labels are only filled in once camera access is granted
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      if (mountedRef.current) setCameras(devices.filter((d) => d.kind === "videoinput"));
+    } catch (e) {
+      if (mountedRef.current) setCameraError(cameraErrorMessage(e));
+    }
+  }, []);
 
   // Start camera
   useEffect(() => {
-    let active = true;
-    navigator.mediaDevices
-      .getUserMedia({ video: { facingMode: "user", width: 640, height: 480 } })
-      .then((stream) => {
-        if (!active) { stream.getTracks().forEach(t => t.stop()); return; }
-        streamRef.current = stream;
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          videoRef.current.play();
-        }
-      })
-      .catch(() => {
-        setCameraError("Camera access denied. Please allow camera permissions and try again.");
-      });
+    mountedRef.current = true;
+    openCamera(null);
 
     return () => {
-      active = false;
+      mountedRef.current = false;
       streamRef.current?.getTracks().forEach(t => t.stop());
     };
-  }, []);
+  }, [openCamera]);
 
-  const capturePhoto = useCallback(() => {
+  const drawFrame = useCallback((maxWidth: number) => {
     const video = videoRef.current;
     const canvas = canvasRef.current;
     if (!video || !canvas) return null;
-    canvas.width = video.videoWidth || 640;
-    canvas.height = video.videoHeight || 480;
-    const ctx = canvas.getContext("2d");
+    const videoWidth = video.videoWidth || 640;
+    const videoHeight = video.videoHeight || 480;
+    canvas.width = Math.min(videoWidth, maxWidth);
+    canvas.height = Math.round(canvas.width * (videoHeight / videoWidth));
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
     if (!ctx) return null;
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-    return canvas.toDataURL("image/jpeg", 0.85);
+    return ctx;
   }, []);
 
-  const startCountdown = () => {
-    setCountdown(3);
-    const tick = (n: number) => {
-      if (n <= 0) {
-        setCountdown(null);
-        handleCapture();
-      } else {
-        setTimeout(() => tick(n - 1), 1000);
-        setCountdown(n);
+  const grabFrame = useCallback((maxWidth: number, quality: number) => {
+    return drawFrame(maxWidth)?.canvas.toDataURL("image/jpeg", quality) ?? null;
+  }, [drawFrame]);
+
+  const grabPixels = useCallback((maxWidth: number) => {
+    const ctx = drawFrame(maxWidth);
+    return ctx ? ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height) : null;
+  }, [drawFrame]);
+
+  const capturePhoto = useCallback(() => grabFrame(Infinity, 0.85), [grabFrame]);
+
+  // Selfie quality gate: Start stays disabled until a preview frame passes
+  useEffect(() => {
+    if (phase !== "camera" || cameraError) return;
+    let active = true;
+    let detector: FaceDetector | null | undefined;
+    loadFaceDetector().then((loaded) => { detector = loaded; });
+
+    const check = () => {
+      // Still loading
+      if (!active || detector === undefined) return;
+      const frame = grabPixels(SPOOF_ANALYSIS_WIDTH);
+      const canvas = canvasRef.current;
+      if (!frame || !canvas || !videoRef.current?.videoWidth) return;
+      let faces: FaceBox[] | null = null;
+      if (detector) {
+        try {
+          faces = detector.detectForVideo(canvas, performance.now()).detections
+            .flatMap((d) => (d.boundingBox ? [faceBoxFromPixels(d.boundingBox, frame.width, frame.height)] : []));
+        } catch {
+          // As without a detector: this frame is checked for lighting and blur only
+        }
       }
+      setQuality(assessSelfieFrame(faces, frame));
     };
-    setTimeout(() => tick(2), 1000);
+    const timer = setInterval(check, SELFIE_CHECK_INTERVAL_MS);
+    return () => {
+      active = false;
+      clearInterval(timer);
+    };
+  }, [phase, cameraError, grabPixels]);
+
+  const showResult = (ok: boolean, msg: string) => {
+    setResultOk(ok);
+    setResultMsg(msg);
+    setPhase("result");
   };
 
-  const handleCapture = async () => {
-    const dataUrl = capturePhoto();
-    if (!dataUrl) return;
-    setCapturedImage(dataUrl);
-    streamRef.current?.getTracks().forEach(t => t.stop());
+  const stopCamera = () => streamRef.current?.getTracks().forEach(t => t.stop());
+
+  const countDown = async () => {
+    for (let n = 3; n > 0; n--) {
+      setCountdown(n);
+      await sleep(1000);
+    }
+    setCountdown(null);
+  };
+
+  // ── Phone handoff ───────────────────────────────────────────────────────────
+  // Offered on a desktop without a usable camera; see _shared/handoff.ts
+
+  const startHandoff = async () => {
+    if (!sessionId) return;
+    setHandoffError(null);
+    try {
+      const resp = await postFunction({ action: "session_handoff", sessionId });
+      if (!resp.ok) throw new Error(await errorMessage(resp, "Couldn't create a link for your phone."));
+      const { handoffId, expiresAt }: SessionHandoffResponse = await resp.json();
+      const url = handoffUrl(window.location.origin, handoffId);
+      const qr = await QRCode.toDataURL(url, { width: 220, margin: 1 });
+      if (!mountedRef.current) return;
+      stopCamera();
+      setHandoff({ url, qr, expiresAt });
+      setPhase("handoff");
+      onHandoff?.();
+    } catch (e) {
+      setHandoffError(`${e instanceof Error ? e.message : "Couldn't create a link for your phone."} Please try again.`);
+    }
+  };
+
+  // ── Anti-spoofing burst ─────────────────────────────────────────────────────
+
+  /** Records SPOOF_BURST_MS of video for the anti-spoofing signals; the sharpest frame becomes the selfie. */
+  const recordBurst = async (): Promise<Burst | null> => {
+    const started = performance.now();
+    const pixels: ImageData[] = [];
+    const frames: string[] = [];
+    let selfie: string | null = null;
+    let sharpest = -1;
+    for (let i = 0; i < SPOOF_BURST_FRAMES; i++) {
+      const frame = grabPixels(SPOOF_ANALYSIS_WIDTH);
+      if (frame) {
+        pixels.push(frame);
+        const { sharpness } = frameSignals(frame);
+        if (sharpness > sharpest) {
+          sharpest = sharpness;
+          selfie = capturePhoto();
+        }
+        const jpeg = grabFrame(FRAME_WIDTH, 0.7);
+        if (jpeg) frames.push(jpeg.split(",")[1]);
+      }
+      await sleep(SPOOF_BURST_MS / SPOOF_BURST_FRAMES);
+    }
+    if (pixels.length < 2 || !selfie || !frames.length) return null;
+
+    const step = (frames.length - 1) / Math.max(1, SPOOF_KEY_FRAMES - 1);
+    const keyFrames = [...new Set(Array.from({ length: SPOOF_KEY_FRAMES }, (_, i) => Math.round(i * step)))].map((i) => frames[i]);
+    return { selfie, signals: summarizeBurst(pixels, performance.now() - started), keyFrames };
+  };
+
+  const checkSpoof = async (burst: Burst): Promise<DetectSpoofResponse> => {
+    const resp = await postFunction({ action: "detect_spoof", signals: burst.signals, keyFrames: burst.keyFrames, sessionId });
+    if (!resp.ok) throw new Error(await errorMessage(resp, "The anti-spoofing check failed."));
+    const result: DetectSpoofResponse = await resp.json();
+    setSpoofResult(result);
+    return result;
+  };
+
+  /** Why the selfie cannot go on to the face match, or null when the anti-spoofing check passed. */
+  const spoofBlock = (result: DetectSpoofResponse) => {
+    if (result.outcome === "passed") return null;
+    if (result.outcome === "inconclusive") return INCONCLUSIVE_MESSAGE;
+    return `⚠️ This looks like a photo or a screen rather than a live face${result.reasons.length ? ` (${result.reasons[0].toLowerCase()})` : ""}. Please try again in person, in good lighting.`;
+  };
+
+  // ── Passive check ───────────────────────────────────────────────────────────
+  // Used when the functions cannot issue liveness challenges (no session or no database)
+
+  const startPassive = async () => {
+    setPhase("capturing");
+    await countDown();
+    const burst = await recordBurst();
+    if (!mountedRef.current) return;
+
+    stopCamera();
+    if (!burst) {
+      showResult(false, "The camera stopped while capturing. Please try again.");
+      return;
+    }
+    setCapturedImage(burst.selfie);
     setPhase("verifying");
 
-    const base64 = dataUrl.split(",")[1];
+    try {
+      const blocked = spoofBlock(await checkSpoof(burst));
+      if (blocked) {
+        showResult(false, blocked);
+        return;
+      }
+    } catch (e) {
+      showResult(false, `${e instanceof Error ? e.message : "The anti-spoofing check failed."} Please try again.`);
+      return;
+    }
+    await matchFace(burst.selfie.split(",")[1], null);
+  };
+
+  // ── Active liveness challenge ───────────────────────────────────────────────
+
+  const startChallenge = async () => {
+    if (!sessionId) { startPassive(); return; }
+
+    setStarting(true);
+    let challenge: LivenessStartResponse;
+    try {
+      const resp = await postFunction({ action: "liveness_start", sessionId });
+      if (resp.status === 503) { setStarting(false); startPassive(); return; }
+      if (!resp.ok) throw new Error(await errorMessage(resp, "Couldn't start the liveness check."));
+      challenge = await resp.json();
+    } catch (e) {
+      setStarting(false);
+      stopCamera();
+      showResult(false, `${e instanceof Error ? e.message : "Couldn't start the liveness check."} Please try again.`);
+      return;
+    }
+    setStarting(false);
+    setPhase("capturing");
+
+    await countDown();
+    // The applicant looks straight at the camera for the burst, which doubles as the baseline
+    const burst = await recordBurst();
+    const baseline = grabFrame(FRAME_WIDTH, 0.7);
+    const responses: { prompt: LivenessPrompt; frames: string[] }[] = [];
+    for (const prompt of challenge.prompts) {
+      setActivePrompt(prompt);
+      await sleep(PROMPT_LEAD_MS);
+      const frames: string[] = [];
+      for (let i = 0; i < LIVENESS_FRAMES_PER_PROMPT; i++) {
+        const frame = grabFrame(FRAME_WIDTH, 0.7);
+        if (frame) frames.push(frame.split(",")[1]);
+        await sleep(FRAME_INTERVAL_MS);
+      }
+      responses.push({ prompt, frames });
+    }
+    setActivePrompt(null);
+    // Closed mid-challenge
+    if (!mountedRef.current) return;
+
+    stopCamera();
+    if (!burst || !baseline || responses.some((r) => !r.frames.length)) {
+      showResult(false, "The camera stopped while capturing. Please try again.");
+      return;
+    }
+    setCapturedImage(burst.selfie);
+    setPhase("verifying");
 
     try {
-      // Build message for AI face verification
-      const messages: { role: string; content: any }[] = [
-        {
-          role: "user",
-          content: documentBase64
-            ? [
-                {
-                  type: "image_url",
-                  image_url: { url: `data:image/jpeg;base64,${base64}` },
-                },
-                {
-                  type: "image_url",
-                  image_url: { url: `data:image/jpeg;base64,${documentBase64}` },
-                },
-                {
-                  type: "text",
-                  text: "The first image is a live selfie of the user and the second image is the uploaded ID document. Please do: 1) Liveness check - is the selfie a real person (not a photo of a photo, screen, or mask)? 2) Face match - does the face in the selfie match the photo on the ID document? Reply ONLY in this exact JSON format (no markdown): {\"liveness\": true/false, \"match\": true/false, \"reason\": \"short explanation\"}",
-                },
-              ]
-            : [
-                {
-                  type: "image_url",
-                  image_url: { url: `data:image/jpeg;base64,${base64}` },
-                },
-                {
-                  type: "text",
-                  text: "This is a live selfie. Check if it's a real live person (not a photo of a photo, screen print, or mask). Reply ONLY in this exact JSON format (no markdown): {\"liveness\": true/false, \"match\": null, \"reason\": \"short explanation\"}",
-                },
-              ],
-        },
-      ];
-
-      const resp = await fetch(`${SUPABASE_URL}/functions/v1/onboardx-chat`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          messages,
-          faceVerifyMode: true,
-        }),
+      const livenessResp = postFunction({
+        action: "liveness_verify",
+        challengeId: challenge.challengeId,
+        baseline: baseline.split(",")[1],
+        responses,
+        sessionId,
       });
+      const [resp, spoof] = await Promise.all([livenessResp, checkSpoof(burst)]);
+      if (!resp.ok) {
+        showResult(false, `${await errorMessage(resp, "The liveness check failed.")} Please try again.`);
+        return;
+      }
+      const result: LivenessVerifyResponse = await resp.json();
+      setChallengeResult(result);
+      if (result.outcome !== "passed") {
+        showResult(false, result.outcome === "inconclusive"
+          ? INCONCLUSIVE_MESSAGE
+          : `⚠️ Liveness check failed: ${result.reason} Please try again, following each prompt as it appears.`);
+        return;
+      }
+      const blocked = spoofBlock(spoof);
+      if (blocked) {
+        showResult(false, blocked);
+        return;
+      }
+      await matchFace(burst.selfie.split(",")[1], result);
+    } catch (e) {
+      showResult(false, e instanceof Error ? `${e.message} Please try again.` : "Verification failed due to a network error. Please try again.");
+    }
+  };
 
-      let fullText = "";
-      if (resp.ok && resp.body) {
-        const reader = resp.body.getReader();
-        const decoder = new TextDecoder();
-        let buf = "";
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          buf += decoder.decode(value, { stream: true });
-          let idx: number;
-          while ((idx = buf.indexOf("\n")) !== -1) {
-            let line = buf.slice(0, idx);
-            buf = buf.slice(idx + 1);
-            if (line.endsWith("\r")) line = line.slice(0, -1);
-            if (!line.startsWith("data: ")) continue;
-            const json = line.slice(6).trim();
-            if (json === "[DONE]") break;
-            try {
-              const parsed = JSON.parse(json);
-              const c = parsed.choices?.[0]?.delta?.content;
-              if (c) fullText += c;
-            } catch { /* skip */ }
-          }
-        }
+  // ── Face match ──────────────────────────────────────────────────────────────
+
+  const matchFace = async (selfie: string, livenessResult: LivenessVerifyResponse | null) => {
+    if (!documentBase64) {
+      showResult(false, "❌ Your ID document is needed to match your face. Please upload it again, then retry.");
+      return;
+    }
+    try {
+      const locateResp = await postFunction({ action: "face_locate", selfie, document: documentBase64, sessionId });
+      if (!locateResp.ok) throw new Error(await errorMessage(locateResp, "Couldn't find the faces to compare."));
+      const location: FaceLocateResponse = await locateResp.json();
+      if (location.outcome === "inconclusive") {
+        showResult(false, INCONCLUSIVE_MESSAGE);
+        return;
+      }
+      if (!location.document) {
+        showResult(false, "❌ We couldn't find the photo on your ID document, so your selfie can't be matched to it. Please re-upload a clear image of the card.");
+        return;
+      }
+      if (!location.selfie) {
+        showResult(false, "⚠️ We couldn't find your face in the selfie. Please retake it looking straight at the camera in good lighting.");
+        return;
       }
 
-      // Parse JSON response
-      let liveness = true;
-      let match = true;
-      let reason = "Verification complete.";
-      try {
-        // Extract JSON from response (model might wrap it)
-        const jsonMatch = fullText.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          const parsed = JSON.parse(jsonMatch[0]);
-          liveness = parsed.liveness !== false;
-          match = parsed.match !== false;
-          reason = parsed.reason || reason;
-        }
-      } catch { /* use defaults */ }
+      const [documentCrop, selfieCrop] = await Promise.all([cropFace(documentBase64, location.document), cropFace(selfie, location.selfie)]);
+      const matchResp = await postFunction({
+        action: "face_match",
+        selfie: { image: selfieCrop, box: location.selfie },
+        document: { image: documentCrop, box: location.document },
+        sessionId,
+      });
+      if (!matchResp.ok) throw new Error(await errorMessage(matchResp, "The face match failed."));
+      const result: FaceMatchResponse = await matchResp.json();
+      setFaceMatch(result);
 
-      const success = liveness && (match !== false);
+      const passed = result.outcome === "passed";
       let msg = "";
-      if (!liveness) {
-        msg = `⚠️ Liveness check failed: ${reason} Please retake your selfie in good lighting.`;
-      } else if (match === false) {
-        msg = `❌ Face mismatch: ${reason} The selfie doesn't match the ID document. Please ensure you're using your own document.`;
+      if (result.outcome === "failed") {
+        msg = `❌ Face mismatch: ${result.reason} The selfie doesn't match the ID document. Please ensure you're using your own document.`;
+      } else if (result.similarity === null) {
+        msg = INCONCLUSIVE_MESSAGE;
+      } else if (!passed) {
+        msg = `⚠️ We couldn't confirm that your selfie matches your ID: ${result.reason} Please retake your selfie in good lighting.`;
       } else {
-        msg = `✅ Face verified successfully! ${reason}`;
+        msg = `✅ Face verified successfully! Match ${result.similarity}/100${livenessResult ? `, liveness score ${livenessResult.score}/100` : ""}. ${result.reason}`;
       }
 
-      setResultOk(success);
-      setResultMsg(msg);
-      setPhase("result");
+      showResult(passed, msg);
 
-      if (success) {
+      if (passed) {
         setTimeout(() => {
-          onVerified({ success: true, message: msg, capturedImage: base64 });
+          onVerified({ success: true, message: msg, capturedImage: selfie });
         }, 2500);
       }
     } catch (e) {
-      setResultOk(false);
-      setResultMsg("Verification failed due to a network error. Please try again.");
-      setPhase("result");
+      showResult(false, e instanceof Error ? `${e.message} Please try again.` : "Verification failed due to a network error. Please try again.");
     }
   };
 
@@ -219,32 +538,99 @@ export default function FaceVerification({ onVerified, onClose, documentBase64 }
         <div className="p-6 flex flex-col items-center gap-5">
 
           {/* Camera error */}
-          {cameraError && (
+          {cameraError && phase !== "handoff" && (
             <div className="w-full text-center py-8">
               <div className="text-4xl mb-3">📷</div>
               <p className="text-[#ff4444] text-sm">{cameraError}</p>
+              {cameras.length > 1 && (
+                <select
+                  value={cameraId ?? ""}
+                  onChange={(e) => openCamera(e.target.value)}
+                  className="mt-4 w-full px-3 py-2 rounded-xl text-sm text-white bg-black/40 border border-white/10"
+                >
+                  <option value="" disabled>Choose another camera</option>
+                  {cameras.map((c, i) => <option key={c.deviceId} value={c.deviceId}>{c.label || `Camera ${i + 1}`}</option>)}
+                </select>
+              )}
+              <div className="mt-4 flex flex-wrap justify-center gap-2">
+                <button
+                  onClick={() => openCamera(cameraId)}
+                  className="px-5 py-2 rounded-full text-sm text-white"
+                  style={{ background: "rgba(255,42,42,0.2)", border: "1px solid rgba(255,42,42,0.4)" }}
+                >
+                  Try again
+                </button>
+                {sessionId && !isMobile && (
+                  <button
+                    onClick={startHandoff}
+                    className="px-5 py-2 rounded-full text-sm font-bold text-white"
+                    style={{ background: "linear-gradient(to right, #8b0000, #ff2a2a)" }}
+                  >
+                    📱 Continue on your phone
+                  </button>
+                )}
+                <button
+                  onClick={onClose}
+                  className="px-5 py-2 rounded-full text-sm text-[#aaa] hover:text-white"
+                  style={{ border: "1px solid rgba(255,255,255,0.1)" }}
+                >
+                  Close
+                </button>
+              </div>
+              {handoffError && <p className="mt-3 text-[#ff6666] text-xs">{handoffError}</p>}
+            </div>
+          )}
+
+          {/* Phone handoff */}
+          {phase === "handoff" && handoff && (
+            <div className="w-full flex flex-col items-center gap-4 py-2 text-center">
+              <p className="text-[#aaa] text-sm">
+                Scan this code with your phone's camera to finish the face check there. This page will carry on by itself once you're done.
+              </p>
+              <img src={handoff.qr} alt="QR code linking to this application" className="w-[220px] h-[220px] rounded-xl bg-white p-2" />
+              <p className="text-[#666] text-xs break-all">{handoff.url}</p>
               <button
-                onClick={onClose}
-                className="mt-4 px-5 py-2 rounded-full text-sm text-white"
+                onClick={() => navigator.clipboard?.writeText(handoff.url).catch(() => { /* the link is shown anyway */ })}
+                className="px-5 py-2 rounded-full text-sm text-white"
                 style={{ background: "rgba(255,42,42,0.2)", border: "1px solid rgba(255,42,42,0.4)" }}
               >
-                Close
+                Copy link
               </button>
+              <p className="text-[#666] text-xs">
+                The link works once, until {new Date(handoff.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.
+              </p>
+              <div className="flex items-center gap-2 text-[#888] text-xs">
+                <div className="w-3 h-3 border-2 border-[#ff2a2a] border-t-transparent rounded-full animate-spin" />
+                Waiting for your phone…
+              </div>
             </div>
           )}
 
-          {/* Camera phase */}
-          {!cameraError && phase === "camera" && (
+          {/* Camera and capture phases */}
+          {!cameraError && (phase === "camera" || phase === "capturing") && (
             <>
               <p className="text-[#aaa] text-sm text-center">
-                Position your face within the frame, ensure good lighting, then press <strong className="text-white">Capture</strong>.
+                {phase === "camera"
+                  ? <>Position your face within the frame, ensure good lighting, then press <strong className="text-white">Start</strong> and follow the prompts.</>
+                  : activePrompt ? "Follow the prompt until the next one appears." : "Look straight at the camera."}
               </p>
 
+              {phase === "camera" && cameras.length > 1 && (
+                <select
+                  value={cameraId ?? ""}
+                  onChange={(e) => openCamera(e.target.value)}
+                  aria-label="Camera"
+                  className="w-full px-3 py-2 rounded-xl text-sm text-white bg-black/40 border border-white/10"
+                >
+                  {cameras.map((c, i) => <option key={c.deviceId} value={c.deviceId}>{c.label || `Camera ${i + 1}`}</option>)}
+                </select>
+              )}
+
               {/* Video frame */}
               <div className="relative w-full aspect-[4/3] rounded-2xl overflow-hidden bg-black">
                 <video
                   ref={videoRef}
-                  className="w-full h-full object-cover scale-x-[-1]"
+                  className={`w-full h-full object-cover ${mirrored ? "scale-x-[-1]" : ""}`}
                   muted
                   playsInline
                 />
@@ -252,14 +638,32 @@ export default function FaceVerification({ onVerified, onClose, documentBase64 }
                 {/* Oval overlay guide */}
                 <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                   <div
-                    className="w-[55%] aspect-[3/4] rounded-[50%]"
+                    className="w-[55%] aspect-[3/4] rounded-[50%] transition-colors"
                     style={{
-                      border: "2px dashed rgba(255,42,42,0.7)",
+                      border: `2px dashed ${phase === "camera" && quality?.passed ? "rgba(90,255,138,0.8)" : "rgba(255,42,42,0.7)"}`,
                       boxShadow: "0 0 0 9999px rgba(0,0,0,0.35)",
                     }}
                   />
                 </div>
 
+                {/* Quality hint */}
+                {phase === "camera" && (
+                  <div className="absolute inset-x-0 top-0 px-4 py-2 text-center bg-black/60" aria-live="polite">
+                    <span className={`text-sm font-semibold ${quality?.passed ? "text-[#5aff8a]" : "text-white"}`}>
+                      {quality?.hint ?? "Checking the camera…"}
+                    </span>
+                  </div>
+                )}
+
+                {/* Challenge prompt */}
+                {activePrompt && (
+                  <div className="absolute inset-x-0 bottom-0 px-4 py-3 text-center bg-black/60">
+                    <span className="text-white font-bold text-lg tracking-wide" style={{ textShadow: "0 0 12px rgba(255,42,42,0.8)" }}>
+                      {LIVENESS_PROMPT_TEXT[activePrompt]}
+                    </span>
+                  </div>
+                )}
+
                 {/* Countdown overlay */}
                 {countdown !== null && (
                   <div className="absolute inset-0 flex items-center justify-center bg-black/40">
@@ -284,16 +688,25 @@ export default function FaceVerification({ onVerified, onClose, documentBase64 }
               </div>
 
               <button
-                onClick={startCountdown}
-                disabled={countdown !== null}
+                onClick={startChallenge}
+                disabled={phase === "capturing" || starting || !quality?.passed}
                 className="w-full py-3 rounded-full font-bold tracking-widest text-white text-sm transition-all hover:scale-[1.02] disabled:opacity-50"
                 style={{
                   background: "linear-gradient(to right, #8b0000, #ff2a2a)",
                   boxShadow: "0 0 20px rgba(255,42,42,0.4)",
                 }}
               >
-                {countdown !== null ? `📸 Capturing in ${countdown}…` : "📸 CAPTURE PHOTO"}
+                {phase === "capturing"
+                  ? countdown !== null ? `📸 Starting in ${countdown}…` : "🎥 Recording…"
+                  : starting ? "Preparing…" : "🎥 START LIVENESS CHECK"}
               </button>
+
+              {phase === "camera" && sessionId && !isMobile && (
+                <button onClick={startHandoff} className="-mt-2 text-xs text-[#888] hover:text-white underline underline-offset-2">
+                  Camera not working well? Continue on your phone
+                </button>
+              )}
+              {phase === "camera" && handoffError && <p className="-mt-3 text-[#ff6666] text-xs">{handoffError}</p>}
             </>
           )}
 
@@ -353,22 +766,58 @@ export default function FaceVerification({ onVerified, onClose, documentBase64 }
                 {resultMsg}
               </div>
 
+              {faceMatch && (
+                <div className="w-full flex items-center justify-center gap-4 text-xs">
+                  <figure className="flex flex-col items-center gap-1">
+                    <img
+                      src={`data:image/jpeg;base64,${faceMatch.crops.document}`}
+                      alt="ID portrait"
+                      className="w-20 h-20 object-cover rounded-xl"
+                      style={{ border: "1px solid rgba(255,255,255,0.1)" }}
+                    />
+                    <figcaption className="text-[#666]">ID photo</figcaption>
+                  </figure>
+                  <span className={faceMatch.passed ? "text-[#5aff8a] font-bold" : "text-[#ff6666] font-bold"}>
+                    {faceMatch.similarity ?? "—"}%
+                  </span>
+                  <figure className="flex flex-col items-center gap-1">
+                    <img
+                      src={`data:image/jpeg;base64,${faceMatch.crops.selfie}`}
+                      alt="Selfie"
+                      className="w-20 h-20 object-cover rounded-xl scale-x-[-1]"
+                      style={{ border: "1px solid rgba(255,255,255,0.1)" }}
+                    />
+                    <figcaption className="text-[#666]">Selfie</figcaption>
+                  </figure>
+                </div>
+              )}
+
+              {challengeResult && (
+                <ul className="w-full flex flex-col gap-1 text-xs">
+                  {challengeResult.challenges.map((c) => (
+                    <li key={c.prompt} className="flex justify-between px-3 py-1.5 rounded-lg bg-white/5">
+                      <span className="text-[#aaa]">{c.passed ? "✅" : "❌"} {LIVENESS_PROMPT_TEXT[c.prompt]}</span>
+                      <span className="text-[#666]">{c.confidence}%</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {spoofResult && (
+                <p className="text-[#666] text-xs">
+                  Anti-spoofing: {spoofResult.verdict} · spoof score {spoofResult.score}/100
+                </p>
+              )}
+
               {!resultOk && (
                 <button
                   onClick={() => {
                     setCapturedImage(null);
+                    setChallengeResult(null);
+                    setSpoofResult(null);
+                    setFaceMatch(null);
                     setPhase("camera");
-                    // Re-open camera
-                    navigator.mediaDevices
-                      .getUserMedia({ video: { facingMode: "user" } })
-                      .then((stream) => {
-                        streamRef.current = stream;
-                        if (videoRef.current) {
-                          videoRef.current.srcObject = stream;
-                          videoRef.current.play();
-                        }
-                      })
-                      .catch(() => setCameraError("Camera access denied."));
+                    openCamera(cameraId);
                   }}
                   className="w-full py-3 rounded-full font-bold tracking-widest text-white text-sm"
                   style={{
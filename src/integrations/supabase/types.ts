@@ -14,7 +14,392 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      audit_events: {
+        Row: {
+          actor: string
+          created_at: string
+          event_type: string
+          hash: string
+          id: number
+          payload: Json
+          prev_hash: string
+          sequence: number
+          session_id: string
+        }
+        Insert: {
+          actor: string
+          created_at: string
+          event_type: string
+          hash: string
+          id?: number
+          payload: Json
+          prev_hash: string
+          sequence: number
+          session_id: string
+        }
+        Update: {
+          actor?: string
+          created_at?: string
+          event_type?: string
+          hash?: string
+          id?: number
+          payload?: Json
+          prev_hash?: string
+          sequence?: number
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_events_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      liveness_challenges: {
+        Row: {
+          answered_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          prompts: Json
+          session_id: string
+        }
+        Insert: {
+          answered_at?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          prompts: Json
+          session_id: string
+        }
+        Update: {
+          answered_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          prompts?: Json
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "liveness_challenges_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      onboarding_documents: {
+        Row: {
+          created_at: string
+          document_type: string | null
+          id: string
+          mime_type: string
+          qr_data: string | null
+          session_id: string
+          sha256: string
+          storage_path: string
+        }
+        Insert: {
+          created_at?: string
+          document_type?: string | null
+          id?: string
+          mime_type: string
+          qr_data?: string | null
+          session_id: string
+          sha256: string
+          storage_path: string
+        }
+        Update: {
+          created_at?: string
+          document_type?: string | null
+          id?: string
+          mime_type?: string
+          qr_data?: string | null
+          session_id?: string
+          sha256?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "onboarding_documents_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      onboarding_messages: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          is_account_details: boolean
+          is_file: boolean
+          position: number
+          role: string
+          session_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          is_account_details?: boolean
+          is_file?: boolean
+          position: number
+          role: string
+          session_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          is_account_details?: boolean
+          is_file?: boolean
+          position?: number
+          role?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "onboarding_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      onboarding_sessions: {
+        Row: {
+          account: Json | null
+          created_at: string
+          id: string
+          risk_result: Json | null
+          state: Json
+          step: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          account?: Json | null
+          created_at?: string
+          id?: string
+          risk_result?: Json | null
+          state: Json
+          step?: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          account?: Json | null
+          created_at?: string
+          id?: string
+          risk_result?: Json | null
+          state?: Json
+          step?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      onboarding_step_events: {
+        Row: {
+          entered_at: string
+          id: number
+          session_id: string
+          step: string
+        }
+        Insert: {
+          entered_at?: string
+          id?: number
+          session_id: string
+          step: string
+        }
+        Update: {
+          entered_at?: string
+          id?: number
+          session_id?: string
+          step?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "onboarding_step_events_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_cases: {
+        Row: {
+          behavior: Json
+          created_at: string
+          decided_at: string | null
+          decision: string | null
+          decision_reason: string | null
+          document_type: string | null
+          id: string
+          reviewed_by: string | null
+          session_id: string
+          status: string
+          triggers: Json
+        }
+        Insert: {
+          behavior: Json
+          created_at?: string
+          decided_at?: string | null
+          decision?: string | null
+          decision_reason?: string | null
+          document_type?: string | null
+          id?: string
+          reviewed_by?: string | null
+          session_id: string
+          status?: string
+          triggers: Json
+        }
+        Update: {
+          behavior?: Json
+          created_at?: string
+          decided_at?: string | null
+          decision?: string | null
+          decision_reason?: string | null
+          document_type?: string | null
+          id?: string
+          reviewed_by?: string | null
+          session_id?: string
+          status?: string
+          triggers?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_cases_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      risk_models: {
+        Row: {
+          created_at: string
+          definition: Json
+          status: string
+          version: string
+        }
+        Insert: {
+          created_at?: string
+          definition: Json
+          status?: string
+          version: string
+        }
+        Update: {
+          created_at?: string
+          definition?: Json
+          status?: string
+          version?: string
+        }
+        Relationships: []
+      }
+      risk_results: {
+        Row: {
+          created_at: string
+          dti: number
+          foir: number | null
+          id: string
+          level: string
+          model_version: string
+          probability: number
+          result: Json
+          role: string
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          dti: number
+          foir?: number | null
+          id?: string
+          level: string
+          model_version: string
+          probability: number
+          result: Json
+          role?: string
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          dti?: number
+          foir?: number | null
+          id?: string
+          level?: string
+          model_version?: string
+          probability?: number
+          result?: Json
+          role?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_results_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verification_results: {
+        Row: {
+          created_at: string
+          document_id: string | null
+          id: string
+          kind: string
+          result: Json
+          session_id: string
+          verdict: string | null
+        }
+        Insert: {
+          created_at?: string
+          document_id?: string | null
+          id?: string
+          kind: string
+          result: Json
+          session_id: string
+          verdict?: string | null
+        }
+        Update: {
+          created_at?: string
+          document_id?: string | null
+          id?: string
+          kind?: string
+          result?: Json
+          session_id?: string
+          verdict?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verification_results_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "verification_results_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
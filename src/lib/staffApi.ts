@@ -0,0 +1,27 @@
+// Calls the staff-only edge functions (review-cases, …) as the signed-in
+// reviewer: the access token goes in Authorization and the publishable key in
+// `apikey`, as the "staff" auth policy in _shared/http.ts expects.
+
+import { ENDPOINTS, type ErrorResponse, type OnboardRequest } from "@shared/api";
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+/** Resolves with the response body; rejects with the function's error message. */
+export async function callStaffFunction<T>(body: OnboardRequest, accessToken: string): Promise<T> {
+  const resp = await fetch(`${SUPABASE_URL}/functions/v1/${ENDPOINTS[body.action]}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${accessToken}`,
+      apikey: SUPABASE_KEY,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await resp.json().catch(() => null);
+  if (!resp.ok) {
+    const error = data as ErrorResponse | null;
+    throw new Error(error?.fieldErrors?.[0]?.message ?? error?.error ?? `Request failed (${resp.status})`);
+  }
+  return data as T;
+}
@@ -0,0 +1,259 @@
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import StaffSignIn from "@/components/StaffSignIn";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useStaffSession } from "@/hooks/useStaffSession";
+import { callStaffFunction } from "@/lib/staffApi";
+import type { AdminFunnelResponse, AuditExportResponse } from "@shared/api";
+
+// ── Chart config ──────────────────────────────────────────────────────────────
+
+const PERIODS = [7, 30, 90];
+
+const funnelConfig = { sessions: { label: "Sessions", color: "#3b82f6" } } satisfies ChartConfig;
+
+const timingConfig = { minutes: { label: "Average minutes", color: "#8b5cf6" } } satisfies ChartConfig;
+
+const verdictConfig = {
+  GENUINE: { label: "Genuine", color: "#22c55e" },
+  SUSPICIOUS: { label: "Suspicious", color: "#eab308" },
+  LIKELY_FAKE: { label: "Likely fake", color: "#ef4444" },
+  UNPARSED: { label: "Unparsed", color: "#94a3b8" },
+} satisfies ChartConfig;
+
+const riskConfig = {
+  Low: { label: "Low", color: "#22c55e" },
+  Medium: { label: "Medium", color: "#eab308" },
+  High: { label: "High", color: "#ef4444" },
+} satisfies ChartConfig;
+
+const percent = (share: number) => `${(share * 100).toFixed(0)}%`;
+
+function configColor(config: ChartConfig, key: string): string {
+  const entry = config[key];
+  return entry && "color" in entry && entry.color ? entry.color : "#94a3b8";
+}
+
+// ── Dashboard ─────────────────────────────────────────────────────────────────
+
+function Dashboard({ report }: { report: AdminFunnelResponse }) {
+  const started = report.stages[0]?.sessions ?? 0;
+  const opened = report.stages.find((s) => s.stage === "account")?.sessions ?? 0;
+  const timings = report.stepTimings
+    .filter((t) => t.averageSeconds !== null)
+    .map((t) => ({ step: t.step, minutes: Math.round(((t.averageSeconds ?? 0) / 60) * 10) / 10, sessions: t.sessions }));
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="grid gap-4 sm:grid-cols-3 lg:col-span-2">
+        <Card>
+          <CardHeader><CardDescription>Chats started</CardDescription><CardTitle>{started}</CardTitle></CardHeader>
+        </Card>
+        <Card>
+          <CardHeader><CardDescription>Accounts opened</CardDescription><CardTitle>{opened}</CardTitle></CardHeader>
+        </Card>
+        <Card>
+          <CardHeader><CardDescription>Start → account</CardDescription><CardTitle>{started ? percent(opened / started) : "—"}</CardTitle></CardHeader>
+        </Card>
+      </div>
+
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="text-lg">Funnel</CardTitle>
+          <CardDescription>Sessions that completed each stage</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 lg:grid-cols-2">
+          <ChartContainer config={funnelConfig} className="h-72 w-full">
+            <BarChart data={report.stages}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={12} />
+              <YAxis allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="sessions" fill="var(--color-sessions)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stage</TableHead>
+                <TableHead className="text-right">Sessions</TableHead>
+                <TableHead className="text-right">Dropped</TableHead>
+                <TableHead className="text-right">Conversion</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.stages.map((s, i) => (
+                <TableRow key={s.stage}>
+                  <TableCell>{s.label}</TableCell>
+                  <TableCell className="text-right">{s.sessions}</TableCell>
+                  <TableCell className="text-right">{i ? s.dropOff : "—"}</TableCell>
+                  <TableCell className="text-right">{i ? percent(s.conversion) : "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Document verdicts</CardTitle>
+          <CardDescription>Every verify-document result in the period</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.documentVerdicts.length ? (
+            <ChartContainer config={verdictConfig} className="mx-auto h-64">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="verdict" hideLabel />} />
+                <Pie data={report.documentVerdicts} dataKey="count" nameKey="verdict" innerRadius={50}>
+                  {report.documentVerdicts.map((v) => <Cell key={v.verdict} fill={configColor(verdictConfig, v.verdict)} />)}
+                </Pie>
+                <ChartLegend content={<ChartLegendContent nameKey="verdict" />} />
+              </PieChart>
+            </ChartContainer>
+          ) : <p className="text-sm text-muted-foreground">No documents verified</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Risk levels</CardTitle>
+          <CardDescription>Latest champion score per session</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={riskConfig} className="h-64 w-full">
+            <BarChart data={report.riskLevels}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="level" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent nameKey="level" hideLabel />} />
+              <Bar dataKey="count" radius={4}>
+                {report.riskLevels.map((r) => <Cell key={r.level} fill={configColor(riskConfig, r.level)} />)}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="text-lg">Time per step</CardTitle>
+          <CardDescription>Average time from entering a step to entering the next</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {timings.length ? (
+            <ChartContainer config={timingConfig} className="h-64 w-full">
+              <BarChart data={timings}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="step" tickLine={false} axisLine={false} />
+                <YAxis />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          ) : <p className="text-sm text-muted-foreground">No completed steps yet</p>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// ── Audit export ──────────────────────────────────────────────────────────────
+
+function downloadJson(filename: string, body: unknown) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(body, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function AuditExport({ accessToken }: { accessToken: string }) {
+  const [sessionId, setSessionId] = useState("");
+
+  const exportTrail = useMutation({
+    mutationFn: (id: string) => callStaffFunction<AuditExportResponse>({ action: "audit_export", sessionId: id }, accessToken),
+    onSuccess: (trail) => downloadJson(`audit-${trail.sessionId}.json`, trail),
+  });
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    exportTrail.mutate(sessionId.trim());
+  };
+
+  const trail = exportTrail.data;
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Audit trail</CardTitle>
+        <CardDescription>Download every recorded decision for one applicant, with its hash chain checked</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <form onSubmit={submit} className="flex flex-wrap gap-2">
+          <Input className="max-w-sm" placeholder="Session ID" value={sessionId} onChange={(e) => setSessionId(e.target.value)} required />
+          <Button type="submit" disabled={exportTrail.isPending}>{exportTrail.isPending ? "Exporting…" : "Export"}</Button>
+        </form>
+        {exportTrail.error && <p className="text-sm text-destructive">{exportTrail.error.message}</p>}
+        {trail && (
+          <p className={`text-sm ${trail.chain.valid ? "text-muted-foreground" : "text-destructive"}`}>
+            {trail.events.length} events ·{" "}
+            {trail.chain.valid ? "hash chain intact" : `hash chain broken at event ${trail.chain.brokenAt}`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ── Page ──────────────────────────────────────────────────────────────────────
+
+function AdminArea({ accessToken, email, onSignOut }: { accessToken: string; email: string; onSignOut: () => void }) {
+  const [days, setDays] = useState(30);
+
+  const report = useQuery({
+    queryKey: ["admin-funnel", days],
+    queryFn: () => callStaffFunction<AdminFunnelResponse>({ action: "admin_funnel", days }, accessToken),
+  });
+
+  return (
+    <div className="min-h-screen bg-muted p-4 md:p-8">
+      <header className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold">Onboarding analytics</h1>
+        <div className="flex items-center gap-3 text-sm">
+          <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+            <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((p) => <SelectItem key={p} value={String(p)}>Last {p} days</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Link to="/review" className="underline">Review queue</Link>
+          <span className="text-muted-foreground">{email}</span>
+          <Button variant="outline" size="sm" onClick={onSignOut}>Sign out</Button>
+        </div>
+      </header>
+
+      {report.isLoading && <p className="text-sm text-muted-foreground">Loading…</p>}
+      {report.error && <p className="text-sm text-destructive">{report.error.message}</p>}
+      {report.data && <Dashboard report={report.data} />}
+      <AuditExport accessToken={accessToken} />
+    </div>
+  );
+}
+
+const Admin = () => {
+  const { session, loading, signIn, signOut } = useStaffSession();
+
+  if (loading) return null;
+  if (!session) return <StaffSignIn title="Admin" onSignIn={signIn} />;
+  return <AdminArea accessToken={session.access_token} email={session.user.email ?? ""} onSignOut={signOut} />;
+};
+
+export default Admin;
@@ -4,6 +4,7 @@ import IntroOverlay from "../components/IntroOverlay";
 import ChatPage from "../components/ChatPage";
 import { useInView } from "../hooks/useInView";
 import { useTypewriter } from "../hooks/useTypewriter";
+import { readHandoffId } from "@shared/handoff";
 
 const agentCards = [
   { title: "CONVERSATIONAL AGENT", desc: "Guides users through onboarding via natural language chat." },
@@ -356,8 +357,10 @@ const freqBars = Array.from({ length: 60 }, () => ({
 }));
 
 export default function Index() {
-  const [showIntro, setShowIntro] = useState(true);
-  const [chatOpen, setChatOpen] = useState(false);
+  // A handoff link from another device goes straight to the chat, which claims it
+  const [openedFromHandoff] = useState(() => readHandoffId(window.location.search) !== null);
+  const [showIntro, setShowIntro] = useState(!openedFromHandoff);
+  const [chatOpen, setChatOpen] = useState(openedFromHandoff);
 
   return (
     <div className="relative min-h-screen text-white overflow-x-hidden">
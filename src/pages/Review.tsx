@@ -0,0 +1,300 @@
+import { useState, type ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import StaffSignIn from "@/components/StaffSignIn";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/components/ui/sonner";
+import { useStaffSession } from "@/hooks/useStaffSession";
+import { callStaffFunction } from "@/lib/staffApi";
+import type { ReviewCaseResponse, ReviewDecideResponse, ReviewListResponse } from "@shared/api";
+import type { DocumentType } from "@shared/onboarding";
+import type { ReviewCaseDetail, ReviewDecision, ReviewStatus } from "@shared/review";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  reupload_requested: "Re-upload requested",
+};
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  approve: "Approve",
+  reject: "Reject",
+  request_reupload: "Request re-upload",
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+
+const rupees = (amount: number | null) => (amount === null ? "—" : `₹${amount.toLocaleString("en-IN")}`);
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+// ── Case detail ───────────────────────────────────────────────────────────────
+
+function DecisionForm({ onDecide, deciding }: {
+  onDecide: (decision: ReviewDecision, reason: string, documentType: DocumentType | null) => void;
+  deciding: boolean;
+}) {
+  const [decision, setDecision] = useState<ReviewDecision>("approve");
+  const [documentType, setDocumentType] = useState<DocumentType>("PAN");
+  const [reason, setReason] = useState("");
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onDecide(decision, reason, decision === "request_reupload" ? documentType : null);
+      }}
+    >
+      <div className="flex flex-wrap gap-3">
+        <Select value={decision} onValueChange={(v) => setDecision(v as ReviewDecision)}>
+          <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DECISION_LABELS) as ReviewDecision[]).map((d) => (
+              <SelectItem key={d} value={d}>{DECISION_LABELS[d]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {decision === "request_reupload" && (
+          <Select value={documentType} onValueChange={(v) => setDocumentType(v as DocumentType)}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="PAN">PAN card</SelectItem>
+              <SelectItem value="Aadhaar">Aadhaar card</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="review-reason">Reason (shown to the applicant)</Label>
+        <Textarea id="review-reason" value={reason} onChange={(e) => setReason(e.target.value)} required minLength={3} />
+      </div>
+      <Button type="submit" disabled={deciding || reason.trim().length < 3}>
+        {deciding ? "Saving…" : DECISION_LABELS[decision]}
+      </Button>
+    </form>
+  );
+}
+
+function CaseDetail({ detail, onDecide, deciding }: {
+  detail: ReviewCaseDetail;
+  onDecide: (decision: ReviewDecision, reason: string, documentType: DocumentType | null) => void;
+  deciding: boolean;
+}) {
+  const { context, risk } = detail;
+
+  return (
+    <div className="space-y-6">
+      <Section title="Why it is here">
+        <ul className="list-disc pl-5 text-sm">
+          {detail.triggers.map((t, i) => <li key={i}>{t.detail}</li>)}
+        </ul>
+      </Section>
+
+      <Section title={`Behavioural flags — score ${detail.behavior.riskScore}/100`}>
+        {detail.behavior.flags.length
+          ? <ul className="list-disc pl-5 text-sm">{detail.behavior.flags.map((f, i) => <li key={i}>{f}</li>)}</ul>
+          : <p className="text-sm text-muted-foreground">None</p>}
+      </Section>
+
+      {context && (
+        <Section title="Applicant">
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            <dt className="text-muted-foreground">Name (PAN)</dt><dd>{context.panIdentity?.name ?? "—"}</dd>
+            <dt className="text-muted-foreground">Date of birth</dt><dd>{context.panIdentity?.dob ?? "—"}</dd>
+            <dt className="text-muted-foreground">Employment</dt><dd>{context.employmentType ?? "—"}</dd>
+            <dt className="text-muted-foreground">Declared income</dt><dd>{rupees(context.monthlyIncome)}</dd>
+            <dt className="text-muted-foreground">Verified income</dt><dd>{rupees(context.verifiedIncome)}</dd>
+            <dt className="text-muted-foreground">Screening</dt><dd>{context.screening ?? "—"}</dd>
+          </dl>
+        </Section>
+      )}
+
+      <Section title="Documents">
+        {detail.documents.length ? (
+          <div className="grid grid-cols-2 gap-3">
+            {detail.documents.map((d) => (
+              <a key={d.id} href={d.url} target="_blank" rel="noreferrer" className="block rounded border p-2 text-sm">
+                {d.mimeType.startsWith("image/") && <img src={d.url} alt={d.documentType ?? "Document"} className="mb-1 max-h-48 w-full object-contain" />}
+                {d.documentType ?? "Unknown document"} · {formatDate(d.createdAt)}
+              </a>
+            ))}
+          </div>
+        ) : <p className="text-sm text-muted-foreground">No documents stored</p>}
+      </Section>
+
+      <Section title={risk ? `Risk — ${risk.level} (${(risk.probability * 100).toFixed(0)}%, ${risk.modelVersion})` : "Risk"}>
+        {risk ? (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow><TableHead>Feature</TableHead><TableHead className="text-right">Contribution</TableHead></TableRow>
+              </TableHeader>
+              <TableBody>
+                {risk.contributions.map((c) => (
+                  <TableRow key={c.feature}>
+                    <TableCell>{c.label}</TableCell>
+                    <TableCell className="text-right">{c.contribution >= 0 ? "+" : ""}{c.contribution.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-sm">DTI {risk.dti.toFixed(0)}% · FOIR {risk.foir.toFixed(0)}%</p>
+            {risk.reasonCodes.length > 0 && (
+              <p className="text-sm">Reason codes: {risk.reasonCodes.map((r) => `${r.code} ${r.description}`).join("; ")}</p>
+            )}
+          </>
+        ) : <p className="text-sm text-muted-foreground">Not scored</p>}
+      </Section>
+
+      <Section title="Verification results">
+        {detail.verifications.map((v, i) => (
+          <details key={i} className="rounded border p-2 text-sm">
+            <summary className="cursor-pointer">
+              {v.kind} — {v.verdict ?? "no verdict"} · {formatDate(v.createdAt)}
+            </summary>
+            <pre className="mt-2 max-h-80 overflow-auto whitespace-pre-wrap text-xs">{JSON.stringify(v.result, null, 2)}</pre>
+          </details>
+        ))}
+      </Section>
+
+      <Section title="Decision">
+        {detail.outcome ? (
+          <p className="text-sm">
+            {DECISION_LABELS[detail.outcome.decision]}
+            {detail.outcome.documentType ? ` (${detail.outcome.documentType})` : ""} by {detail.outcome.reviewer} on {formatDate(detail.outcome.decidedAt)}: {detail.outcome.reason}
+          </p>
+        ) : <DecisionForm onDecide={onDecide} deciding={deciding} />}
+      </Section>
+    </div>
+  );
+}
+
+// ── Page ──────────────────────────────────────────────────────────────────────
+
+function ReviewQueue({ accessToken, email, onSignOut }: { accessToken: string; email: string; onSignOut: () => void }) {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ReviewStatus>("pending");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const cases = useQuery({
+    queryKey: ["review-cases", status],
+    queryFn: () => callStaffFunction<ReviewListResponse>({ action: "review_list", status }, accessToken),
+  });
+
+  const detail = useQuery({
+    queryKey: ["review-case", selectedId],
+    queryFn: () => callStaffFunction<ReviewCaseResponse>({ action: "review_case", caseId: selectedId ?? "" }, accessToken),
+    enabled: !!selectedId,
+  });
+
+  const decide = useMutation({
+    mutationFn: (args: { decision: ReviewDecision; reason: string; documentType: DocumentType | null }) =>
+      callStaffFunction<ReviewDecideResponse>({ action: "review_decide", caseId: selectedId ?? "", ...args }, accessToken),
+    onSuccess: (decided) => {
+      toast.success(`Case ${STATUS_LABELS[decided.status].toLowerCase()}`);
+      queryClient.invalidateQueries({ queryKey: ["review-cases"] });
+      queryClient.invalidateQueries({ queryKey: ["review-case", decided.id] });
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Could not save the decision"),
+  });
+
+  return (
+    <div className="min-h-screen bg-muted p-4 md:p-8">
+      <header className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold">Manual review</h1>
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-muted-foreground">{email}</span>
+          <Button variant="outline" size="sm" onClick={onSignOut}>Sign out</Button>
+        </div>
+      </header>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-lg">Cases</CardTitle>
+            <Select value={status} onValueChange={(v) => { setStatus(v as ReviewStatus); setSelectedId(null); }}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STATUS_LABELS) as ReviewStatus[]).map((s) => (
+                  <SelectItem key={s} value={s}>{STATUS_LABELS[s]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {cases.isLoading && <p className="text-sm text-muted-foreground">Loading…</p>}
+            {cases.error && <p className="text-sm text-destructive">{cases.error.message}</p>}
+            {cases.data?.length === 0 && <p className="text-sm text-muted-foreground">No cases</p>}
+            {!!cases.data?.length && (
+              <Table>
+                <TableHeader>
+                  <TableRow><TableHead>Submitted</TableHead><TableHead>Triggers</TableHead></TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cases.data.map((c) => (
+                    <TableRow
+                      key={c.id}
+                      onClick={() => setSelectedId(c.id)}
+                      data-state={c.id === selectedId ? "selected" : undefined}
+                      className="cursor-pointer"
+                    >
+                      <TableCell className="whitespace-nowrap">{formatDate(c.createdAt)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {c.triggers.map((t, i) => <Badge key={i} variant="secondary">{t.code.replace(/_/g, " ")}</Badge>)}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{selectedId ? `Case ${selectedId.slice(0, 8)}` : "Select a case"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {detail.isLoading && <p className="text-sm text-muted-foreground">Loading…</p>}
+            {detail.error && <p className="text-sm text-destructive">{detail.error.message}</p>}
+            {detail.data && (
+              <CaseDetail
+                detail={detail.data}
+                deciding={decide.isPending}
+                onDecide={(decision, reason, documentType) => decide.mutate({ decision, reason, documentType })}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+const Review = () => {
+  const { session, loading, signIn, signOut } = useStaffSession();
+
+  if (loading) return null;
+  if (!session) return <StaffSignIn title="Manual review" onSignIn={signIn} />;
+  return <ReviewQueue accessToken={session.access_token} email={session.user.email ?? ""} onSignOut={signOut} />;
+};
+
+export default Review;
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { bytesToBase64, checkAadhaarQr, decodeSecureQr, normalizeDob } from "@shared/aadhaarQr";
+
+const FIELDS = [
+  "V2", "3", "123420190305101010123", "Ravi Kumar", "05-03-1990", "M", "S/O Suresh Kumar", "Pune",
+  "Near Temple", "12", "Kothrud", "411038", "Kothrud", "Maharashtra", "MG Road", "Haveli", "Pune", "6789",
+];
+
+async function gzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(bytes).body!.pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function buildSecureQr(fields: string[] = FIELDS) {
+  const keys = await crypto.subtle.generateKey(
+    { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+    true,
+    ["sign", "verify"],
+  );
+  const encoder = new TextEncoder();
+  const parts: number[] = [];
+  for (const f of fields) parts.push(...encoder.encode(f), 0xff);
+  parts.push(...[0xff, 0x4f, 0xff, 0x51]); // photo bytes (JPEG 2000 marker)
+  parts.push(...new Array(64).fill(7)); // email + mobile hashes
+  const signed = new Uint8Array(parts);
+  const signature = new Uint8Array(await crypto.subtle.sign("RSASSA-PKCS1-v1_5", keys.privateKey, signed));
+
+  const payload = new Uint8Array(signed.length + signature.length);
+  payload.set(signed);
+  payload.set(signature, signed.length);
+
+  const compressed = await gzip(payload);
+  const hex = Array.from(compressed).map((b) => b.toString(16).padStart(2, "0")).join("");
+  const spki = new Uint8Array(await crypto.subtle.exportKey("spki", keys.publicKey));
+  const pem = `-----BEGIN PUBLIC KEY-----\n${bytesToBase64(spki)}\n-----END PUBLIC KEY-----`;
+
+  return { raw: BigInt("0x" + hex).toString(10), pem };
+}
+
+describe("Aadhaar Secure QR", () => {
+  it("decodes demographic fields and the photo", async () => {
+    const { raw } = await buildSecureQr();
+    const { data } = await decodeSecureQr(raw);
+    expect(data.name).toBe("Ravi Kumar");
+    expect(data.dob).toBe("05-03-1990");
+    expect(data.maskedAadhaar).toBe("XXXX XXXX 1234");
+    expect(data.mobileLast4).toBe("6789");
+    expect(data.address).toContain("Maharashtra");
+    expect(data.photoBase64).toBe(bytesToBase64(new Uint8Array([0xff, 0x4f, 0xff, 0x51])));
+  });
+
+  it("verifies the signature against the configured key", async () => {
+    const { raw, pem } = await buildSecureQr();
+    const other = await buildSecureQr();
+    expect((await checkAadhaarQr(raw, null, pem)).signatureValid).toBe(true);
+    expect((await checkAadhaarQr(raw, null, other.pem)).signatureValid).toBe(false);
+    expect((await checkAadhaarQr(raw, null, null)).signatureValid).toBeNull();
+  });
+
+  it("compares decoded fields with the model's extraction", async () => {
+    const { raw } = await buildSecureQr();
+    const match = await checkAadhaarQr(raw, { name: "RAVI  KUMAR", dob: "1990-03-05", gender: "Male", idNumber: "XXXX XXXX 1234" });
+    expect(match.consistent).toBe(true);
+
+    const mismatch = await checkAadhaarQr(raw, { name: "Ravi Kumar", idNumber: "5678 1234 9999" });
+    expect(mismatch.consistent).toBe(false);
+    expect(mismatch.mismatches[0]).toContain("9999");
+  });
+
+  it("reports non-Secure-QR payloads as unsupported", async () => {
+    const check = await checkAadhaarQr('<PrintLetterBarcodeData uid="123412341234"/>', null);
+    expect(check.format).toBe("unsupported");
+  });
+
+  it("normalises common date formats", () => {
+    expect(normalizeDob("5/3/1990")).toBe("05-03-1990");
+    expect(normalizeDob("1990-03-05")).toBe("05-03-1990");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { buildFunnelReport, UNPARSED_VERDICT, type FunnelData } from "@shared/analytics";
+
+const at = (minute: number) => new Date(Date.UTC(2026, 9, 1, 10, minute)).toISOString();
+
+const data: FunnelData = {
+  since: at(0),
+  until: at(600),
+  sessions: [
+    { id: "a", step: "done", createdAt: at(0) },
+    // A student: aadhaar straight to face
+    { id: "b", step: "risk", createdAt: at(0) },
+    { id: "c", step: "pan", createdAt: at(0) },
+    // Sent back to PAN by a reviewer after reaching the account step
+    { id: "d", step: "pan", createdAt: at(0) },
+  ],
+  stepEvents: [
+    { sessionId: "a", step: "employment", enteredAt: at(0) },
+    { sessionId: "a", step: "pan", enteredAt: at(2) },
+    { sessionId: "b", step: "employment", enteredAt: at(0) },
+    { sessionId: "b", step: "pan", enteredAt: at(4) },
+    { sessionId: "b", step: "aadhaar", enteredAt: at(6) },
+    { sessionId: "b", step: "face", enteredAt: at(9) },
+    { sessionId: "d", step: "account", enteredAt: at(30) },
+  ],
+  documentVerdicts: ["GENUINE", "GENUINE", "SUSPICIOUS", null],
+  risks: [
+    { sessionId: "a", level: "High", createdAt: at(10) },
+    { sessionId: "a", level: "Low", createdAt: at(20) },
+    { sessionId: "b", level: "Medium", createdAt: at(10) },
+  ],
+};
+
+describe("funnel report", () => {
+  const report = buildFunnelReport(data);
+
+  it("counts each session at the furthest step it reached", () => {
+    expect(report.stages.map((s) => [s.stage, s.sessions, s.dropOff])).toEqual([
+      ["chat", 4, 0],
+      ["documents", 3, 1],
+      ["income", 3, 0],
+      ["face", 3, 0],
+      ["account", 1, 2],
+      ["email", 1, 0],
+    ]);
+    expect(report.stages[1].conversion).toBe(0.75);
+  });
+
+  it("counts unparsed verdicts and each session's latest risk level", () => {
+    expect(report.documentVerdicts).toEqual([
+      { verdict: "GENUINE", count: 2 },
+      { verdict: "SUSPICIOUS", count: 1 },
+      { verdict: UNPARSED_VERDICT, count: 1 },
+    ]);
+    expect(report.riskLevels).toEqual([
+      { level: "Low", count: 1 },
+      { level: "Medium", count: 1 },
+      { level: "High", count: 0 },
+    ]);
+  });
+
+  it("averages the time from entering a step to entering the next", () => {
+    const timing = (step: string) => report.stepTimings.find((t) => t.step === step);
+    expect(timing("employment")).toEqual({ step: "employment", averageSeconds: 180, sessions: 2 });
+    expect(timing("aadhaar")).toEqual({ step: "aadhaar", averageSeconds: 180, sessions: 1 });
+    expect(timing("income")).toEqual({ step: "income", averageSeconds: null, sessions: 0 });
+  });
+});
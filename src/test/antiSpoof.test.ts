@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { frameMotion, frameSignals, spoofScore, summarizeBurst, type PixelFrame, type SpoofSignals } from "@shared/antiSpoof";
+
+const WIDTH = 40;
+const HEIGHT = 30;
+
+function frame(pixel: (x: number, y: number) => [number, number, number]): PixelFrame {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const [r, g, b] = pixel(x, y);
+      data.set([r, g, b, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+}
+
+const skin = (shift = 0) => frame((x, y) => [150 + ((x + shift) % 7), 110 + (y % 5), 90]);
+
+const live: SpoofSignals = { frameCount: 10, durationMs: 2500, motion: 1.8, moire: 0.03, screenEdge: 0.2, specular: 0.002, sharpness: 140 };
+
+describe("anti-spoofing signals", () => {
+  it("measures moiré on a pixel grid and not on a smooth image", () => {
+    expect(frameSignals(frame((x, y) => ((x + y) % 2 ? [255, 255, 255] : [0, 0, 0]))).moire).toBeGreaterThan(0.9);
+    expect(frameSignals(frame((x) => [x * 6, x * 6, x * 6])).moire).toBe(0);
+  });
+
+  it("finds a straight edge across the frame and glare", () => {
+    const bezel = frameSignals(frame((_, y) => (y < 15 ? [20, 20, 20] : [200, 180, 160])));
+    expect(bezel.screenEdge).toBe(1);
+
+    const glare = frameSignals(frame((x, y) => (x < 10 && y < 10 ? [255, 255, 255] : [120, 100, 90])));
+    expect(glare.specular).toBeCloseTo(100 / (WIDTH * HEIGHT));
+  });
+
+  it("measures motion between frames", () => {
+    expect(frameMotion(skin(), skin())).toBe(0);
+    expect(summarizeBurst([skin(0), skin(1), skin(2)], 500)).toMatchObject({ frameCount: 3, durationMs: 500 });
+    expect(summarizeBurst([skin(0), skin(1)], 500).motion).toBeGreaterThan(0);
+  });
+});
+
+describe("spoof score", () => {
+  it("accepts a live burst the model agrees with", () => {
+    expect(spoofScore(live, { spoofLikelihood: 10, indicators: [], reason: "Live" })).toEqual({
+      score: 5,
+      verdict: "live",
+      outcome: "passed",
+      localScore: 0,
+      modelScore: 10,
+      reasons: [],
+    });
+  });
+
+  it("rejects a still, moiré-patterned burst", () => {
+    const replay = { ...live, motion: 0.1, moire: 0.25 };
+    const result = spoofScore(replay, { spoofLikelihood: 85, indicators: ["Screen bezel visible"], reason: "Replay" });
+    expect(result).toMatchObject({ verdict: "spoof", outcome: "failed", localScore: 55 });
+    expect(result.reasons).toEqual(["Almost no movement between frames", "Moiré pattern typical of a screen or print", "Screen bezel visible"]);
+  });
+
+  it("does not pass a burst scored as suspect", () => {
+    const result = spoofScore(live, { spoofLikelihood: 80, indicators: ["Glare across the face"], reason: "Possible screen" });
+    expect(result).toMatchObject({ score: 40, verdict: "suspect", outcome: "inconclusive", modelScore: 80 });
+  });
+
+  it("is inconclusive, never live, when the model's reply cannot be read", () => {
+    expect(spoofScore(live, null)).toMatchObject({ verdict: "suspect", outcome: "inconclusive", score: 0, modelScore: null });
+    expect(spoofScore({ ...live, motion: 0, moire: 0.3, screenEdge: 0.9 }, null)).toMatchObject({ verdict: "spoof", outcome: "failed" });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { AUDIT_GENESIS_HASH, canonicalJson, sealAuditEvent, verifyAuditChain, type AuditEvent } from "@shared/audit";
+
+const SESSION_ID = "6f1c2f7e-3b0a-4d8e-9a51-2f4d7c9b1e20";
+
+async function chain(): Promise<AuditEvent[]> {
+  const first = await sealAuditEvent(SESSION_ID, { eventType: "document_verdict", actor: "system", payload: { documentType: "PAN", verdict: "GENUINE" } }, null, "2026-10-01T10:00:00.000Z");
+  const second = await sealAuditEvent(SESSION_ID, { eventType: "risk_score", actor: "system", payload: { level: "Low", probability: 0.04 } }, first, "2026-10-01T10:05:00.000Z");
+  const third = await sealAuditEvent(SESSION_ID, { eventType: "account_created", actor: "system", payload: { accountNumber: "31234567890" } }, second, "2026-10-01T10:06:00.000Z");
+  return [first, second, third];
+}
+
+describe("audit chain", () => {
+  it("links each event to the one before", async () => {
+    const events = await chain();
+    expect(events.map((e) => e.sequence)).toEqual([1, 2, 3]);
+    expect(events[0].prevHash).toBe(AUDIT_GENESIS_HASH);
+    expect(events[2].prevHash).toBe(events[1].hash);
+    expect(events[0].hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await verifyAuditChain(events)).toEqual({ valid: true, brokenAt: null });
+  });
+
+  it("detects an edited payload", async () => {
+    const events = await chain();
+    events[1] = { ...events[1], payload: { level: "Low", probability: 0.01 } };
+    expect(await verifyAuditChain(events)).toEqual({ valid: false, brokenAt: 2 });
+  });
+
+  it("detects a removed event", async () => {
+    const [first, , third] = await chain();
+    expect(await verifyAuditChain([first, third])).toEqual({ valid: false, brokenAt: 3 });
+  });
+
+  it("hashes payloads independently of key order", () => {
+    expect(canonicalJson({ b: [1, { d: null, c: "x" }], a: true, skipped: undefined })).toBe('{"a":true,"b":[1,{"c":"x","d":null}]}');
+  });
+});
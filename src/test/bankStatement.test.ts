@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyseStatement,
+  parseStatementAmount,
+  parseStatementCsv,
+  parseStatementDate,
+  parseStatementText,
+} from "@shared/bankStatement";
+
+const HDFC_CSV = `Account Statement for RAVI KUMAR
+Account No,50100123456789
+
+Date,Narration,Chq./Ref.No.,Value Dt,Withdrawal Amt.,Deposit Amt.,Closing Balance
+01/01/24,NEFT CR-ACME TECHNOLOGIES PVT LTD-SALARY JAN,N001,01/01/24,,"52,000.00","62,000.00"
+05/01/24,ACH D- BAJAJ FINANCE EMI,A001,05/01/24,"8,000.00",,"54,000.00"
+10/01/24,UPI-SWIGGY,U001,10/01/24,450.00,,"53,550.00"
+01/02/24,NEFT CR-ACME TECHNOLOGIES PVT LTD-SALARY FEB,N002,01/02/24,,"52,000.00","105,550.00"
+05/02/24,ACH D- BAJAJ FINANCE EMI,A002,05/02/24,"8,000.00",,"97,550.00"
+06/02/24,ACH RTN CHGS INSUFFICIENT FUNDS,A003,06/02/24,590.00,,"96,960.00"
+01/03/24,NEFT CR-ACME TECHNOLOGIES PVT LTD-SALARY MAR,N003,01/03/24,,"54,000.00","150,960.00"
+15/03/24,IMPS-RAVI KUMAR-SELF,I001,15/03/24,,"5,000.00","155,960.00"
+31/03/24,ATM WDL,W001,31/03/24,"2,000.00",,"153,960.00"
+`;
+
+describe("statement values", () => {
+  it("reads the date formats Indian banks use", () => {
+    expect(parseStatementDate("01/04/2024")).toBe("2024-04-01");
+    expect(parseStatementDate("1-4-24 10:15:00")).toBe("2024-04-01");
+    expect(parseStatementDate("05 Mar, 2024")).toBe("2024-03-05");
+    expect(parseStatementDate("2024-03-05")).toBe("2024-03-05");
+    expect(parseStatementDate("Opening Balance")).toBeNull();
+  });
+
+  it("reads Indian-grouped amounts with Cr/Dr markers", () => {
+    expect(parseStatementAmount("1,23,456.78")).toBe(123456.78);
+    expect(parseStatementAmount("2,000.00 Dr")).toBe(-2000);
+    expect(parseStatementAmount("(500.00)")).toBe(-500);
+    expect(parseStatementAmount("")).toBeNull();
+  });
+});
+
+describe("statement parsing", () => {
+  it("finds the header below account details and signs withdrawals and deposits", () => {
+    const transactions = parseStatementCsv(HDFC_CSV);
+    expect(transactions).toHaveLength(9);
+    expect(transactions[0]).toEqual({ date: "2024-01-01", description: "NEFT CR-ACME TECHNOLOGIES PVT LTD-SALARY JAN", amount: 52000, balance: 62000 });
+    expect(transactions[1].amount).toBe(-8000);
+  });
+
+  it("infers direction from the running balance in PDF text", () => {
+    const transactions = parseStatementText([
+      "STATEMENT OF ACCOUNT  Page 1",
+      "Date  Particulars  Amount  Balance",
+      "Opening Balance  10,000.00",
+      "01 Jan 2024  NEFT ACME TECHNOLOGIES  52,000.00  62,000.00",
+      "PVT LTD",
+      "05 Jan 2024  BAJAJ FINANCE  8,000.00  54,000.00",
+      "12 Jan 2024  UPI REFUND  300.00 Cr  54,300.00",
+    ]);
+    expect(transactions.map((t) => t.amount)).toEqual([52000, -8000, 300]);
+    expect(transactions[0].description).toBe("NEFT ACME TECHNOLOGIES PVT LTD");
+  });
+
+  it("reads newest-first statements oldest-first", () => {
+    const transactions = parseStatementText([
+      "05/01/2024  BAJAJ FINANCE  8,000.00  54,000.00",
+      "01/01/2024  NEFT ACME TECHNOLOGIES  52,000.00  62,000.00",
+      "28/12/2023  GROCERY  1,000.00  10,000.00",
+    ]);
+    expect(transactions.map((t) => t.amount)).toEqual([-1000, 52000, -8000]);
+  });
+
+  it("rejects files without transactions", () => {
+    expect(() => parseStatementCsv("Name,Email\nRavi,ravi@example.com")).toThrow("date, description and amount");
+    expect(() => parseStatementText(["This is not a statement"])).toThrow("No transactions");
+  });
+});
+
+describe("income verification", () => {
+  it("takes the median salary credit as verified income", () => {
+    const result = analyseStatement(parseStatementCsv(HDFC_CSV), 55000);
+    expect(result).toMatchObject({
+      periodStart: "2024-01-01",
+      periodEnd: "2024-03-31",
+      monthsCovered: 3,
+      salaryDetected: true,
+      verifiedIncome: 52000,
+      averageMonthlyInflow: 54333,
+      consistent: true,
+      variancePercent: 5.8,
+    });
+    expect(result.salaryCredits).toHaveLength(3);
+    expect(result.bounces.map((b) => b.description)).toEqual(["ACH RTN CHGS INSUFFICIENT FUNDS"]);
+    expect(result.flags).toEqual(["1 returned or bounced payment(s)"]);
+  });
+
+  it("recognises an unlabelled recurring credit and flags over-declared income", () => {
+    const month = (m: string) => [
+      { date: `2024-${m}-03`, description: `IMPS/PINNACLE DESIGN STUDIO/${m}88213`, amount: 30000 + Number(m) * 500, balance: null },
+      { date: `2024-${m}-20`, description: "UPI/FRIEND/REPAY", amount: 2000, balance: null },
+    ];
+    const result = analyseStatement([...month("04"), ...month("05"), ...month("06")], 60000);
+    expect(result.salaryDetected).toBe(true);
+    expect(result.verifiedIncome).toBe(32500);
+    expect(result.consistent).toBe(false);
+    expect(result.flags).toContain("Declared income ₹60,000 is more than the ₹32,500 the statement supports");
+  });
+
+  it("falls back to average inflow when no salary is found", () => {
+    const result = analyseStatement([
+      { date: "2024-01-02", description: "UPI/CLIENT A", amount: 18000, balance: null },
+      { date: "2024-01-30", description: "UPI/CLIENT B", amount: 9000, balance: null },
+      { date: "2024-02-28", description: "UPI/CLIENT C", amount: 12000, balance: null },
+    ], 20000);
+    expect(result).toMatchObject({ salaryDetected: false, monthsCovered: 2, verifiedIncome: 19500 });
+    expect(result.flags[0]).toContain("at least 3 are needed");
+  });
+});
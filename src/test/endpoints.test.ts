@@ -0,0 +1,838 @@
+import { describe, it, expect, vi } from "vitest";
+import { sealAuditEvent, type AuditEvent } from "@shared/audit";
+import { ACCEPTED_DOCUMENT_VERDICTS } from "@shared/evidence";
+import { createHandler, type Endpoint, type EndpointDeps, type StaffMember } from "@shared/http";
+import { LlmError, type LlmProvider, type LlmRequest } from "@shared/llm";
+import { createMockProvider, DEFAULT_FIXTURES } from "@shared/llmMock";
+import { initialOnboardingState, transition } from "@shared/onboarding";
+import { parseStreamLine } from "@shared/protocol";
+import { REVIEW_DECISION_STATUS, type ReviewCase, type ReviewVerification } from "@shared/review";
+import type { SessionHandoff } from "@shared/handoff";
+import type { LivenessChallenge } from "@shared/liveness";
+import { updateSession, type OnboardingStore, type StoredDocument, type StoredSession } from "@shared/store";
+import { DEFAULT_RISK_MODEL, type RiskModelSet, type RiskResult } from "@shared/risk";
+import { watchListFromFile } from "@shared/screening";
+import type { SessionSnapshot } from "@shared/session";
+import { chatEndpoint } from "@functions/onboardx-chat/handler";
+import { sessionEndpoint } from "@functions/onboarding-session/handler";
+import { scoreRiskEndpoint } from "@functions/score-risk/handler";
+import { screenApplicantEndpoint } from "@functions/screen-applicant/handler";
+import { requestReviewEndpoint } from "@functions/request-review/handler";
+import { reviewCasesEndpoint } from "@functions/review-cases/handler";
+import { adminAnalyticsEndpoint } from "@functions/admin-analytics/handler";
+import { auditExportEndpoint } from "@functions/audit-export/handler";
+import { sendNotificationEndpoint } from "@functions/send-notification/handler";
+import { verifyDocumentEndpoint } from "@functions/verify-document/handler";
+import { verifyFaceEndpoint } from "@functions/verify-face/handler";
+import { verifyIncomeEndpoint } from "@functions/verify-income/handler";
+import { verifyLivenessEndpoint } from "@functions/verify-liveness/handler";
+import { detectSpoofEndpoint } from "@functions/detect-spoof/handler";
+
+const ANON_KEY = "anon-key";
+const SESSION_ID = "6f1c2f7e-3b0a-4d8e-9a51-2f4d7c9b1e20";
+
+function memoryStore(models: RiskModelSet | null = null) {
+  const fresh = (sessionId: string): StoredSession =>
+    ({ sessionId, onboarding: initialOnboardingState(), riskResult: null, account: null, messages: [], version: 0 });
+  const sessions = new Map<string, StoredSession>([[SESSION_ID, fresh(SESSION_ID)]]);
+  const writes: string[] = [];
+  const documents = new Map<string, StoredDocument>();
+  const verifiedDocuments = new Map<string, StoredDocument>();
+  const verifications = new Map<string, ReviewVerification[]>();
+  const risks = new Map<string, RiskResult>();
+  const reviews = new Map<string, ReviewCase>();
+  const audit: AuditEvent[] = [];
+  const challenges = new Map<string, LivenessChallenge & { answered: boolean }>();
+  const handoffs = new Map<string, SessionHandoff & { claimed: boolean }>();
+  const store: OnboardingStore = {
+    async createSession() {
+      const id = crypto.randomUUID();
+      sessions.set(id, fresh(id));
+      return id;
+    },
+    async sessionExists(id) { return sessions.has(id); },
+    async loadSession(id) { return sessions.get(id) ?? null; },
+    async saveSession(snapshot, version) {
+      if (sessions.get(snapshot.sessionId)?.version !== version) return false;
+      sessions.set(snapshot.sessionId, { ...snapshot, version: version + 1 });
+      return true;
+    },
+    async openHandoff(sessionId, expiresAt) {
+      const id = crypto.randomUUID();
+      handoffs.set(id, { id, sessionId, expiresAt, claimed: false });
+      return id;
+    },
+    async takeHandoff(id) {
+      const handoff = handoffs.get(id);
+      if (!handoff || handoff.claimed) return null;
+      handoff.claimed = true;
+      return handoff;
+    },
+    async recordDocument(_sessionId, doc) {
+      writes.push("document");
+      const id = `doc-${documents.size + 1}`;
+      documents.set(id, doc);
+      return id;
+    },
+    async recordVerification(sessionId, kind, verdict, result, documentId) {
+      writes.push(`${kind}:${verdict}`);
+      const document = documentId && documents.get(documentId);
+      if (document && ACCEPTED_DOCUMENT_VERDICTS.includes(verdict ?? "")) verifiedDocuments.set(sessionId, document);
+      verifications.set(sessionId, [...(verifications.get(sessionId) ?? []), { kind, verdict, result, createdAt: new Date().toISOString() }]);
+    },
+    async recordRisk(sessionId, risk, role) {
+      writes.push(`risk:${role}:${risk.modelVersion}:${risk.level}`);
+      if (role === "champion") risks.set(sessionId, risk);
+    },
+    async loadVerifiedDocument(sessionId) { return verifiedDocuments.get(sessionId) ?? null; },
+    async loadVerifications(sessionId) { return verifications.get(sessionId) ?? []; },
+    async loadRiskResult(sessionId) { return risks.get(sessionId) ?? null; },
+    async loadRiskModels() { return models; },
+    async openLivenessChallenge(sessionId, prompts, expiresAt) {
+      const id = crypto.randomUUID();
+      challenges.set(id, { id, sessionId, prompts, expiresAt, answered: false });
+      return id;
+    },
+    async takeLivenessChallenge(id, sessionId) {
+      const challenge = challenges.get(id);
+      if (!challenge || challenge.sessionId !== sessionId || challenge.answered) return null;
+      challenge.answered = true;
+      return challenge;
+    },
+    async openReview(sessionId, triggers, behavior) {
+      writes.push(`review:${triggers.map((t) => t.code).join(",")}`);
+      const id = crypto.randomUUID();
+      reviews.set(id, { id, sessionId, status: "pending", triggers, behavior, createdAt: new Date().toISOString(), outcome: null });
+      return id;
+    },
+    async listReviews(status) { return [...reviews.values()].filter((r) => !status || r.status === status); },
+    async loadReview(id) {
+      const review = reviews.get(id);
+      return review ? { ...review, context: null, documents: [], verifications: [], risk: null } : null;
+    },
+    async decideReview(id, outcome) {
+      const review = reviews.get(id);
+      if (review?.status !== "pending") return null;
+      const decided = { ...review, status: REVIEW_DECISION_STATUS[outcome.decision], outcome };
+      reviews.set(id, decided);
+      return decided;
+    },
+    async loadFunnelData(since, until) {
+      return {
+        since,
+        until,
+        sessions: [...sessions.values()].map((s) => ({ id: s.sessionId, step: s.onboarding.step, createdAt: since })),
+        stepEvents: [],
+        documentVerdicts: [],
+        risks: [],
+      };
+    },
+    async appendAudit(sessionId, entry) {
+      const trail = audit.filter((e) => e.sessionId === sessionId);
+      const event = await sealAuditEvent(sessionId, entry, trail.at(-1) ?? null);
+      audit.push(event);
+      return event;
+    },
+    async loadAuditTrail(sessionId) { return audit.filter((e) => e.sessionId === sessionId); },
+  };
+  return { store, writes };
+}
+
+function setup<T>(endpoint: Endpoint<T>, overrides: Partial<EndpointDeps> = {}, models: RiskModelSet | null = null) {
+  const { store, writes } = memoryStore(models);
+  const env: Record<string, string> = { SUPABASE_ANON_KEY: ANON_KEY };
+  const deps: EndpointDeps = { env: (key) => env[key], store, llm: () => createMockProvider(), watchLists: async () => [], staff: async () => null, cropFace: async (image) => `crop:${image}`, ...overrides };
+  const handler = createHandler(endpoint, deps);
+  const post = (body: unknown, key = ANON_KEY) => handler(new Request("http://localhost/", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${key}`, "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  }));
+  /** As a signed-in user: access token as the bearer, anon key in apikey. */
+  const postAs = (accessToken: string, body: unknown) => handler(new Request("http://localhost/", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${accessToken}`, apikey: ANON_KEY, "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }));
+  return { handler, post, postAs, writes, store };
+}
+
+async function streamEvents(response: Response) {
+  const text = await response.text();
+  return text.split("\n").map(parseStreamLine).filter(Boolean);
+}
+
+const riskBody = { action: "score_risk", monthlyIncome: 90000, employmentType: "salaried", documentsVerified: true, faceVerified: true, obligations: { emi: 0, rent: 15000, creditCardDues: 0 }, sessionId: SESSION_ID };
+
+/** Passed document and selfie checks on file, as score-risk reads them back. */
+async function recordPassedChecks(store: OnboardingStore, sessionId = SESSION_ID) {
+  await store.recordVerification(sessionId, "document", "GENUINE", { documentType: "PAN" });
+  await store.recordVerification(sessionId, "document", "GENUINE", { documentType: "Aadhaar" });
+  await store.recordVerification(sessionId, "liveness", "PASSED", { outcome: "passed" });
+  await store.recordVerification(sessionId, "spoof", "LIVE", { outcome: "passed" });
+  await store.recordVerification(sessionId, "face", "MATCH", { outcome: "passed" });
+}
+
+describe("shared middleware", () => {
+  it("answers CORS preflight and rejects other methods", async () => {
+    const { handler } = setup(scoreRiskEndpoint);
+    expect((await handler(new Request("http://localhost/", { method: "OPTIONS" }))).headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect((await handler(new Request("http://localhost/", { method: "GET" }))).status).toBe(405);
+  });
+
+  it("requires the anon key", async () => {
+    const { post } = setup(scoreRiskEndpoint);
+    const res = await post(riskBody, "someone-else");
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: "Invalid API key" });
+  });
+
+  it("returns 400 with field errors for malformed bodies", async () => {
+    const { post } = setup(scoreRiskEndpoint);
+    expect((await post("{not json")).status).toBe(400);
+    const res = await post({ ...riskBody, monthlyIncome: "lots" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).fieldErrors[0].path).toBe("monthlyIncome");
+  });
+
+  it("logs an audit append that fails without failing the request", async () => {
+    const { store } = memoryStore();
+    const { post } = setup(scoreRiskEndpoint, { store: { ...store, appendAudit: () => Promise.reject(new Error("chain conflict")) } });
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      expect((await post(riskBody)).status).toBe(200);
+      const events = logged.mock.calls.map(([line]) => (typeof line === "string" && line.startsWith("{") ? JSON.parse(line) : null));
+      expect(events).toContainEqual({ event: "audit_append_failed", sessionId: SESSION_ID, eventType: "risk_score", error: "Error: chain conflict" });
+    } finally {
+      logged.mockRestore();
+    }
+  });
+
+  it("passes model quota errors through and hides other model failures", async () => {
+    const failWith = (err: Error) => setup(verifyDocumentEndpoint, {
+      llm: () => ({ ...createMockProvider(), completeJson: () => Promise.reject(err) }),
+    });
+    const body = { action: "verify_document", imageBase64: "aGk=", mimeType: "image/png", documentType: "PAN", sessionId: SESSION_ID };
+
+    const limited = await failWith(new LlmError("Rate limit exceeded. Please try again later.", 429)).post(body);
+    expect(limited.status).toBe(429);
+    const failed = await failWith(new LlmError("AI gateway error", 500)).post(body);
+    expect(failed.status).toBe(502);
+    expect(await failed.json()).toEqual({ error: "Document verification failed" });
+  });
+});
+
+describe("onboarding-session", () => {
+  const behavior = { riskScore: 0, flags: [] };
+
+  it("starts a session without one and resumes it", async () => {
+    const { post } = setup(sessionEndpoint);
+    const { sessionId } = await (await post({ action: "session_start" })).json();
+    expect(sessionId).toEqual(expect.any(String));
+    expect(await (await post({ action: "session_resume", sessionId })).json()).toMatchObject({ sessionId, onboarding: { step: "employment" } });
+    expect((await post({ action: "session_resume", sessionId: crypto.randomUUID() })).status).toBe(404);
+  });
+
+  it("resumes the last save at its step, without the messages it dropped", async () => {
+    const { post } = setup(sessionEndpoint);
+    const events = [
+      { type: "EMPLOYMENT_SELECTED", employmentType: "salaried" },
+      { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity: { name: "RAVI KUMAR", dob: "01/01/1990" } },
+    ];
+    const messages = [{ role: "user", content: "📄 pan.jpg", isFile: true }, { role: "bot", content: "🔍 Scanning document for authenticity…" }];
+    await post({ action: "session_save", save: { sessionId: SESSION_ID, events, riskResult: null, messages } });
+    await post({ action: "session_save", save: { sessionId: SESSION_ID, events: [], riskResult: null, messages: messages.slice(0, 1) } });
+
+    const resumed: SessionSnapshot = await (await post({ action: "session_resume", sessionId: SESSION_ID })).json();
+    expect(resumed.onboarding).toMatchObject({ step: "aadhaar", context: { employmentType: "salaried", panVerified: true } });
+    expect(resumed.messages).toEqual([{ role: "user", content: "📄 pan.jpg", isFile: true }]);
+  });
+
+  it("reports 503 when no store is configured", async () => {
+    const { post } = setup(sessionEndpoint, { store: null });
+    expect((await post({ action: "session_start" })).status).toBe(503);
+  });
+
+  it("opens the account against the stored session and audits it once", async () => {
+    const { post, store } = setup(sessionEndpoint);
+    const initial = initialOnboardingState();
+    const atAccount = {
+      sessionId: SESSION_ID,
+      onboarding: { step: "account", context: { ...initial.context, employmentType: "student", screening: "clear" } },
+      riskResult: null,
+      account: null,
+      messages: [],
+    };
+    await store.saveSession(atAccount as SessionSnapshot, 0);
+
+    const forged = { ...atAccount, account: { accountNumber: "31234567890", ifsc: "ONBX0001234", accountType: "Savings" }, events: [{ type: "ACCOUNT_CREATED" }] };
+    expect((await post({ action: "session_save", save: forged })).status).toBe(400);
+    await post({ action: "session_save", save: { ...forged, events: [] } });
+    expect(await store.loadSession(SESSION_ID)).toMatchObject({ account: null, onboarding: { context: { accountCreated: false } } });
+    expect(await store.loadAuditTrail(SESSION_ID)).toEqual([]);
+
+    const unchecked = await post({ action: "account_create", behavior, sessionId: SESSION_ID });
+    expect(unchecked.status).toBe(409);
+    expect((await unchecked.json()).error).toContain("face match checks have not all passed");
+    await store.recordVerification(SESSION_ID, "liveness", "PASSED", { outcome: "passed" });
+    await store.recordVerification(SESSION_ID, "spoof", "LIVE", { outcome: "passed" });
+    expect((await post({ action: "account_create", behavior, sessionId: SESSION_ID })).status).toBe(409);
+    await store.recordVerification(SESSION_ID, "face", "MATCH", { outcome: "passed" });
+
+    const resp = await post({ action: "account_create", behavior, sessionId: SESSION_ID });
+    expect(resp.status).toBe(200);
+    const { onboarding, account } = await resp.json();
+    expect(onboarding).toMatchObject({ step: "email", context: { accountCreated: true } });
+    expect(account).toMatchObject({ accountNumber: expect.stringMatching(/^3\d{11}$/), accountType: "Student Savings Account" });
+    expect((await store.loadSession(SESSION_ID))?.account).toEqual(account);
+
+    expect(await (await post({ action: "account_create", behavior, sessionId: SESSION_ID })).json()).toMatchObject({ account });
+    const trail = await store.loadAuditTrail(SESSION_ID);
+    expect(trail.map((e) => [e.eventType, e.payload.accountNumber])).toEqual([["account_created", account.accountNumber]]);
+  });
+
+  it("sends an application the stored results flag to review instead of opening it", async () => {
+    const { post, store, writes } = setup(sessionEndpoint);
+    const initial = initialOnboardingState();
+    await store.saveSession({
+      sessionId: SESSION_ID,
+      onboarding: { step: "account", context: { ...initial.context, employmentType: "salaried", screening: "clear" } },
+      riskResult: null,
+      account: null,
+      messages: [],
+    }, 0);
+    await recordPassedChecks(store);
+
+    const resp = await post({ action: "account_create", behavior, sessionId: SESSION_ID });
+    expect(resp.status).toBe(409);
+    expect((await resp.json()).error).toBe("Risk has not been scored.");
+
+    await store.recordVerification(SESSION_ID, "document", "SUSPICIOUS", { documentType: "PAN" });
+    await store.recordVerification(SESSION_ID, "document", "GENUINE", { documentType: "PAN" });
+    await store.recordVerification(SESSION_ID, "document", "SUSPICIOUS", { documentType: "Aadhaar" });
+    const highRisk: RiskResult = { modelVersion: "lr-v2", probability: 0.8, level: "High", dti: 0, foir: 60, explanation: "", baseline: 0, contributions: [], reasonCodes: [] };
+    await store.recordRisk(SESSION_ID, highRisk, "champion");
+    writes.length = 0;
+
+    const held = await post({ action: "account_create", behavior, sessionId: SESSION_ID });
+    expect(held.status).toBe(409);
+    expect((await held.json()).error).toContain("pending manual review");
+    expect(writes).toEqual(["review:document_suspicious,risk_high"]);
+    expect((await store.loadSession(SESSION_ID))?.onboarding.context.review).toBe("pending");
+
+    expect((await post({ action: "account_create", behavior, sessionId: SESSION_ID })).status).toBe(409);
+    expect((await post({ action: "account_create", behavior, sessionId: crypto.randomUUID() })).status).toBe(404);
+    expect(writes).toEqual(["review:document_suspicious,risk_high"]);
+    expect(await store.loadAuditTrail(SESSION_ID)).toEqual([]);
+  });
+
+  it("keeps the review status and reviewer messages a client save would overwrite", async () => {
+    const { post, store } = setup(sessionEndpoint);
+    const initial = initialOnboardingState();
+    const messages = [{ role: "bot", content: "Your application is under review." }];
+    await store.saveSession({
+      sessionId: SESSION_ID,
+      onboarding: { step: "account", context: { ...initial.context, screening: "probable_match", review: "rejected" } },
+      riskResult: null,
+      account: null,
+      messages: [...messages, { role: "bot", content: "We can't open an account for you.", fromServer: true }],
+    } as SessionSnapshot, 0);
+
+    expect((await post({ action: "session_save", save: { sessionId: SESSION_ID, events: [], riskResult: null, messages } })).status).toBe(200);
+    const saved = await store.loadSession(SESSION_ID);
+    expect(saved?.onboarding.context).toMatchObject({ screening: "probable_match", review: "rejected" });
+    expect(saved?.messages.map((m) => m.content)).toEqual(["Your application is under review.", "We can't open an account for you."]);
+  });
+
+  it("does not let a stale save move a session a reviewer sent back past its document", async () => {
+    const { post, store } = setup(sessionEndpoint);
+    const initial = initialOnboardingState();
+    await store.saveSession({
+      sessionId: SESSION_ID,
+      onboarding: { step: "pan", context: { ...initial.context, employmentType: "student", review: "reupload_requested" } },
+      riskResult: null,
+      account: null,
+      messages: [],
+    } as SessionSnapshot, 0);
+
+    // Sent by a tab that had reached the account step before the decision
+    const stale = { sessionId: SESSION_ID, events: [{ type: "FACE_VERIFIED" }, { type: "RISK_SCORED" }], riskResult: null, messages: [] };
+    expect((await post({ action: "session_save", save: stale })).status).toBe(200);
+    expect((await store.loadSession(SESSION_ID))?.onboarding).toMatchObject({ step: "pan", context: { faceVerified: false, review: "reupload_requested" } });
+    expect((await post({ action: "account_create", behavior, sessionId: SESSION_ID })).status).toBe(409);
+  });
+
+  it("re-applies a save that raced a review decision instead of overwriting it", async () => {
+    const { post, store } = setup(sessionEndpoint);
+    const initial = initialOnboardingState();
+    const pending = {
+      sessionId: SESSION_ID,
+      onboarding: { step: "account", context: { ...initial.context, screening: "clear", review: "pending" } },
+      riskResult: null,
+      account: null,
+      messages: [{ role: "bot", content: "Your application is under review." }],
+    } as SessionSnapshot;
+    await store.saveSession(pending, 0);
+
+    // The reviewer's decision lands between the save's load and its write
+    const loadSession = store.loadSession;
+    store.loadSession = async (id, withDocument) => {
+      const stored = await loadSession(id, withDocument);
+      store.loadSession = loadSession;
+      await updateSession(store, SESSION_ID, (s) => ({
+        ...s,
+        onboarding: transition(s.onboarding, { type: "REVIEW_DECIDED", decision: "reject" }).state,
+      }));
+      return stored;
+    };
+
+    const save = { sessionId: SESSION_ID, events: [], riskResult: null, messages: pending.messages };
+    expect((await post({ action: "session_save", save })).status).toBe(200);
+    const saved = await store.loadSession(SESSION_ID);
+    expect(saved?.onboarding.context.review).toBe("rejected");
+    expect(saved?.version).toBe(3);
+  });
+
+  it("hands a session to another device once", async () => {
+    const { post, store } = setup(sessionEndpoint);
+    await post({ action: "session_save", save: { sessionId: SESSION_ID, events: [], riskResult: null, messages: [] } });
+
+    const { handoffId, expiresAt } = await (await post({ action: "session_handoff", sessionId: SESSION_ID })).json();
+    expect(Date.parse(expiresAt)).toBeGreaterThan(Date.now());
+    const claimed = await post({ action: "session_claim", handoffId });
+    expect((await claimed.json()).sessionId).toBe(SESSION_ID);
+    expect((await post({ action: "session_claim", handoffId })).status).toBe(409);
+    expect((await store.loadAuditTrail(SESSION_ID)).map((e) => e.eventType)).toEqual(["device_handoff"]);
+
+    const expired = await store.openHandoff(SESSION_ID, new Date(Date.now() - 1000).toISOString());
+    expect(await (await post({ action: "session_claim", handoffId: expired })).json()).toEqual({ error: "This link has expired" });
+    expect((await post({ action: "session_handoff", sessionId: crypto.randomUUID() })).status).toBe(404);
+  });
+});
+
+describe("score-risk", () => {
+  it("scores the applicant and records the result", async () => {
+    const { post, writes, store } = setup(scoreRiskEndpoint);
+    await recordPassedChecks(store);
+    writes.length = 0;
+    const res = await post(riskBody);
+    expect((await res.json()).level).toBe("Low");
+    expect(writes).toEqual(["risk:champion:lr-v2:Low"]);
+  });
+
+  it("scores the checks the session recorded rather than the ones the request claims", async () => {
+    const { post, store } = setup(scoreRiskEndpoint);
+    const labels = (risk: RiskResult) => risk.contributions.map((c) => c.label);
+    expect(labels(await (await post(riskBody)).json())).toEqual(expect.arrayContaining(["Documents not verified", "Face not verified"]));
+
+    await recordPassedChecks(store);
+    await store.recordVerification(SESSION_ID, "spoof", "SUSPECT", { outcome: "inconclusive" });
+    await store.recordVerification(SESSION_ID, "income", "CONSISTENT", { verifiedIncome: 30000 });
+    const scored: RiskResult = await (await post({ ...riskBody, verifiedIncome: 90000 })).json();
+    expect(labels(scored)).toEqual(expect.arrayContaining(["Documents verified", "Face not verified"]));
+    expect(scored.foir).toBe(50);
+  });
+
+  it("scores a challenger in shadow without returning it", async () => {
+    const challenger = { ...DEFAULT_RISK_MODEL, version: "lr-v3", intercept: 3 };
+    const { post, writes, store } = setup(scoreRiskEndpoint, {}, { champion: DEFAULT_RISK_MODEL, challenger });
+    await recordPassedChecks(store);
+    writes.length = 0;
+    const res = await post(riskBody);
+    expect((await res.json()).modelVersion).toBe("lr-v2");
+    expect(writes).toEqual(["risk:champion:lr-v2:Low", "risk:challenger:lr-v3:Medium"]);
+  });
+
+  it("rejects unknown sessions", async () => {
+    const { post } = setup(scoreRiskEndpoint);
+    const res = await post({ ...riskBody, sessionId: crypto.randomUUID() });
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("verify-income", () => {
+  const statement = [
+    "Txn Date,Description,Debit,Credit,Balance",
+    "01-04-2024,SALARY APR ACME,,48000.00,58000.00",
+    "01-05-2024,SALARY MAY ACME,,48000.00,90000.00",
+    "01-06-2024,SALARY JUN ACME,,48000.00,120000.00",
+  ].join("\n");
+
+  it("verifies income from a CSV statement and records the analysis", async () => {
+    const { post, writes } = setup(verifyIncomeEndpoint);
+    const res = await post({ action: "verify_income", format: "csv", content: statement, declaredIncome: 75000, sessionId: SESSION_ID });
+    expect(await res.json()).toMatchObject({ verifiedIncome: 48000, consistent: false });
+    expect(writes).toEqual(["income:MISMATCH"]);
+  });
+
+  it("answers 422 when no transactions can be read", async () => {
+    const { post } = setup(verifyIncomeEndpoint);
+    const res = await post({ action: "verify_income", format: "text", content: "scanned image", declaredIncome: 45000, sessionId: SESSION_ID });
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({ error: "No transactions were found in the statement." });
+  });
+});
+
+describe("screen-applicant", () => {
+  const sanctions = watchListFromFile("sanctions.sample.csv", "id,name,aliases,dob,remarks\nS-1,Ravi Kumar Sharma,,15/08/1990,Sample listing");
+  const body = { action: "screen_applicant", sessionId: SESSION_ID };
+
+  function atAccount(context: Partial<SessionSnapshot["onboarding"]["context"]> = {}) {
+    const initial = initialOnboardingState();
+    const panIdentity = { name: "RAVI KUMAR SHARMA", dob: "15/08/1990" };
+    const onboarding = { step: "account" as const, context: { ...initial.context, panIdentity, ...context } };
+    return { sessionId: SESSION_ID, onboarding, riskResult: null, account: null, messages: [] };
+  }
+
+  it("screens the stored PAN card details and records a probable match on the session", async () => {
+    const { post, writes, store } = setup(screenApplicantEndpoint, { watchLists: async () => [sanctions] });
+    await store.saveSession(atAccount(), 0);
+    const res = await post(body);
+    expect(await res.json()).toMatchObject({ outcome: "probable_match", hits: [{ listId: "sample", entryId: "S-1", dob: "match" }] });
+    expect(writes).toEqual(["screening:PROBABLE_MATCH"]);
+    expect((await store.loadSession(SESSION_ID))?.onboarding.context.screening).toBe("probable_match");
+  });
+
+  it("does not clear a probable match by screening again", async () => {
+    const { post, writes, store } = setup(screenApplicantEndpoint);
+    await store.saveSession(atAccount({ screening: "probable_match" }), 0);
+    const res = await post(body);
+    expect(res.status).toBe(409);
+    expect((await res.json()).error).toContain("stands until compliance has reviewed it");
+    expect(writes).toEqual(["screening:CLEAR"]);
+    expect((await store.loadSession(SESSION_ID))?.onboarding.context.screening).toBe("probable_match");
+  });
+
+  it("has nothing to screen before the PAN card is read", async () => {
+    const { post, writes } = setup(screenApplicantEndpoint, { watchLists: async () => [sanctions] });
+    expect((await post(body)).status).toBe(409);
+    expect(writes).toEqual([]);
+  });
+
+  it("fails rather than clearing anyone when no lists are available", async () => {
+    const { post, writes, store } = setup(screenApplicantEndpoint, { watchLists: () => Promise.reject(new Error("No watch lists found")) });
+    await store.saveSession(atAccount(), 0);
+    const res = await post(body);
+    expect(res.status).toBe(500);
+    expect(writes).toEqual([]);
+  });
+});
+
+describe("review queue", () => {
+  const reviewer: StaffMember = { id: "staff-1", email: "reviewer@onboardx.example", role: "reviewer" };
+  const staff = async (token: string) => (token === "reviewer-token" ? reviewer : null);
+  const triggers = [{ code: "risk_high", detail: "Risk model scored the applicant High" }];
+
+  it("parks an application for review and records it on the session", async () => {
+    const { post, writes, store } = setup(requestReviewEndpoint);
+    const initial = initialOnboardingState();
+    await store.saveSession({ sessionId: SESSION_ID, onboarding: { step: "account", context: initial.context }, riskResult: null, account: null, messages: [] }, 0);
+    const res = await post({ action: "request_review", triggers, behavior: { riskScore: 0, flags: [] }, sessionId: SESSION_ID });
+    expect(await res.json()).toEqual({ caseId: expect.any(String) });
+    expect(writes).toEqual(["review:risk_high"]);
+    expect((await store.loadSession(SESSION_ID))?.onboarding.context.review).toBe("pending");
+  });
+
+  it("does not queue an application the session is not holding for review", async () => {
+    const { post, writes, store } = setup(requestReviewEndpoint);
+    const initial = initialOnboardingState();
+    const request = { action: "request_review", triggers, behavior: { riskScore: 0, flags: [] }, sessionId: SESSION_ID };
+    expect((await post(request)).status).toBe(409);
+
+    await store.saveSession({ sessionId: SESSION_ID, onboarding: { step: "account", context: { ...initial.context, review: "rejected" } }, riskResult: null, account: null, messages: [] }, 0);
+    const res = await post(request);
+    expect(res.status).toBe(409);
+    expect((await res.json()).error).toContain("already been reviewed");
+    expect(writes).toEqual([]);
+  });
+
+  it("is closed to anyone not signed in as staff", async () => {
+    const { post, postAs } = setup(reviewCasesEndpoint, { staff });
+    expect((await post({ action: "review_list" })).status).toBe(401);
+    const res = await postAs("applicant-token", { action: "review_list" });
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: "Staff sign-in required" });
+  });
+
+  it("sends the applicant back to the document a reviewer asks for again", async () => {
+    const { postAs, store } = setup(reviewCasesEndpoint, { staff });
+    const initial = initialOnboardingState();
+    await store.saveSession({
+      sessionId: SESSION_ID,
+      onboarding: { step: "account", context: { ...initial.context, panVerified: true, aadhaarVerified: true, screening: "clear", review: "pending" } },
+      riskResult: null,
+      account: null,
+      messages: [{ role: "bot", content: "Your application is under review." }],
+    }, 0);
+    const caseId = await store.openReview(SESSION_ID, [{ code: "document_suspicious", detail: "PAN card verification returned SUSPICIOUS" }], { riskScore: 0, flags: [] });
+
+    const decide = { action: "review_decide", caseId, decision: "request_reupload", reason: "The PAN photo is blurred", documentType: "PAN" };
+    const res = await postAs("reviewer-token", decide);
+    expect(await res.json()).toMatchObject({ status: "reupload_requested", outcome: { reviewer: "reviewer@onboardx.example", documentType: "PAN" } });
+
+    const session = await store.loadSession(SESSION_ID);
+    expect(session?.onboarding).toMatchObject({ step: "pan", context: { panVerified: false, review: "reupload_requested" } });
+    expect(session?.messages.at(-1)?.content).toContain("upload your PAN card again");
+
+    expect((await postAs("reviewer-token", decide)).status).toBe(409);
+  });
+});
+
+describe("admin-analytics", () => {
+  const members: Record<string, StaffMember> = {
+    "reviewer-token": { id: "staff-1", email: "reviewer@onboardx.example", role: "reviewer" },
+    "admin-token": { id: "staff-2", email: "admin@onboardx.example", role: "admin" },
+  };
+  const staff = async (token: string) => members[token] ?? null;
+
+  it("reports the funnel to admins only", async () => {
+    const { postAs, store } = setup(adminAnalyticsEndpoint, { staff });
+    await store.saveSession({ sessionId: SESSION_ID, onboarding: { ...initialOnboardingState(), step: "income" }, riskResult: null, account: null, messages: [] }, 0);
+
+    const denied = await postAs("reviewer-token", { action: "admin_funnel", days: 7 });
+    expect(denied.status).toBe(403);
+    expect(await denied.json()).toEqual({ error: "Admin access required" });
+
+    const res = await postAs("admin-token", { action: "admin_funnel", days: 7 });
+    const body = await res.json();
+    expect(body.stages.map((s: { sessions: number }) => s.sessions)).toEqual([1, 1, 0, 0, 0, 0]);
+  });
+});
+
+describe("audit-export", () => {
+  const members: Record<string, StaffMember> = {
+    "reviewer-token": { id: "staff-1", email: "reviewer@onboardx.example", role: "reviewer" },
+    "admin-token": { id: "staff-2", email: "admin@onboardx.example", role: "admin" },
+  };
+  const staff = async (token: string) => members[token] ?? null;
+
+  it("exports an applicant's trail with its chain checked, to admins only", async () => {
+    const risk = setup(scoreRiskEndpoint);
+    await recordPassedChecks(risk.store);
+    await risk.post(riskBody);
+    await risk.post(riskBody);
+    const { postAs } = setup(auditExportEndpoint, { staff, store: risk.store });
+
+    expect((await postAs("reviewer-token", { action: "audit_export", sessionId: SESSION_ID })).status).toBe(403);
+    expect((await postAs("admin-token", { action: "audit_export", sessionId: crypto.randomUUID() })).status).toBe(404);
+
+    const trail = await (await postAs("admin-token", { action: "audit_export", sessionId: SESSION_ID })).json();
+    expect(trail.events.map((e: AuditEvent) => [e.sequence, e.eventType, e.payload.level])).toEqual([[1, "risk_score", "Low"], [2, "risk_score", "Low"]]);
+    expect(trail.events[1].prevHash).toBe(trail.events[0].hash);
+    expect(trail.chain).toEqual({ valid: true, brokenAt: null });
+  });
+});
+
+describe("verify-liveness", () => {
+  it("issues a challenge and scores the frames answering it, once", async () => {
+    const { post, writes } = setup(verifyLivenessEndpoint);
+    const challenge = await (await post({ action: "liveness_start", sessionId: SESSION_ID })).json();
+    expect(challenge.prompts).toHaveLength(3);
+
+    const answer = {
+      action: "liveness_verify",
+      challengeId: challenge.challengeId,
+      baseline: "aGk=",
+      responses: challenge.prompts.map((prompt: string) => ({ prompt, frames: ["aGk=", "aGk="] })),
+      sessionId: SESSION_ID,
+    };
+    const res = await post(answer);
+    expect(await res.json()).toMatchObject({ passed: true, score: 92 });
+    expect(writes).toEqual(["liveness:PASSED"]);
+
+    expect((await post(answer)).status).toBe(409);
+  });
+
+  it("refuses frames answering different prompts", async () => {
+    const { post } = setup(verifyLivenessEndpoint);
+    const challenge = await (await post({ action: "liveness_start", sessionId: SESSION_ID })).json();
+    const res = await post({
+      action: "liveness_verify",
+      challengeId: challenge.challengeId,
+      baseline: "aGk=",
+      responses: [...challenge.prompts].reverse().map((prompt: string) => ({ prompt, frames: ["aGk="] })),
+      sessionId: SESSION_ID,
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("detect-spoof", () => {
+  const signals = { frameCount: 10, durationMs: 2500, motion: 1.8, moire: 0.03, screenEdge: 0.2, specular: 0.002, sharpness: 140 };
+
+  it("combines the burst signals with the model's judgement", async () => {
+    const { post, writes } = setup(detectSpoofEndpoint);
+    const res = await post({ action: "detect_spoof", signals, keyFrames: ["aGk="], sessionId: SESSION_ID });
+    expect(await res.json()).toMatchObject({ verdict: "live", localScore: 0, modelScore: 8, score: 4 });
+    expect(writes).toEqual(["spoof:LIVE"]);
+  });
+
+  it("does not clear a burst the model cannot judge", async () => {
+    const { post, writes } = setup(detectSpoofEndpoint, { llm: () => createMockProvider([{ role: "vision", reply: "I cannot tell." }]) });
+    const res = await post({ action: "detect_spoof", signals, keyFrames: ["aGk="], sessionId: SESSION_ID });
+    expect(await res.json()).toMatchObject({ outcome: "inconclusive", modelScore: null });
+    expect(writes).toEqual(["spoof:null"]);
+  });
+});
+
+describe("verify-document", () => {
+  it("returns the mock report with deterministic checks applied", async () => {
+    const { post, writes } = setup(verifyDocumentEndpoint);
+    const res = await post({ action: "verify_document", imageBase64: "aGk=", mimeType: "image/png", documentType: "PAN", sessionId: SESSION_ID });
+    const body = await res.json();
+    expect(body.verification.overallVerdict).toBe("GENUINE");
+    expect(body.idNumberCheck.valid).toBe(true);
+    expect(body.outcome).toBe("passed");
+    expect(writes).toEqual(["document", "document:GENUINE"]);
+  });
+
+  it("asks for the card again when no ID number could be read from it", async () => {
+    const report = JSON.parse(DEFAULT_FIXTURES[0].reply);
+    const { post, writes } = setup(verifyDocumentEndpoint, {
+      llm: () => createMockProvider([{ role: "vision", reply: JSON.stringify({ ...report, extractedData: { ...report.extractedData, idNumber: null } }) }]),
+    });
+    const res = await post({ action: "verify_document", imageBase64: "aGk=", mimeType: "image/png", documentType: "PAN", sessionId: SESSION_ID });
+    const body = await res.json();
+    expect(body).toMatchObject({ outcome: "inconclusive", idNumberCheck: { valid: false, missing: true } });
+    expect(body.verification).toMatchObject({ overallVerdict: "GENUINE", formatValid: false });
+    expect(writes).toEqual(["document", "document:GENUINE"]);
+  });
+
+  it("is inconclusive when the report does not fit the expected format", async () => {
+    const { post, writes } = setup(verifyDocumentEndpoint, {
+      llm: () => createMockProvider([{ role: "vision", reply: JSON.stringify({ overallVerdict: "GENUINE", reason: "Looks fine" }) }]),
+    });
+    const res = await post({ action: "verify_document", imageBase64: "aGk=", mimeType: "image/png", documentType: "PAN", sessionId: SESSION_ID });
+    expect(await res.json()).toMatchObject({ verification: null, outcome: "inconclusive" });
+    expect(writes).toEqual(["document", "document:null"]);
+  });
+
+  it("flags an Aadhaar that does not match the PAN identity", async () => {
+    const { post } = setup(verifyDocumentEndpoint);
+    const res = await post({
+      action: "verify_document",
+      imageBase64: "aGk=",
+      mimeType: "image/png",
+      documentType: "Aadhaar",
+      compareWith: { name: "PRIYA SHARMA", dob: "05/06/1992" },
+      sessionId: SESSION_ID,
+    });
+    expect((await res.json()).identityMatch.match).toBe(false);
+  });
+});
+
+describe("verify-face", () => {
+  const crops = {
+    selfie: { image: "c2VsZmll", box: { x: 0.3, y: 0.18, width: 0.4, height: 0.6 } },
+    document: { image: "Y2FyZA==", box: { x: 0.06, y: 0.3, width: 0.2, height: 0.36 } },
+  };
+  const card: StoredDocument = { documentType: "PAN", mimeType: "image/jpeg", base64: "UEFO", qrData: null };
+
+  /** The PAN card verify-document accepted, as face_locate and face_match read it back. */
+  async function recordCard(store: OnboardingStore) {
+    const documentId = await store.recordDocument(SESSION_ID, card);
+    await store.recordVerification(SESSION_ID, "document", "GENUINE", { documentType: "PAN" }, documentId);
+  }
+
+  /** A mock provider that keeps the image URLs each call was given. */
+  function watchImages() {
+    const images: string[][] = [];
+    const provider = createMockProvider();
+    const llm = (): LlmProvider => ({
+      ...provider,
+      completeJson<T>(request: LlmRequest) {
+        images.push(request.messages.flatMap((m) => (Array.isArray(m.content) ? m.content : []).flatMap((p) => (p.type === "image_url" ? [p.image_url.url] : []))));
+        return provider.completeJson<T>(request);
+      },
+    });
+    return { llm, images };
+  }
+
+  it("locates the portrait on the session's verified card rather than the one sent", async () => {
+    const { llm, images } = watchImages();
+    const { post, store } = setup(verifyFaceEndpoint, { llm });
+    const body = { action: "face_locate", selfie: "aGk=", document: "Y2FyZA==", sessionId: SESSION_ID };
+    expect((await post(body)).status).toBe(409);
+
+    const fake = await store.recordDocument(SESSION_ID, { ...card, base64: "RkFLRQ==" });
+    await store.recordVerification(SESSION_ID, "document", "LIKELY_FAKE", { documentType: "PAN" }, fake);
+    expect((await post(body)).status).toBe(409);
+    expect(images).toEqual([]);
+
+    await recordCard(store);
+    const res = await post(body);
+    expect(await res.json()).toMatchObject({ document: crops.document.box, selfie: crops.selfie.box });
+    expect(images).toEqual([["data:image/jpeg;base64,UEFO", "data:image/jpeg;base64,aGk="]]);
+  });
+
+  it("scores the portrait cut from the stored card against the selfie and returns both crops", async () => {
+    const { llm, images } = watchImages();
+    const { post, writes, store } = setup(verifyFaceEndpoint, { llm });
+    await recordCard(store);
+    writes.length = 0;
+    const res = await post({ action: "face_match", ...crops, sessionId: SESSION_ID });
+    expect(await res.json()).toMatchObject({
+      similarity: 91,
+      verdict: "match",
+      passed: true,
+      thresholds: { match: 80, mismatch: 60 },
+      crops: { selfie: "c2VsZmll", document: "crop:UEFO" },
+    });
+    expect(images).toEqual([["data:image/jpeg;base64,crop:UEFO", "data:image/jpeg;base64,c2VsZmll"]]);
+    expect(writes).toEqual(["face:MATCH"]);
+
+    const strict = setup(verifyFaceEndpoint, { env: (key) => ({ SUPABASE_ANON_KEY: ANON_KEY, FACE_MATCH_THRESHOLD: "95" })[key] });
+    await recordCard(strict.store);
+    const strictRes = await strict.post({ action: "face_match", ...crops, sessionId: SESSION_ID });
+    expect(await strictRes.json()).toMatchObject({ verdict: "uncertain", passed: false });
+  });
+
+  it("compares the request's crops only when there is no database", async () => {
+    const { post } = setup(verifyFaceEndpoint, { store: null });
+    expect(await (await post({ action: "face_match", ...crops })).json()).toMatchObject({ crops: { document: "Y2FyZA==" } });
+    expect((await post({ action: "face_match", ...crops, document: { box: crops.document.box } })).status).toBe(409);
+    expect((await post({ action: "face_locate", selfie: "aGk=" })).status).toBe(409);
+  });
+
+  it("fails closed when the model's reply cannot be read", async () => {
+    const { post, writes, store } = setup(verifyFaceEndpoint, { llm: () => createMockProvider([{ role: "vision", reply: "Looks like the same person to me!" }]) });
+    await recordCard(store);
+    writes.length = 0;
+    const res = await post({ action: "face_match", ...crops, sessionId: SESSION_ID });
+    expect(await res.json()).toMatchObject({ similarity: null, passed: false, outcome: "inconclusive" });
+    expect(writes).toEqual(["face:null"]);
+
+    const located = await post({ action: "face_locate", selfie: "aGk=", sessionId: SESSION_ID });
+    expect(await located.json()).toMatchObject({ document: null, selfie: null, outcome: "inconclusive" });
+  });
+});
+
+describe("onboardx-chat", () => {
+  it("streams the reply followed by the step's action events", async () => {
+    const { post } = setup(chatEndpoint);
+    const onboarding = { ...initialOnboardingState(), step: "pan" as const };
+    const res = await post({ action: "chat", messages: [{ role: "user", content: "salaried" }], onboarding, sessionId: SESSION_ID });
+    const events = await streamEvents(res);
+    expect(events).toContainEqual({ type: "request_document", documentType: "PAN" });
+  });
+
+  it("requires a session once a store is configured", async () => {
+    const { post } = setup(chatEndpoint);
+    const res = await post({ action: "chat", messages: [{ role: "user", content: "hi" }], sessionId: null });
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("send-notification", () => {
+  it("fails cleanly when email is not configured", async () => {
+    const { post } = setup(sendNotificationEndpoint);
+    const res = await post({
+      action: "send_email",
+      to: "ravi@example.com",
+      accountDetails: { accountNumber: "31234567890", ifsc: "ONBX0001234", accountType: "Savings" },
+      sessionId: SESSION_ID,
+    });
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: "Email service not configured" });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { documentsVerified, documentVerdicts, faceVerified, suspiciousDocuments, verifiedIncome } from "@shared/evidence";
+import type { ReviewVerification } from "@shared/review";
+
+function result(kind: string, verdict: string | null, result: unknown = null): ReviewVerification {
+  return { kind, verdict, result, createdAt: "2026-10-19T10:00:00.000Z" };
+}
+
+describe("stored evidence", () => {
+  it("takes each document's latest verdict", () => {
+    const verifications = [
+      result("document", "SUSPICIOUS", { documentType: "PAN" }),
+      result("face", "MATCH"),
+      result("document", "GENUINE", { documentType: "Aadhaar" }),
+      result("document", "GENUINE", { documentType: "PAN" }),
+      result("document", "SUSPICIOUS", { raw: "not JSON" }),
+    ];
+    expect(documentVerdicts(verifications)).toEqual({ PAN: "GENUINE", Aadhaar: "GENUINE" });
+    expect(suspiciousDocuments(verifications)).toEqual([]);
+    expect(suspiciousDocuments([...verifications, result("document", "SUSPICIOUS", { documentType: "Aadhaar" })])).toEqual(["Aadhaar"]);
+  });
+
+  it("counts a document verified only while its latest upload was accepted", () => {
+    const pan = result("document", "GENUINE", { documentType: "PAN" });
+    expect(documentsVerified([pan, result("document", "SUSPICIOUS", { documentType: "Aadhaar" })])).toBe(true);
+    expect(documentsVerified([pan, result("document", "LIKELY_FAKE", { documentType: "Aadhaar" })])).toBe(false);
+    expect(documentsVerified([pan])).toBe(false);
+  });
+
+  it("reads the latest statement's verified income", () => {
+    expect(verifiedIncome([])).toBeNull();
+    expect(verifiedIncome([result("income", "CONSISTENT", { verifiedIncome: 48000 }), result("income", "MISMATCH", { verifiedIncome: 30000 })])).toBe(30000);
+  });
+
+  it("verifies the face only when the latest liveness, spoof and match results all passed", () => {
+    const passed = [result("liveness", "PASSED", { outcome: "passed" }), result("spoof", "LIVE", { outcome: "passed" }), result("face", "MATCH", { outcome: "passed" })];
+    expect(faceVerified(passed)).toBe(true);
+    expect(faceVerified(passed.slice(1))).toBe(false);
+    expect(faceVerified([...passed, result("face", null, { outcome: "inconclusive" })])).toBe(false);
+  });
+});
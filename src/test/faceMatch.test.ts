@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { cropRect, DEFAULT_FACE_MATCH_THRESHOLDS, faceMatchThresholds, locateFaces, readFaceBox, scoreFaceMatch } from "@shared/faceMatch";
+
+const env = (vars: Record<string, string>) => (key: string) => vars[key];
+
+describe("face location", () => {
+  it("accepts boxes inside the image and big enough to compare", () => {
+    expect(readFaceBox({ x: 0.1, y: 0.2, width: 0.3, height: 0.4 })).toEqual({ x: 0.1, y: 0.2, width: 0.3, height: 0.4 });
+    expect(readFaceBox({ x: 120, y: 80, width: 200, height: 260 })).toBeNull();
+    expect(readFaceBox({ x: 0.8, y: 0.2, width: 0.3, height: 0.4 })).toBeNull();
+    expect(readFaceBox({ x: 0.1, y: 0.2, width: 0.01, height: 0.4 })).toBeNull();
+    expect(readFaceBox({ x: "0.1", y: 0.2, width: 0.3, height: 0.4 })).toBeNull();
+  });
+
+  it("treats an unreadable reply as no face found", () => {
+    expect(locateFaces(null)).toMatchObject({ document: null, selfie: null, outcome: "inconclusive" });
+    expect(locateFaces({ document: null, selfie: { x: 0.3, y: 0.2, width: 0.4, height: 0.5 }, reason: "No portrait" })).toMatchObject({ outcome: "failed" });
+  });
+
+  it("crops the box with a margin, clamped to the image", () => {
+    expect(cropRect({ x: 0.25, y: 0.25, width: 0.5, height: 0.5 }, 400, 200)).toEqual({ x: 50, y: 25, width: 300, height: 150 });
+    expect(cropRect({ x: 0, y: 0.5, width: 0.2, height: 0.5 }, 1000, 1000)).toEqual({ x: 0, y: 375, width: 250, height: 625 });
+  });
+});
+
+describe("face match score", () => {
+  const thresholds = DEFAULT_FACE_MATCH_THRESHOLDS;
+
+  it("matches, asks for a retake or rejects by similarity", () => {
+    expect(scoreFaceMatch({ similarity: 88, samePerson: true, reason: "Same person" }, thresholds)).toMatchObject({ verdict: "match", outcome: "passed" });
+    expect(scoreFaceMatch({ similarity: 70, samePerson: true, reason: "Unclear" }, thresholds)).toMatchObject({ verdict: "uncertain", outcome: "inconclusive" });
+    expect(scoreFaceMatch({ similarity: 35, samePerson: false, reason: "Different person" }, thresholds)).toMatchObject({ verdict: "mismatch", outcome: "failed" });
+  });
+
+  it("fails closed on an unreadable reply or a doubting model", () => {
+    expect(scoreFaceMatch(null, thresholds)).toMatchObject({ similarity: null, outcome: "inconclusive", passed: false });
+    expect(scoreFaceMatch({ similarity: 95, samePerson: false, reason: "" }, thresholds)).toMatchObject({ verdict: "uncertain", passed: false });
+  });
+
+  it("reads thresholds from the environment", () => {
+    expect(faceMatchThresholds(env({}))).toEqual(DEFAULT_FACE_MATCH_THRESHOLDS);
+    expect(faceMatchThresholds(env({ FACE_MATCH_THRESHOLD: "90", FACE_MISMATCH_THRESHOLD: "50" }))).toEqual({ match: 90, mismatch: 50 });
+    expect(faceMatchThresholds(env({ FACE_MATCH_THRESHOLD: "high" }))).toEqual(DEFAULT_FACE_MATCH_THRESHOLDS);
+    expect(faceMatchThresholds(env({ FACE_MATCH_THRESHOLD: "40", FACE_MISMATCH_THRESHOLD: "70" }))).toEqual(DEFAULT_FACE_MATCH_THRESHOLDS);
+  });
+});
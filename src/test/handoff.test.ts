@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { handoffUrl, readHandoffId } from "@shared/handoff";
+
+const HANDOFF_ID = "0d7e4f8a-5c2b-4a1e-8f3d-9b6c2a1e7f40";
+
+describe("handoff links", () => {
+  it("points at the start page and reads back the handoff id", () => {
+    const url = handoffUrl("https://onboard.example.com", HANDOFF_ID);
+    expect(url).toBe(`https://onboard.example.com/?handoff=${HANDOFF_ID}`);
+    expect(readHandoffId(new URL(url).search)).toBe(HANDOFF_ID);
+  });
+
+  it("reads nothing from a page without one", () => {
+    expect(readHandoffId("")).toBeNull();
+    expect(readHandoffId("?handoff=")).toBeNull();
+    expect(readHandoffId("?utm_source=mail")).toBeNull();
+  });
+});
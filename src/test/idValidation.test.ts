@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { checkIdNumber, validateAadhaarNumber, verhoeffValid } from "@shared/idValidation";
+
+describe("Aadhaar validation", () => {
+  it("accepts numbers with a valid Verhoeff check digit", () => {
+    expect(verhoeffValid("2363")).toBe(true);
+    expect(validateAadhaarNumber("4999 9999 9993").valid).toBe(true);
+  });
+
+  it("rejects a bad check digit", () => {
+    const check = validateAadhaarNumber("4999 9999 9994");
+    expect(check.valid).toBe(false);
+    expect(check.reason).toContain("Verhoeff");
+  });
+
+  it("rejects numbers starting with 0 or 1 and wrong lengths", () => {
+    expect(validateAadhaarNumber("1234 5678 9012").valid).toBe(false);
+    expect(validateAadhaarNumber("2345 6789").valid).toBe(false);
+  });
+
+  it("treats masked numbers as valid but unverifiable", () => {
+    const check = validateAadhaarNumber("XXXX XXXX 1234");
+    expect(check).toMatchObject({ valid: true, masked: true });
+  });
+
+  it("routes by document type", () => {
+    expect(checkIdNumber("PAN", "ABCPE1234F")?.valid).toBe(true);
+    expect(checkIdNumber("PAN", "1234")?.valid).toBe(false);
+    expect(checkIdNumber("Unknown", "1234")).toBeNull();
+  });
+
+  it("fails a PAN or Aadhaar card without a readable number", () => {
+    expect(checkIdNumber("PAN", null)).toMatchObject({ documentType: "PAN", valid: false, missing: true });
+    expect(checkIdNumber("Aadhaar", "  ")).toMatchObject({ documentType: "Aadhaar", valid: false, missing: true });
+    expect(checkIdNumber("PAN", "1234")?.missing).toBe(false);
+    expect(checkIdNumber("Unknown", null)).toBeNull();
+  });
+});
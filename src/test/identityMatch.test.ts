@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { compareNames, matchIdentities } from "@shared/identityMatch";
+
+describe("PAN ↔ Aadhaar identity matching", () => {
+  it("treats transliteration variants, honorifics and reordering as the same name", () => {
+    const result = matchIdentities(
+      { name: "Mohd. Irfan Shaikh", dob: "05/08/1991" },
+      { name: "SHRI SHAIKH MOHAMMED IRFAN", dob: "1991-08-05" },
+    );
+    expect(result.match).toBe(true);
+    expect(result.dobMatch).toBe(true);
+    expect(result.reasons).toContain("Name order differs between documents");
+  });
+
+  it("accepts initials and spelling variants", () => {
+    expect(compareNames("R. Lakshmi Narayanan", "RAMESH LAXMI NARAYANAN").score).toBeGreaterThanOrEqual(75);
+    expect(compareNames("Sunil Choudhary", "SUNEEL CHOWDHURY").score).toBeGreaterThanOrEqual(75);
+  });
+
+  it("rejects different people", () => {
+    const result = matchIdentities({ name: "Anita Sharma", dob: "01-01-1990" }, { name: "Priya Verma", dob: "01-01-1990" });
+    expect(result.match).toBe(false);
+  });
+
+  it("fails on a date-of-birth mismatch even when names agree", () => {
+    const result = matchIdentities({ name: "Ravi Kumar", dob: "01/01/1990" }, { name: "RAVI KUMAR", dob: "02/01/1990" });
+    expect(result.match).toBe(false);
+    expect(result.dobMatch).toBe(false);
+  });
+
+  it("compares only the year when a card prints year of birth", () => {
+    const result = matchIdentities({ name: "Ravi Kumar", dob: "01/01/1990" }, { name: "Ravi Kumar", dob: "Year of Birth: 1990" });
+    expect(result.match).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { LIVENESS_CHALLENGE_LENGTH, pickLivenessPrompts, scoreLiveness, type LivenessAssessment } from "@shared/liveness";
+
+const assessment = (overrides: Partial<LivenessAssessment> = {}): LivenessAssessment => ({
+  challenges: [
+    { prompt: "blink", performed: true, confidence: 90, reason: "Eyes close and reopen" },
+    { prompt: "smile", performed: true, confidence: 80, reason: "Clear smile" },
+  ],
+  sameFace: true,
+  reason: "Live person",
+  ...overrides,
+});
+
+describe("liveness challenges", () => {
+  it("picks distinct prompts in random order", () => {
+    const prompts = pickLivenessPrompts(() => 0);
+    expect(prompts).toHaveLength(LIVENESS_CHALLENGE_LENGTH);
+    expect(new Set(prompts).size).toBe(LIVENESS_CHALLENGE_LENGTH);
+    expect(pickLivenessPrompts(() => 0.99)).not.toEqual(prompts);
+  });
+});
+
+describe("liveness scoring", () => {
+  it("passes when every prompt was performed", () => {
+    const result = scoreLiveness(["smile", "blink"], assessment());
+    expect(result).toMatchObject({ passed: true, score: 85 });
+    expect(result.challenges.map((c) => c.prompt)).toEqual(["smile", "blink"]);
+  });
+
+  it("fails a prompt the model did not assess or was unsure about", () => {
+    expect(scoreLiveness(["blink", "turn_left"], assessment()).challenges[1]).toEqual({ prompt: "turn_left", passed: false, confidence: 0, reason: "Not assessed" });
+
+    const unsure = assessment({ challenges: [{ prompt: "blink", performed: true, confidence: 40, reason: "Barely visible" }] });
+    expect(scoreLiveness(["blink"], unsure)).toMatchObject({ passed: false, score: 0 });
+  });
+
+  it("fails closed on a different face or an unreadable reply", () => {
+    expect(scoreLiveness(["blink"], assessment({ sameFace: false }))).toMatchObject({ passed: false, outcome: "failed", score: 0 });
+    expect(scoreLiveness(["blink"], null)).toMatchObject({ passed: false, outcome: "inconclusive", reason: "The liveness assessment could not be read." });
+  });
+});
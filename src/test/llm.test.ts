@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { collectText, extractJson } from "@shared/llm";
+import { createMockProvider } from "@shared/llmMock";
+import { createProvider } from "@shared/llmProvider";
+
+const env = (vars: Record<string, string>) => (key: string) => vars[key];
+
+describe("LLM providers", () => {
+  it("selects the mock provider from the environment without an API key", () => {
+    expect(createProvider(env({ LLM_PROVIDER: "mock" })).name).toBe("mock");
+    expect(() => createProvider(env({}))).toThrow("LOVABLE_API_KEY");
+    expect(() => createProvider(env({ LLM_PROVIDER: "other" }))).toThrow("Unknown");
+  });
+
+  it("streams the chat fixture for the current step", async () => {
+    const llm = createMockProvider();
+    const stream = await llm.streamChat({
+      role: "chat",
+      messages: [{ role: "system", content: "CURRENT STEP: PAN" }, { role: "user", content: "salaried" }],
+    });
+    expect(await collectText(stream)).toBe("Great! Please upload your PAN card using the + button.");
+  });
+
+  it("answers document analysis with parseable JSON and prefers custom fixtures", async () => {
+    const request = {
+      role: "vision" as const,
+      messages: [{ role: "system" as const, content: "You are a KYC document forensic analyst. Analyze the uploaded Aadhaar image" }],
+    };
+    const { json } = await createMockProvider().completeJson<{ documentType: string }>(request);
+    expect(json?.documentType).toBe("Aadhaar");
+
+    const custom = createMockProvider([{ role: "vision", contains: "forensic", reply: "```json\n{\"overallVerdict\":\"LIKELY_FAKE\"}\n```" }]);
+    expect((await custom.completeJson<{ overallVerdict: string }>(request)).json?.overallVerdict).toBe("LIKELY_FAKE");
+  });
+
+  it("extracts JSON wrapped in prose", () => {
+    expect(extractJson('Sure: {"liveness": true}')).toEqual({ liveness: true });
+    expect(extractJson("no json here")).toBeNull();
+  });
+});
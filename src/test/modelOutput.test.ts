@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { extractJson, type LlmProvider, type LlmRequest } from "@shared/llm";
+import { completeValidated, MODEL_OUTPUT_ATTEMPTS } from "@shared/modelOutput";
+
+const schema = z.object({ score: z.number().min(0).max(100), reason: z.string() });
+const request: LlmRequest = { role: "vision", messages: [{ role: "system", content: "Reply with JSON" }] };
+
+/** Answers each call with the next reply and remembers the requests. */
+function scripted(...replies: string[]) {
+  const requests: LlmRequest[] = [];
+  const provider: LlmProvider = {
+    name: "scripted",
+    async streamChat() { throw new Error("not used"); },
+    async completeJson<T>(req: LlmRequest) {
+      requests.push(req);
+      const raw = replies[requests.length - 1] ?? "";
+      return { json: extractJson<T>(raw), raw };
+    },
+  };
+  return { provider, requests };
+}
+
+describe("validated model output", () => {
+  it("accepts a reply that fits the schema", async () => {
+    const { provider, requests } = scripted('{"score": 80, "reason": "Clear"}');
+    expect(await completeValidated(provider, request, schema)).toEqual({ value: { score: 80, reason: "Clear" }, raw: '{"score": 80, "reason": "Clear"}', attempts: 1, issues: [] });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("retries once, telling the model what was wrong", async () => {
+    const { provider, requests } = scripted('{"score": "high"}', '{"score": 75, "reason": "Retried"}');
+    const result = await completeValidated(provider, request, schema);
+    expect(result).toMatchObject({ value: { score: 75, reason: "Retried" }, attempts: 2 });
+    expect(requests[1].messages).toHaveLength(3);
+    expect(requests[1].messages[1]).toEqual({ role: "assistant", content: '{"score": "high"}' });
+    expect(requests[1].messages[2].content).toContain("score: Expected number, received string");
+  });
+
+  it("gives up after the retry", async () => {
+    const { provider, requests } = scripted("Sorry, I can't help with that.", "Still no.");
+    expect(await completeValidated(provider, request, schema)).toEqual({
+      value: null,
+      raw: "Still no.",
+      attempts: MODEL_OUTPUT_ATTEMPTS,
+      issues: ["The reply did not contain a JSON object"],
+    });
+    expect(requests).toHaveLength(MODEL_OUTPUT_ATTEMPTS);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeStep,
+  detectEmployment,
+  initialOnboardingState,
+  transition,
+  type OnboardingEvent,
+  type OnboardingMachineState,
+} from "@shared/onboarding";
+
+const RAVI = { name: "RAVI KUMAR", dob: "01/01/1990" };
+
+function run(events: OnboardingEvent[], state: OnboardingMachineState = initialOnboardingState()) {
+  return events.reduce((s, e) => {
+    const result = transition(s, e);
+    expect(result.accepted, result.reason).toBe(true);
+    return result.state;
+  }, state);
+}
+
+describe("onboarding state machine", () => {
+  it("walks a salaried applicant through every step in order", () => {
+    const steps: string[] = [];
+    let state = initialOnboardingState();
+    const events: OnboardingEvent[] = [
+      { type: "EMPLOYMENT_SELECTED", employmentType: "salaried" },
+      { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity: RAVI },
+      { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: true },
+      { type: "INCOME_SUBMITTED", monthlyIncome: 45000, obligations: { emi: 5000, rent: 12000, creditCardDues: 0 } },
+      { type: "STATEMENT_VERIFIED", verifiedIncome: 42000 },
+      { type: "FACE_VERIFIED" },
+      { type: "RISK_SCORED" },
+      { type: "SCREENING_COMPLETED", outcome: "clear" },
+      { type: "ACCOUNT_CREATED" },
+      { type: "EMAIL_SKIPPED" },
+    ];
+    for (const event of events) {
+      state = run([event], state);
+      steps.push(state.step);
+    }
+    expect(steps).toEqual(["pan", "aadhaar", "income", "statement", "face", "risk", "account", "account", "email", "done"]);
+    expect(state.context).toMatchObject({ monthlyIncome: 45000, verifiedIncome: 42000 });
+  });
+
+  it("skips the income step for students", () => {
+    const state = run([
+      { type: "EMPLOYMENT_SELECTED", employmentType: "student" },
+      { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity: RAVI },
+      { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: true },
+    ]);
+    expect(state.step).toBe("face");
+  });
+
+  it("rejects documents uploaded out of order", () => {
+    const atPan = run([{ type: "EMPLOYMENT_SELECTED", employmentType: "freelancer" }]);
+    const result = transition(atPan, { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar" });
+    expect(result.accepted).toBe(false);
+    expect(result.state).toBe(atPan);
+  });
+
+  it("asks for the PAN card again when no name could be read from it", () => {
+    const atPan = run([{ type: "EMPLOYMENT_SELECTED", employmentType: "salaried" }]);
+    for (const identity of [undefined, { name: null, dob: "01/01/1990" }, { name: "  ", dob: null }]) {
+      const result = transition(atPan, { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity });
+      expect(result.accepted).toBe(false);
+      expect(result.reason).toContain("upload a clearer photo");
+      expect(result.state).toBe(atPan);
+    }
+  });
+
+  it("blocks the Aadhaar step when it does not match the PAN identity", () => {
+    const atAadhaar = run([
+      { type: "EMPLOYMENT_SELECTED", employmentType: "salaried" },
+      { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity: RAVI },
+    ]);
+    expect(atAadhaar.context.panIdentity?.name).toBe("RAVI KUMAR");
+    expect(transition(atAadhaar, { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: false }).accepted).toBe(false);
+    expect(transition(atAadhaar, { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar" }).accepted).toBe(false);
+    expect(run([{ type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: true }], atAadhaar).step).toBe("income");
+  });
+
+  it("does not open face verification from chat text alone", () => {
+    const result = transition(initialOnboardingState(), { type: "FACE_VERIFIED" });
+    expect(result.accepted).toBe(false);
+    expect(result.state.step).toBe("employment");
+  });
+
+  it("rejects implausible income", () => {
+    const atIncome = run([
+      { type: "EMPLOYMENT_SELECTED", employmentType: "business" },
+      { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity: RAVI },
+      { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: true },
+    ]);
+    const none = { emi: 0, rent: 0, creditCardDues: 0 };
+    expect(transition(atIncome, { type: "INCOME_SUBMITTED", monthlyIncome: NaN, obligations: none }).accepted).toBe(false);
+    expect(transition(atIncome, { type: "INCOME_SUBMITTED", monthlyIncome: 100, obligations: none }).accepted).toBe(false);
+    expect(transition(atIncome, { type: "INCOME_SUBMITTED", monthlyIncome: 45000, obligations: { ...none, rent: -1 } }).accepted).toBe(false);
+  });
+
+  it("lets the bank statement be skipped but not verify a zero income", () => {
+    const atStatement = run([
+      { type: "EMPLOYMENT_SELECTED", employmentType: "freelancer" },
+      { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity: RAVI },
+      { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: true },
+      { type: "INCOME_SUBMITTED", monthlyIncome: 60000, obligations: { emi: 0, rent: 0, creditCardDues: 0 } },
+    ]);
+    expect(atStatement.step).toBe("statement");
+    expect(transition(atStatement, { type: "STATEMENT_VERIFIED", verifiedIncome: 0 }).accepted).toBe(false);
+    expect(run([{ type: "STATEMENT_SKIPPED" }], atStatement)).toMatchObject({ step: "face", context: { verifiedIncome: null } });
+  });
+
+  it("holds account creation until screening is done and clear of probable matches", () => {
+    const atAccount = run([
+      { type: "EMPLOYMENT_SELECTED", employmentType: "student" },
+      { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity: RAVI },
+      { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: true },
+      { type: "FACE_VERIFIED" },
+      { type: "RISK_SCORED" },
+    ]);
+    expect(transition(atAccount, { type: "ACCOUNT_CREATED" }).reason).toContain("has not been completed");
+
+    const held = run([{ type: "SCREENING_COMPLETED", outcome: "probable_match" }], atAccount);
+    expect(transition(held, { type: "ACCOUNT_CREATED" }).reason).toContain("compliance review");
+    expect(transition(held, { type: "SCREENING_COMPLETED", outcome: "clear" }).reason).toContain("stands until compliance has reviewed it");
+
+    const possible = run([{ type: "SCREENING_COMPLETED", outcome: "possible_match" }], atAccount);
+    expect(run([{ type: "ACCOUNT_CREATED" }], possible).step).toBe("email");
+  });
+
+  it("holds a flagged application for review and applies the decision", () => {
+    const atAccount = run([
+      { type: "EMPLOYMENT_SELECTED", employmentType: "student" },
+      { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity: RAVI, suspicious: true },
+      { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: true },
+      { type: "FACE_VERIFIED" },
+      { type: "RISK_SCORED" },
+      { type: "SCREENING_COMPLETED", outcome: "clear" },
+    ]);
+    expect(atAccount.context.suspiciousDocuments).toEqual(["PAN"]);
+
+    const pending = run([{ type: "REVIEW_REQUESTED" }], atAccount);
+    expect(transition(pending, { type: "ACCOUNT_CREATED" }).reason).toContain("pending manual review");
+    expect(transition(pending, { type: "REVIEW_REQUESTED" }).accepted).toBe(false);
+
+    expect(run([{ type: "REVIEW_DECIDED", decision: "approve" }, { type: "ACCOUNT_CREATED" }], pending).step).toBe("email");
+    const rejected = run([{ type: "REVIEW_DECIDED", decision: "reject" }], pending);
+    expect(transition(rejected, { type: "ACCOUNT_CREATED" }).reason).toContain("declined");
+
+    const reupload = run([{ type: "REVIEW_DECIDED", decision: "request_reupload", documentType: "PAN" }], pending);
+    expect(reupload).toMatchObject({
+      step: "pan",
+      context: { panVerified: false, aadhaarVerified: false, suspiciousDocuments: [], screening: null, review: "reupload_requested" },
+    });
+    const backAtAccount = run([
+      { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity: RAVI },
+      { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: true },
+      { type: "FACE_VERIFIED" },
+      { type: "RISK_SCORED" },
+      { type: "SCREENING_COMPLETED", outcome: "clear" },
+    ], reupload);
+    expect(transition(backAtAccount, { type: "ACCOUNT_CREATED" }).reason).toContain("have not been reviewed");
+    expect(run([{ type: "REVIEW_REQUESTED" }], backAtAccount).context.review).toBe("pending");
+    expect(transition(pending, { type: "REVIEW_DECIDED", decision: "request_reupload" }).accepted).toBe(false);
+  });
+
+  it("lets a reviewer clear a probable screening match", () => {
+    const held = run([
+      { type: "EMPLOYMENT_SELECTED", employmentType: "student" },
+      { type: "DOCUMENT_VERIFIED", documentType: "PAN", identity: RAVI },
+      { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: true },
+      { type: "FACE_VERIFIED" },
+      { type: "RISK_SCORED" },
+      { type: "SCREENING_COMPLETED", outcome: "probable_match" },
+      { type: "REVIEW_REQUESTED" },
+      { type: "REVIEW_DECIDED", decision: "approve" },
+    ]);
+    expect(run([{ type: "ACCOUNT_CREATED" }], held).step).toBe("email");
+  });
+
+  it("detects employment type from free text", () => {
+    expect(detectEmployment("I'm a salaried employee")).toBe("salaried");
+    expect(detectEmployment("hello")).toBeNull();
+  });
+
+  it("describes only the current step to the model", () => {
+    const text = describeStep(run([{ type: "EMPLOYMENT_SELECTED", employmentType: "student" }]));
+    expect(text).toContain("CURRENT STEP: PAN");
+    expect(text).toContain("never ask for income");
+  });
+});
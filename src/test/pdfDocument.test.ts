@@ -0,0 +1,16 @@
+import { describe, it, expect } from "vitest";
+import { eAadhaarPasswordCandidates, isPdfFile } from "@/utils/pdfDocument";
+
+describe("PDF uploads", () => {
+  it("derives the e-Aadhaar password from name and year of birth", () => {
+    expect(eAadhaarPasswordCandidates("Ravi Kumar", "01/01/1990")).toEqual(["RAVI1990"]);
+    expect(eAadhaarPasswordCandidates("Om Prakash", "1985-03-12")).toEqual(["OMPR1985", "OM1985"]);
+    expect(eAadhaarPasswordCandidates("Ravi Kumar", null)).toEqual([]);
+  });
+
+  it("recognises PDFs by type or extension", () => {
+    expect(isPdfFile(new File([""], "eaadhaar.PDF"))).toBe(true);
+    expect(isPdfFile(new File([""], "scan", { type: "application/pdf" }))).toBe(true);
+    expect(isPdfFile(new File([""], "card.jpg", { type: "image/jpeg" }))).toBe(false);
+  });
+});
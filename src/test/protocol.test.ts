@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { encodeDone, encodeEvent, eventsForStep, parseStreamLine } from "@shared/protocol";
+
+describe("chat stream protocol", () => {
+  it("round-trips events through the SSE encoding", () => {
+    const frame = encodeEvent({ type: "request_document", documentType: "Aadhaar" });
+    expect(parseStreamLine(frame.trimEnd())).toEqual({ type: "request_document", documentType: "Aadhaar" });
+    expect(parseStreamLine(encodeDone().trimEnd())).toBe("done");
+  });
+
+  it("ignores comments and unknown event types", () => {
+    expect(parseStreamLine(": keep-alive")).toBeNull();
+    expect(parseStreamLine('data: {"type":"launch_rockets"}')).toBeNull();
+  });
+
+  it("throws on incomplete JSON so callers can wait for more bytes", () => {
+    expect(() => parseStreamLine('data: {"type":"text_')).toThrow();
+  });
+
+  it("maps onboarding steps to client actions", () => {
+    expect(eventsForStep("pan")).toEqual([{ type: "request_document", documentType: "PAN" }]);
+    expect(eventsForStep("face")).toEqual([{ type: "start_face_verification" }]);
+    expect(eventsForStep("employment")).toEqual([]);
+  });
+});
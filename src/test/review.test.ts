@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { BEHAVIOR_REVIEW_SCORE, reviewDecisionMessage, reviewTriggers, type ReviewSignals } from "@shared/review";
+
+const clean: ReviewSignals = {
+  suspiciousDocuments: [],
+  behavior: { riskScore: 20, flags: ["Copy-paste detected 2 times in sensitive fields"] },
+  riskLevel: "Low",
+  screening: "possible_match",
+  review: null,
+};
+
+describe("review triggers", () => {
+  it("lets a clean application through", () => {
+    expect(reviewTriggers(clean)).toEqual([]);
+  });
+
+  it("names every reason an application needs a reviewer", () => {
+    const triggers = reviewTriggers({
+      suspiciousDocuments: ["Aadhaar"],
+      behavior: { riskScore: BEHAVIOR_REVIEW_SCORE, flags: [] },
+      riskLevel: "High",
+      screening: "probable_match",
+      review: "reupload_requested",
+    });
+    expect(triggers.map((t) => t.code)).toEqual(["document_suspicious", "behavior", "risk_high", "screening", "reupload"]);
+    expect(triggers[0].detail).toBe("Aadhaar card verification returned SUSPICIOUS");
+  });
+
+  it("tells the applicant which document to upload again and why", () => {
+    expect(reviewDecisionMessage({ decision: "request_reupload", documentType: "Aadhaar", reason: "The photo is cropped" }))
+      .toBe("📋 Our review team needs you to upload your Aadhaar card again.\n\nReason: The photo is cropped");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { calculateRisk, DEFAULT_RISK_MODEL, parseRiskModel } from "@shared/risk";
+
+const noObligations = { emi: 0, rent: 0, creditCardDues: 0 };
+const applicant = { monthlyIncome: 45000, employmentType: "salaried", documentsVerified: true, faceVerified: true, obligations: noObligations };
+
+describe("risk scoring", () => {
+  it("decomposes the log-odds into baseline plus per-feature contributions", () => {
+    const result = calculateRisk(applicant);
+    const z = result.contributions.reduce((sum, c) => sum + c.contribution, result.baseline);
+    expect(1 / (1 + Math.exp(-z))).toBeCloseTo(result.probability, 10);
+    expect(result.contributions.map((c) => [c.feature, c.coefficient * c.value])).toEqual([
+      ["income", -0.5],
+      ["employment", -0.8],
+      ["documents", -0.4],
+      ["face", -0.3],
+      ["foir", -0.2],
+    ]);
+    expect(result.reasonCodes).toEqual([]);
+  });
+
+  it("issues reason codes for risk-increasing features, largest first", () => {
+    const result = calculateRisk({ ...applicant, monthlyIncome: 8000, employmentType: "freelancer", faceVerified: false });
+    expect(result.level).toBe("Medium");
+    expect(result.reasonCodes.map((r) => r.code)).toEqual(["RC01", "RC02", "RC04"]);
+  });
+
+  it("computes DTI and FOIR from declared obligations and scores FOIR", () => {
+    const obligations = { emi: 10000, rent: 15000, creditCardDues: 2500 };
+    const result = calculateRisk({ ...applicant, monthlyIncome: 50000, obligations });
+    expect(result).toMatchObject({ dti: 25, foir: 55 });
+    expect(result.contributions.find((c) => c.feature === "foir")).toMatchObject({ label: "FOIR 55% (50–60% band)", contribution: 0.6 });
+    expect(result.reasonCodes.map((r) => r.code)).toEqual(["RC05"]);
+    expect(result.explanation).toContain("DTI of 25% and FOIR of 55%");
+
+    const { foirBands: _, ...withoutFoir } = DEFAULT_RISK_MODEL;
+    expect(calculateRisk({ ...applicant, obligations }, withoutFoir).contributions.map((c) => c.feature)).not.toContain("foir");
+  });
+
+  it("scores the lower of declared and bank-verified income", () => {
+    const result = calculateRisk({ ...applicant, monthlyIncome: 90000, verifiedIncome: 30000, obligations: { emi: 0, rent: 9000, creditCardDues: 0 } });
+    expect(result.contributions[0]).toMatchObject({ label: "Monthly income ₹30,000 (₹20,001–₹40,000 band, verified from bank statement)", contribution: 0.2 });
+    expect(result.foir).toBe(30);
+    expect(result.explanation).toContain("exceeds what the bank statement supports");
+    expect(calculateRisk({ ...applicant, verifiedIncome: 60000 }).contributions[0].coefficient).toBe(-0.5);
+  });
+
+  it("stamps the model version and applies the model's cut-offs", () => {
+    const strict = { ...DEFAULT_RISK_MODEL, version: "lr-strict", cutoffs: { medium: 0.01, high: 0.02 } };
+    expect(calculateRisk(applicant).modelVersion).toBe("lr-v2");
+    expect(calculateRisk(applicant, strict)).toMatchObject({ modelVersion: "lr-strict", level: "High" });
+  });
+});
+
+describe("risk model definitions", () => {
+  it("round-trips the default model through JSON", () => {
+    expect(parseRiskModel(JSON.parse(JSON.stringify(DEFAULT_RISK_MODEL)))).toEqual(DEFAULT_RISK_MODEL);
+  });
+
+  it("rejects definitions without a catch-all band or with inverted cut-offs", () => {
+    const broken = {
+      ...DEFAULT_RISK_MODEL,
+      incomeBands: DEFAULT_RISK_MODEL.incomeBands.slice(0, 1),
+      cutoffs: { medium: 0.7, high: 0.3 },
+    };
+    expect(() => parseRiskModel(broken)).toThrow(/incomeBands: .*above: null; cutoffs: cutoffs.medium/);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { calculateRisk, DEFAULT_RISK_MODEL } from "@shared/risk";
+import { generateApplicants } from "../../scripts/risk/synthetic";
+import { auc, calibration, formatApplicantsCsv, ks, parseApplicantsCsv, train } from "../../scripts/risk/training";
+
+describe("risk training metrics", () => {
+  const scores = [0.1, 0.4, 0.35, 0.8];
+  const labels = [false, false, true, true];
+
+  it("computes AUC and KS", () => {
+    expect(auc(scores, labels)).toBe(0.75);
+    expect(ks(scores, labels)).toBe(0.5);
+    expect(auc([0.2, 0.2], [true, false])).toBe(0.5);
+  });
+
+  it("bins predictions for calibration", () => {
+    const bins = calibration(scores, labels, 2);
+    expect(bins.map((b) => [b.count, b.observedRate])).toEqual([[2, 0.5], [2, 0.5]]);
+    expect(bins[0].meanPredicted).toBeCloseTo(0.225);
+    expect(bins[1].meanPredicted).toBeCloseTo(0.6);
+  });
+});
+
+describe("risk training pipeline", () => {
+  it("round-trips applicants through CSV", () => {
+    const applicants = generateApplicants(20, 7);
+    expect(parseApplicantsCsv(formatApplicantsCsv(applicants))).toEqual(applicants);
+    expect(() => parseApplicantsCsv("monthly_income,defaulted\n1000,0")).toThrow("employment_type, documents_verified");
+  });
+
+  it("trains a loadable model that recovers the synthetic risk drivers", () => {
+    const run = train(generateApplicants(2000, 3), { base: DEFAULT_RISK_MODEL, version: "lr-test" });
+    expect(run.fit.converged).toBe(true);
+    expect(run.holdout.auc).toBeGreaterThan(0.75);
+    expect(run.model.employment.student).toBeGreaterThan(run.model.employment.salaried);
+    expect(run.model.documents.unverified).toBeGreaterThan(run.model.documents.verified);
+
+    const foir = run.model.foirBands;
+    expect(foir[0].coefficient).toBeGreaterThan(foir[foir.length - 1].coefficient);
+
+    const obligations = { emi: 0, rent: 10000, creditCardDues: 0 };
+    const applicant = { monthlyIncome: 50000, employmentType: "salaried", documentsVerified: true, faceVerified: true, obligations };
+    expect(calculateRisk(applicant, run.model).modelVersion).toBe("lr-test");
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseWatchListCsv,
+  parseWatchListXml,
+  screenIdentity,
+  watchListFromFile,
+  type WatchList,
+} from "@shared/screening";
+
+const UN_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<CONSOLIDATED_LIST>
+  <INDIVIDUALS>
+    <INDIVIDUAL>
+      <DATAID>101</DATAID>
+      <FIRST_NAME>VIKRAM</FIRST_NAME>
+      <SECOND_NAME>SINGH</SECOND_NAME>
+      <THIRD_NAME>RATHORE</THIRD_NAME>
+      <UN_LIST_TYPE>Sample</UN_LIST_TYPE>
+      <REFERENCE_NUMBER>QDi.900</REFERENCE_NUMBER>
+      <INDIVIDUAL_ALIAS><ALIAS_NAME>Vikram Rathod</ALIAS_NAME></INDIVIDUAL_ALIAS>
+      <INDIVIDUAL_DATE_OF_BIRTH><DATE>1971-08-14</DATE></INDIVIDUAL_DATE_OF_BIRTH>
+      <INDIVIDUAL_DATE_OF_BIRTH><YEAR>1972</YEAR></INDIVIDUAL_DATE_OF_BIRTH>
+    </INDIVIDUAL>
+  </INDIVIDUALS>
+  <ENTITIES><ENTITY><DATAID>200</DATAID><FIRST_NAME>SAMPLE TRADING CO</FIRST_NAME></ENTITY></ENTITIES>
+</CONSOLIDATED_LIST>`;
+
+const SDN_XML = `<sdnList xmlns="urn:sample">
+  <sdnEntry>
+    <uid>990001</uid><firstName>Rashid</firstName><lastName>MIRZA</lastName><sdnType>Individual</sdnType>
+    <programList><program>SAMPLE</program></programList>
+    <akaList><aka><uid>990011</uid><firstName>Rasheed</firstName><lastName>MIRZA BAIG</lastName></aka></akaList>
+    <dateOfBirthList><dateOfBirthItem><uid>990021</uid><dateOfBirth>03 Feb 1965</dateOfBirth></dateOfBirthItem></dateOfBirthList>
+  </sdnEntry>
+  <sdnEntry><uid>990002</uid><lastName>SAMPLE SHIPPING LLC</lastName><sdnType>Entity</sdnType></sdnEntry>
+</sdnList>`;
+
+describe("watch list parsing", () => {
+  it("reads individuals from the UN consolidated layout and skips entities", () => {
+    expect(parseWatchListXml(UN_XML)).toEqual([{
+      entryId: "QDi.900",
+      name: "VIKRAM SINGH RATHORE",
+      aliases: ["Vikram Rathod"],
+      dobs: ["1971-08-14", "1972"],
+      remarks: "Sample",
+    }]);
+  });
+
+  it("reads individuals from the OFAC SDN layout", () => {
+    expect(parseWatchListXml(SDN_XML)).toEqual([{
+      entryId: "990001",
+      name: "Rashid MIRZA",
+      aliases: ["Rasheed MIRZA BAIG"],
+      dobs: ["03 Feb 1965"],
+      remarks: "SAMPLE",
+    }]);
+  });
+
+  it("reads quoted CSV rows with semicolon-separated aliases", () => {
+    const entries = parseWatchListCsv('id,name,aliases,dob,remarks\nP-1,Meera Joshi Deshpande,"Meera Deshpande; M J Deshpande",12/03/1962,"Former minister, state"');
+    expect(entries[0]).toEqual({
+      entryId: "P-1",
+      name: "Meera Joshi Deshpande",
+      aliases: ["Meera Deshpande", "M J Deshpande"],
+      dobs: ["12/03/1962"],
+      remarks: "Former minister, state",
+    });
+  });
+
+  it("takes the kind and list id from the file name", () => {
+    expect(watchListFromFile("pep.domestic.csv", "id,name\n1,Harish Nair")).toMatchObject({ id: "domestic", kind: "pep" });
+    expect(() => watchListFromFile("terrorists.csv", "id,name")).toThrow("must be named");
+  });
+});
+
+describe("screening", () => {
+  const lists: WatchList[] = [
+    { id: "un", kind: "sanctions", entries: parseWatchListXml(UN_XML) },
+    { id: "ofac", kind: "sanctions", entries: parseWatchListXml(SDN_XML) },
+    watchListFromFile("pep.domestic.csv", "id,name,aliases,dob,remarks\nP-1,Meera Joshi Deshpande,,12/03/1962,Former minister"),
+  ];
+
+  it("treats a name and date of birth match as probable", () => {
+    const result = screenIdentity({ name: "VIKRAM SINGH RATHORE", dob: "14/08/1971" }, lists);
+    expect(result.outcome).toBe("probable_match");
+    expect(result.hits[0]).toMatchObject({ listId: "un", entryId: "QDi.900", dob: "match" });
+    expect(result.lists).toEqual([
+      { id: "un", kind: "sanctions", entries: 1 },
+      { id: "ofac", kind: "sanctions", entries: 1 },
+      { id: "domestic", kind: "pep", entries: 1 },
+    ]);
+  });
+
+  it("compares listed DD Mon YYYY dates and matches aliases", () => {
+    const result = screenIdentity({ name: "RASHEED MIRZA BAIG", dob: "03/02/1965" }, lists);
+    expect(result.hits[0]).toMatchObject({ listId: "ofac", matchedName: "Rasheed MIRZA BAIG", dob: "match" });
+  });
+
+  it("weakens a same-name hit whose date of birth contradicts the listing", () => {
+    const unknown = screenIdentity({ name: "MEERA JOSHI DESHPANDE", dob: null }, lists);
+    const mismatch = screenIdentity({ name: "MEERA JOSHI DESHPANDE", dob: "01/01/1995" }, lists);
+    expect(unknown.outcome).toBe("probable_match");
+    expect(mismatch.outcome).toBe("clear");
+    expect(mismatch.hits).toEqual([]);
+  });
+
+  it("clears applicants whose names are not listed", () => {
+    expect(screenIdentity({ name: "ANITA RAO", dob: "01/01/1990" }, lists)).toMatchObject({ outcome: "clear", hits: [] });
+  });
+});
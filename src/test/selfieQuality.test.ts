@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import type { PixelFrame } from "@shared/antiSpoof";
+import type { FaceBox } from "@shared/faceMatch";
+import { assessSelfieFrame, faceBoxFromPixels, SELFIE_HINTS, SELFIE_READY_HINT } from "@shared/selfieQuality";
+
+const WIDTH = 80;
+const HEIGHT = 60;
+
+/** A textured grey frame around `level`; texture 0 is flat, i.e. blurred. */
+function frame(level: number, texture = 40): PixelFrame {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const v = level + (texture ? ((x * 7 + y * 13) % texture) - texture / 2 : 0);
+      data.set([v, v, v, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+}
+
+const centred: FaceBox = { x: 0.3, y: 0.2, width: 0.4, height: 0.6 };
+
+describe("selfie quality", () => {
+  it("passes one centred, well-lit, sharp face", () => {
+    const quality = assessSelfieFrame([centred], frame(130));
+    expect(quality).toMatchObject({ passed: true, issues: [], hint: SELFIE_READY_HINT });
+    expect(quality.sharpness).toBeGreaterThan(20);
+  });
+
+  it("asks for one face, in the middle, at the right distance", () => {
+    expect(assessSelfieFrame([], frame(130)).issues).toEqual(["no_face"]);
+    expect(assessSelfieFrame([centred, { x: 0.05, y: 0.1, width: 0.2, height: 0.3 }], frame(130))).toMatchObject({
+      passed: false,
+      issues: ["multiple_faces"],
+      hint: SELFIE_HINTS.multiple_faces,
+    });
+    expect(assessSelfieFrame([{ x: 0.45, y: 0.4, width: 0.1, height: 0.15 }], frame(130)).issues).toEqual(["too_far"]);
+    expect(assessSelfieFrame([{ x: 0.1, y: 0.05, width: 0.8, height: 0.9 }], frame(130)).issues).toEqual(["too_close"]);
+    expect(assessSelfieFrame([{ x: 0.0, y: 0.2, width: 0.35, height: 0.5 }], frame(130)).issues).toEqual(["off_centre"]);
+  });
+
+  it("flags poor lighting and blur, most pressing first", () => {
+    expect(assessSelfieFrame([centred], frame(25)).issues[0]).toBe("too_dark");
+    expect(assessSelfieFrame([centred], frame(235, 20)).issues[0]).toBe("too_bright");
+    const blurred = assessSelfieFrame([centred], frame(130, 0));
+    expect(blurred).toMatchObject({ passed: false, issues: ["blurred"], hint: SELFIE_HINTS.blurred, sharpness: 0 });
+  });
+
+  it("checks only lighting and blur without a detector", () => {
+    expect(assessSelfieFrame(null, frame(130)).passed).toBe(true);
+    expect(assessSelfieFrame(null, frame(25)).issues).toEqual(["too_dark"]);
+  });
+
+  it("converts and clips the detector's pixel boxes", () => {
+    expect(faceBoxFromPixels({ originX: 40, originY: 30, width: 80, height: 60 }, 160, 120)).toEqual({ x: 0.25, y: 0.25, width: 0.5, height: 0.5 });
+    const clipped = faceBoxFromPixels({ originX: -20, originY: 100, width: 60, height: 40 }, 160, 120);
+    expect(clipped).toMatchObject({ x: 0, width: 0.25 });
+    expect(clipped.y + clipped.height).toBeCloseTo(1);
+  });
+});
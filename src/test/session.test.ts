@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { handoffUrl, readHandoffId } from "@shared/handoff";
+import { initialOnboardingState, transition, type OnboardingMachineState } from "@shared/onboarding";
+import {
+  mergeClientSave,
+  restoreOnboarding,
+  RESUME_GREETING,
+  replaysOnResume,
+  resumeTranscript,
+  type ClientSave,
+  type SessionSnapshot,
+} from "@shared/session";
+
+const SESSION_ID = "6f1c2f7e-3b0a-4d8e-9a51-2f4d7c9b1e20";
+
+function snapshot(onboarding: OnboardingMachineState, messages: SessionSnapshot["messages"] = []): SessionSnapshot {
+  return { sessionId: SESSION_ID, onboarding, riskResult: null, account: null, messages };
+}
+
+const atFace: OnboardingMachineState = { ...initialOnboardingState(), step: "face" };
+
+describe("session resume", () => {
+  it("puts the machine back at the saved step, filling context fields added since", () => {
+    const { review: _review, suspiciousDocuments: _flags, ...older } = initialOnboardingState().context;
+    const saved = { step: "statement", context: { ...older, employmentType: "freelancer", panVerified: true, aadhaarVerified: true, monthlyIncome: 60000 } };
+    const restored = restoreOnboarding(saved as OnboardingMachineState);
+    expect(restored).toMatchObject({ step: "statement", context: { monthlyIncome: 60000, review: null, suspiciousDocuments: [] } });
+
+    expect(transition(restored, { type: "DOCUMENT_VERIFIED", documentType: "PAN" }).accepted).toBe(false);
+    expect(transition(restored, { type: "STATEMENT_SKIPPED" }).state.step).toBe("face");
+  });
+
+  it("starts over from a state without a valid step", () => {
+    expect(restoreOnboarding(null)).toEqual(initialOnboardingState());
+    expect(restoreOnboarding({ ...atFace, step: "kyc" } as unknown as OnboardingMachineState)).toEqual(initialOnboardingState());
+  });
+
+  it("shows the saved transcript with a greeting and replays the current step", () => {
+    const saved = snapshot(atFace, [{ role: "bot", content: "Face verification is next." }]);
+    expect(resumeTranscript(saved)).toEqual([...saved.messages, { role: "bot", content: RESUME_GREETING }]);
+    expect(replaysOnResume(saved.onboarding.step)).toBe(true);
+    expect(replaysOnResume("email")).toBe(false);
+    expect(replaysOnResume("done")).toBe(false);
+  });
+
+  it("resumes a handed-off session on the phone at the face step", () => {
+    const link = handoffUrl("https://onboard.example.com", "0d7e4f8a-5c2b-4a1e-8f3d-9b6c2a1e7f40");
+    expect(readHandoffId(new URL(link).search)).not.toBeNull();
+
+    const claimed = snapshot(atFace, [{ role: "user", content: "📄 pan.jpg", isFile: true }]);
+    const transcript = resumeTranscript(claimed, "📱 Carrying on from your computer.");
+    expect(transcript.at(-1)).toEqual({ role: "bot", content: "📱 Carrying on from your computer." });
+    // Replaying the face step is what opens the camera on the phone
+    expect(replaysOnResume(claimed.onboarding.step)).toBe(true);
+  });
+});
+
+describe("client saves", () => {
+  const atAccount: OnboardingMachineState = { ...initialOnboardingState(), step: "account" };
+  const decided = snapshot(
+    { ...atAccount, context: { ...atAccount.context, screening: "clear", review: "rejected" } },
+    [{ role: "user", content: "hi" }, { role: "bot", content: "Declined at review.", fromServer: true }],
+  );
+
+  function save(messages: SessionSnapshot["messages"] = [], events: ClientSave["events"] = []): ClientSave {
+    return { sessionId: SESSION_ID, events, riskResult: null, messages };
+  }
+
+  it("moves the stored state on only through the client's events the machine accepts", () => {
+    const atEmployment = snapshot(initialOnboardingState());
+    const saved = mergeClientSave(atEmployment, save([], [
+      { type: "EMPLOYMENT_SELECTED", employmentType: "student" },
+      { type: "DOCUMENT_VERIFIED", documentType: "Aadhaar", identityMatched: true },
+      { type: "FACE_VERIFIED" },
+    ]));
+    expect(saved.onboarding).toMatchObject({ step: "pan", context: { employmentType: "student", aadhaarVerified: false, faceVerified: false } });
+  });
+
+  it("keeps the screening, review and account the functions recorded", () => {
+    const opened = { ...decided, account: { accountNumber: "31234567890", ifsc: "ONBX0001234", accountType: "Savings Account" } };
+    expect(mergeClientSave(decided, save())).toMatchObject({ account: null, onboarding: { step: "account", context: { screening: "clear", review: "rejected" } } });
+    expect(mergeClientSave(opened, save()).account).toEqual(opened.account);
+  });
+
+  it("stores the client's shorter transcript, so removed messages are trimmed", () => {
+    const scanning = snapshot(atAccount, [{ role: "user", content: "📄 pan.jpg", isFile: true }, { role: "bot", content: "🔍 Scanning document for authenticity…" }]);
+    const done = save([{ role: "user", content: "📄 pan.jpg", isFile: true }]);
+    expect(mergeClientSave(scanning, done).messages).toEqual(done.messages);
+  });
+
+  it("adds function messages a stale transcript lacks, once", () => {
+    expect(mergeClientSave(decided, save([{ role: "user", content: "hi" }])).messages).toEqual(decided.messages);
+
+    const current = save([...decided.messages, { role: "user", content: "ok" }]);
+    expect(mergeClientSave(decided, current).messages).toEqual(current.messages);
+  });
+});
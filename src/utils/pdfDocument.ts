@@ -0,0 +1,128 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+export interface RenderedPdfPage {
+  pageNumber: number;
+  /** PNG, base64-encoded without the data URL prefix. */
+  base64: string;
+  mimeType: "image/png";
+  width: number;
+  height: number;
+}
+
+export class PdfPasswordError extends Error {
+  constructor(public readonly reason: "required" | "incorrect") {
+    super(reason === "required" ? "This PDF is password-protected." : "The PDF password is incorrect.");
+    this.name = "PdfPasswordError";
+  }
+}
+
+/** Rendering more pages than this costs memory on phones and no ID document needs it. */
+export const MAX_PDF_PAGES = 4;
+
+const RENDER_SCALE = 2;
+
+export function isPdfFile(file: File): boolean {
+  return file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+}
+
+/**
+ * Password guesses for an e-Aadhaar PDF: the first four letters of the name in
+ * capitals followed by the year of birth (e.g. "RAVI1990").
+ */
+export function eAadhaarPasswordCandidates(name: string | null | undefined, dob: string | null | undefined): string[] {
+  const year = dob?.match(/(19|20)\d{2}/)?.[0];
+  if (!name || !year) return [];
+  const letters = name.toUpperCase().replace(/[^A-Z]/g, "");
+  const candidates = new Set<string>();
+  if (letters.length >= 4) candidates.add(letters.slice(0, 4) + year);
+  // Some issuers use the first name only, which differs when it is shorter than four letters
+  const firstName = name.toUpperCase().replace(/[^A-Z\s]/g, "").trim().split(/\s+/)[0];
+  if (firstName) candidates.add(firstName.slice(0, 4) + year);
+  return [...candidates];
+}
+
+async function loadPdfJs() {
+  const [pdfjs, worker] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+}
+
+/**
+ * Opens a PDF, trying each password in turn. Throws PdfPasswordError when the
+ * file is encrypted and none of the passwords work.
+ */
+export async function openPdf(data: ArrayBuffer, passwords: string[] = []): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfJs();
+  const attempts: (string | undefined)[] = [undefined, ...passwords];
+  let lastReason: PdfPasswordError["reason"] = "required";
+
+  for (const password of attempts) {
+    // pdf.js transfers the buffer to its worker, so every attempt gets a copy
+    const task = pdfjs.getDocument({ data: new Uint8Array(data.slice(0)), password });
+    try {
+      return await task.promise;
+    } catch (err) {
+      await task.destroy();
+      if ((err as Error)?.name !== "PasswordException") throw err;
+      lastReason = (err as { code?: number }).code === pdfjs.PasswordResponses.INCORRECT_PASSWORD ? "incorrect" : "required";
+    }
+  }
+  throw new PdfPasswordError(lastReason);
+}
+
+/** Rasterises the first MAX_PDF_PAGES pages to PNG for QR scanning and vision analysis. */
+export async function renderPdfPages(pdf: PDFDocumentProxy, maxPages = MAX_PDF_PAGES): Promise<RenderedPdfPage[]> {
+  const pages: RenderedPdfPage[] = [];
+  for (let n = 1; n <= Math.min(pdf.numPages, maxPages); n++) {
+    const page = await pdf.getPage(n);
+    const viewport = page.getViewport({ scale: RENDER_SCALE });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    page.cleanup();
+    pages.push({
+      pageNumber: n,
+      base64: canvas.toDataURL("image/png").split(",")[1],
+      mimeType: "image/png",
+      width: canvas.width,
+      height: canvas.height,
+    });
+  }
+  return pages;
+}
+
+/** Bank statements run longer than ID documents; a year of transactions fits in this many pages. */
+export const MAX_STATEMENT_PAGES = 30;
+
+/**
+ * Extracts a text PDF (such as a bank statement) as lines: text items that sit
+ * on the same baseline are joined left to right. Scanned PDFs have no text and
+ * yield an empty list.
+ */
+export async function extractPdfText(pdf: PDFDocumentProxy, maxPages = MAX_STATEMENT_PAGES): Promise<string[]> {
+  const lines: string[] = [];
+  for (let n = 1; n <= Math.min(pdf.numPages, maxPages); n++) {
+    const page = await pdf.getPage(n);
+    const content = await page.getTextContent();
+    const rows = new Map<number, { x: number; text: string }[]>();
+    for (const item of content.items) {
+      if (!("str" in item) || !item.str.trim()) continue;
+      const [, , , , x, y] = item.transform;
+      const key = Math.round(y);
+      rows.set(key, [...(rows.get(key) ?? []), { x, text: item.str.trim() }]);
+    }
+    page.cleanup();
+    [...rows.entries()]
+      .sort(([a], [b]) => b - a)
+      .forEach(([, items]) => lines.push(items.sort((a, b) => a.x - b.x).map((i) => i.text).join("  ")));
+  }
+  return lines;
+}
@@ -0,0 +1,258 @@
+// Aadhaar Secure QR decoding and signature verification.
+//
+// A Secure QR holds one large decimal integer. Its big-endian bytes are a
+// gzip-compressed payload laid out as:
+//
+//   [text fields separated by 0xFF] [JPEG 2000 photo] [email/mobile hashes] [256-byte signature]
+//
+// V2+ payloads start with a version field ("V2", "V3", …) and carry 18 text
+// fields; V1 payloads have no version and 16 fields. The signature is
+// RSA-2048 / SHA-256 (PKCS#1 v1.5) over every byte before it, made with the
+// UIDAI signing key.
+//
+// Only web-standard APIs are used so the decoder runs in Deno and in the browser.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface AadhaarQrData {
+  version: string;
+  referenceId: string;
+  name: string;
+  dob: string;
+  gender: string;
+  careOf: string;
+  address: string;
+  pincode: string;
+  state: string;
+  /** Only the last four digits are ever present in the QR: "XXXX XXXX 1234". */
+  maskedAadhaar: string;
+  mobileLast4: string | null;
+  /** JPEG 2000 portrait, base64-encoded. */
+  photoBase64: string | null;
+}
+
+export interface DecodedSecureQr {
+  data: AadhaarQrData;
+  signedBytes: Uint8Array;
+  signature: Uint8Array;
+}
+
+export interface ExtractedIdentity {
+  name?: string | null;
+  idNumber?: string | null;
+  dob?: string | null;
+  gender?: string | null;
+}
+
+export interface QrCheck {
+  format: "secure" | "unsupported";
+  /** null when no UIDAI public key is configured. */
+  signatureValid: boolean | null;
+  /** null when the QR could not be decoded or nothing could be compared. */
+  consistent: boolean | null;
+  mismatches: string[];
+  decoded: AadhaarQrData | null;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const DELIMITER = 0xff;
+const SIGNATURE_LENGTH = 256;
+const HASH_LENGTH = 32;
+
+const V1_FIELDS = [
+  "emailMobileIndicator", "referenceId", "name", "dob", "gender", "careOf", "district", "landmark",
+  "house", "location", "pincode", "postOffice", "state", "street", "subDistrict", "vtc",
+] as const;
+
+const V2_FIELDS = ["version", ...V1_FIELDS, "mobileLast4"] as const;
+
+type FieldName = (typeof V2_FIELDS)[number];
+
+// ── Byte helpers ──────────────────────────────────────────────────────────────
+
+export function isSecureQrPayload(raw: string): boolean {
+  return /^\d{100,}$/.test(raw.trim());
+}
+
+function bigIntToBytes(value: bigint): Uint8Array {
+  let hex = value.toString(16);
+  if (hex.length % 2) hex = "0" + hex;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+async function inflate(bytes: Uint8Array, format: "gzip" | "deflate"): Promise<Uint8Array> {
+  const stream = new Response(bytes).body!.pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function pemToBytes(pem: string): Uint8Array {
+  const body = pem.replace(/-----(BEGIN|END)[^-]+-----/g, "").replace(/\s+/g, "");
+  return Uint8Array.from(atob(body), (c) => c.charCodeAt(0));
+}
+
+function hashBytesFor(indicator: string): number {
+  // 0: none, 1: email only, 2: mobile only, 3: both
+  const n = parseInt(indicator, 10);
+  return n === 3 ? HASH_LENGTH * 2 : n === 1 || n === 2 ? HASH_LENGTH : 0;
+}
+
+// ── Decoding ──────────────────────────────────────────────────────────────────
+
+/** Decodes a Secure QR payload. Throws if the payload is not a well-formed Secure QR. */
+export async function decodeSecureQr(raw: string): Promise<DecodedSecureQr> {
+  if (!isSecureQrPayload(raw)) throw new Error("Not an Aadhaar Secure QR payload");
+
+  const compressed = bigIntToBytes(BigInt(raw.trim()));
+  let bytes: Uint8Array;
+  try {
+    bytes = await inflate(compressed, "gzip");
+  } catch {
+    bytes = await inflate(compressed, "deflate");
+  }
+
+  const decoder = new TextDecoder();
+  const versioned = bytes[0] === 0x56; // "V"
+  const names: readonly FieldName[] = versioned ? V2_FIELDS : V1_FIELDS;
+
+  const fields: Partial<Record<FieldName, string>> = {};
+  let offset = 0;
+  for (const name of names) {
+    const end = bytes.indexOf(DELIMITER, offset);
+    if (end === -1) throw new Error(`Secure QR is truncated at field "${name}"`);
+    fields[name] = decoder.decode(bytes.subarray(offset, end)).trim();
+    offset = end + 1;
+  }
+
+  const signatureStart = bytes.length - SIGNATURE_LENGTH;
+  const photoEnd = signatureStart - hashBytesFor(fields.emailMobileIndicator ?? "0");
+  if (photoEnd < offset) throw new Error("Secure QR is too short to hold a signature");
+
+  const photo = bytes.subarray(offset, photoEnd);
+  const referenceId = fields.referenceId ?? "";
+  const address = [fields.house, fields.street, fields.landmark, fields.location, fields.vtc, fields.postOffice, fields.subDistrict, fields.district, fields.state, fields.pincode]
+    .filter(Boolean)
+    .join(", ");
+
+  return {
+    data: {
+      version: fields.version ?? "V1",
+      referenceId,
+      name: fields.name ?? "",
+      dob: fields.dob ?? "",
+      gender: fields.gender ?? "",
+      careOf: fields.careOf ?? "",
+      address,
+      pincode: fields.pincode ?? "",
+      state: fields.state ?? "",
+      maskedAadhaar: `XXXX XXXX ${referenceId.slice(0, 4)}`,
+      mobileLast4: fields.mobileLast4 || null,
+      photoBase64: photo.length ? bytesToBase64(photo) : null,
+    },
+    signedBytes: bytes.subarray(0, signatureStart),
+    signature: bytes.subarray(signatureStart),
+  };
+}
+
+/** Verifies the UIDAI signature with an SPKI PEM public key. */
+export async function verifySecureQrSignature(decoded: DecodedSecureQr, publicKeyPem: string): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    "spki",
+    pemToBytes(publicKeyPem),
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["verify"],
+  );
+  return crypto.subtle.verify("RSASSA-PKCS1-v1_5", key, decoded.signature, decoded.signedBytes);
+}
+
+// ── Comparison ────────────────────────────────────────────────────────────────
+
+function normalizeName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z ]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/** Normalises DD-MM-YYYY, DD/MM/YYYY, DD.MM.YYYY and YYYY-MM-DD to DD-MM-YYYY. */
+export function normalizeDob(dob: string): string {
+  const t = dob.trim();
+  const iso = t.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (iso) return `${iso[3].padStart(2, "0")}-${iso[2].padStart(2, "0")}-${iso[1]}`;
+  const dmy = t.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (dmy) return `${dmy[1].padStart(2, "0")}-${dmy[2].padStart(2, "0")}-${dmy[3]}`;
+  return t;
+}
+
+function normalizeGender(gender: string): string {
+  return gender.trim().charAt(0).toUpperCase();
+}
+
+/** Compares decoded QR fields with what the vision model read off the card. */
+export function compareWithExtracted(data: AadhaarQrData, extracted: ExtractedIdentity | null | undefined): { consistent: boolean | null; mismatches: string[] } {
+  if (!extracted) return { consistent: null, mismatches: [] };
+
+  const mismatches: string[] = [];
+  let compared = 0;
+
+  if (extracted.name && data.name) {
+    compared++;
+    if (normalizeName(extracted.name) !== normalizeName(data.name)) {
+      mismatches.push(`Name on card "${extracted.name}" does not match QR "${data.name}"`);
+    }
+  }
+  if (extracted.dob && data.dob) {
+    compared++;
+    if (normalizeDob(extracted.dob) !== normalizeDob(data.dob)) {
+      mismatches.push(`Date of birth on card "${extracted.dob}" does not match QR "${data.dob}"`);
+    }
+  }
+  if (extracted.gender && data.gender) {
+    compared++;
+    if (normalizeGender(extracted.gender) !== normalizeGender(data.gender)) {
+      mismatches.push(`Gender on card "${extracted.gender}" does not match QR "${data.gender}"`);
+    }
+  }
+  const last4 = extracted.idNumber?.replace(/\D/g, "").slice(-4);
+  if (last4?.length === 4 && data.referenceId.length >= 4) {
+    compared++;
+    if (last4 !== data.referenceId.slice(0, 4)) {
+      mismatches.push(`Aadhaar number on card ends in ${last4}, QR says ${data.referenceId.slice(0, 4)}`);
+    }
+  }
+
+  return { consistent: compared ? mismatches.length === 0 : null, mismatches };
+}
+
+/**
+ * Decodes, verifies and cross-checks a scanned QR string in one go. Non-Secure-QR
+ * payloads (old XML QR codes, random QR codes) come back as "unsupported".
+ */
+export async function checkAadhaarQr(raw: string, extracted: ExtractedIdentity | null | undefined, publicKeyPem?: string | null): Promise<QrCheck> {
+  let decoded: DecodedSecureQr;
+  try {
+    decoded = await decodeSecureQr(raw);
+  } catch {
+    return { format: "unsupported", signatureValid: null, consistent: null, mismatches: [], decoded: null };
+  }
+
+  let signatureValid: boolean | null = null;
+  if (publicKeyPem) {
+    try {
+      signatureValid = await verifySecureQrSignature(decoded, publicKeyPem);
+    } catch {
+      signatureValid = false;
+    }
+  }
+
+  const { consistent, mismatches } = compareWithExtracted(decoded.data, extracted);
+  return { format: "secure", signatureValid, consistent, mismatches, decoded: decoded.data };
+}
@@ -0,0 +1,34 @@
+// Account details issued when an application is approved.
+//
+// onboarding-session's account_create action opens the account: it applies
+// ACCOUNT_CREATED to the stored session, issues the details below and records
+// account_created on the audit trail. ChatPage only issues them itself when it
+// has no session to store them in.
+//
+// Pure module: no Deno or DOM APIs.
+
+import type { EmploymentType } from "./onboarding.ts";
+import type { SessionAccount } from "./session.ts";
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+export const ACCOUNT_TYPES: Record<EmploymentType, string> = {
+  student: "Student Savings Account",
+  salaried: "Savings Account",
+  freelancer: "Freelancer Current Account",
+  business: "Business Current Account",
+};
+
+const DEFAULT_ACCOUNT_TYPE = "Savings Account";
+
+const BRANCH_IFSC_CODES = ["ONBX0001234", "ONBX0005678", "ONBX0009012"];
+
+// ── Issuing ───────────────────────────────────────────────────────────────────
+
+/** A new account number and branch IFSC, with the account type for the applicant's employment. */
+export function issueAccount(employmentType: EmploymentType | null): SessionAccount {
+  const accountNumber = "3" + Math.floor(Math.random() * 90000000000 + 10000000000);
+  const ifsc = BRANCH_IFSC_CODES[Math.floor(Math.random() * BRANCH_IFSC_CODES.length)];
+  const accountType = (employmentType && ACCOUNT_TYPES[employmentType]) || DEFAULT_ACCOUNT_TYPE;
+  return { accountNumber, ifsc, accountType };
+}
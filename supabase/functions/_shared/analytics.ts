@@ -0,0 +1,149 @@
+// Onboarding funnel analytics for the admin dashboard.
+//
+// The admin-analytics function loads the raw rows for a period (sessions, the
+// time each session first entered each step, document verdicts and champion
+// risk scores) and buildFunnelReport aggregates them here.
+//
+// Pure module: no Deno or DOM APIs.
+
+import { ONBOARDING_STEPS, type OnboardingStep } from "./onboarding.ts";
+import type { RiskLevel } from "./risk.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type FunnelStageId = "chat" | "documents" | "income" | "face" | "account" | "email";
+
+export interface FunnelData {
+  since: string;
+  until: string;
+  sessions: { id: string; step: OnboardingStep; createdAt: string }[];
+  /** When each session first entered each step. */
+  stepEvents: { sessionId: string; step: OnboardingStep; enteredAt: string }[];
+  /** verify-document verdicts; null when the model's reply could not be parsed. */
+  documentVerdicts: (string | null)[];
+  /** Champion scores; a session scored more than once counts with its latest. */
+  risks: { sessionId: string; level: RiskLevel; createdAt: string }[];
+}
+
+export interface FunnelStage {
+  stage: FunnelStageId;
+  label: string;
+  /** Sessions that completed the stage. */
+  sessions: number;
+  /** Sessions that completed the previous stage but not this one. */
+  dropOff: number;
+  /** Share of the previous stage's sessions that completed this one, 0–1. */
+  conversion: number;
+}
+
+export interface StepTiming {
+  step: OnboardingStep;
+  /** Mean time from entering the step to entering the next one; null when no session has left it. */
+  averageSeconds: number | null;
+  sessions: number;
+}
+
+export interface FunnelReport {
+  since: string;
+  until: string;
+  stages: FunnelStage[];
+  documentVerdicts: { verdict: string; count: number }[];
+  riskLevels: { level: RiskLevel; count: number }[];
+  stepTimings: StepTiming[];
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/**
+ * A stage is completed once the session has reached `completedAt`. Students
+ * skip the income step, so they count as having completed it when they reach
+ * face verification.
+ */
+export const FUNNEL_STAGES: readonly { stage: FunnelStageId; label: string; completedAt: OnboardingStep }[] = [
+  { stage: "chat", label: "Chat started", completedAt: "employment" },
+  { stage: "documents", label: "Documents verified", completedAt: "income" },
+  { stage: "income", label: "Income submitted", completedAt: "face" },
+  { stage: "face", label: "Face verified", completedAt: "risk" },
+  { stage: "account", label: "Account opened", completedAt: "email" },
+  { stage: "email", label: "Finished", completedAt: "done" },
+];
+
+/** Shown for verdicts recorded as null. */
+export const UNPARSED_VERDICT = "UNPARSED";
+
+const RISK_LEVELS: readonly RiskLevel[] = ["Low", "Medium", "High"];
+
+// ── Report ────────────────────────────────────────────────────────────────────
+
+const stepIndex = (step: OnboardingStep) => ONBOARDING_STEPS.indexOf(step);
+
+function countBy<T extends string>(values: T[]): Map<T, number> {
+  const counts = new Map<T, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return counts;
+}
+
+function stages(data: FunnelData): FunnelStage[] {
+  // Furthest step each session reached; a re-upload request can move the current step back
+  const furthest = new Map(data.sessions.map((s) => [s.id, stepIndex(s.step)]));
+  for (const e of data.stepEvents) {
+    const reached = furthest.get(e.sessionId);
+    if (reached !== undefined) furthest.set(e.sessionId, Math.max(reached, stepIndex(e.step)));
+  }
+
+  let previous = data.sessions.length;
+  return FUNNEL_STAGES.map(({ stage, label, completedAt }) => {
+    const sessions = [...furthest.values()].filter((i) => i >= stepIndex(completedAt)).length;
+    const result = { stage, label, sessions, dropOff: previous - sessions, conversion: previous ? sessions / previous : 0 };
+    previous = sessions;
+    return result;
+  });
+}
+
+function stepTimings(data: FunnelData): StepTiming[] {
+  const bySession = new Map<string, { step: OnboardingStep; at: number }[]>();
+  for (const e of data.stepEvents) {
+    const events = bySession.get(e.sessionId) ?? [];
+    events.push({ step: e.step, at: Date.parse(e.enteredAt) });
+    bySession.set(e.sessionId, events);
+  }
+
+  const durations = new Map<OnboardingStep, number[]>();
+  for (const events of bySession.values()) {
+    events.sort((a, b) => a.at - b.at);
+    for (let i = 0; i + 1 < events.length; i++) {
+      const list = durations.get(events[i].step) ?? [];
+      list.push((events[i + 1].at - events[i].at) / 1000);
+      durations.set(events[i].step, list);
+    }
+  }
+
+  return ONBOARDING_STEPS.filter((step) => step !== "done").map((step) => {
+    const list = durations.get(step) ?? [];
+    return {
+      step,
+      averageSeconds: list.length ? Math.round(list.reduce((a, b) => a + b, 0) / list.length) : null,
+      sessions: list.length,
+    };
+  });
+}
+
+export function buildFunnelReport(data: FunnelData): FunnelReport {
+  const verdicts = countBy(data.documentVerdicts.map((v) => v ?? UNPARSED_VERDICT));
+
+  const latestRisk = new Map<string, { level: RiskLevel; createdAt: string }>();
+  for (const r of data.risks) {
+    const current = latestRisk.get(r.sessionId);
+    if (!current || r.createdAt > current.createdAt) latestRisk.set(r.sessionId, r);
+  }
+  const levels = countBy([...latestRisk.values()].map((r) => r.level));
+
+  return {
+    since: data.since,
+    until: data.until,
+    stages: stages(data),
+    documentVerdicts: [...verdicts].map(([verdict, count]) => ({ verdict, count })).sort((a, b) => b.count - a.count),
+    riskLevels: RISK_LEVELS.map((level) => ({ level, count: levels.get(level) ?? 0 })),
+    stepTimings: stepTimings(data),
+  };
+}
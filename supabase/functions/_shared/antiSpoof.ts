@@ -0,0 +1,252 @@
+// Passive anti-spoofing for the selfie capture.
+//
+// FaceVerification records a short burst of frames and measures, on the
+// device, signals that separate a live face from a replay or a print:
+//
+//   motion      mean frame-to-frame change; a photo on a stand barely moves
+//   moire       sign-alternating pixel steps, the aliasing a camera picks up
+//               from a screen's pixel grid or a print's halftone
+//   screenEdge  the longest straight edge across the frame: a bezel or paper edge
+//   specular    share of blown-out, colourless pixels: glare off glass or gloss
+//   sharpness   variance of the Laplacian; a blurred burst weakens the rest
+//
+// Only the summary and a few key frames go to detect-spoof, which asks the
+// vision model for its own judgement and combines both into a spoof score
+// with spoofScore. The signals are heuristics: they raise or lower suspicion,
+// and no single one decides.
+//
+// Pure module: works on raw RGBA pixels, no Deno or DOM APIs.
+
+import type { CheckOutcome } from "./modelOutput.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** Same shape as the DOM's ImageData. */
+export interface PixelFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface FrameSignals {
+  moire: number;
+  screenEdge: number;
+  specular: number;
+  sharpness: number;
+}
+
+export interface SpoofSignals extends FrameSignals {
+  frameCount: number;
+  durationMs: number;
+  /** Mean absolute luminance change between consecutive frames, 0–255. */
+  motion: number;
+}
+
+/** The vision model's reply. */
+export interface SpoofModelAssessment {
+  /** 0–100: how likely the frames show a replay, print or mask rather than a live face. */
+  spoofLikelihood: number;
+  indicators: string[];
+  reason: string;
+}
+
+export type SpoofVerdict = "live" | "suspect" | "spoof";
+
+export interface SpoofAssessment {
+  /** 0–100, higher is more likely a spoof. */
+  score: number;
+  verdict: SpoofVerdict;
+  /** failed on a "spoof" verdict; inconclusive on a "suspect" one, so the burst is captured again. */
+  outcome: CheckOutcome;
+  /** 0–100 from the on-device signals alone. */
+  localScore: number;
+  /** 0–100 from the model; null when its reply could not be read. */
+  modelScore: number | null;
+  reasons: string[];
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** The burst FaceVerification records. */
+export const SPOOF_BURST_MS = 2500;
+export const SPOOF_BURST_FRAMES = 10;
+/** Width frames are analysed at; enough for the signals and cheap on phones. */
+export const SPOOF_ANALYSIS_WIDTH = 160;
+export const SPOOF_KEY_FRAMES = 3;
+
+export const SPOOF_SUSPECT_SCORE = 35;
+export const SPOOF_REJECT_SCORE = 60;
+
+/** Luminance step counted as part of an alternating pattern. */
+const MOIRE_STEP = 4;
+/** Luminance step across a line counted as an edge. */
+const EDGE_STEP = 32;
+/** Rows and columns this close to the border are ignored by screenEdge. */
+const EDGE_MARGIN = 0.05;
+
+/**
+ * Each signal maps to 0–1 suspicion between its low and high bounds, then is
+ * weighted; the weights sum to 1.
+ */
+const SIGNAL_RULES: readonly {
+  signal: keyof Omit<SpoofSignals, "frameCount" | "durationMs">;
+  weight: number;
+  low: number;
+  high: number;
+  /** Suspicion rises as the value falls. */
+  inverted?: boolean;
+  reason: string;
+}[] = [
+  { signal: "motion", weight: 0.25, low: 0.3, high: 1.5, inverted: true, reason: "Almost no movement between frames" },
+  { signal: "moire", weight: 0.3, low: 0.08, high: 0.2, reason: "Moiré pattern typical of a screen or print" },
+  { signal: "screenEdge", weight: 0.2, low: 0.5, high: 0.85, reason: "Straight edge across the frame, like a screen bezel or paper edge" },
+  { signal: "specular", weight: 0.15, low: 0.01, high: 0.05, reason: "Glare typical of glass or glossy paper" },
+  { signal: "sharpness", weight: 0.1, low: 20, high: 80, inverted: true, reason: "Frames are blurred" },
+];
+
+// ── Signals ───────────────────────────────────────────────────────────────────
+
+/** Per-pixel luminance, 0–255. */
+export function luminance(frame: PixelFrame): Float32Array {
+  const gray = new Float32Array(frame.width * frame.height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.299 * frame.data[p] + 0.587 * frame.data[p + 1] + 0.114 * frame.data[p + 2];
+  }
+  return gray;
+}
+
+/** Variance of the 4-neighbour Laplacian; low for a blurred image. */
+export function laplacianVariance(gray: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += lap;
+      sumSq += lap * lap;
+      n++;
+    }
+  }
+  return n ? sumSq / n - (sum / n) ** 2 : 0;
+}
+
+/** Share of interior pixels where the step in and the step out are both large and of opposite sign, along rows and columns. */
+function alternation(gray: Float32Array, width: number, height: number): number {
+  let hits = 0;
+  let n = 0;
+  const zigzag = (a: number, b: number, c: number) => {
+    const d1 = b - a;
+    const d2 = c - b;
+    return Math.abs(d1) >= MOIRE_STEP && Math.abs(d2) >= MOIRE_STEP && Math.sign(d1) !== Math.sign(d2);
+  };
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (zigzag(gray[i - 1], gray[i], gray[i + 1])) hits++;
+      if (zigzag(gray[i - width], gray[i], gray[i + width])) hits++;
+      n += 2;
+    }
+  }
+  return n ? hits / n : 0;
+}
+
+/** The largest share of any one row or column (away from the border) that sits on a strong step across it. */
+function longestStraightEdge(gray: Float32Array, width: number, height: number): number {
+  let best = 0;
+  const marginY = Math.max(1, Math.round(height * EDGE_MARGIN));
+  const marginX = Math.max(1, Math.round(width * EDGE_MARGIN));
+  for (let y = marginY; y < height - marginY; y++) {
+    let edge = 0;
+    for (let x = 0; x < width; x++) if (Math.abs(gray[y * width + x] - gray[(y - 1) * width + x]) >= EDGE_STEP) edge++;
+    best = Math.max(best, edge / width);
+  }
+  for (let x = marginX; x < width - marginX; x++) {
+    let edge = 0;
+    for (let y = 0; y < height; y++) if (Math.abs(gray[y * width + x] - gray[y * width + x - 1]) >= EDGE_STEP) edge++;
+    best = Math.max(best, edge / height);
+  }
+  return best;
+}
+
+function specularShare(frame: PixelFrame): number {
+  let hits = 0;
+  const pixels = frame.width * frame.height;
+  for (let p = 0; p < pixels * 4; p += 4) {
+    const r = frame.data[p];
+    const g = frame.data[p + 1];
+    const b = frame.data[p + 2];
+    if (Math.min(r, g, b) >= 245 && Math.max(r, g, b) - Math.min(r, g, b) <= 20) hits++;
+  }
+  return pixels ? hits / pixels : 0;
+}
+
+export function frameSignals(frame: PixelFrame): FrameSignals {
+  const gray = luminance(frame);
+  return {
+    moire: alternation(gray, frame.width, frame.height),
+    screenEdge: longestStraightEdge(gray, frame.width, frame.height),
+    specular: specularShare(frame),
+    sharpness: laplacianVariance(gray, frame.width, frame.height),
+  };
+}
+
+/** Mean absolute luminance change between two frames of the same size. */
+export function frameMotion(a: PixelFrame, b: PixelFrame): number {
+  const ga = luminance(a);
+  const gb = luminance(b);
+  let sum = 0;
+  for (let i = 0; i < ga.length; i++) sum += Math.abs(ga[i] - gb[i]);
+  return ga.length ? sum / ga.length : 0;
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+/** Summarises a burst, oldest frame first. */
+export function summarizeBurst(frames: PixelFrame[], durationMs: number): SpoofSignals {
+  const signals = frames.map(frameSignals);
+  const motion = frames.slice(1).map((frame, i) => frameMotion(frames[i], frame));
+  return {
+    frameCount: frames.length,
+    durationMs,
+    motion: mean(motion),
+    moire: mean(signals.map((s) => s.moire)),
+    screenEdge: Math.max(0, ...signals.map((s) => s.screenEdge)),
+    specular: mean(signals.map((s) => s.specular)),
+    sharpness: mean(signals.map((s) => s.sharpness)),
+  };
+}
+
+// ── Scoring ───────────────────────────────────────────────────────────────────
+
+const ramp = (value: number, low: number, high: number) => Math.min(1, Math.max(0, (value - low) / (high - low)));
+
+/**
+ * Combines the on-device signals and the model's judgement, weighted equally.
+ * The signals alone never clear a burst: without a readable model reply the
+ * score is the on-device one and the verdict at best "suspect". Only a "live"
+ * verdict passes; a "suspect" one is inconclusive and the burst is retried.
+ */
+export function spoofScore(signals: SpoofSignals, model: SpoofModelAssessment | null): SpoofAssessment {
+  const reasons: string[] = [];
+  let local = 0;
+  for (const rule of SIGNAL_RULES) {
+    const raised = ramp(signals[rule.signal], rule.low, rule.high);
+    const suspicion = rule.inverted ? 1 - raised : raised;
+    local += rule.weight * suspicion;
+    if (suspicion >= 0.5) reasons.push(rule.reason);
+  }
+  const localScore = Math.round(local * 100);
+
+  const likelihood = model && typeof model.spoofLikelihood === "number" && Number.isFinite(model.spoofLikelihood)
+    ? Math.round(Math.min(100, Math.max(0, model.spoofLikelihood)))
+    : null;
+  if (likelihood === null) reasons.push("The model's assessment could not be read");
+  else if (Array.isArray(model?.indicators)) reasons.push(...model.indicators.filter((i) => typeof i === "string"));
+
+  const score = likelihood === null ? localScore : Math.round((localScore + likelihood) / 2);
+  const verdict: SpoofVerdict = score >= SPOOF_REJECT_SCORE ? "spoof" : score >= SPOOF_SUSPECT_SCORE || likelihood === null ? "suspect" : "live";
+  const outcome: CheckOutcome = verdict === "spoof" ? "failed" : verdict === "suspect" ? "inconclusive" : "passed";
+  return { score, verdict, outcome, localScore, modelScore: likelihood, reasons };
+}
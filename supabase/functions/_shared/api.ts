@@ -0,0 +1,584 @@
+// Request and response contract for the onboarding edge functions.
+//
+// Every request body carries an `action` discriminator naming the operation;
+// ENDPOINTS maps each action to the function that serves it. Bodies are
+// validated with the zod schemas below before they reach a handler (see
+// createHandler in http.ts); anything that does not parse is answered with 400
+// and field-level errors. ChatPage and FaceVerification build their bodies from
+// the request types.
+//
+// The types are written out rather than inferred because the client compiles
+// without strictNullChecks, where zod infers every field as optional. Keep each
+// type and its schema in step; api.test.ts parses a typed sample of each.
+//
+// `zod` resolves from node_modules in the client and via the function's
+// deno.json import map in the edge runtime.
+
+import { z } from "zod";
+import {
+  ONBOARDING_STEPS,
+  type DocumentType,
+  type EmploymentType,
+  type IdentitySummary,
+  type MonthlyObligations,
+  type OnboardingMachineState,
+  type OnboardingStep,
+} from "./onboarding.ts";
+import type { ExtractedIdentity, QrCheck } from "./aadhaarQr.ts";
+import type { FunnelReport } from "./analytics.ts";
+import { SPOOF_KEY_FRAMES, type SpoofAssessment, type SpoofSignals } from "./antiSpoof.ts";
+import type { AuditTrail } from "./audit.ts";
+import type { FaceBox, FaceLocation, FaceMatchResult } from "./faceMatch.ts";
+import type { IncomeVerification } from "./bankStatement.ts";
+import type { IdNumberCheck } from "./idValidation.ts";
+import type { IdentityMatch } from "./identityMatch.ts";
+import type { CheckOutcome } from "./modelOutput.ts";
+import { LIVENESS_MAX_FRAMES_PER_PROMPT, LIVENESS_PROMPTS, type LivenessPrompt, type LivenessResult } from "./liveness.ts";
+import type { BehaviorSummary, ReviewCase, ReviewCaseDetail, ReviewDecision, ReviewStatus, ReviewTrigger } from "./review.ts";
+import type { RiskResult } from "./risk.ts";
+import type { ScreeningResult } from "./screening.ts";
+import type { ClientSave, SessionAccount, SessionSnapshot } from "./session.ts";
+
+// ── Building blocks ───────────────────────────────────────────────────────────
+
+const sessionId = z.string().uuid();
+/** Requests made before a session exists send null. */
+const optionalSessionId = sessionId.nullish();
+
+const obligations = z.object({
+  emi: z.number().nonnegative(),
+  rent: z.number().nonnegative(),
+  creditCardDues: z.number().nonnegative(),
+});
+
+const identitySummary = z.object({
+  name: z.string().nullable(),
+  dob: z.string().nullable(),
+});
+
+const documentType = z.enum(["PAN", "Aadhaar"]);
+
+const employmentType = z.enum(["salaried", "freelancer", "business", "student"]);
+
+const reviewStatus = z.enum(["pending", "approved", "rejected", "reupload_requested"]);
+
+const behaviorSummary = z.object({ riskScore: z.number().min(0).max(100), flags: z.array(z.string()) });
+
+export const OnboardingStateSchema = z.object({
+  step: z.enum(ONBOARDING_STEPS as [OnboardingStep, ...OnboardingStep[]]),
+  context: z.object({
+    employmentType: employmentType.nullable(),
+    panVerified: z.boolean(),
+    aadhaarVerified: z.boolean(),
+    panIdentity: identitySummary.nullable(),
+    suspiciousDocuments: z.array(documentType),
+    monthlyIncome: z.number().nullable(),
+    obligations: obligations.nullable(),
+    verifiedIncome: z.number().nullable(),
+    faceVerified: z.boolean(),
+    riskScored: z.boolean(),
+    screening: z.enum(["clear", "possible_match", "probable_match"]).nullable(),
+    review: reviewStatus.nullable(),
+    accountCreated: z.boolean(),
+    emailSent: z.boolean(),
+  }),
+});
+
+/** Clients may only speak as the user or replay the assistant; system prompts are server-side. */
+const clientMessage = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+});
+
+/** Characters; a year of transactions fits comfortably. */
+const MAX_STATEMENT_LENGTH = 2_000_000;
+
+const imageMimeType = z.string().regex(/^image\/[\w.+-]+$/, "Must be an image MIME type");
+
+const riskFeature = z.enum(["income", "employment", "documents", "face", "foir"]);
+
+const riskResult = z.object({
+  modelVersion: z.string(),
+  probability: z.number(),
+  level: z.enum(["Low", "Medium", "High"]),
+  dti: z.number(),
+  foir: z.number(),
+  explanation: z.string(),
+  baseline: z.number(),
+  contributions: z.array(z.object({
+    feature: riskFeature,
+    label: z.string(),
+    coefficient: z.number(),
+    value: z.number(),
+    contribution: z.number(),
+  })),
+  reasonCodes: z.array(z.object({ code: z.string(), feature: riskFeature, description: z.string() })),
+});
+
+/** The events a save may carry (see CLIENT_EVENT_TYPES in session.ts). */
+const clientOnboardingEvent = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("EMPLOYMENT_SELECTED"), employmentType }),
+  z.object({
+    type: z.literal("DOCUMENT_VERIFIED"),
+    documentType,
+    identity: identitySummary.optional(),
+    identityMatched: z.boolean().optional(),
+    suspicious: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal("INCOME_SUBMITTED"), monthlyIncome: z.number(), obligations }),
+  z.object({ type: z.literal("STATEMENT_VERIFIED"), verifiedIncome: z.number() }),
+  z.object({ type: z.literal("STATEMENT_SKIPPED") }),
+  z.object({ type: z.literal("FACE_VERIFIED") }),
+  z.object({ type: z.literal("RISK_SCORED") }),
+  z.object({ type: z.literal("EMAIL_SENT") }),
+  z.object({ type: z.literal("EMAIL_SKIPPED") }),
+]);
+
+const clientSave = z.object({
+  sessionId,
+  events: z.array(clientOnboardingEvent),
+  riskResult: riskResult.nullable(),
+  messages: z.array(z.object({
+    role: z.enum(["user", "bot"]),
+    content: z.string(),
+    isFile: z.boolean().optional(),
+    isAccountDetails: z.boolean().optional(),
+    fromServer: z.boolean().optional(),
+  })),
+});
+
+// ── Requests ──────────────────────────────────────────────────────────────────
+
+export const ChatRequestSchema = z.object({
+  action: z.literal("chat"),
+  messages: z.array(clientMessage).min(1),
+  fileData: z.object({ base64: z.string().min(1), mimeType: imageMimeType }).nullish(),
+  onboarding: OnboardingStateSchema.optional(),
+  sessionId: optionalSessionId,
+});
+
+export const VerifyDocumentRequestSchema = z.object({
+  action: z.literal("verify_document"),
+  imageBase64: z.string().min(1),
+  mimeType: imageMimeType,
+  qrData: z.string().nullish(),
+  documentType: z.enum(["PAN", "Aadhaar", "auto-detect"]),
+  /** Identity from an earlier document to match this one against. */
+  compareWith: identitySummary.nullish(),
+  panNumber: z.string().optional(),
+  sessionId: optionalSessionId,
+});
+
+/** A JPEG frame from the camera, base64 without the data: prefix. */
+const cameraFrame = z.string().min(1);
+
+const faceBox = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().gt(0).max(1),
+  height: z.number().gt(0).max(1),
+});
+
+/** A face cropped on the device, with the box it was cropped from. */
+const faceCrop = z.object({ image: cameraFrame, box: faceBox });
+
+/**
+ * Face match: locate finds the document portrait and the selfie face, match
+ * compares the crops of both. With a database the card is the session's stored
+ * PAN or Aadhaar image and its portrait is cropped on the server, so the
+ * document image and crop are only read when there is none.
+ */
+export const FaceMatchRequestSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("face_locate"),
+    selfie: cameraFrame,
+    /** The verified PAN or Aadhaar image, base64. */
+    document: z.string().min(1).nullish(),
+    sessionId: optionalSessionId,
+  }),
+  z.object({
+    action: z.literal("face_match"),
+    selfie: faceCrop,
+    document: z.object({ image: cameraFrame.nullish(), box: faceBox }),
+    sessionId: optionalSessionId,
+  }),
+]);
+
+/** Active liveness: start issues the challenge, verify answers it with the captured frames. */
+export const LivenessRequestSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("liveness_start"), sessionId }),
+  z.object({
+    action: z.literal("liveness_verify"),
+    challengeId: z.string().uuid(),
+    /** Neutral frame captured before the first prompt. */
+    baseline: cameraFrame,
+    /** One burst of frames per prompt, in the order the challenge gave them. */
+    responses: z.array(z.object({
+      prompt: z.enum(LIVENESS_PROMPTS as [LivenessPrompt, ...LivenessPrompt[]]),
+      frames: z.array(cameraFrame).min(1).max(LIVENESS_MAX_FRAMES_PER_PROMPT),
+    })).min(1).max(LIVENESS_PROMPTS.length),
+    sessionId,
+  }),
+]);
+
+/** Passive anti-spoofing: the on-device signal summary of a selfie burst and a few of its frames. */
+export const DetectSpoofRequestSchema = z.object({
+  action: z.literal("detect_spoof"),
+  signals: z.object({
+    frameCount: z.number().int().min(2),
+    durationMs: z.number().nonnegative(),
+    motion: z.number().min(0).max(255),
+    moire: z.number().min(0).max(1),
+    screenEdge: z.number().min(0).max(1),
+    specular: z.number().min(0).max(1),
+    sharpness: z.number().nonnegative(),
+  }),
+  keyFrames: z.array(cameraFrame).min(1).max(SPOOF_KEY_FRAMES),
+  sessionId: optionalSessionId,
+});
+
+export const ScoreRiskRequestSchema = z.object({
+  action: z.literal("score_risk"),
+  monthlyIncome: z.number().positive(),
+  employmentType: z.enum(["salaried", "freelancer", "business", "student"]),
+  age: z.number().int().min(18).max(120).optional(),
+  documentsVerified: z.boolean(),
+  faceVerified: z.boolean(),
+  obligations,
+  verifiedIncome: z.number().positive().nullish(),
+  sessionId: optionalSessionId,
+});
+
+export const VerifyIncomeRequestSchema = z.object({
+  action: z.literal("verify_income"),
+  /** "csv" is the bank's CSV export; "text" is the text of a PDF statement, one line per row. */
+  format: z.enum(["csv", "text"]),
+  content: z.string().min(1).max(MAX_STATEMENT_LENGTH),
+  declaredIncome: z.number().positive(),
+  sessionId: optionalSessionId,
+});
+
+/** Screens the name and date of birth stored from the session's PAN card. */
+export const ScreenApplicantRequestSchema = z.object({
+  action: z.literal("screen_applicant"),
+  sessionId,
+});
+
+export const RequestReviewRequestSchema = z.object({
+  action: z.literal("request_review"),
+  triggers: z.array(z.object({
+    code: z.enum(["document_suspicious", "behavior", "risk_high", "screening", "reupload"]),
+    detail: z.string(),
+  })).min(1),
+  behavior: behaviorSummary,
+  sessionId,
+});
+
+/** Reviewer actions; the caller must be signed in as staff (see the "staff" auth policy). */
+export const ReviewCasesRequestSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("review_list"), status: reviewStatus.optional() }),
+  z.object({ action: z.literal("review_case"), caseId: z.string().uuid() }),
+  z.object({
+    action: z.literal("review_decide"),
+    caseId: z.string().uuid(),
+    decision: z.enum(["approve", "reject", "request_reupload"]),
+    reason: z.string().trim().min(3, "Give the applicant-facing reason for the decision"),
+    documentType: documentType.nullish(),
+  }),
+]).superRefine((request, ctx) => {
+  if (request.action === "review_decide" && request.decision === "request_reupload" && !request.documentType) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["documentType"], message: "Name the document to upload again" });
+  }
+});
+
+/** Admins only. */
+export const AdminFunnelRequestSchema = z.object({
+  action: z.literal("admin_funnel"),
+  /** Days back from now the report covers. */
+  days: z.number().int().min(1).max(90),
+});
+
+/** Admins only. */
+export const AuditExportRequestSchema = z.object({
+  action: z.literal("audit_export"),
+  sessionId,
+});
+
+export const SendEmailRequestSchema = z.object({
+  action: z.literal("send_email"),
+  to: z.string().email(),
+  accountDetails: z.object({
+    accountNumber: z.string().min(1),
+    ifsc: z.string().min(1),
+    accountType: z.string(),
+    monthlyIncome: z.string().nullish(),
+    riskLevel: z.string().nullish(),
+  }),
+  sessionId: optionalSessionId,
+});
+
+export const SessionStartRequestSchema = z.object({ action: z.literal("session_start") });
+export const SessionResumeRequestSchema = z.object({ action: z.literal("session_resume"), sessionId });
+export const SessionSaveRequestSchema = z.object({ action: z.literal("session_save"), save: clientSave });
+export const SessionHandoffRequestSchema = z.object({ action: z.literal("session_handoff"), sessionId });
+export const SessionClaimRequestSchema = z.object({ action: z.literal("session_claim"), handoffId: z.string().uuid() });
+/** behavior is what useBehavioralFraud reported; the other review signals are read from the stored session. */
+export const AccountCreateRequestSchema = z.object({ action: z.literal("account_create"), behavior: behaviorSummary, sessionId });
+
+export const SessionRequestSchema = z.discriminatedUnion("action", [
+  SessionStartRequestSchema,
+  SessionResumeRequestSchema,
+  SessionSaveRequestSchema,
+  SessionHandoffRequestSchema,
+  SessionClaimRequestSchema,
+  AccountCreateRequestSchema,
+]);
+
+// ── Request types ─────────────────────────────────────────────────────────────
+
+export interface ChatRequest {
+  action: "chat";
+  messages: { role: "user" | "assistant"; content: string }[];
+  fileData?: { base64: string; mimeType: string } | null;
+  onboarding?: OnboardingMachineState;
+  sessionId?: string | null;
+}
+
+export interface VerifyDocumentRequest {
+  action: "verify_document";
+  imageBase64: string;
+  mimeType: string;
+  qrData?: string | null;
+  documentType: "PAN" | "Aadhaar" | "auto-detect";
+  compareWith?: IdentitySummary | null;
+  panNumber?: string;
+  sessionId?: string | null;
+}
+
+export interface FaceCrop {
+  image: string;
+  box: FaceBox;
+}
+
+export type FaceMatchRequest =
+  | { action: "face_locate"; selfie: string; document?: string | null; sessionId?: string | null }
+  | { action: "face_match"; selfie: FaceCrop; document: { image?: string | null; box: FaceBox }; sessionId?: string | null };
+
+export type LivenessRequest =
+  | { action: "liveness_start"; sessionId: string }
+  | {
+      action: "liveness_verify";
+      challengeId: string;
+      baseline: string;
+      responses: { prompt: LivenessPrompt; frames: string[] }[];
+      sessionId: string;
+    };
+
+export interface DetectSpoofRequest {
+  action: "detect_spoof";
+  signals: SpoofSignals;
+  keyFrames: string[];
+  sessionId?: string | null;
+}
+
+export interface ScoreRiskRequest {
+  action: "score_risk";
+  monthlyIncome: number;
+  employmentType: EmploymentType;
+  age?: number;
+  /** This and faceVerified and verifiedIncome are read from the stored results when there is a session. */
+  documentsVerified: boolean;
+  faceVerified: boolean;
+  obligations: MonthlyObligations;
+  verifiedIncome?: number | null;
+  sessionId?: string | null;
+}
+
+export interface VerifyIncomeRequest {
+  action: "verify_income";
+  format: "csv" | "text";
+  content: string;
+  declaredIncome: number;
+  sessionId?: string | null;
+}
+
+export interface ScreenApplicantRequest {
+  action: "screen_applicant";
+  sessionId: string;
+}
+
+export interface RequestReviewRequest {
+  action: "request_review";
+  triggers: ReviewTrigger[];
+  behavior: BehaviorSummary;
+  sessionId: string;
+}
+
+export type ReviewCasesRequest =
+  | { action: "review_list"; status?: ReviewStatus }
+  | { action: "review_case"; caseId: string }
+  | {
+      action: "review_decide";
+      caseId: string;
+      decision: ReviewDecision;
+      reason: string;
+      documentType?: DocumentType | null;
+    };
+
+export interface AdminFunnelRequest {
+  action: "admin_funnel";
+  days: number;
+}
+
+export interface AuditExportRequest {
+  action: "audit_export";
+  sessionId: string;
+}
+
+export interface SendEmailRequest {
+  action: "send_email";
+  to: string;
+  accountDetails: {
+    accountNumber: string;
+    ifsc: string;
+    accountType: string;
+    monthlyIncome?: string | null;
+    riskLevel?: string | null;
+  };
+  sessionId?: string | null;
+}
+
+export type SessionRequest =
+  | { action: "session_start" }
+  | { action: "session_resume"; sessionId: string }
+  | { action: "session_save"; save: ClientSave }
+  | { action: "session_handoff"; sessionId: string }
+  | { action: "session_claim"; handoffId: string }
+  | { action: "account_create"; behavior: BehaviorSummary; sessionId: string };
+
+export type OnboardRequest =
+  | ChatRequest
+  | VerifyDocumentRequest
+  | FaceMatchRequest
+  | LivenessRequest
+  | DetectSpoofRequest
+  | ScoreRiskRequest
+  | VerifyIncomeRequest
+  | ScreenApplicantRequest
+  | RequestReviewRequest
+  | ReviewCasesRequest
+  | AdminFunnelRequest
+  | AuditExportRequest
+  | SendEmailRequest
+  | SessionRequest;
+
+export type OnboardAction = OnboardRequest["action"];
+
+/** Edge function serving each action. */
+export const ENDPOINTS: Record<OnboardAction, string> = {
+  chat: "onboardx-chat",
+  verify_document: "verify-document",
+  face_locate: "verify-face",
+  face_match: "verify-face",
+  liveness_start: "verify-liveness",
+  liveness_verify: "verify-liveness",
+  detect_spoof: "detect-spoof",
+  score_risk: "score-risk",
+  verify_income: "verify-income",
+  screen_applicant: "screen-applicant",
+  request_review: "request-review",
+  review_list: "review-cases",
+  review_case: "review-cases",
+  review_decide: "review-cases",
+  admin_funnel: "admin-analytics",
+  audit_export: "audit-export",
+  send_email: "send-notification",
+  session_start: "onboarding-session",
+  session_resume: "onboarding-session",
+  session_save: "onboarding-session",
+  session_handoff: "onboarding-session",
+  session_claim: "onboarding-session",
+  account_create: "onboarding-session",
+};
+
+/** Validates an untrusted body against a request schema, returning the typed request or field-level errors. */
+export function parseRequest<T>(schema: z.ZodTypeAny, body: unknown): { data: T; fieldErrors?: undefined } | { data?: undefined; fieldErrors: FieldError[] } {
+  const result = schema.safeParse(body);
+  return result.success ? { data: result.data as T } : { fieldErrors: toFieldErrors(result.error) };
+}
+
+// ── Responses ─────────────────────────────────────────────────────────────────
+// onboardx-chat answers with the SSE protocol in protocol.ts.
+
+/** The vision model's forensic report, after deterministic checks have adjusted it. */
+export interface DocumentVerification {
+  documentType: string;
+  isAuthentic: boolean;
+  confidenceScore: number;
+  tamperedAreas: string[];
+  formatValid: boolean;
+  securityFeatures?: { detected: string[]; missing: string[] };
+  extractedData?: ExtractedIdentity;
+  qrConsistent: boolean | null;
+  riskFlags?: string[];
+  overallVerdict: "GENUINE" | "SUSPICIOUS" | "LIKELY_FAKE";
+  reason: string;
+}
+
+export interface VerifyDocumentResponse {
+  /** null when the model's reply could not be parsed. */
+  verification: DocumentVerification | null;
+  /** failed on a LIKELY_FAKE verdict; inconclusive when verification is null or no ID number could be read. */
+  outcome: CheckOutcome;
+  raw: string;
+  qrCheck: QrCheck | null;
+  idNumberCheck: IdNumberCheck | null;
+  identityMatch: IdentityMatch | null;
+}
+
+export interface LivenessStartResponse {
+  challengeId: string;
+  prompts: LivenessPrompt[];
+  expiresAt: string;
+}
+export type LivenessVerifyResponse = LivenessResult;
+export type DetectSpoofResponse = SpoofAssessment;
+export type FaceLocateResponse = FaceLocation;
+export interface FaceMatchResponse extends FaceMatchResult {
+  /** The two crops that were compared, as recorded for audit. */
+  crops: { selfie: string; document: string };
+}
+export type ScoreRiskResponse = RiskResult;
+export type VerifyIncomeResponse = IncomeVerification;
+export type ScreenApplicantResponse = ScreeningResult;
+export interface RequestReviewResponse { caseId: string }
+export type ReviewListResponse = ReviewCase[];
+export type ReviewCaseResponse = ReviewCaseDetail;
+export type ReviewDecideResponse = ReviewCase;
+export type AdminFunnelResponse = FunnelReport;
+export type AuditExportResponse = AuditTrail;
+export type SendEmailResponse = { success: true } | { success: false; error: string };
+export interface SessionStartResponse { sessionId: string }
+export type SessionResumeResponse = SessionSnapshot;
+export interface SessionSaveResponse { success: true }
+export interface SessionHandoffResponse { handoffId: string; expiresAt: string }
+export type SessionClaimResponse = SessionSnapshot;
+export interface AccountCreateResponse { onboarding: OnboardingMachineState; account: SessionAccount }
+
+export interface FieldError {
+  /** Dotted path into the request body, e.g. "messages.0.content". */
+  path: string;
+  message: string;
+}
+
+export interface ErrorResponse {
+  error: string;
+  fieldErrors?: FieldError[];
+}
+
+function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join(".") || "(body)",
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,114 @@
+// Append-only audit trail of onboarding decisions for compliance.
+//
+// Each applicant's events form a hash chain: an event's hash covers its own
+// fields and the previous event's hash, so editing, reordering or removing an
+// event in the middle of a trail breaks every hash after it. The database
+// additionally refuses updates and deletes on the table (see the audit_events
+// migration); verifyAuditChain re-checks a trail when it is exported.
+//
+// Pure module: no Deno or DOM APIs beyond Web Crypto.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type AuditEventType =
+  | "document_verdict"
+  | "face_result"
+  | "liveness_result"
+  | "spoof_result"
+  | "risk_score"
+  | "screening_result"
+  | "review_decision"
+  | "account_created"
+  | "email_sent"
+  | "device_handoff";
+
+/** What a handler records; the store assigns the sequence, time and hashes. */
+export interface AuditEntry {
+  eventType: AuditEventType;
+  /** "system" for automated checks, the reviewer's email for review decisions. */
+  actor: string;
+  payload: Record<string, unknown>;
+}
+
+export interface AuditEvent extends AuditEntry {
+  sessionId: string;
+  /** Position in the session's chain, from 1. */
+  sequence: number;
+  createdAt: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditChainCheck {
+  valid: boolean;
+  /** Sequence of the first event that does not chain, or null when the trail is intact. */
+  brokenAt: number | null;
+}
+
+export interface AuditTrail {
+  sessionId: string;
+  exportedAt: string;
+  events: AuditEvent[];
+  chain: AuditChainCheck;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** prevHash of the first event in every chain. */
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+export const SYSTEM_ACTOR = "system";
+
+// ── Hashing ───────────────────────────────────────────────────────────────────
+
+/** JSON with object keys sorted, so a payload hashes the same after a round trip through jsonb. */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null";
+  if (Array.isArray(value)) return `[${value.map((v) => (v === undefined ? "null" : canonicalJson(v))).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+}
+
+/** Also used to fingerprint evidence too large to keep in an event's payload. */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function auditHash(event: Omit<AuditEvent, "hash">): Promise<string> {
+  const { sessionId, sequence, eventType, actor, payload, createdAt, prevHash } = event;
+  return sha256Hex(canonicalJson({ sessionId, sequence, eventType, actor, payload, createdAt, prevHash }));
+}
+
+/** The next event in a session's chain, given its current last event (null for the first). */
+export async function sealAuditEvent(
+  sessionId: string,
+  entry: AuditEntry,
+  previous: Pick<AuditEvent, "sequence" | "hash"> | null,
+  createdAt = new Date().toISOString(),
+): Promise<AuditEvent> {
+  const unsealed = {
+    ...entry,
+    // Drops undefined values and non-JSON types the same way storing the payload would
+    payload: JSON.parse(JSON.stringify(entry.payload)),
+    sessionId,
+    sequence: (previous?.sequence ?? 0) + 1,
+    createdAt,
+    prevHash: previous?.hash ?? AUDIT_GENESIS_HASH,
+  };
+  return { ...unsealed, hash: await auditHash(unsealed) };
+}
+
+/** Checks a whole trail, oldest first: sequences run from 1, each event links to the one before and its hash matches. */
+export async function verifyAuditChain(events: AuditEvent[]): Promise<AuditChainCheck> {
+  let previous: AuditEvent | null = null;
+  for (const event of events) {
+    const linked = event.sequence === (previous?.sequence ?? 0) + 1 && event.prevHash === (previous?.hash ?? AUDIT_GENESIS_HASH);
+    const { hash, ...unsealed } = event;
+    if (!linked || hash !== await auditHash(unsealed)) return { valid: false, brokenAt: event.sequence };
+    previous = event;
+  }
+  return { valid: true, brokenAt: null };
+}
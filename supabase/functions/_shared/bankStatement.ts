@@ -0,0 +1,395 @@
+// Bank statement parsing and income verification for the verify-income
+// function.
+//
+// Statements arrive either as a bank's CSV export or as the text lines of a
+// PDF statement (extracted in the browser, see extractPdfText in
+// src/utils/pdfDocument.ts). Both are reduced to a list of transactions, which
+// analyseStatement turns into a verified monthly income: the regular salary
+// credit when one can be found, otherwise the average monthly inflow. The
+// verified figure is compared with what the applicant declared and, once
+// accepted by the state machine, scored by calculateRisk instead of the
+// declared income when it is lower.
+//
+// Pure module: no Deno or DOM APIs.
+
+import { splitCsvLine } from "./csv.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface StatementTransaction {
+  /** ISO date, YYYY-MM-DD. */
+  date: string;
+  description: string;
+  /** INR; positive for credits, negative for debits. */
+  amount: number;
+  /** Running balance after the transaction, when the statement shows one. */
+  balance: number | null;
+}
+
+export interface IncomeVerification {
+  /** First and last transaction dates, ISO. */
+  periodStart: string;
+  periodEnd: string;
+  /** Length of the period from the first to the last transaction, in whole months (at least 1). */
+  monthsCovered: number;
+  transactionCount: number;
+  salaryDetected: boolean;
+  /** Credits recognised as salary, oldest first. */
+  salaryCredits: StatementTransaction[];
+  /** Credits, excluding reversals of bounced payments, per month covered. */
+  averageMonthlyInflow: number;
+  /** Cheque, ECS and NACH returns and their charges. */
+  bounces: StatementTransaction[];
+  /** Median monthly salary when salary was detected, otherwise the average monthly inflow. */
+  verifiedIncome: number;
+  declaredIncome: number;
+  /** (declared − verified) / verified, in percent; null when nothing was verified. */
+  variancePercent: number | null;
+  /** The declared income is within INCOME_TOLERANCE of the verified income, or below it. */
+  consistent: boolean;
+  flags: string[];
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementParseError";
+  }
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** Declared income may exceed the verified figure by this fraction before it counts as a mismatch. */
+export const INCOME_TOLERANCE = 0.2;
+
+/** Fewer months than this cannot show a regular income. */
+export const MIN_STATEMENT_MONTHS = 3;
+
+const SALARY_PATTERN = /\b(SAL|SALARY|PAYROLL)\b/i;
+const BOUNCE_PATTERN = /\b(RETURN(ED)?|RTN|RET|BOUNCE[D]?|DISHONOU?RED|INSUFF(ICIENT)?|UNPAID|REJECT(ED)?)\b/i;
+const CREDIT_HINT = /\b(CR|CREDIT|DEPOSIT|SALARY|SAL|REFUND|INTEREST|INT\.?PD)\b/i;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// ── Values ────────────────────────────────────────────────────────────────────
+
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{1,2}[\s-][A-Za-z]{3,9}[\s,-]+\d{2,4})/;
+
+/**
+ * Reads dd/mm/yyyy, dd-mm-yy, dd MMM yyyy, dd-MMM-yy or yyyy-mm-dd at the start
+ * of the text (a trailing time is ignored) as an ISO date.
+ */
+export function parseStatementDate(text: string): string | null {
+  const value = text.trim().match(DATE_PATTERN)?.[1];
+  if (!value) return null;
+  let day: number, month: number, year: number;
+
+  let m = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (m) {
+    [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else if ((m = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/))) {
+    [day, month, year] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else if ((m = value.match(/^(\d{1,2})[\s-]([A-Za-z]{3,9})[\s,-]+(\d{2,4})$/))) {
+    day = Number(m[1]);
+    month = MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1;
+    year = Number(m[3]);
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** Reads "1,23,456.78", "(1,234.00)", "-500" or "2,000.00 Cr"; null for blanks and non-numbers. */
+export function parseStatementAmount(text: string): number | null {
+  const value = text.trim().replace(/^₹|^INR\s*/i, "");
+  if (!value || value === "-") return null;
+  const m = value.match(/^(\()?(-)?([\d,]+(?:\.\d+)?)\)?\s*(CR|DR)?\.?$/i);
+  if (!m) return null;
+  const amount = Number(m[3].replace(/,/g, ""));
+  if (!Number.isFinite(amount)) return null;
+  const negative = m[1] || m[2] || m[4]?.toUpperCase() === "DR";
+  return negative ? -amount : amount;
+}
+
+// ── CSV ───────────────────────────────────────────────────────────────────────
+
+interface CsvColumns {
+  date: number;
+  description: number;
+  debit: number;
+  credit: number;
+  /** Single signed amount column, used when there are no debit/credit columns. */
+  amount: number;
+  /** "Cr"/"Dr" indicator accompanying `amount`. */
+  type: number;
+  balance: number;
+}
+
+function findColumns(header: string[]): CsvColumns | null {
+  const names = header.map((h) => h.toLowerCase());
+  const find = (pattern: RegExp, exclude?: RegExp) => names.findIndex((n) => pattern.test(n) && !exclude?.test(n));
+
+  const transactionDate = find(/date/, /value/);
+  const date = transactionDate !== -1 ? transactionDate : find(/date/);
+  const description = find(/narration|description|particulars|remarks|details/);
+  if (date === -1 || description === -1) return null;
+
+  const columns: CsvColumns = {
+    date,
+    description,
+    debit: find(/debit|withdrawal|\bdr\b/, /cr\/dr|dr\/cr/),
+    credit: find(/credit|deposit|\bcr\b/, /cr\/dr|dr\/cr/),
+    amount: find(/^amount|txn amount|transaction amount/),
+    type: find(/cr\/dr|dr\/cr|^type$|txn type|transaction type/),
+    balance: find(/balance/),
+  };
+  const hasDebitCredit = columns.debit !== -1 && columns.credit !== -1;
+  return hasDebitCredit || columns.amount !== -1 ? columns : null;
+}
+
+/**
+ * Parses a bank's CSV export. The header row is found by its column names, so
+ * account details above it are skipped; rows without a readable date (opening
+ * balance, totals) are ignored.
+ */
+export function parseStatementCsv(csv: string): StatementTransaction[] {
+  const lines = csv.split(/\r?\n/).filter((l) => l.trim());
+  const headerIndex = lines.findIndex((l) => findColumns(splitCsvLine(l)) !== null);
+  if (headerIndex === -1) {
+    throw new StatementParseError("Could not find the date, description and amount columns in the CSV.");
+  }
+  const columns = findColumns(splitCsvLine(lines[headerIndex]))!;
+  const cell = (cells: string[], index: number) => (index === -1 ? "" : cells[index] ?? "");
+
+  const transactions: StatementTransaction[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    const cells = splitCsvLine(line);
+    const date = parseStatementDate(cell(cells, columns.date));
+    if (!date) continue;
+
+    let amount: number | null;
+    if (columns.debit !== -1 && columns.credit !== -1) {
+      const credit = parseStatementAmount(cell(cells, columns.credit));
+      const debit = parseStatementAmount(cell(cells, columns.debit));
+      amount = credit ? Math.abs(credit) : debit ? -Math.abs(debit) : null;
+    } else {
+      amount = parseStatementAmount(cell(cells, columns.amount));
+      if (amount !== null && /^d/i.test(cell(cells, columns.type))) amount = -Math.abs(amount);
+    }
+    if (!amount) continue;
+
+    transactions.push({
+      date,
+      description: cell(cells, columns.description),
+      amount,
+      balance: parseStatementAmount(cell(cells, columns.balance)),
+    });
+  }
+  return requireTransactions(transactions);
+}
+
+// ── PDF text ──────────────────────────────────────────────────────────────────
+
+/** Money in statement text always has paise, which keeps cheque and reference numbers out. */
+const TRAILING_AMOUNT = /\s+(-?[\d,]+\.\d{2})(\s*(?:Cr|Dr|CR|DR)\.?)?$/;
+
+/** Column headings and page furniture repeated on every page of a PDF statement. */
+const PAGE_NOISE = /\b(narration|particulars|description|balance|page \d+|statement of account)\b/i;
+
+interface TextRow {
+  date: string;
+  description: string;
+  /** Trailing amounts in column order, signed when marked Cr/Dr. */
+  amounts: { value: number; marked: boolean }[];
+}
+
+function readTextRow(line: string): TextRow | null {
+  const dateMatch = line.trim().match(DATE_PATTERN);
+  const date = parseStatementDate(line);
+  if (!dateMatch || !date) return null;
+
+  let rest = line.trim().slice(dateMatch[0].length);
+  const amounts: TextRow["amounts"] = [];
+  let m: RegExpMatchArray | null;
+  while (amounts.length < 3 && (m = rest.match(TRAILING_AMOUNT))) {
+    const marker = m[2]?.trim() ?? "";
+    const value = parseStatementAmount(m[1] + (marker ? ` ${marker}` : ""));
+    if (value === null) break;
+    amounts.unshift({ value, marked: marker !== "" });
+    rest = rest.slice(0, m.index);
+  }
+  if (!amounts.length) return null;
+
+  // A value date column repeats the transaction date
+  const description = rest.trim().replace(DATE_PATTERN, "").trim().replace(/\s+/g, " ");
+  return { date, description, amounts };
+}
+
+/**
+ * Parses the text lines of a PDF statement. A transaction line starts with a
+ * date and ends with its amount and, usually, the running balance; lines
+ * without a date continue the previous line's description.
+ *
+ * Text extraction loses the withdrawal/deposit columns, so the direction of
+ * each amount comes from a Cr/Dr marker, else from the change in balance,
+ * else from the description.
+ */
+export function parseStatementText(lines: string[]): StatementTransaction[] {
+  const rows: TextRow[] = [];
+  let openingBalance: number | null = null;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const row = readTextRow(line);
+    if (row) {
+      rows.push(row);
+      continue;
+    }
+    const opening = line.match(/opening balance[^\d-]*(-?[\d,]+\.\d{2}(?:\s*(?:Cr|Dr))?)/i);
+    if (opening && !rows.length) {
+      openingBalance = parseStatementAmount(opening[1]);
+    } else if (rows.length && !TRAILING_AMOUNT.test(line) && !PAGE_NOISE.test(line)) {
+      rows[rows.length - 1].description += ` ${line.trim()}`;
+    }
+  }
+
+  // Newest-first statements are read oldest-first so balance changes line up
+  if (rows.length > 1 && rows[0].date > rows[rows.length - 1].date) {
+    rows.reverse();
+    openingBalance = null;
+  }
+
+  let previousBalance = openingBalance;
+  const transactions: StatementTransaction[] = [];
+  for (const row of rows) {
+    const hasBalance = row.amounts.length > 1;
+    const balance = hasBalance ? row.amounts[row.amounts.length - 1].value : null;
+    const entries = hasBalance ? row.amounts.slice(0, -1) : row.amounts;
+    // Withdrawal and deposit columns both printed: the non-zero one is the transaction
+    const entry = entries.length === 2
+      ? (entries[1].value ? { ...entries[1], deposit: true } : { ...entries[0], deposit: false })
+      : { ...entries[0], deposit: null as boolean | null };
+
+    let amount = Math.abs(entry.value);
+    if (entry.marked) {
+      amount = entry.value;
+    } else if (previousBalance !== null && balance !== null) {
+      amount = balance - previousBalance < 0 ? -amount : amount;
+    } else if (entry.deposit !== null) {
+      amount = entry.deposit ? amount : -amount;
+    } else if (!CREDIT_HINT.test(row.description)) {
+      amount = -amount;
+    }
+
+    if (balance !== null) previousBalance = balance;
+    if (!amount) continue;
+    transactions.push({ date: row.date, description: row.description, amount, balance });
+  }
+  return requireTransactions(transactions);
+}
+
+function requireTransactions(transactions: StatementTransaction[]): StatementTransaction[] {
+  if (!transactions.length) throw new StatementParseError("No transactions were found in the statement.");
+  return transactions.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ── Analysis ──────────────────────────────────────────────────────────────────
+
+const monthOf = (t: StatementTransaction) => t.date.slice(0, 7);
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+function monthsBetween(start: string, end: string): number {
+  const days = (Date.parse(end) - Date.parse(start)) / 86_400_000 + 1;
+  return Math.max(1, Math.round(days / DAYS_PER_MONTH));
+}
+
+/** Payer key for grouping credits: the description's words with references and digits removed. */
+function payerKey(description: string): string {
+  return description
+    .toUpperCase()
+    .replace(/[^A-Z\s/]/g, " ")
+    .split(/[\s/]+/)
+    .filter((w) => w.length > 2 && !["NEFT", "IMPS", "RTGS", "UPI", "CREDIT", "TRF", "TRANSFER", "FROM", "THE"].includes(w))
+    .slice(0, 3)
+    .join(" ");
+}
+
+/**
+ * Salary credits: credits that say so, or failing that the largest credit
+ * from one payer that recurs in (nearly) every month at a steady amount.
+ */
+function findSalaryCredits(credits: StatementTransaction[], monthsCovered: number): StatementTransaction[] {
+  const labelled = credits.filter((t) => SALARY_PATTERN.test(t.description));
+  if (labelled.length) return labelled;
+
+  const groups = new Map<string, StatementTransaction[]>();
+  for (const t of credits) {
+    const key = payerKey(t.description);
+    if (key) groups.set(key, [...(groups.get(key) ?? []), t]);
+  }
+
+  const requiredMonths = Math.max(2, monthsCovered - 1);
+  let best: StatementTransaction[] = [];
+  for (const group of groups.values()) {
+    if (new Set(group.map(monthOf)).size < requiredMonths) continue;
+    const typical = median(group.map((t) => t.amount));
+    if (!group.every((t) => Math.abs(t.amount - typical) <= typical * 0.15)) continue;
+    if (!best.length || typical > median(best.map((t) => t.amount))) best = group;
+  }
+  return best;
+}
+
+export function analyseStatement(transactions: StatementTransaction[], declaredIncome: number): IncomeVerification {
+  const sorted = requireTransactions([...transactions]);
+  const periodStart = sorted[0].date;
+  const periodEnd = sorted[sorted.length - 1].date;
+  const monthsCovered = monthsBetween(periodStart, periodEnd);
+
+  const bounces = sorted.filter((t) => BOUNCE_PATTERN.test(t.description));
+  const credits = sorted.filter((t) => t.amount > 0 && !bounces.includes(t));
+  const averageMonthlyInflow = Math.round(credits.reduce((sum, t) => sum + t.amount, 0) / monthsCovered);
+
+  const salaryCredits = findSalaryCredits(credits, monthsCovered);
+  const salaryByMonth = new Map<string, number>();
+  for (const t of salaryCredits) salaryByMonth.set(monthOf(t), (salaryByMonth.get(monthOf(t)) ?? 0) + t.amount);
+  const salaryDetected = salaryCredits.length > 0;
+
+  const verifiedIncome = salaryDetected ? Math.round(median([...salaryByMonth.values()])) : averageMonthlyInflow;
+  const variancePercent = verifiedIncome > 0
+    ? Math.round(((declaredIncome - verifiedIncome) / verifiedIncome) * 1000) / 10
+    : null;
+  const consistent = verifiedIncome > 0 && declaredIncome <= verifiedIncome * (1 + INCOME_TOLERANCE);
+
+  const rupees = (n: number) => `₹${n.toLocaleString("en-IN")}`;
+  const flags: string[] = [];
+  if (monthsCovered < MIN_STATEMENT_MONTHS) flags.push(`Statement covers ${monthsCovered} month(s); at least ${MIN_STATEMENT_MONTHS} are needed to show a regular income`);
+  if (!salaryDetected) flags.push("No regular salary credit found; income is the average monthly inflow");
+  if (bounces.length) flags.push(`${bounces.length} returned or bounced payment(s)`);
+  if (!consistent) flags.push(`Declared income ${rupees(declaredIncome)} is more than the ${rupees(verifiedIncome)} the statement supports`);
+
+  return {
+    periodStart,
+    periodEnd,
+    monthsCovered,
+    transactionCount: sorted.length,
+    salaryDetected,
+    salaryCredits,
+    averageMonthlyInflow,
+    bounces,
+    verifiedIncome,
+    declaredIncome,
+    variancePercent,
+    consistent,
+    flags,
+  };
+}
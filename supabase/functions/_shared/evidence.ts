@@ -0,0 +1,69 @@
+// Reads a session's stored verification results back for the decisions made
+// on the server, so they rest on what the functions recorded rather than on
+// what the client says happened. score-risk takes its verified inputs from
+// them, and onboarding-session checks the selfie passed and rebuilds the
+// review triggers from them before opening an account.
+//
+// A result that failed to record counts as missing.
+//
+// Pure module: no Deno or DOM APIs.
+
+import type { CheckOutcome } from "./modelOutput.ts";
+import type { DocumentType } from "./onboarding.ts";
+import type { ReviewVerification } from "./review.ts";
+import type { VerificationKind } from "./store.ts";
+
+const DOCUMENT_TYPES: readonly DocumentType[] = ["PAN", "Aadhaar"];
+
+/** verify-document accepts a card on these; a SUSPICIOUS one also goes to review. */
+export const ACCEPTED_DOCUMENT_VERDICTS = ["GENUINE", "SUSPICIOUS"];
+
+/** The checks FaceVerification runs on the selfie, each recording a CheckOutcome. */
+const SELFIE_CHECKS: readonly VerificationKind[] = ["liveness", "spoof", "face"];
+
+function latest(verifications: ReviewVerification[], kind: VerificationKind): ReviewVerification | null {
+  const ofKind = verifications.filter((v) => v.kind === kind);
+  return ofKind[ofKind.length - 1] ?? null;
+}
+
+/** The type verify-document read off the card, from a "document" result. */
+function documentTypeOf(verification: ReviewVerification): DocumentType | null {
+  const documentType = (verification.result as { documentType?: unknown } | null)?.documentType;
+  return DOCUMENT_TYPES.find((t) => t === documentType) ?? null;
+}
+
+/** Each document's latest verdict; an earlier upload of the same card no longer counts. verifications are oldest first. */
+export function documentVerdicts(verifications: ReviewVerification[]): Partial<Record<DocumentType, string | null>> {
+  const verdicts: Partial<Record<DocumentType, string | null>> = {};
+  for (const verification of verifications) {
+    const documentType = verification.kind === "document" ? documentTypeOf(verification) : null;
+    if (documentType) verdicts[documentType] = verification.verdict;
+  }
+  return verdicts;
+}
+
+/** The documents whose latest verification came back SUSPICIOUS. */
+export function suspiciousDocuments(verifications: ReviewVerification[]): DocumentType[] {
+  const verdicts = documentVerdicts(verifications);
+  return DOCUMENT_TYPES.filter((t) => verdicts[t] === "SUSPICIOUS");
+}
+
+/** Whether the latest PAN and Aadhaar verifications both accepted the card. */
+export function documentsVerified(verifications: ReviewVerification[]): boolean {
+  const verdicts = documentVerdicts(verifications);
+  return DOCUMENT_TYPES.every((t) => ACCEPTED_DOCUMENT_VERDICTS.includes(verdicts[t] ?? ""));
+}
+
+/** The income the latest bank statement supports; null when none was verified. */
+export function verifiedIncome(verifications: ReviewVerification[]): number | null {
+  const income = (latest(verifications, "income")?.result as { verifiedIncome?: unknown } | null)?.verifiedIncome;
+  return typeof income === "number" && income > 0 ? income : null;
+}
+
+/** Whether the latest liveness, anti-spoofing and face match results all passed. */
+export function faceVerified(verifications: ReviewVerification[]): boolean {
+  return SELFIE_CHECKS.every((kind) => {
+    const outcome = (latest(verifications, kind)?.result as { outcome?: CheckOutcome } | null)?.outcome;
+    return outcome === "passed";
+  });
+}
@@ -0,0 +1,21 @@
+// Server-side face cropping for verify-face. Deno only: decodes the stored card
+// with imagescript and cuts out the same region FaceVerification crops on the
+// device (see cropRect in faceMatch.ts).
+
+import { decode as base64Decode, encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { decode, Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+import { cropRect, FACE_CROP_SIZE, type FaceBox } from "./faceMatch.ts";
+
+const JPEG_QUALITY = 90;
+
+/** The face in box as a JPEG no larger than FACE_CROP_SIZE; rejects when the image cannot be decoded. */
+export async function cropFace(imageBase64: string, box: FaceBox): Promise<string> {
+  const image = await decode(base64Decode(imageBase64));
+  if (!(image instanceof Image)) throw new Error("The document is not a still image");
+
+  const rect = cropRect(box, image.width, image.height);
+  const face = image.crop(rect.x, rect.y, rect.width, rect.height);
+  const scale = Math.min(1, FACE_CROP_SIZE / Math.max(rect.width, rect.height));
+  if (scale < 1) face.resize(Math.max(1, Math.round(rect.width * scale)), Math.max(1, Math.round(rect.height * scale)));
+  return base64Encode(await face.encodeJPEG(JPEG_QUALITY));
+}
@@ -0,0 +1,176 @@
+// Face match: compares the selfie with the portrait printed on the PAN or
+// Aadhaar card.
+//
+// verify-face works in two steps. face_locate has the vision model find the
+// portrait on the session's stored PAN or Aadhaar image and the face in the
+// selfie; FaceVerification crops the selfie on the device (see cropRect) and
+// sends it with the portrait's box to face_match, which crops the portrait from
+// the stored card itself, has the model rate how alike the two faces are and
+// lets scoreFaceMatch turn that into a verdict against the configured
+// thresholds. The client's card is never compared, so a selfie can only be
+// matched to a document verify-document accepted (without a database the
+// request's copy and crop stand in for it).
+// Comparing tight crops keeps the card's text, hologram and background out of
+// the judgement, and the crops are recorded so a reviewer sees exactly what
+// was compared.
+//
+// Pure module: no Deno or DOM APIs.
+
+import type { EnvReader } from "./llmProvider.ts";
+import type { CheckOutcome } from "./modelOutput.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** A face's bounding box as fractions of the image's width and height, from the top-left corner. */
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** The vision model's reply to face_locate. */
+export interface FaceLocateAssessment {
+  document: FaceBox | null;
+  selfie: FaceBox | null;
+  reason: string;
+}
+
+export interface FaceLocation {
+  /** The portrait on the document; null when none was found or the reply could not be read. */
+  document: FaceBox | null;
+  /** The applicant's face in the selfie; null likewise. */
+  selfie: FaceBox | null;
+  /** failed when a face is missing; inconclusive when the reply could not be read. */
+  outcome: CheckOutcome;
+  reason: string;
+}
+
+/** The vision model's reply to face_match. */
+export interface FaceMatchAssessment {
+  /** 0–100: how alike the two faces are. */
+  similarity: number;
+  samePerson: boolean;
+  reason: string;
+}
+
+export interface FaceMatchThresholds {
+  /** Similarity at or above which the faces match. */
+  match: number;
+  /** Similarity below which the faces are a mismatch; between the two the applicant retakes the selfie. */
+  mismatch: number;
+}
+
+export type FaceMatchVerdict = "match" | "uncertain" | "mismatch";
+
+export interface FaceMatchResult {
+  /** 0–100; null when the model's reply could not be read. */
+  similarity: number | null;
+  verdict: FaceMatchVerdict;
+  passed: boolean;
+  /** failed on a mismatch; inconclusive when uncertain or the reply could not be read. */
+  outcome: CheckOutcome;
+  reason: string;
+  thresholds: FaceMatchThresholds;
+}
+
+/** A crop in pixels of the source image. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** Overridden by FACE_MATCH_THRESHOLD and FACE_MISMATCH_THRESHOLD. */
+export const DEFAULT_FACE_MATCH_THRESHOLDS: FaceMatchThresholds = { match: 80, mismatch: 60 };
+
+/** Boxes smaller than this share of either side are not a usable face. */
+export const MIN_FACE_BOX = 0.04;
+
+/** Margin added around a face box on every side, as a share of the box, so the crop keeps the hairline and chin. */
+export const FACE_CROP_MARGIN = 0.25;
+
+/** Longest side of a crop sent to face_match, in pixels. */
+export const FACE_CROP_SIZE = 256;
+
+// ── Locating ──────────────────────────────────────────────────────────────────
+
+const fraction = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+
+/** Validates a box from the model's reply: every coordinate a fraction, inside the image and big enough to compare. */
+export function readFaceBox(value: unknown): FaceBox | null {
+  if (!value || typeof value !== "object") return null;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  if (![x, y, width, height].every(fraction)) return null;
+  const box = { x, y, width, height } as FaceBox;
+  if (box.width < MIN_FACE_BOX || box.height < MIN_FACE_BOX) return null;
+  if (box.x + box.width > 1.001 || box.y + box.height > 1.001) return null;
+  return box;
+}
+
+/** The boxes face_locate returns. Fails closed: a box that is missing or unusable is treated as no face found. */
+export function locateFaces(assessment: FaceLocateAssessment | null): FaceLocation {
+  if (!assessment) return { document: null, selfie: null, outcome: "inconclusive", reason: "The face locations could not be read." };
+  const document = readFaceBox(assessment.document);
+  const selfie = readFaceBox(assessment.selfie);
+  return {
+    document,
+    selfie,
+    outcome: document && selfie ? "passed" : "failed",
+    reason: typeof assessment.reason === "string" ? assessment.reason : "",
+  };
+}
+
+/** The pixel region cropped for a box, on the device and on the server: the box plus FACE_CROP_MARGIN, clamped to the image. */
+export function cropRect(box: FaceBox, imageWidth: number, imageHeight: number): CropRect {
+  const left = Math.max(0, box.x - box.width * FACE_CROP_MARGIN);
+  const top = Math.max(0, box.y - box.height * FACE_CROP_MARGIN);
+  const right = Math.min(1, box.x + box.width * (1 + FACE_CROP_MARGIN));
+  const bottom = Math.min(1, box.y + box.height * (1 + FACE_CROP_MARGIN));
+  const x = Math.round(left * imageWidth);
+  const y = Math.round(top * imageHeight);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.round(right * imageWidth) - x),
+    height: Math.max(1, Math.round(bottom * imageHeight) - y),
+  };
+}
+
+// ── Scoring ───────────────────────────────────────────────────────────────────
+
+/** Reads the thresholds from the environment; values that are missing, out of range or inverted fall back to the defaults. */
+export function faceMatchThresholds(env: EnvReader): FaceMatchThresholds {
+  const read = (key: string) => {
+    const raw = env(key);
+    const value = raw === undefined || raw.trim() === "" ? NaN : Number(raw);
+    return Number.isFinite(value) && value >= 0 && value <= 100 ? value : null;
+  };
+  const match = read("FACE_MATCH_THRESHOLD") ?? DEFAULT_FACE_MATCH_THRESHOLDS.match;
+  const mismatch = read("FACE_MISMATCH_THRESHOLD") ?? DEFAULT_FACE_MATCH_THRESHOLDS.mismatch;
+  return mismatch <= match ? { match, mismatch } : DEFAULT_FACE_MATCH_THRESHOLDS;
+}
+
+/**
+ * Scores the model's comparison of the two crops. Fails closed: an unreadable
+ * reply is inconclusive, and the model doubting it is the same person holds a
+ * high similarity back from a match.
+ */
+export function scoreFaceMatch(assessment: FaceMatchAssessment | null, thresholds: FaceMatchThresholds): FaceMatchResult {
+  const similarity = assessment && typeof assessment.similarity === "number" && Number.isFinite(assessment.similarity)
+    ? Math.round(Math.min(100, Math.max(0, assessment.similarity)))
+    : null;
+  if (similarity === null) {
+    return { similarity, verdict: "uncertain", passed: false, outcome: "inconclusive", reason: "The face comparison could not be read.", thresholds };
+  }
+
+  const reason = typeof assessment?.reason === "string" && assessment.reason ? assessment.reason : `Similarity ${similarity}/100.`;
+  if (similarity < thresholds.mismatch) return { similarity, verdict: "mismatch", passed: false, outcome: "failed", reason, thresholds };
+  if (similarity < thresholds.match || assessment?.samePerson !== true) {
+    return { similarity, verdict: "uncertain", passed: false, outcome: "inconclusive", reason, thresholds };
+  }
+  return { similarity, verdict: "match", passed: true, outcome: "passed", reason, thresholds };
+}
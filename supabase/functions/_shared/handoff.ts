@@ -0,0 +1,43 @@
+// Continuing onboarding on another device.
+//
+// When the desktop has no usable camera, FaceVerification offers to carry on
+// on a phone: onboarding-session opens a handoff for the session and the page
+// shows its link as a QR code. Opening the link claims the handoff, which
+// hands the phone the session to resume; the desktop polls the session and
+// picks up once the phone has moved it past the face step. A handoff can be
+// claimed once and only until it expires, so a link that leaks later, or is
+// opened twice, does not open the session again.
+//
+// Pure module: no Deno or DOM APIs.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SessionHandoff {
+  id: string;
+  sessionId: string;
+  expiresAt: string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+export const HANDOFF_TTL_SECONDS = 15 * 60;
+
+/** Query parameter the handoff link carries its id in. */
+export const HANDOFF_PARAM = "handoff";
+
+/** How often the desktop checks whether the phone has finished. */
+export const HANDOFF_POLL_MS = 4000;
+
+// ── Links ─────────────────────────────────────────────────────────────────────
+
+/** The link the QR code encodes: the app's start page with the handoff id. */
+export function handoffUrl(origin: string, handoffId: string): string {
+  const url = new URL("/", origin);
+  url.searchParams.set(HANDOFF_PARAM, handoffId);
+  return url.toString();
+}
+
+/** The handoff id in a page's query string, or null. */
+export function readHandoffId(search: string): string | null {
+  return new URLSearchParams(search).get(HANDOFF_PARAM) || null;
+}
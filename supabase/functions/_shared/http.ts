@@ -0,0 +1,167 @@
+// HTTP plumbing shared by every edge function: CORS, JSON responses, request
+// validation, auth policies and error mapping.
+//
+// An endpoint is declared once with its schema, auth policy and handler, then
+// wrapped by createHandler. Handlers receive their dependencies (environment,
+// store, LLM provider, watch lists, staff sign-in, face cropping) instead of reaching for Deno globals, so they run under
+// vitest as well as in the edge runtime (see runtime.ts for the Deno wiring).
+
+import type { z } from "zod";
+import { parseRequest, type ErrorResponse } from "./api.ts";
+import type { FaceBox } from "./faceMatch.ts";
+import { LlmError, type LlmProvider } from "./llm.ts";
+import type { EnvReader } from "./llmProvider.ts";
+import type { WatchList } from "./screening.ts";
+import type { OnboardingStore } from "./store.ts";
+
+// ── Responses ─────────────────────────────────────────────────────────────────
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+export function eventStream(stream: ReadableStream<Uint8Array>): Response {
+  return new Response(stream, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+  });
+}
+
+function error(message: string, status: number): Response {
+  return json({ error: message } satisfies ErrorResponse, status);
+}
+
+// ── Endpoints ─────────────────────────────────────────────────────────────────
+
+export interface EndpointDeps {
+  env: EnvReader;
+  /** null when the function has no database configured. */
+  store: OnboardingStore | null;
+  /** Created on demand so endpoints that never call a model need no LLM configuration. */
+  llm: () => LlmProvider;
+  /** Sanctions, PEP and adverse-media lists; loaded on demand by the endpoints that screen. */
+  watchLists: () => Promise<WatchList[]>;
+  /** Resolves a signed-in user's access token to a staff member, or null for anyone else. */
+  staff: (accessToken: string) => Promise<StaffMember | null>;
+  /** Cuts a face out of a base64 image (see cropRect), scaled down to FACE_CROP_SIZE; resolves to base64 JPEG. */
+  cropFace: (imageBase64: string, box: FaceBox) => Promise<string>;
+}
+
+export type StaffRole = "reviewer" | "admin";
+
+export interface StaffMember {
+  id: string;
+  email: string;
+  role: StaffRole;
+}
+
+/** Who made the request, as established by the endpoint's auth policy. */
+export interface Caller {
+  /** Set for "staff" endpoints only. */
+  staff: StaffMember | null;
+}
+
+/**
+ * anon     the caller presents the project's anon (publishable) key
+ * session  anon, and the body's sessionId names an existing onboarding session
+ * staff    anon, and the bearer token belongs to a signed-in reviewer or admin
+ *
+ * anon and session are skipped for whatever is not configured (no
+ * SUPABASE_ANON_KEY, no store) so the functions still run locally without a
+ * project behind them. staff never is: without a way to check the token, every
+ * caller is refused.
+ */
+export type AuthPolicy = "anon" | "session" | "staff";
+
+export interface Endpoint<T> {
+  name: string;
+  /** Zod schema whose output is T. */
+  schema: z.ZodTypeAny;
+  auth: AuthPolicy;
+  /** Returned with 502 when the model provider fails for a reason other than quota. */
+  failureMessage: string;
+  handle(request: T, deps: EndpointDeps, caller: Caller): Promise<Response>;
+}
+
+export function defineEndpoint<T>(endpoint: Endpoint<T>): Endpoint<T> {
+  return endpoint;
+}
+
+function bearerToken(req: Request): string | null {
+  return req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null;
+}
+
+/** Signed-in callers send their access token as the bearer and the key in `apikey`. */
+function authorizeKey(req: Request, env: EnvReader): Response | null {
+  const allowed = [env("SUPABASE_ANON_KEY"), env("SUPABASE_SERVICE_ROLE_KEY")].filter(Boolean);
+  if (!allowed.length) return null;
+  const keys = [bearerToken(req), req.headers.get("apikey")].filter((k): k is string => !!k);
+  if (!keys.length) return error("Missing API key", 401);
+  return keys.some((k) => allowed.includes(k)) ? null : error("Invalid API key", 401);
+}
+
+async function authorizeStaff(req: Request, deps: EndpointDeps): Promise<StaffMember | Response> {
+  const token = bearerToken(req);
+  const member = token ? await deps.staff(token) : null;
+  return member ?? error("Staff sign-in required", 401);
+}
+
+async function authorizeSession(request: unknown, store: OnboardingStore | null): Promise<Response | null> {
+  if (!store) return null;
+  const sessionId = (request as { sessionId?: string | null }).sessionId;
+  if (!sessionId || !(await store.sessionExists(sessionId))) {
+    return error("A valid onboarding session is required", 401);
+  }
+  return null;
+}
+
+function failure(endpoint: Endpoint<unknown>, err: unknown): Response {
+  if (err instanceof LlmError && (err.status === 429 || err.status === 402)) return error(err.message, err.status);
+  console.error(`${endpoint.name} error:`, err);
+  if (err instanceof LlmError) return error(endpoint.failureMessage, 502);
+  return error(err instanceof Error ? err.message : "Unknown error", 500);
+}
+
+/** Wraps an endpoint with CORS, method, auth, validation and error handling. */
+export function createHandler<T>(endpoint: Endpoint<T>, deps: EndpointDeps): (req: Request) => Promise<Response> {
+  return async (req) => {
+    if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+    if (req.method !== "POST") return error("Method not allowed", 405);
+
+    const denied = authorizeKey(req, deps.env);
+    if (denied) return denied;
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return error("Request body must be valid JSON", 400);
+    }
+
+    const { data: request, fieldErrors } = parseRequest<T>(endpoint.schema, body);
+    if (fieldErrors) return json({ error: "Invalid request", fieldErrors } satisfies ErrorResponse, 400);
+
+    try {
+      const caller: Caller = { staff: null };
+      if (endpoint.auth === "session") {
+        const sessionDenied = await authorizeSession(request, deps.store);
+        if (sessionDenied) return sessionDenied;
+      }
+      if (endpoint.auth === "staff") {
+        const staff = await authorizeStaff(req, deps);
+        if (staff instanceof Response) return staff;
+        caller.staff = staff;
+      }
+      return await endpoint.handle(request, deps, caller);
+    } catch (err) {
+      return failure(endpoint as Endpoint<unknown>, err);
+    }
+  };
+}
@@ -0,0 +1,99 @@
+// Deterministic structural checks for Indian identity numbers.
+
+export interface IdNumberCheck {
+  documentType: "PAN" | "Aadhaar";
+  valid: boolean;
+  /** True when only the last four Aadhaar digits are visible, so no checksum can be run. */
+  masked: boolean;
+  /** True when no number could be read from the document at all; it has to be uploaded again. */
+  missing: boolean;
+  reason: string;
+}
+
+// ── PAN ───────────────────────────────────────────────────────────────────────
+
+export function validatePANFormat(pan: string): { valid: boolean; reason: string } {
+  const panRegex = /^[A-Z]{3}[ABCFGHLJPT][A-Z]\d{4}[A-Z]$/;
+  if (!panRegex.test(pan.toUpperCase())) {
+    return { valid: false, reason: `PAN "${pan}" has invalid format. Must be ABCDE1234F (5 letters, 4 digits, 1 letter). 4th letter must indicate holder type (P=Individual, C=Company, etc).` };
+  }
+  return { valid: true, reason: "PAN format is valid." };
+}
+
+// ── Aadhaar ───────────────────────────────────────────────────────────────────
+
+// Verhoeff dihedral-group tables (multiplication and permutation).
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/** True when the digit string (check digit last) passes the Verhoeff checksum. */
+export function verhoeffValid(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+  let c = 0;
+  const reversed = digits.split("").reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    c = VERHOEFF_D[c][VERHOEFF_P[i % 8][Number(reversed[i])]];
+  }
+  return c === 0;
+}
+
+const MASKED_AADHAAR = /^[X*•]{4}[\s-]?[X*•]{4}[\s-]?(\d{4})$/i;
+
+export function validateAadhaarNumber(value: string): IdNumberCheck {
+  const trimmed = value.trim();
+
+  const masked = trimmed.match(MASKED_AADHAAR);
+  if (masked) {
+    return {
+      documentType: "Aadhaar",
+      valid: true,
+      masked: true,
+      missing: false,
+      reason: `Masked Aadhaar ending in ${masked[1]} — checksum cannot be verified.`,
+    };
+  }
+
+  const digits = trimmed.replace(/[\s-]/g, "");
+  const fail = (reason: string): IdNumberCheck => ({ documentType: "Aadhaar", valid: false, masked: false, missing: false, reason });
+
+  if (!/^\d{12}$/.test(digits)) return fail(`Aadhaar "${trimmed}" must be exactly 12 digits.`);
+  if (digits[0] === "0" || digits[0] === "1") return fail(`Aadhaar "${trimmed}" cannot start with 0 or 1.`);
+  if (!verhoeffValid(digits)) return fail(`Aadhaar "${trimmed}" fails the Verhoeff checksum — the number is not valid.`);
+
+  return { documentType: "Aadhaar", valid: true, masked: false, missing: false, reason: "Aadhaar number structure and checksum are valid." };
+}
+
+/**
+ * Runs the structural check that matches the document type, if there is one. A
+ * PAN or Aadhaar card without a readable number fails as missing.
+ */
+export function checkIdNumber(documentType: string | null | undefined, idNumber: string | null | undefined): IdNumberCheck | null {
+  if (documentType !== "PAN" && documentType !== "Aadhaar") return null;
+  if (!idNumber?.trim()) {
+    return { documentType, valid: false, masked: false, missing: true, reason: `No ${documentType} number could be read from the document.` };
+  }
+  if (documentType === "Aadhaar") return validateAadhaarNumber(idNumber);
+  const pan = validatePANFormat(idNumber.replace(/\s/g, ""));
+  return { documentType: "PAN", valid: pan.valid, masked: false, missing: false, reason: pan.reason };
+}
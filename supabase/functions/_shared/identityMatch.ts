@@ -0,0 +1,182 @@
+// Deterministic PAN ↔ Aadhaar identity matching with Indian-name-aware
+// normalisation. Names are compared token by token after removing honorifics,
+// canonicalising common transliteration variants and reducing each token to a
+// phonetic key, so "Mohd. Irfan Shaikh" matches "SHAIKH MOHAMMED IRFAN".
+
+import { normalizeDob, type ExtractedIdentity } from "./aadhaarQr.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface IdentityMatch {
+  match: boolean;
+  /** 0–100, weighted from the name and date-of-birth comparisons. */
+  score: number;
+  nameScore: number;
+  /** null when either document has no date of birth. */
+  dobMatch: boolean | null;
+  reasons: string[];
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+export const NAME_MATCH_THRESHOLD = 75;
+
+const HONORIFICS = new Set([
+  "MR", "MRS", "MS", "MISS", "MASTER", "DR", "SHRI", "SHREE", "SRI", "SMT", "SHRIMATI", "KUMARI", "KUM", "KU", "LATE",
+]);
+
+const VARIANTS: Record<string, string> = {
+  MOHD: "MOHAMMED", MD: "MOHAMMED", MOHAMMAD: "MOHAMMED", MUHAMMAD: "MOHAMMED", MOHAMAD: "MOHAMMED",
+  MUHAMMED: "MOHAMMED", MOHAMED: "MOHAMMED", MOHAMMAED: "MOHAMMED",
+  SK: "SHAIKH", SHEIKH: "SHAIKH", SHEIK: "SHAIKH", SHAIK: "SHAIKH",
+  SAYYED: "SYED", SAIYED: "SYED", SAYED: "SYED", SAYYAD: "SYED",
+  CHOUDHARY: "CHAUDHARY", CHOUDHURY: "CHAUDHARY", CHAUDHRI: "CHAUDHARY", CHOWDHURY: "CHAUDHARY", CHAUDHURI: "CHAUDHARY",
+  LAXMI: "LAKSHMI", LAXMAN: "LAKSHMAN",
+  KR: "KUMAR", KMR: "KUMAR",
+};
+
+// ── Name normalisation ────────────────────────────────────────────────────────
+
+interface NameToken {
+  original: string;
+  canonical: string;
+  key: string;
+  initial: boolean;
+}
+
+/** Reduces a token to a rough phonetic key: aspirates dropped, long vowels shortened, doubles collapsed. */
+function phoneticKey(token: string): string {
+  return token
+    .replace(/EE/g, "I")
+    .replace(/OO/g, "U")
+    .replace(/([BCDGJKPST])H/g, "$1")
+    .replace(/W/g, "V")
+    .replace(/Z/g, "J")
+    .replace(/Y$/, "I")
+    .replace(/A$/, "")
+    .replace(/(.)\1+/g, "$1");
+}
+
+export function tokenizeName(name: string): NameToken[] {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z\s]/g, " ")
+    .split(/\s+/)
+    .filter((t) => t && !HONORIFICS.has(t))
+    .map((t) => {
+      const canonical = VARIANTS[t] ?? t;
+      return { original: t, canonical, key: phoneticKey(canonical), initial: canonical.length === 1 };
+    });
+}
+
+function levenshtein(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+function tokenSimilarity(a: NameToken, b: NameToken): { score: number; reason?: string } {
+  if (a.canonical === b.canonical) {
+    return a.original !== b.original ? { score: 1, reason: `"${a.original}" and "${b.original}" are the same name` } : { score: 1 };
+  }
+  if (a.initial || b.initial) {
+    const [short, long] = a.initial ? [a, b] : [b, a];
+    if (!long.initial && long.canonical.startsWith(short.canonical)) {
+      return { score: 0.8, reason: `Initial "${short.original}" matches "${long.original}"` };
+    }
+    return { score: 0 };
+  }
+  if (a.key === b.key) return { score: 0.95, reason: `"${a.original}" and "${b.original}" are spelling variants` };
+  const distance = levenshtein(a.key, b.key);
+  const similarity = 1 - distance / Math.max(a.key.length, b.key.length);
+  return similarity >= 0.75 ? { score: similarity * 0.9, reason: `"${a.original}" is close to "${b.original}"` } : { score: 0 };
+}
+
+/**
+ * Scores two names 0–100 regardless of token order. Every token of the shorter
+ * name is paired with its best unused counterpart; the total is Dice-normalised
+ * so an extra middle name costs less than a wrong surname.
+ */
+export function compareNames(a: string, b: string): { score: number; reasons: string[] } {
+  const ta = tokenizeName(a);
+  const tb = tokenizeName(b);
+  if (!ta.length || !tb.length) return { score: 0, reasons: ["A name is missing on one of the documents"] };
+
+  const [shorter, longer] = ta.length <= tb.length ? [ta, tb] : [tb, ta];
+  const used = new Set<number>();
+  const reasons: string[] = [];
+  let total = 0;
+  let fullMatches = 0;
+  let orderChanged = false;
+
+  shorter.forEach((token, i) => {
+    let best = { index: -1, score: 0, reason: undefined as string | undefined };
+    longer.forEach((other, j) => {
+      if (used.has(j)) return;
+      const sim = tokenSimilarity(token, other);
+      if (sim.score > best.score) best = { index: j, score: sim.score, reason: sim.reason };
+    });
+    if (best.index === -1) {
+      reasons.push(`"${token.original}" has no counterpart`);
+      return;
+    }
+    used.add(best.index);
+    total += best.score;
+    if (best.score >= 0.95) fullMatches++;
+    if (best.index !== i) orderChanged = true;
+    if (best.reason) reasons.push(best.reason);
+  });
+
+  if (orderChanged) reasons.push("Name order differs between documents");
+  if (longer.length > shorter.length) reasons.push(`${longer.length - shorter.length} extra name part(s) on one document`);
+
+  const score = fullMatches ? Math.round((200 * total) / (ta.length + tb.length)) : 0;
+  if (!fullMatches) reasons.push("No name part matches in full");
+  return { score, reasons };
+}
+
+// ── Date of birth ─────────────────────────────────────────────────────────────
+
+function compareDob(a?: string | null, b?: string | null): { match: boolean | null; reason: string } {
+  if (!a || !b) return { match: null, reason: "Date of birth missing on one document — not compared" };
+  const na = normalizeDob(a);
+  const nb = normalizeDob(b);
+  // Older Aadhaar cards only print the year of birth
+  const fullDate = /^\d{2}-\d{2}-\d{4}$/;
+  if (!fullDate.test(na) || !fullDate.test(nb)) {
+    const ya = na.match(/(19|20)\d{2}/)?.[0];
+    const yb = nb.match(/(19|20)\d{2}/)?.[0];
+    if (!ya || !yb) return { match: null, reason: "Date of birth unreadable on one document — not compared" };
+    const match = ya === yb;
+    return { match, reason: match ? "Year of birth matches (full date not on both documents)" : `Year of birth differs: ${ya} vs ${yb}` };
+  }
+  return na === nb
+    ? { match: true, reason: "Date of birth matches" }
+    : { match: false, reason: `Date of birth differs: ${na} vs ${nb}` };
+}
+
+// ── Matcher ───────────────────────────────────────────────────────────────────
+
+export function matchIdentities(first: ExtractedIdentity, second: ExtractedIdentity): IdentityMatch {
+  const name = compareNames(first.name ?? "", second.name ?? "");
+  const dob = compareDob(first.dob, second.dob);
+
+  const score = dob.match === null ? name.score : Math.round(name.score * 0.7 + (dob.match ? 30 : 0));
+  const match = name.score >= NAME_MATCH_THRESHOLD && dob.match !== false;
+
+  const reasons = [
+    name.score >= NAME_MATCH_THRESHOLD ? `Names match (${name.score}%)` : `Names do not match (${name.score}%)`,
+    ...name.reasons,
+    dob.reason,
+  ];
+
+  return { match, score, nameScore: name.score, dobMatch: dob.match, reasons };
+}
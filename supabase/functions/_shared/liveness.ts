@@ -0,0 +1,127 @@
+// Active liveness: the challenge-response check FaceVerification runs before
+// the face match.
+//
+// verify-liveness issues a random sequence of prompts bound to the session.
+// The camera captures a neutral baseline frame, then a short burst of frames
+// while each prompt is on screen; the vision model judges whether each burst
+// shows the prompted action against the baseline, and scoreLiveness turns its
+// per-challenge assessments into the result. A challenge can be answered once
+// and only until it expires, so footage of an earlier attempt cannot answer a
+// new one, and a printed photo cannot blink or turn.
+//
+// Pure module: no Deno or DOM APIs beyond Web Crypto.
+
+import type { CheckOutcome } from "./modelOutput.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type LivenessPrompt = "blink" | "turn_left" | "smile" | "move_closer";
+
+export interface LivenessChallenge {
+  id: string;
+  sessionId: string;
+  prompts: LivenessPrompt[];
+  expiresAt: string;
+}
+
+/** The vision model's reply. */
+export interface LivenessAssessment {
+  challenges: { prompt: string; performed: boolean; confidence: number; reason: string }[];
+  /** Whether every frame shows the same live person. */
+  sameFace: boolean;
+  reason: string;
+}
+
+export interface ChallengeResult {
+  prompt: LivenessPrompt;
+  passed: boolean;
+  /** 0–100: how sure the model is that the action was performed. */
+  confidence: number;
+  reason: string;
+}
+
+export interface LivenessResult {
+  /** 0–100. */
+  score: number;
+  passed: boolean;
+  /** inconclusive when the model's reply could not be read. */
+  outcome: CheckOutcome;
+  challenges: ChallengeResult[];
+  reason: string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+export const LIVENESS_PROMPTS: readonly LivenessPrompt[] = ["blink", "turn_left", "smile", "move_closer"];
+
+/** Shown to the applicant while the prompt's frames are captured. */
+export const LIVENESS_PROMPT_TEXT: Record<LivenessPrompt, string> = {
+  blink: "Blink slowly, twice",
+  turn_left: "Turn your head to your left",
+  smile: "Give us a big smile",
+  move_closer: "Move closer to the camera",
+};
+
+/** Prompts per challenge. */
+export const LIVENESS_CHALLENGE_LENGTH = 3;
+
+export const LIVENESS_CHALLENGE_TTL_SECONDS = 120;
+
+/** Frames the camera captures per prompt, and the most the function accepts. */
+export const LIVENESS_FRAMES_PER_PROMPT = 4;
+export const LIVENESS_MAX_FRAMES_PER_PROMPT = 8;
+
+/** A prompt counts as performed at or above this confidence. */
+export const CHALLENGE_PASS_CONFIDENCE = 60;
+
+/** Every prompt must pass and the mean confidence reach this. */
+export const LIVENESS_PASS_SCORE = 70;
+
+// ── Challenges ────────────────────────────────────────────────────────────────
+
+const secureRandom = () => crypto.getRandomValues(new Uint32Array(1))[0] / 2 ** 32;
+
+/** A random selection of LIVENESS_CHALLENGE_LENGTH distinct prompts in random order. */
+export function pickLivenessPrompts(random: () => number = secureRandom): LivenessPrompt[] {
+  const prompts = [...LIVENESS_PROMPTS];
+  for (let i = prompts.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [prompts[i], prompts[j]] = [prompts[j], prompts[i]];
+  }
+  return prompts.slice(0, LIVENESS_CHALLENGE_LENGTH);
+}
+
+// ── Scoring ───────────────────────────────────────────────────────────────────
+
+function clampConfidence(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.round(Math.min(100, Math.max(0, value))) : 0;
+}
+
+/**
+ * Scores the model's assessment of each issued prompt. Fails closed: a prompt
+ * the model did not assess or any doubt that the frames show one person fail
+ * the check, and an unreadable reply leaves it inconclusive.
+ */
+export function scoreLiveness(prompts: LivenessPrompt[], assessment: LivenessAssessment | null): LivenessResult {
+  const challenges = prompts.map((prompt): ChallengeResult => {
+    const assessed = Array.isArray(assessment?.challenges) ? assessment.challenges.find((c) => c?.prompt === prompt) : undefined;
+    if (!assessed) return { prompt, passed: false, confidence: 0, reason: "Not assessed" };
+    const confidence = clampConfidence(assessed.confidence);
+    return {
+      prompt,
+      passed: assessed.performed === true && confidence >= CHALLENGE_PASS_CONFIDENCE,
+      confidence,
+      reason: typeof assessed.reason === "string" ? assessed.reason : "",
+    };
+  });
+
+  if (!assessment) return { score: 0, passed: false, outcome: "inconclusive", challenges, reason: "The liveness assessment could not be read." };
+  const failed = (score: number, reason: string): LivenessResult => ({ score, passed: false, outcome: "failed", challenges, reason });
+  if (assessment.sameFace !== true) return failed(0, "The frames do not clearly show the same live person throughout.");
+
+  const score = Math.round(challenges.reduce((sum, c) => sum + (c.passed ? c.confidence : 0), 0) / (challenges.length || 1));
+  const missed = challenges.find((c) => !c.passed);
+  if (missed) return failed(score, `"${LIVENESS_PROMPT_TEXT[missed.prompt]}" was not performed${missed.reason ? `: ${missed.reason}` : "."}`);
+  if (score < LIVENESS_PASS_SCORE) return failed(score, "The responses to the challenge were not clear enough.");
+  return { score, passed: true, outcome: "passed", challenges, reason: `All ${challenges.length} challenges performed.` };
+}
@@ -0,0 +1,78 @@
+// LLM provider layer used by the edge functions.
+//
+// Callers ask for a model *role* ("chat" for the conversational stream,
+// "vision" for document and face analysis) and get plain text back; the wire
+// format of whichever backend is configured stays inside its provider.
+//
+// Implementations live in llmGateway.ts and llmMock.ts; llmProvider.ts picks
+// one from the environment.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type ModelRole = "chat" | "vision";
+
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string | LlmContentPart[];
+}
+
+export interface LlmRequest {
+  role: ModelRole;
+  messages: LlmMessage[];
+}
+
+export interface JsonCompletion<T> {
+  /** null when the reply held no parseable JSON object. */
+  json: T | null;
+  raw: string;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  /** Streams the reply as plain text chunks. */
+  streamChat(request: LlmRequest): Promise<ReadableStream<string>>;
+  /** Returns the whole reply with the first JSON object in it parsed. */
+  completeJson<T>(request: LlmRequest): Promise<JsonCompletion<T>>;
+}
+
+/** A provider failure that should reach the client with a specific status. */
+export class LlmError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Pulls the first {...} block out of a model reply, tolerating markdown fences and prose. */
+export function extractJson<T>(text: string): T | null {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[0]) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** Flattens a message's content to the text parts only. */
+export function messageText(message: LlmMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content.map((part) => (part.type === "text" ? part.text : "")).join(" ");
+}
+
+/** Reads a text stream to the end. */
+export async function collectText(stream: ReadableStream<string>): Promise<string> {
+  const reader = stream.getReader();
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    text += value;
+  }
+}
@@ -0,0 +1,96 @@
+// Lovable AI gateway provider (OpenAI-compatible chat completions API).
+
+import { extractJson, LlmError, type JsonCompletion, type LlmProvider, type LlmRequest, type ModelRole } from "./llm.ts";
+
+const GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+
+export interface GatewayOptions {
+  apiKey: string;
+  models: Record<ModelRole, string>;
+}
+
+/** Splits the gateway's SSE byte stream into text deltas. */
+function toTextStream(body: ReadableStream<Uint8Array>): ReadableStream<string> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = "";
+
+  return new ReadableStream<string>({
+    async pull(controller) {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        buffer += decoder.decode(value, { stream: true });
+
+        let emitted = false;
+        let idx: number;
+        while ((idx = buffer.indexOf("\n")) !== -1) {
+          let line = buffer.slice(0, idx);
+          buffer = buffer.slice(idx + 1);
+          if (line.endsWith("\r")) line = line.slice(0, -1);
+          if (!line.startsWith("data: ")) continue;
+          const json = line.slice(6).trim();
+          if (json === "[DONE]") {
+            controller.close();
+            reader.cancel().catch(() => {});
+            return;
+          }
+          try {
+            const text = JSON.parse(json).choices?.[0]?.delta?.content;
+            if (text) {
+              controller.enqueue(text);
+              emitted = true;
+            }
+          } catch {
+            // Skip malformed upstream frames
+          }
+        }
+        if (emitted) return;
+      }
+    },
+    cancel() {
+      return reader.cancel();
+    },
+  });
+}
+
+export function createGatewayProvider({ apiKey, models }: GatewayOptions): LlmProvider {
+  async function call(request: LlmRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(GATEWAY_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ model: models[request.role], messages: request.messages, stream }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) throw new LlmError("Rate limit exceeded. Please try again later.", 429);
+      if (response.status === 402) throw new LlmError("Usage limit reached. Please add credits.", 402);
+      const t = await response.text();
+      console.error("AI gateway error:", response.status, t);
+      throw new LlmError("AI gateway error", 500);
+    }
+    return response;
+  }
+
+  return {
+    name: "lovable",
+
+    async streamChat(request) {
+      const response = await call(request, true);
+      return toTextStream(response.body!);
+    },
+
+    async completeJson<T>(request: LlmRequest): Promise<JsonCompletion<T>> {
+      const response = await call(request, false);
+      const result = await response.json();
+      const raw: string = result.choices?.[0]?.message?.content || "";
+      return { json: extractJson<T>(raw), raw };
+    },
+  };
+}
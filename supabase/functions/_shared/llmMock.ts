@@ -0,0 +1,132 @@
+// Deterministic, network-free LLM provider for CI and local runs.
+//
+// Each request is answered by the first fixture whose role and `contains`
+// substrings match the request text (system prompt plus every message). The
+// built-in fixtures walk one applicant, RAVI KUMAR, through the whole flow with
+// documents that pass every deterministic check. Extra fixtures passed in (or
+// set as JSON in LLM_MOCK_FIXTURES) are tried before the built-in ones.
+
+import { LlmError, extractJson, messageText, type LlmProvider, type LlmRequest, type ModelRole } from "./llm.ts";
+
+export interface MockFixture {
+  /** Omit to answer both roles. */
+  role?: ModelRole;
+  /** Every substring must appear in the request text. */
+  contains?: string | string[];
+  reply: string;
+}
+
+const DOCUMENT_PROMPT = "KYC document forensic analyst";
+
+const MOCK_IDENTITY = { name: "RAVI KUMAR", dob: "01/01/1990", gender: "Male" };
+
+function documentReply(documentType: "PAN" | "Aadhaar", idNumber: string): string {
+  return JSON.stringify({
+    documentType,
+    isAuthentic: true,
+    confidenceScore: 94,
+    tamperedAreas: [],
+    formatValid: true,
+    securityFeatures: { detected: ["Government emblem", "Hologram area"], missing: [] },
+    extractedData: { ...MOCK_IDENTITY, idNumber },
+    qrConsistent: null,
+    riskFlags: [],
+    overallVerdict: "GENUINE",
+    reason: `Mock ${documentType} card with consistent layout and valid number.`,
+  });
+}
+
+export const DEFAULT_FIXTURES: readonly MockFixture[] = [
+  { role: "vision", contains: [DOCUMENT_PROMPT, "uploaded PAN"], reply: documentReply("PAN", "ABCPK1234F") },
+  { role: "vision", contains: [DOCUMENT_PROMPT, "uploaded Aadhaar"], reply: documentReply("Aadhaar", "4999 9999 9993") },
+  { role: "vision", contains: DOCUMENT_PROMPT, reply: documentReply("PAN", "ABCPK1234F") },
+  {
+    role: "vision",
+    contains: "face localisation AI",
+    reply: JSON.stringify({
+      document: { x: 0.06, y: 0.3, width: 0.2, height: 0.36 },
+      selfie: { x: 0.3, y: 0.18, width: 0.4, height: 0.6 },
+      reason: "Mock provider: portrait on the card and face in the selfie found.",
+    }),
+  },
+  {
+    role: "vision",
+    contains: "face matching AI",
+    reply: JSON.stringify({ similarity: 91, samePerson: true, reason: "Mock provider: the selfie matches the card portrait." }),
+  },
+  {
+    role: "vision",
+    contains: "presentation attack detection",
+    reply: JSON.stringify({ spoofLikelihood: 8, indicators: [], reason: "Mock provider: natural skin texture and lighting, no screen or paper visible." }),
+  },
+  {
+    role: "vision",
+    contains: "liveness detection AI",
+    reply: JSON.stringify({
+      challenges: ["blink", "turn_left", "smile", "move_closer"].map((prompt) => ({ prompt, performed: true, confidence: 92, reason: "Mock provider: prompt performed." })),
+      sameFace: true,
+      reason: "Mock provider: the same live person responds to every prompt.",
+    }),
+  },
+  { role: "chat", contains: "CURRENT STEP: EMPLOYMENT", reply: "Welcome to OnboardX! 👋 Are you salaried, a freelancer, a business owner or a student?" },
+  { role: "chat", contains: "CURRENT STEP: PAN", reply: "Great! Please upload your PAN card using the + button." },
+  { role: "chat", contains: "CURRENT STEP: AADHAAR", reply: "Thanks! Now please upload your Aadhaar card using the + button." },
+  { role: "chat", contains: "CURRENT STEP: INCOME", reply: "Documents verified ✅ What is your monthly income in INR?" },
+  { role: "chat", contains: "CURRENT STEP: FACE", reply: "Next up is face verification — the camera will open now. 📸" },
+  { role: "chat", contains: "CURRENT STEP: RISK", reply: "Running risk scoring on your profile…" },
+  { role: "chat", contains: "CURRENT STEP: ACCOUNT", reply: "Your account is being created. 🎉" },
+  { role: "chat", contains: "CURRENT STEP: EMAIL", reply: "Would you like your account details on email? Type your address or 'skip'." },
+  { role: "chat", reply: "Happy to help with anything else about your new account." },
+];
+
+/** Parses LLM_MOCK_FIXTURES. Throws when the JSON is not an array of fixtures. */
+export function parseMockFixtures(json: string): MockFixture[] {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed) || !parsed.every((f) => f && typeof f === "object" && typeof f.reply === "string")) {
+    throw new Error("LLM_MOCK_FIXTURES must be a JSON array of { role?, contains?, reply } objects");
+  }
+  return parsed as MockFixture[];
+}
+
+function requestText(request: LlmRequest): string {
+  return request.messages.map(messageText).join("\n");
+}
+
+/** Splits a reply into word-sized chunks so consumers see a realistic stream. */
+function chunk(reply: string): string[] {
+  return reply.match(/\S+\s*/g) ?? [reply];
+}
+
+export function createMockProvider(fixtures: readonly MockFixture[] = []): LlmProvider {
+  const all = [...fixtures, ...DEFAULT_FIXTURES];
+
+  function reply(request: LlmRequest): string {
+    const text = requestText(request);
+    const fixture = all.find((f) => {
+      if (f.role && f.role !== request.role) return false;
+      const needles = f.contains === undefined ? [] : Array.isArray(f.contains) ? f.contains : [f.contains];
+      return needles.every((n) => text.includes(n));
+    });
+    if (!fixture) throw new LlmError(`No mock fixture matches this ${request.role} request`, 500);
+    return fixture.reply;
+  }
+
+  return {
+    name: "mock",
+
+    async streamChat(request) {
+      const parts = chunk(reply(request));
+      return new ReadableStream<string>({
+        start(controller) {
+          parts.forEach((p) => controller.enqueue(p));
+          controller.close();
+        },
+      });
+    },
+
+    async completeJson<T>(request: LlmRequest) {
+      const raw = reply(request);
+      return { json: extractJson<T>(raw), raw };
+    },
+  };
+}
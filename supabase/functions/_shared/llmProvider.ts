@@ -0,0 +1,34 @@
+// Picks the LLM provider from the LLM_PROVIDER env var:
+//   lovable (default)  Lovable AI gateway, needs LOVABLE_API_KEY
+//   mock               deterministic fixtures, no network (see llmMock.ts)
+//
+// Environment access is injected so this module stays runtime-agnostic.
+
+import type { LlmProvider } from "./llm.ts";
+import { createGatewayProvider } from "./llmGateway.ts";
+import { createMockProvider, parseMockFixtures } from "./llmMock.ts";
+
+export type EnvReader = (key: string) => string | undefined;
+
+export function createProvider(env: EnvReader): LlmProvider {
+  const name = env("LLM_PROVIDER") ?? "lovable";
+
+  if (name === "mock") {
+    const fixtures = env("LLM_MOCK_FIXTURES");
+    return createMockProvider(fixtures ? parseMockFixtures(fixtures) : undefined);
+  }
+
+  if (name === "lovable") {
+    const apiKey = env("LOVABLE_API_KEY");
+    if (!apiKey) throw new Error("LOVABLE_API_KEY is not configured");
+    return createGatewayProvider({
+      apiKey,
+      models: {
+        chat: env("LLM_CHAT_MODEL") ?? "google/gemini-3-flash-preview",
+        vision: env("LLM_VISION_MODEL") ?? "google/gemini-2.5-pro",
+      },
+    });
+  }
+
+  throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+}
@@ -0,0 +1,143 @@
+// Validated model output for the verification agents.
+//
+// Every check that acts on a vision model's JSON reply (document forensics,
+// liveness, anti-spoofing, face location and face match) reads it through
+// completeValidated: the reply is checked against the agent's schema below,
+// and a reply that is not JSON or does not fit the schema is asked for once
+// more, with the problems spelled out. A reply that is still unusable reaches
+// the agent as null, which its scoring turns into an "inconclusive" outcome;
+// the client asks the applicant to try again and never advances onboarding
+// on it.
+//
+// As in api.ts, the reply types are written out next to each agent and the
+// caller names the one its schema checks; keep the two in step. `zod`
+// resolves as in api.ts.
+
+import { z } from "zod";
+import type { LlmMessage, LlmProvider, LlmRequest } from "./llm.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/**
+ * passed        the check ran and the applicant may continue
+ * failed        the check ran and the applicant may not
+ * inconclusive  the check could not reach a verdict; the applicant tries again
+ */
+export type CheckOutcome = "passed" | "failed" | "inconclusive";
+
+export interface ValidatedCompletion<T> {
+  /** null when no attempt produced a reply that fits the schema. */
+  value: T | null;
+  /** The last reply, kept for the record when value is null. */
+  raw: string;
+  attempts: number;
+  /** Why the last reply was rejected; empty when value is set. */
+  issues: string[];
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** The first request and one retry. */
+export const MODEL_OUTPUT_ATTEMPTS = 2;
+
+// ── Schemas ───────────────────────────────────────────────────────────────────
+
+const score = z.number().finite().min(0).max(100);
+const text = z.string();
+
+/** DocumentVerification in api.ts. */
+export const DocumentReportSchema = z.object({
+  documentType: text,
+  isAuthentic: z.boolean(),
+  confidenceScore: score,
+  tamperedAreas: z.array(text),
+  formatValid: z.boolean(),
+  securityFeatures: z.object({ detected: z.array(text), missing: z.array(text) }).optional(),
+  extractedData: z.object({
+    name: text.nullable(),
+    idNumber: text.nullable(),
+    dob: text.nullable(),
+    gender: text.nullable(),
+  }).partial().optional(),
+  qrConsistent: z.boolean().nullable().default(null),
+  riskFlags: z.array(text).optional(),
+  overallVerdict: z.enum(["GENUINE", "SUSPICIOUS", "LIKELY_FAKE"]),
+  reason: text,
+});
+
+/** LivenessAssessment in liveness.ts. */
+export const LivenessAssessmentSchema = z.object({
+  challenges: z.array(z.object({ prompt: text, performed: z.boolean(), confidence: score, reason: text })).min(1),
+  sameFace: z.boolean(),
+  reason: text,
+});
+
+/** SpoofModelAssessment in antiSpoof.ts. */
+export const SpoofModelAssessmentSchema = z.object({
+  spoofLikelihood: score,
+  indicators: z.array(text),
+  reason: text,
+});
+
+const faceBox = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+/** FaceLocateAssessment in faceMatch.ts. */
+export const FaceLocateAssessmentSchema = z.object({
+  document: faceBox.nullable(),
+  selfie: faceBox.nullable(),
+  reason: text,
+});
+
+/** FaceMatchAssessment in faceMatch.ts. */
+export const FaceMatchAssessmentSchema = z.object({
+  similarity: score,
+  samePerson: z.boolean(),
+  reason: text,
+});
+
+// ── Completion ────────────────────────────────────────────────────────────────
+
+function issuesOf(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join(".") || "(reply)"}: ${issue.message}`);
+}
+
+/**
+ * Asks for a JSON reply and validates it, retrying once with the problems
+ * when the reply does not parse or fit. Provider errors are not retried: they
+ * propagate as before.
+ */
+export async function completeValidated<T>(
+  llm: LlmProvider,
+  request: LlmRequest,
+  schema: z.ZodTypeAny,
+): Promise<ValidatedCompletion<T>> {
+  let messages: LlmMessage[] = request.messages;
+  let raw = "";
+  let issues: string[] = [];
+  for (let attempt = 1; attempt <= MODEL_OUTPUT_ATTEMPTS; attempt++) {
+    const completion = await llm.completeJson<unknown>({ ...request, messages });
+    raw = completion.raw;
+    if (completion.json === null) {
+      issues = ["The reply did not contain a JSON object"];
+    } else {
+      const result = schema.safeParse(completion.json);
+      if (result.success) return { value: result.data as T, raw, attempts: attempt, issues: [] };
+      issues = issuesOf(result.error);
+    }
+    console.log(JSON.stringify({ event: "model_output_invalid", role: request.role, attempt, issues }));
+    messages = [
+      ...request.messages,
+      { role: "assistant", content: raw },
+      {
+        role: "user",
+        content: `That reply could not be used (${issues.join("; ")}). Respond again with ONLY the raw JSON object in exactly the format the instructions give.`,
+      },
+    ];
+  }
+  return { value: null, raw, attempts: MODEL_OUTPUT_ATTEMPTS, issues };
+}
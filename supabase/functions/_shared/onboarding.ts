@@ -0,0 +1,347 @@
+// Deterministic onboarding state machine shared by the client (ChatPage) and the
+// onboardx-chat edge function. The machine owns every step transition; the LLM
+// only writes prose for whatever step the machine is currently in.
+//
+// Keep this module free of runtime-specific APIs (no Deno, no DOM) so it can be
+// imported from both sides.
+
+import type { ReviewDecision, ReviewStatus } from "./review.ts";
+import type { ScreeningOutcome } from "./screening.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type OnboardingStep =
+  | "employment"
+  | "pan"
+  | "aadhaar"
+  | "income"
+  | "statement"
+  | "face"
+  | "risk"
+  | "account"
+  | "email"
+  | "done";
+
+export type EmploymentType = "salaried" | "freelancer" | "business" | "student";
+
+export type DocumentType = "PAN" | "Aadhaar";
+
+export interface IdentitySummary {
+  name: string | null;
+  dob: string | null;
+}
+
+/** Monthly outgoings declared at the income step, in INR. */
+export interface MonthlyObligations {
+  /** Total of existing loan EMIs. */
+  emi: number;
+  rent: number;
+  /** What the applicant pays towards credit cards each month. */
+  creditCardDues: number;
+}
+
+export interface OnboardingContext {
+  employmentType: EmploymentType | null;
+  panVerified: boolean;
+  aadhaarVerified: boolean;
+  /** Name and DOB read off the PAN card; the Aadhaar card must match it. */
+  panIdentity: IdentitySummary | null;
+  /** Documents verify-document found SUSPICIOUS; they send the application to manual review. */
+  suspiciousDocuments: DocumentType[];
+  monthlyIncome: number | null;
+  obligations: MonthlyObligations | null;
+  /** Monthly income supported by the uploaded bank statement; null until verified or when skipped. */
+  verifiedIncome: number | null;
+  faceVerified: boolean;
+  riskScored: boolean;
+  /** Sanctions/PEP/adverse-media screening of the PAN identity, run before the account is opened. */
+  screening: ScreeningOutcome | null;
+  /** Manual review of the application (see review.ts); null when none was needed. */
+  review: ReviewStatus | null;
+  accountCreated: boolean;
+  emailSent: boolean;
+}
+
+export interface OnboardingMachineState {
+  step: OnboardingStep;
+  context: OnboardingContext;
+}
+
+export type OnboardingEvent =
+  | { type: "EMPLOYMENT_SELECTED"; employmentType: EmploymentType }
+  | { type: "DOCUMENT_VERIFIED"; documentType: DocumentType; identity?: IdentitySummary; identityMatched?: boolean; suspicious?: boolean }
+  | { type: "INCOME_SUBMITTED"; monthlyIncome: number; obligations: MonthlyObligations }
+  | { type: "STATEMENT_VERIFIED"; verifiedIncome: number }
+  | { type: "STATEMENT_SKIPPED" }
+  | { type: "FACE_VERIFIED" }
+  | { type: "RISK_SCORED" }
+  | { type: "SCREENING_COMPLETED"; outcome: ScreeningOutcome }
+  | { type: "REVIEW_REQUESTED" }
+  | { type: "REVIEW_DECIDED"; decision: ReviewDecision; documentType?: DocumentType }
+  | { type: "ACCOUNT_CREATED" }
+  | { type: "EMAIL_SENT" }
+  | { type: "EMAIL_SKIPPED" };
+
+export interface TransitionResult {
+  state: OnboardingMachineState;
+  accepted: boolean;
+  reason?: string;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+export const ONBOARDING_STEPS: readonly OnboardingStep[] = [
+  "employment",
+  "pan",
+  "aadhaar",
+  "income",
+  "statement",
+  "face",
+  "risk",
+  "account",
+  "email",
+  "done",
+];
+
+export const MIN_MONTHLY_INCOME = 500;
+
+const STEP_INSTRUCTIONS: Record<OnboardingStep, string> = {
+  employment: "Ask if they are a freelancer, salaried employee, business owner, or student.",
+  pan: "Ask them to upload their PAN card using the + button.",
+  aadhaar: "Ask them to upload their Aadhaar card using the + button.",
+  income: "Ask for their monthly income in INR to assess their financial profile. The app then asks about existing EMIs, rent and credit card dues itself.",
+  statement: "Ask them to upload a bank statement for the last 3–6 months (CSV or PDF) using the + button so their income can be verified, or type 'skip'.",
+  face: "Tell them face verification is next and the camera will open now.",
+  risk: "Tell them you are running risk scoring on their profile.",
+  account: "Tell them their account is being created.",
+  email: "Ask if they want the account details on email, or type 'skip'.",
+  done: "Onboarding is complete. Answer any follow-up questions briefly.",
+};
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function isOnboardingStep(value: unknown): value is OnboardingStep {
+  return typeof value === "string" && (ONBOARDING_STEPS as readonly string[]).includes(value);
+}
+
+export function initialOnboardingState(): OnboardingMachineState {
+  return {
+    step: "employment",
+    context: {
+      employmentType: null,
+      panVerified: false,
+      aadhaarVerified: false,
+      panIdentity: null,
+      suspiciousDocuments: [],
+      monthlyIncome: null,
+      obligations: null,
+      verifiedIncome: null,
+      faceVerified: false,
+      riskScored: false,
+      screening: null,
+      review: null,
+      accountCreated: false,
+      emailSent: false,
+    },
+  };
+}
+
+export function detectEmployment(text: string): EmploymentType | null {
+  const t = text.toLowerCase();
+  if (t.includes("freelan")) return "freelancer";
+  if (t.includes("salar")) return "salaried";
+  if (t.includes("business") || t.includes("owner")) return "business";
+  if (t.includes("student")) return "student";
+  return null;
+}
+
+/** Why an income figure is unacceptable, or null when it is fine. */
+export function checkMonthlyIncome(monthlyIncome: number): string | null {
+  if (!Number.isFinite(monthlyIncome) || monthlyIncome < MIN_MONTHLY_INCOME) {
+    return `Monthly income must be at least ₹${MIN_MONTHLY_INCOME}.`;
+  }
+  return null;
+}
+
+/** Students skip the income question and go straight to face verification. */
+function stepAfterAadhaar(context: OnboardingContext): OnboardingStep {
+  return context.employmentType === "student" ? "face" : "income";
+}
+
+function flagDocument(context: OnboardingContext, documentType: DocumentType, suspicious: boolean | undefined): DocumentType[] {
+  const others = context.suspiciousDocuments.filter((d) => d !== documentType);
+  return suspicious ? [...others, documentType] : others;
+}
+
+function reject(state: OnboardingMachineState, reason: string): TransitionResult {
+  return { state, accepted: false, reason };
+}
+
+function advance(state: OnboardingMachineState, step: OnboardingStep, patch: Partial<OnboardingContext>): TransitionResult {
+  return { state: { step, context: { ...state.context, ...patch } }, accepted: true };
+}
+
+// ── Transitions ───────────────────────────────────────────────────────────────
+
+/**
+ * Applies an event to the machine. Events that are not valid for the current
+ * step are rejected with a human-readable reason and leave the state untouched.
+ */
+export function transition(state: OnboardingMachineState, event: OnboardingEvent): TransitionResult {
+  const { step } = state;
+
+  switch (event.type) {
+    case "EMPLOYMENT_SELECTED":
+      if (step !== "employment") return reject(state, "Employment type has already been recorded.");
+      return advance(state, "pan", { employmentType: event.employmentType });
+
+    case "DOCUMENT_VERIFIED":
+      if (step === "employment") return reject(state, "Employment type must be selected before uploading documents.");
+      if (step === "pan") {
+        if (event.documentType !== "PAN") return reject(state, "Please upload your PAN card first.");
+        // The Aadhaar match and screening both run against this name
+        if (!event.identity?.name?.trim()) {
+          return reject(state, "The name on the PAN card could not be read. Please upload a clearer photo of your PAN card.");
+        }
+        return advance(state, "aadhaar", {
+          panVerified: true,
+          panIdentity: event.identity ?? null,
+          suspiciousDocuments: flagDocument(state.context, "PAN", event.suspicious),
+        });
+      }
+      if (step === "aadhaar") {
+        if (event.documentType !== "Aadhaar") return reject(state, "Please upload your Aadhaar card next.");
+        if (state.context.panIdentity && event.identityMatched !== true) {
+          return reject(state, "The name or date of birth on the Aadhaar card does not match the PAN card.");
+        }
+        return advance(state, stepAfterAadhaar(state.context), {
+          aadhaarVerified: true,
+          suspiciousDocuments: flagDocument(state.context, "Aadhaar", event.suspicious),
+        });
+      }
+      return reject(state, "Documents have already been verified.");
+
+    case "INCOME_SUBMITTED": {
+      if (step !== "income") return reject(state, "Income is not expected at this step.");
+      const problem = checkMonthlyIncome(event.monthlyIncome);
+      if (problem) return reject(state, problem);
+      if (!Object.values(event.obligations).every((v) => Number.isFinite(v) && v >= 0)) {
+        return reject(state, "EMIs, rent and credit card dues must each be zero or more.");
+      }
+      return advance(state, "statement", { monthlyIncome: event.monthlyIncome, obligations: event.obligations });
+    }
+
+    case "STATEMENT_VERIFIED":
+      if (step !== "statement") return reject(state, "A bank statement is not expected at this step.");
+      if (!Number.isFinite(event.verifiedIncome) || event.verifiedIncome <= 0) {
+        return reject(state, "The bank statement shows no income credits.");
+      }
+      return advance(state, "face", { verifiedIncome: event.verifiedIncome });
+
+    case "STATEMENT_SKIPPED":
+      if (step !== "statement") return reject(state, "A bank statement is not expected at this step.");
+      return advance(state, "face", { verifiedIncome: null });
+
+    case "FACE_VERIFIED":
+      if (step !== "face") return reject(state, "Face verification is not expected at this step.");
+      return advance(state, "risk", { faceVerified: true });
+
+    case "RISK_SCORED":
+      if (step !== "risk") return reject(state, "Risk scoring is not expected at this step.");
+      return advance(state, "account", { riskScored: true });
+
+    case "SCREENING_COMPLETED":
+      if (step !== "account") return reject(state, "Screening is not expected at this step.");
+      // Only a reviewer clears a probable match; screening again does not
+      if (state.context.screening === "probable_match" && event.outcome !== "probable_match" && state.context.review !== "approved") {
+        return reject(state, "A probable watch-list match stands until compliance has reviewed it.");
+      }
+      return advance(state, "account", { screening: event.outcome });
+
+    case "REVIEW_REQUESTED":
+      if (step !== "account") return reject(state, "Manual review is not expected at this step.");
+      if (state.context.review === "pending" || state.context.review === "approved" || state.context.review === "rejected") {
+        return reject(state, "The application has already been reviewed or is awaiting review.");
+      }
+      return advance(state, "account", { review: "pending" });
+
+    case "REVIEW_DECIDED":
+      if (step !== "account" || state.context.review !== "pending") return reject(state, "No manual review is pending.");
+      if (event.decision === "approve") return advance(state, "account", { review: "approved" });
+      if (event.decision === "reject") return advance(state, "account", { review: "rejected" });
+      // A new PAN can change the identity, so everything checked against it runs again
+      if (event.documentType === "PAN") {
+        return advance(state, "pan", {
+          panVerified: false,
+          aadhaarVerified: false,
+          panIdentity: null,
+          suspiciousDocuments: [],
+          faceVerified: false,
+          riskScored: false,
+          screening: null,
+          review: "reupload_requested",
+        });
+      }
+      if (event.documentType === "Aadhaar") {
+        return advance(state, "aadhaar", {
+          aadhaarVerified: false,
+          suspiciousDocuments: state.context.suspiciousDocuments.filter((d) => d !== "Aadhaar"),
+          faceVerified: false,
+          riskScored: false,
+          review: "reupload_requested",
+        });
+      }
+      return reject(state, "A re-upload request must name the document.");
+
+    case "ACCOUNT_CREATED":
+      if (step !== "account") return reject(state, "Account creation is not expected at this step.");
+      if (state.context.screening === null) return reject(state, "Sanctions and PEP screening has not been completed.");
+      if (state.context.review === "pending") return reject(state, "Account creation is on hold pending manual review.");
+      if (state.context.review === "rejected") return reject(state, "The application was declined at manual review.");
+      if (state.context.review === "reupload_requested") {
+        return reject(state, "The documents uploaded again for manual review have not been reviewed yet.");
+      }
+      if (state.context.screening === "probable_match" && state.context.review !== "approved") {
+        return reject(state, "Account creation is on hold pending compliance review of a probable watch-list match.");
+      }
+      return advance(state, "email", { accountCreated: true });
+
+    case "EMAIL_SENT":
+    case "EMAIL_SKIPPED":
+      if (step !== "email") return reject(state, "Email is not expected at this step.");
+      return advance(state, "done", { emailSent: event.type === "EMAIL_SENT" });
+  }
+}
+
+// ── Prompting ─────────────────────────────────────────────────────────────────
+
+/**
+ * Describes the current step for the chat model. The model is told what to say
+ * for this step only — it never decides when to move on.
+ */
+export function describeStep(state: OnboardingMachineState): string {
+  const { step, context } = state;
+  const lines = [
+    `CURRENT STEP: ${step.toUpperCase()}`,
+    `INSTRUCTION: ${STEP_INSTRUCTIONS[step]}`,
+  ];
+
+  if (context.employmentType) lines.push(`Employment type: ${context.employmentType}.`);
+  if (context.panVerified) lines.push("PAN card: verified.");
+  if (context.aadhaarVerified) lines.push("Aadhaar card: verified.");
+  if (context.verifiedIncome !== null) lines.push(`Income verified from bank statement: ₹${context.verifiedIncome.toLocaleString("en-IN")}/month.`);
+  if (context.review === "pending") {
+    lines.push("The application is waiting for manual review: do not say the account has been created or when the review will finish.");
+  }
+  if (context.review === "rejected") {
+    lines.push("The application was declined at manual review: do not say an account will be created.");
+  }
+  if (context.review === "reupload_requested" && (step === "pan" || step === "aadhaar")) {
+    lines.push("A reviewer asked for this document to be uploaded again.");
+  }
+  if (context.employmentType === "student") {
+    lines.push("Student profile: never ask for income and never suggest high-value loans. Recommend a Student Savings Account and a Secured Student Card.");
+  }
+
+  return lines.join("\n");
+}
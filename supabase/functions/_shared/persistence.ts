@@ -0,0 +1,640 @@
+// Server-side persistence for onboarding sessions. Uses the service role, so it
+// must only ever be imported from edge functions (see store.ts for the contract
+// handlers program against).
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decode as base64Decode, encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import type { FunnelData } from "./analytics.ts";
+import { sealAuditEvent, type AuditEntry, type AuditEvent, type AuditEventType } from "./audit.ts";
+import { ACCEPTED_DOCUMENT_VERDICTS } from "./evidence.ts";
+import type { SessionHandoff } from "./handoff.ts";
+import type { StaffMember } from "./http.ts";
+import type { LivenessChallenge, LivenessPrompt } from "./liveness.ts";
+import { initialOnboardingState, type OnboardingStep } from "./onboarding.ts";
+import {
+  REVIEW_DECISION_STATUS,
+  type BehaviorSummary,
+  type ReviewCase,
+  type ReviewCaseDetail,
+  type ReviewOutcome,
+  type ReviewStatus,
+  type ReviewTrigger,
+  type ReviewVerification,
+} from "./review.ts";
+import { parseRiskModel, type RiskModelSet, type RiskResult } from "./risk.ts";
+import { restoreOnboarding, type SessionMessage, type SessionSnapshot } from "./session.ts";
+import {
+  bestEffort,
+  type OnboardingStore,
+  type RiskModelRole,
+  type StoredDocument,
+  type StoredSession,
+  type VerificationKind,
+} from "./store.ts";
+
+const DOCUMENT_BUCKET = "onboarding-documents";
+/** Seconds a reviewer's document link stays valid. */
+const REVIEW_URL_TTL = 600;
+/** PostgREST caps each response (1000 rows by default), so long reads are paged. */
+const PAGE_SIZE = 1000;
+/** Appends racing for the same place in a session's audit chain retry this many times in all. */
+const AUDIT_APPEND_ATTEMPTS = 5;
+const UNIQUE_VIOLATION = "23505";
+
+let client: SupabaseClient | null | undefined;
+
+/** Returns the service-role client, or null when the function has no database configured. */
+export function getServiceClient(): SupabaseClient | null {
+  if (client !== undefined) return client;
+  const url = Deno.env.get("SUPABASE_URL");
+  const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  client = url && key ? createClient(url, key, { auth: { persistSession: false } }) : null;
+  return client;
+}
+
+/** The Supabase-backed OnboardingStore, or null when no database is configured. */
+export function getStore(): OnboardingStore | null {
+  const db = getServiceClient();
+  if (!db) return null;
+  return {
+    createSession: () => createSession(db),
+    sessionExists: (sessionId) => sessionExists(db, sessionId),
+    loadSession: (sessionId, withDocument) => loadSession(db, sessionId, withDocument),
+    saveSession: (snapshot, version) => saveSession(db, snapshot, version),
+    openHandoff: (sessionId, expiresAt) => openHandoff(db, sessionId, expiresAt),
+    takeHandoff: (handoffId) => takeHandoff(db, handoffId),
+    recordDocument: (sessionId, doc) => recordDocument(db, sessionId, doc),
+    recordVerification: (sessionId, kind, verdict, result, documentId) =>
+      recordVerification(db, sessionId, kind, verdict, result, documentId),
+    recordRisk: (sessionId, risk, role) => recordRisk(db, sessionId, risk, role),
+    loadVerifiedDocument: (sessionId) => loadVerifiedDocument(db, sessionId),
+    loadVerifications: (sessionId) => loadVerifications(db, sessionId),
+    loadRiskResult: (sessionId) => loadRiskResult(db, sessionId),
+    openLivenessChallenge: (sessionId, prompts, expiresAt) => openLivenessChallenge(db, sessionId, prompts, expiresAt),
+    takeLivenessChallenge: (challengeId, sessionId) => takeLivenessChallenge(db, challengeId, sessionId),
+    loadRiskModels: () => loadRiskModels(db),
+    openReview: (sessionId, triggers, behavior) => openReview(db, sessionId, triggers, behavior),
+    listReviews: (status) => listReviews(db, status),
+    loadReview: (caseId) => loadReview(db, caseId),
+    decideReview: (caseId, outcome) => decideReview(db, caseId, outcome),
+    loadFunnelData: (since, until) => loadFunnelData(db, since, until),
+    appendAudit: (sessionId, entry) => appendAudit(db, sessionId, entry),
+    loadAuditTrail: (sessionId) => loadAuditTrail(db, sessionId),
+  };
+}
+
+/**
+ * The staff member a Supabase Auth access token belongs to. Staff are users
+ * whose app_metadata.role is "reviewer" or "admin"; everyone else gets null,
+ * as does every caller when no database is configured.
+ */
+export async function authenticateStaff(accessToken: string): Promise<StaffMember | null> {
+  const db = getServiceClient();
+  if (!db) return null;
+  const { data, error } = await db.auth.getUser(accessToken);
+  if (error || !data.user) return null;
+  const role = data.user.app_metadata?.role;
+  if (role !== "reviewer" && role !== "admin") return null;
+  return { id: data.user.id, email: data.user.email ?? data.user.id, role };
+}
+
+async function selectAll<T>(page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ── Sessions ──────────────────────────────────────────────────────────────────
+
+export async function createSession(db: SupabaseClient): Promise<string> {
+  const state = initialOnboardingState();
+  const { data, error } = await db
+    .from("onboarding_sessions")
+    .insert({ step: state.step, state })
+    .select("id")
+    .single();
+  if (error) throw error;
+  await bestEffort("step event", () => recordStepEntered(db, data.id, state.step));
+  return data.id;
+}
+
+/** Keeps the first time a session entered each step, for the funnel's time-per-step figures. */
+async function recordStepEntered(db: SupabaseClient, sessionId: string, step: OnboardingStep): Promise<void> {
+  const { error } = await db
+    .from("onboarding_step_events")
+    .upsert({ session_id: sessionId, step }, { onConflict: "session_id,step", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function sessionExists(db: SupabaseClient, sessionId: string): Promise<boolean> {
+  const { count, error } = await db
+    .from("onboarding_sessions")
+    .select("id", { count: "exact", head: true })
+    .eq("id", sessionId);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+}
+
+export async function loadSession(db: SupabaseClient, sessionId: string, withDocument = true): Promise<StoredSession | null> {
+  const { data: session, error } = await db
+    .from("onboarding_sessions")
+    .select("id, state, risk_result, account, version")
+    .eq("id", sessionId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!session) return null;
+
+  const { data: rows, error: msgError } = await db
+    .from("onboarding_messages")
+    .select("role, content, is_file, is_account_details, from_server")
+    .eq("session_id", sessionId)
+    .order("position");
+  if (msgError) throw msgError;
+
+  const messages: SessionMessage[] = (rows ?? []).map((r) => ({
+    role: r.role,
+    content: r.content,
+    ...(r.is_file ? { isFile: true } : {}),
+    ...(r.is_account_details ? { isAccountDetails: true } : {}),
+    ...(r.from_server ? { fromServer: true } : {}),
+  }));
+
+  const snapshot: StoredSession = {
+    sessionId: session.id,
+    onboarding: restoreOnboarding(session.state),
+    riskResult: session.risk_result,
+    account: session.account,
+    messages,
+    version: session.version,
+  };
+
+  if (!withDocument) return snapshot;
+  const documentBase64 = await bestEffort("load document", () => loadLatestDocument(db, sessionId));
+  if (documentBase64) snapshot.documentBase64 = documentBase64;
+
+  return snapshot;
+}
+
+/**
+ * Updates the session state and upserts its transcript, if the session is
+ * still at version. Messages are keyed by position; rows past the end of the
+ * transcript (e.g. removed "scanning…" placeholders) are deleted.
+ */
+export async function saveSession(db: SupabaseClient, snapshot: SessionSnapshot, version: number): Promise<boolean> {
+  const { sessionId, onboarding, riskResult, account, messages } = snapshot;
+
+  const { data: updated, error } = await db
+    .from("onboarding_sessions")
+    .update({
+      step: onboarding.step,
+      state: onboarding,
+      risk_result: riskResult,
+      account,
+      version: version + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", sessionId)
+    .eq("version", version)
+    .select("id");
+  if (error) throw error;
+  if (!updated?.length) return false;
+  await bestEffort("step event", () => recordStepEntered(db, sessionId, onboarding.step));
+
+  if (messages.length) {
+    const { error: upsertError } = await db.from("onboarding_messages").upsert(
+      messages.map((m, position) => ({
+        session_id: sessionId,
+        position,
+        role: m.role,
+        content: m.content,
+        is_file: !!m.isFile,
+        is_account_details: !!m.isAccountDetails,
+        from_server: !!m.fromServer,
+      })),
+      { onConflict: "session_id,position" },
+    );
+    if (upsertError) throw upsertError;
+  }
+
+  const { error: trimError } = await db
+    .from("onboarding_messages")
+    .delete()
+    .eq("session_id", sessionId)
+    .gte("position", messages.length);
+  if (trimError) throw trimError;
+  return true;
+}
+
+export async function openHandoff(db: SupabaseClient, sessionId: string, expiresAt: string): Promise<string> {
+  const { data, error } = await db
+    .from("session_handoffs")
+    .insert({ session_id: sessionId, expires_at: expiresAt })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+}
+
+/** Only one request can flip claimed_at, so a handoff link works once. */
+export async function takeHandoff(db: SupabaseClient, handoffId: string): Promise<SessionHandoff | null> {
+  const { data, error } = await db
+    .from("session_handoffs")
+    .update({ claimed_at: new Date().toISOString() })
+    .eq("id", handoffId)
+    .is("claimed_at", null)
+    .select("id, session_id, expires_at")
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { id: data.id, sessionId: data.session_id, expiresAt: data.expires_at } : null;
+}
+
+// ── Documents & results ───────────────────────────────────────────────────────
+
+export async function recordDocument(
+  db: SupabaseClient,
+  sessionId: string,
+  doc: StoredDocument,
+): Promise<string> {
+  const bytes = base64Decode(doc.base64);
+  const sha256 = await sha256Hex(bytes);
+  const storagePath = `${sessionId}/${sha256}`;
+
+  const { error: uploadError } = await db.storage
+    .from(DOCUMENT_BUCKET)
+    .upload(storagePath, bytes, { contentType: doc.mimeType, upsert: true });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await db
+    .from("onboarding_documents")
+    .insert({
+      session_id: sessionId,
+      document_type: doc.documentType,
+      mime_type: doc.mimeType,
+      storage_path: storagePath,
+      sha256,
+      qr_data: doc.qrData,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+}
+
+async function loadLatestDocument(db: SupabaseClient, sessionId: string): Promise<string | null> {
+  const { data, error } = await db
+    .from("onboarding_documents")
+    .select("storage_path")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? await downloadDocument(db, data.storage_path) : null;
+}
+
+async function downloadDocument(db: SupabaseClient, storagePath: string): Promise<string> {
+  const { data: blob, error } = await db.storage.from(DOCUMENT_BUCKET).download(storagePath);
+  if (error) throw error;
+  return base64Encode(new Uint8Array(await blob.arrayBuffer()));
+}
+
+/** Follows the latest accepted document verification to the card it was run on. */
+export async function loadVerifiedDocument(db: SupabaseClient, sessionId: string): Promise<StoredDocument | null> {
+  const { data, error } = await db
+    .from("verification_results")
+    .select("document:onboarding_documents!inner(document_type, mime_type, storage_path, qr_data)")
+    .eq("session_id", sessionId)
+    .eq("kind", "document")
+    .in("verdict", ACCEPTED_DOCUMENT_VERDICTS)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data?.document) return null;
+
+  const { document_type, mime_type, storage_path, qr_data } = data.document;
+  return { documentType: document_type, mimeType: mime_type, base64: await downloadDocument(db, storage_path), qrData: qr_data };
+}
+
+export async function recordVerification(
+  db: SupabaseClient,
+  sessionId: string,
+  kind: VerificationKind,
+  verdict: string | null,
+  result: unknown,
+  documentId?: string | null,
+): Promise<void> {
+  const { error } = await db.from("verification_results").insert({
+    session_id: sessionId,
+    document_id: documentId ?? null,
+    kind,
+    verdict,
+    result,
+  });
+  if (error) throw error;
+}
+
+export async function recordRisk(db: SupabaseClient, sessionId: string, risk: RiskResult, role: RiskModelRole): Promise<void> {
+  const { error } = await db.from("risk_results").insert({
+    session_id: sessionId,
+    model_version: risk.modelVersion,
+    role,
+    probability: risk.probability,
+    level: risk.level,
+    dti: risk.dti,
+    foir: risk.foir,
+    result: risk,
+  });
+  if (error) throw error;
+}
+
+export async function loadVerifications(db: SupabaseClient, sessionId: string): Promise<ReviewVerification[]> {
+  const { data, error } = await db
+    .from("verification_results")
+    .select("kind, verdict, result, created_at")
+    .eq("session_id", sessionId)
+    .order("created_at");
+  if (error) throw error;
+  return (data ?? []).map((v) => ({ kind: v.kind, verdict: v.verdict, result: v.result, createdAt: v.created_at }));
+}
+
+export async function loadRiskResult(db: SupabaseClient, sessionId: string): Promise<RiskResult | null> {
+  const { data, error } = await db
+    .from("risk_results")
+    .select("result")
+    .eq("session_id", sessionId)
+    .eq("role", "champion")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.result ?? null;
+}
+
+export async function openLivenessChallenge(
+  db: SupabaseClient,
+  sessionId: string,
+  prompts: LivenessPrompt[],
+  expiresAt: string,
+): Promise<string> {
+  const { data, error } = await db
+    .from("liveness_challenges")
+    .insert({ session_id: sessionId, prompts, expires_at: expiresAt })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+}
+
+/** Only one request can flip answered_at, so a challenge cannot be answered twice. */
+export async function takeLivenessChallenge(db: SupabaseClient, challengeId: string, sessionId: string): Promise<LivenessChallenge | null> {
+  const { data, error } = await db
+    .from("liveness_challenges")
+    .update({ answered_at: new Date().toISOString() })
+    .eq("id", challengeId)
+    .eq("session_id", sessionId)
+    .is("answered_at", null)
+    .select("id, session_id, prompts, expires_at")
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { id: data.id, sessionId: data.session_id, prompts: data.prompts as LivenessPrompt[], expiresAt: data.expires_at } : null;
+}
+
+/** Throws when a stored definition is malformed rather than scoring with it. */
+export async function loadRiskModels(db: SupabaseClient): Promise<RiskModelSet | null> {
+  const { data, error } = await db
+    .from("risk_models")
+    .select("version, status, definition")
+    .in("status", ["champion", "challenger"]);
+  if (error) throw error;
+
+  const definition = (status: RiskModelRole) => {
+    const row = data.find((r) => r.status === status);
+    return row ? parseRiskModel({ ...(row.definition as object), version: row.version }) : null;
+  };
+  const champion = definition("champion");
+  return champion ? { champion, challenger: definition("challenger") } : null;
+}
+
+// ── Review queue ──────────────────────────────────────────────────────────────
+
+const REVIEW_COLUMNS = "id, session_id, status, triggers, behavior, decision, decision_reason, document_type, reviewed_by, decided_at, created_at";
+
+interface ReviewRow {
+  id: string;
+  session_id: string;
+  status: ReviewStatus;
+  triggers: ReviewTrigger[];
+  behavior: BehaviorSummary;
+  decision: ReviewOutcome["decision"] | null;
+  decision_reason: string | null;
+  document_type: ReviewOutcome["documentType"];
+  reviewed_by: string | null;
+  decided_at: string | null;
+  created_at: string;
+}
+
+function toReviewCase(row: ReviewRow): ReviewCase {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    status: row.status,
+    triggers: row.triggers,
+    behavior: row.behavior,
+    createdAt: row.created_at,
+    outcome: row.decision && row.decided_at
+      ? {
+        decision: row.decision,
+        reason: row.decision_reason ?? "",
+        documentType: row.document_type,
+        reviewer: row.reviewed_by ?? "",
+        decidedAt: row.decided_at,
+      }
+      : null,
+  };
+}
+
+export async function openReview(
+  db: SupabaseClient,
+  sessionId: string,
+  triggers: ReviewTrigger[],
+  behavior: BehaviorSummary,
+): Promise<string> {
+  const { data: open, error: openError } = await db
+    .from("review_cases")
+    .select("id")
+    .eq("session_id", sessionId)
+    .eq("status", "pending")
+    .maybeSingle();
+  if (openError) throw openError;
+  if (open) return open.id;
+
+  const { data, error } = await db
+    .from("review_cases")
+    .insert({ session_id: sessionId, status: "pending", triggers, behavior })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+}
+
+export async function listReviews(db: SupabaseClient, status?: ReviewStatus): Promise<ReviewCase[]> {
+  let query = db.from("review_cases").select(REVIEW_COLUMNS).order("created_at").limit(200);
+  if (status) query = query.eq("status", status);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as ReviewRow[]).map(toReviewCase);
+}
+
+export async function loadReview(db: SupabaseClient, caseId: string): Promise<ReviewCaseDetail | null> {
+  const { data: row, error } = await db.from("review_cases").select(REVIEW_COLUMNS).eq("id", caseId).maybeSingle();
+  if (error) throw error;
+  if (!row) return null;
+  const review = toReviewCase(row as ReviewRow);
+
+  const [session, documents, verifications, risk] = await Promise.all([
+    db.from("onboarding_sessions").select("state").eq("id", review.sessionId).maybeSingle(),
+    db.from("onboarding_documents").select("id, document_type, mime_type, storage_path, created_at")
+      .eq("session_id", review.sessionId).order("created_at"),
+    loadVerifications(db, review.sessionId),
+    loadRiskResult(db, review.sessionId),
+  ]);
+  for (const { error: queryError } of [session, documents]) {
+    if (queryError) throw queryError;
+  }
+
+  const documentRows = documents.data ?? [];
+  const { data: signed, error: signError } = documentRows.length
+    ? await db.storage.from(DOCUMENT_BUCKET).createSignedUrls(documentRows.map((d) => d.storage_path), REVIEW_URL_TTL)
+    : { data: [], error: null };
+  if (signError) throw signError;
+
+  return {
+    ...review,
+    context: session.data ? restoreOnboarding(session.data.state).context : null,
+    documents: documentRows.map((d, i) => ({
+      id: d.id,
+      documentType: d.document_type,
+      mimeType: d.mime_type,
+      url: signed?.[i]?.signedUrl ?? "",
+      createdAt: d.created_at,
+    })),
+    verifications,
+    risk,
+  };
+}
+
+export async function decideReview(db: SupabaseClient, caseId: string, outcome: ReviewOutcome): Promise<ReviewCase | null> {
+  const { data, error } = await db
+    .from("review_cases")
+    .update({
+      status: REVIEW_DECISION_STATUS[outcome.decision],
+      decision: outcome.decision,
+      decision_reason: outcome.reason,
+      document_type: outcome.documentType,
+      reviewed_by: outcome.reviewer,
+      decided_at: outcome.decidedAt,
+    })
+    .eq("id", caseId)
+    .eq("status", "pending")
+    .select(REVIEW_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toReviewCase(data as ReviewRow) : null;
+}
+
+// ── Analytics ─────────────────────────────────────────────────────────────────
+
+/** Sessions started in [since, until) and the step, verdict and risk rows written in it. */
+export async function loadFunnelData(db: SupabaseClient, since: string, until: string): Promise<FunnelData> {
+  const [sessions, stepEvents, verdicts, risks] = await Promise.all([
+    selectAll((from, to) => db.from("onboarding_sessions").select("id, step, created_at")
+      .gte("created_at", since).lt("created_at", until).order("id").range(from, to)),
+    selectAll((from, to) => db.from("onboarding_step_events").select("session_id, step, entered_at")
+      .gte("entered_at", since).lt("entered_at", until).order("id").range(from, to)),
+    selectAll((from, to) => db.from("verification_results").select("verdict").eq("kind", "document")
+      .gte("created_at", since).lt("created_at", until).order("id").range(from, to)),
+    selectAll((from, to) => db.from("risk_results").select("session_id, level, created_at").eq("role", "champion")
+      .gte("created_at", since).lt("created_at", until).order("id").range(from, to)),
+  ]);
+
+  return {
+    since,
+    until,
+    sessions: sessions.map((s) => ({ id: s.id, step: s.step, createdAt: s.created_at })),
+    stepEvents: stepEvents.map((e) => ({ sessionId: e.session_id, step: e.step, enteredAt: e.entered_at })),
+    documentVerdicts: verdicts.map((v) => v.verdict),
+    risks: risks.map((r) => ({ sessionId: r.session_id, level: r.level, createdAt: r.created_at })),
+  };
+}
+
+// ── Audit trail ───────────────────────────────────────────────────────────────
+
+interface AuditRow {
+  session_id: string;
+  sequence: number;
+  event_type: AuditEventType;
+  actor: string;
+  payload: Record<string, unknown>;
+  created_at: string;
+  prev_hash: string;
+  hash: string;
+}
+
+function toAuditEvent(row: AuditRow): AuditEvent {
+  return {
+    sessionId: row.session_id,
+    sequence: row.sequence,
+    eventType: row.event_type,
+    actor: row.actor,
+    payload: row.payload,
+    // Postgres formats timestamps its own way; the hash covers the ISO form it was written with
+    createdAt: new Date(row.created_at).toISOString(),
+    prevHash: row.prev_hash,
+    hash: row.hash,
+  };
+}
+
+/** Another append to the same session taking the next sequence first makes the insert fail; re-read and retry. */
+export async function appendAudit(db: SupabaseClient, sessionId: string, entry: AuditEntry): Promise<AuditEvent> {
+  for (let attempt = 1; ; attempt++) {
+    const { data: last, error } = await db
+      .from("audit_events")
+      .select("sequence, hash")
+      .eq("session_id", sessionId)
+      .order("sequence", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+
+    const event = await sealAuditEvent(sessionId, entry, last);
+    const { error: insertError } = await db.from("audit_events").insert({
+      session_id: event.sessionId,
+      sequence: event.sequence,
+      event_type: event.eventType,
+      actor: event.actor,
+      payload: event.payload,
+      created_at: event.createdAt,
+      prev_hash: event.prevHash,
+      hash: event.hash,
+    });
+    if (!insertError) return event;
+    if (insertError.code !== UNIQUE_VIOLATION || attempt === AUDIT_APPEND_ATTEMPTS) throw insertError;
+  }
+}
+
+export async function loadAuditTrail(db: SupabaseClient, sessionId: string): Promise<AuditEvent[]> {
+  const rows = await selectAll((from, to) => db.from("audit_events")
+    .select("session_id, sequence, event_type, actor, payload, created_at, prev_hash, hash")
+    .eq("session_id", sessionId).order("sequence").range(from, to));
+  return rows.map((row) => toAuditEvent(row as AuditRow));
+}
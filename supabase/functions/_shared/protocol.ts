@@ -0,0 +1,121 @@
+// Wire protocol for the onboardx-chat SSE stream.
+//
+// Every frame is a single `data:` line carrying one JSON-encoded ChatStreamEvent,
+// followed by a blank line. The stream ends with `data: [DONE]`.
+//
+//   data: {"type":"text_delta","text":"Great! Please upload"}
+//   data: {"type":"text_delta","text":" your PAN card."}
+//   data: {"type":"request_document","documentType":"PAN"}
+//   data: [DONE]
+//
+// Text deltas always come first; action events for the current onboarding step
+// are emitted once the model has finished writing. To add a new step action,
+// add an event variant here and map it in STEP_EVENTS — the client dispatcher
+// in ChatPage handles each variant explicitly.
+
+import type { DocumentType, OnboardingStep } from "./onboarding.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type ChatStreamEvent =
+  | { type: "text_delta"; text: string }
+  | { type: "request_document"; documentType: DocumentType }
+  | { type: "request_income" }
+  | { type: "request_statement" }
+  | { type: "start_face_verification" }
+  | { type: "run_risk_scoring" }
+  | { type: "show_account" }
+  | { type: "error"; message: string };
+
+export type ChatStreamEventType = ChatStreamEvent["type"];
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+export const STREAM_DONE = "[DONE]";
+
+const EVENT_TYPES: readonly ChatStreamEventType[] = [
+  "text_delta",
+  "request_document",
+  "request_income",
+  "request_statement",
+  "start_face_verification",
+  "run_risk_scoring",
+  "show_account",
+  "error",
+];
+
+const STEP_EVENTS: Partial<Record<OnboardingStep, ChatStreamEvent[]>> = {
+  pan: [{ type: "request_document", documentType: "PAN" }],
+  aadhaar: [{ type: "request_document", documentType: "Aadhaar" }],
+  income: [{ type: "request_income" }],
+  statement: [{ type: "request_statement" }],
+  face: [{ type: "start_face_verification" }],
+  risk: [{ type: "run_risk_scoring" }],
+  account: [{ type: "show_account" }],
+};
+
+// ── Encoding ──────────────────────────────────────────────────────────────────
+
+/** Action events the server emits after the model's reply for a given step. */
+export function eventsForStep(step: OnboardingStep): ChatStreamEvent[] {
+  return STEP_EVENTS[step] ?? [];
+}
+
+export function encodeEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+export function encodeDone(): string {
+  return `data: ${STREAM_DONE}\n\n`;
+}
+
+/**
+ * Frames a model's text stream as protocol events and, for the onboarding chat,
+ * appends the action events for the current step.
+ */
+export function toEventStream(upstream: ReadableStream<string>, step?: OnboardingStep): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const reader = upstream.getReader();
+
+  return new ReadableStream({
+    async start(controller) {
+      const emit = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(encodeEvent(event)));
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          if (value) emit({ type: "text_delta", text: value });
+        }
+        if (step) eventsForStep(step).forEach(emit);
+      } catch (err) {
+        console.error("Chat stream error:", err);
+        emit({ type: "error", message: "The assistant stopped responding. Please try again." });
+      }
+
+      controller.enqueue(encoder.encode(encodeDone()));
+      controller.close();
+    },
+  });
+}
+
+// ── Decoding ──────────────────────────────────────────────────────────────────
+
+export function isChatStreamEvent(value: unknown): value is ChatStreamEvent {
+  if (!value || typeof value !== "object") return false;
+  const type = (value as { type?: unknown }).type;
+  return typeof type === "string" && (EVENT_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Parses one SSE line. Returns the event, "done" for the terminator, or null for
+ * comments, blank lines and frames that are not part of the protocol. Throws on
+ * a `data:` line whose JSON is incomplete so the caller can wait for more bytes.
+ */
+export function parseStreamLine(line: string): ChatStreamEvent | "done" | null {
+  if (!line.startsWith("data: ")) return null;
+  const payload = line.slice(6).trim();
+  if (payload === STREAM_DONE) return "done";
+  const parsed = JSON.parse(payload);
+  return isChatStreamEvent(parsed) ? parsed : null;
+}
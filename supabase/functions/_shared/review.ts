@@ -0,0 +1,144 @@
+// Manual review of applications the automated checks are not confident about.
+//
+// Before an account is opened the client works out which review triggers apply
+// (see reviewTriggers) and, if any do, parks the application in the review
+// queue instead of opening the account. onboarding-session works them out again
+// from the stored results when asked to open it, and parks the application
+// itself if the client missed one. A reviewer then approves it, rejects it
+// or asks for a document to be uploaded again; the decision is applied to the
+// stored session through the onboarding state machine so the applicant picks it
+// up on their next visit.
+//
+// Pure module: no Deno or DOM APIs.
+
+import type { DocumentType, OnboardingContext } from "./onboarding.ts";
+import type { RiskLevel, RiskResult } from "./risk.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/**
+ * document_suspicious  a document came back SUSPICIOUS from verify-document
+ * behavior             the in-browser behavioural fraud score reached BEHAVIOR_REVIEW_SCORE
+ * risk_high            the risk model scored the applicant High
+ * screening            a probable sanctions/PEP/adverse-media match
+ * reupload             a reviewer asked for a document again; the new one needs their look too
+ */
+export type ReviewTriggerCode = "document_suspicious" | "behavior" | "risk_high" | "screening" | "reupload";
+
+export interface ReviewTrigger {
+  code: ReviewTriggerCode;
+  detail: string;
+}
+
+export type ReviewStatus = "pending" | "approved" | "rejected" | "reupload_requested";
+
+export type ReviewDecision = "approve" | "reject" | "request_reupload";
+
+/** What useBehavioralFraud reported when the application was submitted. */
+export interface BehaviorSummary {
+  riskScore: number;
+  flags: string[];
+}
+
+export interface ReviewOutcome {
+  decision: ReviewDecision;
+  reason: string;
+  /** The document to upload again, for request_reupload. */
+  documentType: DocumentType | null;
+  reviewer: string;
+  decidedAt: string;
+}
+
+/** A queue entry as listed to reviewers. */
+export interface ReviewCase {
+  id: string;
+  sessionId: string;
+  status: ReviewStatus;
+  triggers: ReviewTrigger[];
+  behavior: BehaviorSummary;
+  createdAt: string;
+  outcome: ReviewOutcome | null;
+}
+
+export interface ReviewDocument {
+  id: string;
+  documentType: string | null;
+  mimeType: string;
+  /** Short-lived signed URL to the stored file. */
+  url: string;
+  createdAt: string;
+}
+
+export interface ReviewVerification {
+  kind: string;
+  verdict: string | null;
+  result: unknown;
+  createdAt: string;
+}
+
+/** Everything a reviewer sees for one case. */
+export interface ReviewCaseDetail extends ReviewCase {
+  context: OnboardingContext | null;
+  documents: ReviewDocument[];
+  verifications: ReviewVerification[];
+  /** The champion model's score; null when risk was never scored. */
+  risk: RiskResult | null;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** useBehavioralFraud scores at or above this send the application to review. */
+export const BEHAVIOR_REVIEW_SCORE = 50;
+
+export const REVIEW_DECISION_STATUS: Record<ReviewDecision, ReviewStatus> = {
+  approve: "approved",
+  reject: "rejected",
+  request_reupload: "reupload_requested",
+};
+
+// ── Triggers ──────────────────────────────────────────────────────────────────
+
+export interface ReviewSignals {
+  suspiciousDocuments: DocumentType[];
+  behavior: BehaviorSummary;
+  riskLevel: RiskLevel | null;
+  screening: OnboardingContext["screening"];
+  review: OnboardingContext["review"];
+}
+
+/** Why an application needs a reviewer before the account is opened; empty when it does not. */
+export function reviewTriggers(signals: ReviewSignals): ReviewTrigger[] {
+  const triggers: ReviewTrigger[] = [];
+
+  for (const documentType of signals.suspiciousDocuments) {
+    triggers.push({ code: "document_suspicious", detail: `${documentType} card verification returned SUSPICIOUS` });
+  }
+  if (signals.behavior.riskScore >= BEHAVIOR_REVIEW_SCORE) {
+    triggers.push({ code: "behavior", detail: `Behavioural fraud score ${signals.behavior.riskScore}/100` });
+  }
+  if (signals.riskLevel === "High") {
+    triggers.push({ code: "risk_high", detail: "Risk model scored the applicant High" });
+  }
+  if (signals.screening === "probable_match") {
+    triggers.push({ code: "screening", detail: "Probable sanctions, PEP or adverse-media match" });
+  }
+  if (signals.review === "reupload_requested") {
+    triggers.push({ code: "reupload", detail: "Documents uploaded again at a reviewer's request" });
+  }
+
+  return triggers;
+}
+
+// ── Decisions ─────────────────────────────────────────────────────────────────
+
+/** Added to the applicant's transcript so they see the outcome when they come back. */
+export function reviewDecisionMessage(outcome: Pick<ReviewOutcome, "decision" | "reason" | "documentType">): string {
+  switch (outcome.decision) {
+    case "approve":
+      return "✅ Good news — our review team has approved your application. We'll open your account now.";
+    case "reject":
+      return `We're sorry — after reviewing your application we can't open an account for you at this time.\n\nReason: ${outcome.reason}`;
+    case "request_reupload":
+      return `📋 Our review team needs you to upload your ${outcome.documentType ?? "ID"} card again.\n\nReason: ${outcome.reason}`;
+  }
+}
@@ -0,0 +1,228 @@
+// Risk scoring model and types shared by the score-risk function and the client.
+//
+// Models are versioned definitions (coefficients, bands and level cut-offs)
+// rather than code. The score-risk function loads the champion, and optionally
+// a challenger to run in shadow, from the risk_models table and falls back to
+// DEFAULT_RISK_MODEL when none is configured. Every result carries the version
+// of the model that produced it.
+
+import { z } from "zod";
+import type { MonthlyObligations } from "./onboarding.ts";
+
+export type RiskLevel = "Low" | "Medium" | "High";
+
+export type RiskFeature = "income" | "employment" | "documents" | "face" | "foir";
+
+/**
+ * One feature's share of the log-odds. Features are one-hot indicators, so
+ * `value` is 1 for the band or category the applicant falls into.
+ */
+export interface RiskContribution {
+  feature: RiskFeature;
+  /** e.g. "Monthly income ₹45,000 (₹40,001–₹80,000 band)". */
+  label: string;
+  coefficient: number;
+  value: number;
+  /** coefficient × value; positive raises the default probability. */
+  contribution: number;
+}
+
+/** Adverse-action reason for a feature that pushed the score up. */
+export interface RiskReasonCode {
+  code: string;
+  feature: RiskFeature;
+  description: string;
+}
+
+export interface RiskResult {
+  /** Version of the RiskModel that produced this result. */
+  modelVersion: string;
+  probability: number;
+  level: RiskLevel;
+  /** Debt-to-income: (EMIs + credit card dues) / income, in percent. */
+  dti: number;
+  /** Fixed obligations to income: (EMIs + credit card dues + rent) / income, in percent. */
+  foir: number;
+  explanation: string;
+  /** The model intercept; baseline + Σ contributions = log-odds of default. */
+  baseline: number;
+  contributions: RiskContribution[];
+  /** Risk-increasing features, largest first. Empty when nothing counted against the applicant. */
+  reasonCodes: RiskReasonCode[];
+}
+
+export interface RiskInputs {
+  monthlyIncome: number;
+  employmentType: string;
+  age?: number;
+  documentsVerified: boolean;
+  faceVerified: boolean;
+  obligations: MonthlyObligations;
+  /** Monthly income supported by a bank statement; the lower of this and the declared income is scored. */
+  verifiedIncome?: number | null;
+}
+
+// ── Model definitions ─────────────────────────────────────────────────────────
+
+/**
+ * Bands are checked top-down; the first whose `above` the value exceeds
+ * applies. The last band must have `above: null` to catch everything else.
+ */
+export interface RiskBand {
+  above: number | null;
+  coefficient: number;
+  band: string;
+  label: string;
+}
+
+export interface RiskModel {
+  version: string;
+  intercept: number;
+  /** Monthly income in INR. */
+  incomeBands: RiskBand[];
+  /** FOIR in percent. Models without it (lr-v1) ignore obligations. */
+  foirBands?: RiskBand[];
+  /** Keyed by lower-case employment type. */
+  employment: Record<string, number>;
+  otherEmployment: number;
+  documents: { verified: number; unverified: number };
+  face: { verified: number; unverified: number };
+  /** Probability cut-offs: below `medium` is Low, below `high` is Medium, otherwise High. */
+  cutoffs: { medium: number; high: number };
+}
+
+export interface RiskModelSet {
+  champion: RiskModel;
+  /** Scored in shadow alongside the champion; its results are logged, never returned. */
+  challenger: RiskModel | null;
+}
+
+const verificationWeights = z.object({ verified: z.number(), unverified: z.number() });
+
+const bands = z.array(z.object({
+  above: z.number().nullable(),
+  coefficient: z.number(),
+  band: z.string(),
+  label: z.string(),
+})).min(1).refine((b) => b[b.length - 1].above === null, "The last band must have above: null");
+
+const RiskModelSchema = z.object({
+  version: z.string().min(1),
+  intercept: z.number(),
+  incomeBands: bands,
+  foirBands: bands.optional(),
+  employment: z.record(z.number()),
+  otherEmployment: z.number(),
+  documents: verificationWeights,
+  face: verificationWeights,
+  cutoffs: z.object({ medium: z.number().min(0).max(1), high: z.number().min(0).max(1) })
+    .refine((c) => c.medium <= c.high, "cutoffs.medium must not exceed cutoffs.high"),
+});
+
+/** Validates a stored model definition. Throws with every problem listed when it is malformed. */
+export function parseRiskModel(definition: unknown): RiskModel {
+  const result = RiskModelSchema.safeParse(definition);
+  if (!result.success) {
+    const problems = result.error.issues.map((i) => `${i.path.join(".") || "(model)"}: ${i.message}`);
+    throw new Error(`Invalid risk model definition — ${problems.join("; ")}`);
+  }
+  return result.data as RiskModel;
+}
+
+/**
+ * Used when no model is configured; seeded as the lr-v2 champion. lr-v2 is the
+ * original hand-tuned lr-v1 plus FOIR bands.
+ */
+export const DEFAULT_RISK_MODEL: RiskModel = {
+  version: "lr-v2",
+  intercept: -1.5,
+  incomeBands: [
+    { above: 80000, coefficient: -1.2, band: "above ₹80,000", label: "high income" },
+    { above: 40000, coefficient: -0.5, band: "₹40,001–₹80,000", label: "moderate income" },
+    { above: 20000, coefficient: 0.2, band: "₹20,001–₹40,000", label: "lower-moderate income" },
+    { above: 10000, coefficient: 0.8, band: "₹10,001–₹20,000", label: "low income" },
+    { above: null, coefficient: 1.5, band: "₹10,000 or less", label: "low income" },
+  ],
+  foirBands: [
+    { above: 60, coefficient: 1, band: "above 60%", label: "very high obligations" },
+    { above: 50, coefficient: 0.6, band: "50–60%", label: "high obligations" },
+    { above: 35, coefficient: 0.2, band: "35–50%", label: "moderate obligations" },
+    { above: null, coefficient: -0.2, band: "35% or less", label: "low obligations" },
+  ],
+  employment: { salaried: -0.8, business: 0.1, freelancer: 0.6, student: 1.2 },
+  otherEmployment: 0.3,
+  documents: { verified: -0.4, unverified: 0.3 },
+  face: { verified: -0.3, unverified: 0.2 },
+  cutoffs: { medium: 0.35, high: 0.65 },
+};
+
+// ── Logistic Regression Risk Scoring ──────────────────────────────────────────
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+export const REASON_CODES: Record<RiskFeature, RiskReasonCode> = {
+  income: { code: "RC01", feature: "income", description: "Income insufficient for the products requested" },
+  employment: { code: "RC02", feature: "employment", description: "Irregular or limited employment income" },
+  documents: { code: "RC03", feature: "documents", description: "Unable to verify identity documents" },
+  face: { code: "RC04", feature: "face", description: "Unable to verify identity by face match" },
+  foir: { code: "RC05", feature: "foir", description: "Excessive obligations in relation to income" },
+};
+
+export function findBand(bands: RiskBand[], value: number): RiskBand {
+  return bands.find((b) => b.above === null || value > b.above)!;
+}
+
+/** Obligations as a percentage of income, rounded to one decimal. */
+function ratio(amount: number, monthlyIncome: number): number {
+  return Math.round((amount / monthlyIncome) * 1000) / 10;
+}
+
+function contribution(feature: RiskFeature, label: string, coefficient: number): RiskContribution {
+  return { feature, label, coefficient, value: 1, contribution: coefficient };
+}
+
+export function calculateRisk(inputs: RiskInputs, model: RiskModel = DEFAULT_RISK_MODEL): RiskResult {
+  const verifiedIncome = inputs.verifiedIncome ?? 0;
+  const verified = verifiedIncome > 0;
+  const monthlyIncome = verified ? Math.min(inputs.monthlyIncome, verifiedIncome) : inputs.monthlyIncome;
+  const income = findBand(model.incomeBands, monthlyIncome);
+  const employment = inputs.employmentType.toLowerCase();
+  const { documents: docs, face } = model;
+  const source = verified ? ", verified from bank statement" : "";
+
+  const contributions = [
+    contribution("income", `Monthly income ₹${monthlyIncome.toLocaleString("en-IN")} (${income.band} band${source})`, income.coefficient),
+    contribution("employment", `Employment: ${employment}`, model.employment[employment] ?? model.otherEmployment),
+    contribution("documents", inputs.documentsVerified ? "Documents verified" : "Documents not verified", inputs.documentsVerified ? docs.verified : docs.unverified),
+    contribution("face", inputs.faceVerified ? "Face verified" : "Face not verified", inputs.faceVerified ? face.verified : face.unverified),
+  ];
+
+  const { emi, rent, creditCardDues } = inputs.obligations;
+  const dti = ratio(emi + creditCardDues, monthlyIncome);
+  const foir = ratio(emi + creditCardDues + rent, monthlyIncome);
+  if (model.foirBands) {
+    const band = findBand(model.foirBands, foir);
+    contributions.push(contribution("foir", `FOIR ${foir}% (${band.band} band)`, band.coefficient));
+  }
+
+  const z = contributions.reduce((sum, c) => sum + c.contribution, model.intercept);
+  const probability = sigmoid(z);
+
+  const level: RiskResult["level"] = probability < model.cutoffs.medium ? "Low" : probability < model.cutoffs.high ? "Medium" : "High";
+
+  const reasonCodes = contributions
+    .filter((c) => c.contribution > 0)
+    .sort((a, b) => b.contribution - a.contribution)
+    .map((c) => REASON_CODES[c.feature]);
+
+  const explanation = `Customer has ${(probability * 100).toFixed(0)}% probability of default due to `
+    + `${income.label} (₹${monthlyIncome.toLocaleString("en-IN")}/mo${source}), `
+    + `${inputs.employmentType} employment, DTI of ${dti.toFixed(0)}% and FOIR of ${foir.toFixed(0)}%.`
+    + (inputs.documentsVerified && inputs.faceVerified ? " Identity fully verified." : " Incomplete verification increases risk.")
+    + (verified && verifiedIncome < inputs.monthlyIncome
+      ? ` Declared income of ₹${inputs.monthlyIncome.toLocaleString("en-IN")} exceeds what the bank statement supports.`
+      : "");
+
+  return { modelVersion: model.version, probability, level, dti, foir, explanation, baseline: model.intercept, contributions, reasonCodes };
+}
@@ -0,0 +1,24 @@
+// Edge runtime entry point shared by every function's index.ts. Deno only: it
+// wires the real environment, the Supabase-backed store, the configured LLM
+// provider, the watch list files, staff sign-in and face cropping into an
+// endpoint declared with http.ts.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { cropFace } from "./faceCrop.ts";
+import { createHandler, type Endpoint, type EndpointDeps } from "./http.ts";
+import { createProvider, type EnvReader } from "./llmProvider.ts";
+import { authenticateStaff, getStore } from "./persistence.ts";
+import { loadWatchLists } from "./watchListFiles.ts";
+
+export function serveEndpoint<T>(endpoint: Endpoint<T>) {
+  const env: EnvReader = (key) => Deno.env.get(key);
+  const deps: EndpointDeps = {
+    env,
+    store: getStore(),
+    llm: () => createProvider(env),
+    watchLists: () => loadWatchLists(env("WATCHLIST_DIR")),
+    staff: authenticateStaff,
+    cropFace,
+  };
+  serve(createHandler(endpoint, deps));
+}
@@ -0,0 +1,246 @@
+// Sanctions, PEP and adverse-media screening of the applicant's document
+// identity against locally held watch lists.
+//
+// Lists are read from files (see watchListFiles.ts for the Deno loader) named
+// `<kind>.<list id>.<xml|csv>`, e.g. `sanctions.un-consolidated.xml`. XML in
+// the UN consolidated list or OFAC SDN layout and a simple CSV layout are
+// understood. Names are compared with the same Indian-name-aware matcher as the
+// PAN ↔ Aadhaar check (identityMatch.ts) against every listed name and alias;
+// the date of birth then raises or lowers the hit score.
+//
+// Pure module: no Deno or DOM APIs.
+
+import { normalizeDob } from "./aadhaarQr.ts";
+import { splitCsvLine } from "./csv.ts";
+import { compareNames } from "./identityMatch.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type WatchListKind = "sanctions" | "pep" | "adverse_media";
+
+export interface WatchListEntry {
+  /** The list's own reference for the entry. */
+  entryId: string;
+  name: string;
+  aliases: string[];
+  /** As listed: full dates or years only. */
+  dobs: string[];
+  /** Programme, position or allegation the entry is listed for. */
+  remarks: string;
+}
+
+export interface WatchList {
+  id: string;
+  kind: WatchListKind;
+  entries: WatchListEntry[];
+}
+
+/**
+ * clear           no entry scored POSSIBLE_MATCH_SCORE or more
+ * possible_match  a weak hit; recorded for review, onboarding continues
+ * probable_match  a strong hit; account creation waits for compliance review
+ */
+export type ScreeningOutcome = "clear" | "possible_match" | "probable_match";
+
+export type DobComparison = "match" | "year" | "mismatch" | "unknown";
+
+export interface ScreeningHit {
+  listId: string;
+  kind: WatchListKind;
+  entryId: string;
+  /** The listed name or alias that matched best. */
+  matchedName: string;
+  /** 0–100, name only. */
+  nameScore: number;
+  dob: DobComparison;
+  /** 0–100, name adjusted by date of birth. */
+  score: number;
+  remarks: string;
+}
+
+export interface ScreeningResult {
+  outcome: ScreeningOutcome;
+  /** Hits scoring POSSIBLE_MATCH_SCORE or more, strongest first. */
+  hits: ScreeningHit[];
+  lists: { id: string; kind: WatchListKind; entries: number }[];
+}
+
+export interface ScreeningSubject {
+  name: string;
+  dob: string | null;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** Entries whose best name scores below this are not reported at all. */
+export const NAME_HIT_THRESHOLD = 75;
+export const POSSIBLE_MATCH_SCORE = 70;
+export const PROBABLE_MATCH_SCORE = 85;
+
+const KINDS: readonly WatchListKind[] = ["sanctions", "pep", "adverse_media"];
+
+// ── Parsing ───────────────────────────────────────────────────────────────────
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/** Inner XML of every `<tag>` element, outermost only. Namespace prefixes are ignored. */
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "g");
+  return [...xml.matchAll(pattern)].map((m) => m[1]);
+}
+
+function text(xml: string, tag: string): string {
+  const inner = elements(xml, tag)[0];
+  return inner === undefined ? "" : decodeXml(inner);
+}
+
+const joinName = (...parts: string[]) => parts.filter(Boolean).join(" ");
+
+function parseUnIndividual(xml: string): WatchListEntry {
+  const name = joinName(text(xml, "FIRST_NAME"), text(xml, "SECOND_NAME"), text(xml, "THIRD_NAME"), text(xml, "FOURTH_NAME"));
+  return {
+    entryId: text(xml, "REFERENCE_NUMBER") || text(xml, "DATAID"),
+    name,
+    aliases: elements(xml, "INDIVIDUAL_ALIAS").map((a) => text(a, "ALIAS_NAME")).filter(Boolean),
+    dobs: elements(xml, "INDIVIDUAL_DATE_OF_BIRTH").map((d) => text(d, "DATE") || text(d, "YEAR")).filter(Boolean),
+    remarks: joinName(text(xml, "UN_LIST_TYPE"), text(xml, "COMMENTS1")),
+  };
+}
+
+function parseSdnEntry(xml: string): WatchListEntry {
+  return {
+    entryId: text(xml, "uid"),
+    name: joinName(text(xml, "firstName"), text(xml, "lastName")),
+    aliases: elements(xml, "aka").map((a) => joinName(text(a, "firstName"), text(a, "lastName"))).filter(Boolean),
+    dobs: elements(xml, "dateOfBirthItem").map((d) => text(d, "dateOfBirth")).filter(Boolean),
+    remarks: elements(xml, "program").map(decodeXml).join(", "),
+  };
+}
+
+/** Individuals from a UN consolidated list or OFAC SDN file; entities and vessels are skipped. */
+export function parseWatchListXml(xml: string): WatchListEntry[] {
+  const un = elements(xml, "INDIVIDUAL").map(parseUnIndividual);
+  const sdn = elements(xml, "sdnEntry")
+    .filter((e) => text(e, "sdnType").toLowerCase() === "individual")
+    .map(parseSdnEntry);
+  return [...un, ...sdn].filter((e) => e.name);
+}
+
+/**
+ * CSV with a header row: `id`, `name`, and optionally `aliases` and `dob`
+ * (both semicolon-separated) and `remarks`.
+ */
+export function parseWatchListCsv(csv: string): WatchListEntry[] {
+  const [header, ...rows] = csv.split(/\r?\n/).filter((l) => l.trim());
+  const columns = splitCsvLine(header ?? "").map((c) => c.toLowerCase());
+  const index = (name: string) => columns.indexOf(name);
+  if (index("name") === -1) throw new Error("Watch list CSV needs a name column");
+
+  const list = (cells: string[], column: string) => (cells[index(column)] ?? "").split(";").map((v) => v.trim()).filter(Boolean);
+  return rows.map((row, i) => {
+    const cells = splitCsvLine(row);
+    return {
+      entryId: cells[index("id")] || String(i + 1),
+      name: cells[index("name")] ?? "",
+      aliases: list(cells, "aliases"),
+      dobs: list(cells, "dob"),
+      remarks: cells[index("remarks")] ?? "",
+    };
+  }).filter((e) => e.name);
+}
+
+/** Reads a list file named `<kind>.<list id>.<xml|csv>`. Throws for names or formats it does not understand. */
+export function watchListFromFile(fileName: string, content: string): WatchList {
+  const m = fileName.match(/^([a-z_]+)\.([\w.-]+)\.(xml|csv)$/i);
+  const kind = m?.[1].toLowerCase() as WatchListKind;
+  if (!m || !KINDS.includes(kind)) {
+    throw new Error(`Watch list "${fileName}" must be named <${KINDS.join("|")}>.<id>.<xml|csv>`);
+  }
+  const entries = m[3].toLowerCase() === "xml" ? parseWatchListXml(content) : parseWatchListCsv(content);
+  return { id: m[2], kind, entries };
+}
+
+// ── Matching ──────────────────────────────────────────────────────────────────
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+/** DD-MM-YYYY when the listed value is a full date; otherwise the text as listed ("1975", "circa 1970"). */
+function listedDob(value: string): string {
+  const m = value.trim().match(/^(\d{1,2})\s+([A-Za-z]{3})[a-z]*\s+(\d{4})$/);
+  if (m) {
+    const month = MONTHS.indexOf(m[2].toUpperCase()) + 1;
+    if (month) return `${m[1].padStart(2, "0")}-${String(month).padStart(2, "0")}-${m[3]}`;
+  }
+  return normalizeDob(value);
+}
+
+function compareDob(applicant: string | null, listed: string[]): DobComparison {
+  if (!applicant || !listed.length) return "unknown";
+  const dob = normalizeDob(applicant);
+  const year = dob.match(/(19|20)\d{2}/)?.[0];
+  if (!year) return "unknown";
+
+  let best: DobComparison = "mismatch";
+  for (const value of listed.map(listedDob)) {
+    if (value === dob) return "match";
+    if (value.match(/(19|20)\d{2}/)?.[0] === year) best = "year";
+  }
+  return best;
+}
+
+/** A listed date of birth that contradicts the applicant's makes a same-name hit much weaker. */
+function hitScore(nameScore: number, dob: DobComparison): number {
+  switch (dob) {
+    case "match": return Math.round(nameScore * 0.7 + 30);
+    case "year": return Math.round(nameScore * 0.7 + 20);
+    case "unknown": return Math.round(nameScore * 0.85);
+    case "mismatch": return Math.round(nameScore * 0.5);
+  }
+}
+
+export function screenIdentity(subject: ScreeningSubject, lists: WatchList[]): ScreeningResult {
+  const hits: ScreeningHit[] = [];
+
+  for (const list of lists) {
+    for (const entry of list.entries) {
+      let best = { name: "", score: 0 };
+      for (const candidate of [entry.name, ...entry.aliases]) {
+        const { score } = compareNames(subject.name, candidate);
+        if (score > best.score) best = { name: candidate, score };
+      }
+      if (best.score < NAME_HIT_THRESHOLD) continue;
+
+      const dob = compareDob(subject.dob, entry.dobs);
+      hits.push({
+        listId: list.id,
+        kind: list.kind,
+        entryId: entry.entryId,
+        matchedName: best.name,
+        nameScore: best.score,
+        dob,
+        score: hitScore(best.score, dob),
+        remarks: entry.remarks,
+      });
+    }
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  const top = hits[0]?.score ?? 0;
+  const outcome: ScreeningOutcome = top >= PROBABLE_MATCH_SCORE ? "probable_match" : top >= POSSIBLE_MATCH_SCORE ? "possible_match" : "clear";
+
+  return {
+    outcome,
+    hits: hits.filter((h) => h.score >= POSSIBLE_MATCH_SCORE),
+    lists: lists.map((l) => ({ id: l.id, kind: l.kind, entries: l.entries.length })),
+  };
+}
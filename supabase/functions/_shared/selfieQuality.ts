@@ -0,0 +1,128 @@
+// Live quality gate for the selfie camera.
+//
+// While the camera is open, FaceVerification runs an on-device face detector
+// on the preview a few times a second and passes the faces it finds, with the
+// frame, to assessSelfieFrame. The first issue found becomes the hint shown
+// over the video, and the Start button stays disabled until a frame passes. A
+// missing, distant, dark or blurred face is caught here, before the liveness,
+// anti-spoofing and face match calls that would only fail on it.
+//
+// Pure module: works on raw RGBA pixels, no Deno or DOM APIs.
+
+import { laplacianVariance, luminance, type PixelFrame } from "./antiSpoof.ts";
+import type { FaceBox } from "./faceMatch.ts";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type SelfieIssue =
+  | "multiple_faces"
+  | "too_dark"
+  | "too_bright"
+  | "no_face"
+  | "too_far"
+  | "too_close"
+  | "off_centre"
+  | "blurred";
+
+export interface SelfieQuality {
+  passed: boolean;
+  /** Most pressing first. */
+  issues: SelfieIssue[];
+  hint: string;
+  /** Mean luminance of the face (or the whole frame without one), 0–255. */
+  brightness: number;
+  /** Laplacian variance of the same region. */
+  sharpness: number;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+export const SELFIE_CHECK_INTERVAL_MS = 300;
+
+/** Face width as a share of the frame's width. */
+export const MIN_FACE_WIDTH = 0.22;
+export const MAX_FACE_WIDTH = 0.65;
+/** Largest distance of the face's centre from the frame's, as a share of each side. */
+export const MAX_CENTRE_OFFSET = 0.15;
+
+export const MIN_BRIGHTNESS = 60;
+export const MAX_BRIGHTNESS = 210;
+/** At the anti-spoofing analysis width; matches where antiSpoof.ts starts calling a burst blurred. */
+export const MIN_SHARPNESS = 20;
+
+export const SELFIE_HINTS: Record<SelfieIssue, string> = {
+  multiple_faces: "More than one face — make sure you're alone in the frame",
+  too_dark: "Too dark — find some light in front of you",
+  too_bright: "Too bright — move away from direct light",
+  no_face: "No face found — look straight at the camera",
+  too_far: "Move closer",
+  too_close: "Move back a little",
+  off_centre: "Centre your face in the oval",
+  blurred: "Hold still — the picture is blurred",
+};
+
+export const SELFIE_READY_HINT = "Looks good — press Start when you're ready";
+
+// ── Assessment ────────────────────────────────────────────────────────────────
+
+/** A detector's pixel bounding box as a FaceBox, clipped to the frame. */
+export function faceBoxFromPixels(
+  box: { originX: number; originY: number; width: number; height: number },
+  frameWidth: number,
+  frameHeight: number,
+): FaceBox {
+  const left = Math.max(0, Math.min(1, box.originX / frameWidth));
+  const top = Math.max(0, Math.min(1, box.originY / frameHeight));
+  const right = Math.max(left, Math.min(1, (box.originX + box.width) / frameWidth));
+  const bottom = Math.max(top, Math.min(1, (box.originY + box.height) / frameHeight));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function region(frame: PixelFrame, box: FaceBox | null): PixelFrame {
+  if (!box) return frame;
+  const x0 = Math.floor(box.x * frame.width);
+  const y0 = Math.floor(box.y * frame.height);
+  const width = Math.max(1, Math.min(frame.width - x0, Math.round(box.width * frame.width)));
+  const height = Math.max(1, Math.min(frame.height - y0, Math.round(box.height * frame.height)));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((y0 + y) * frame.width + x0) * 4;
+    data.set(frame.data.subarray(start, start + width * 4), y * width * 4);
+  }
+  return { width, height, data };
+}
+
+/**
+ * Checks one preview frame. faces is what the detector found, or null when no
+ * detector could be loaded: then only lighting and blur are checked, and
+ * face_locate remains the check that a face is there.
+ */
+export function assessSelfieFrame(faces: FaceBox[] | null, frame: PixelFrame): SelfieQuality {
+  const face = faces?.length === 1 ? faces[0] : null;
+  const measured = region(frame, face);
+  const gray = luminance(measured);
+  const brightness = gray.length ? gray.reduce((sum, v) => sum + v, 0) / gray.length : 0;
+  const sharpness = laplacianVariance(gray, measured.width, measured.height);
+
+  const issues: SelfieIssue[] = [];
+  if (faces && faces.length > 1) issues.push("multiple_faces");
+  if (brightness < MIN_BRIGHTNESS) issues.push("too_dark");
+  if (brightness > MAX_BRIGHTNESS) issues.push("too_bright");
+  if (faces && faces.length === 0) issues.push("no_face");
+  if (face) {
+    if (face.width < MIN_FACE_WIDTH) issues.push("too_far");
+    if (face.width > MAX_FACE_WIDTH) issues.push("too_close");
+    const offX = Math.abs(face.x + face.width / 2 - 0.5);
+    const offY = Math.abs(face.y + face.height / 2 - 0.5);
+    if (offX > MAX_CENTRE_OFFSET || offY > MAX_CENTRE_OFFSET) issues.push("off_centre");
+  }
+  if (sharpness < MIN_SHARPNESS) issues.push("blurred");
+
+  return {
+    passed: issues.length === 0,
+    issues,
+    hint: issues.length ? SELFIE_HINTS[issues[0]] : SELFIE_READY_HINT,
+    brightness: Math.round(brightness),
+    sharpness: Math.round(sharpness),
+  };
+}
@@ -0,0 +1,114 @@
+// Shape of a persisted onboarding session as exchanged between ChatPage and the
+// onboarding-session function's session_* actions (see api.ts).
+//
+// The stored machine state only moves through transition. A client save does
+// not carry a state to store but the events it applied since its last save
+// (ClientOnboardingEvent), which mergeClientSave replays on the stored state;
+// one that no longer fits, e.g. because a reviewer sent the applicant back to
+// a document meanwhile, is dropped. The remaining events — screening, review
+// and the account — are applied by the functions, along with the messages they
+// append (a reviewer's decision).
+
+import {
+  initialOnboardingState,
+  isOnboardingStep,
+  transition,
+  type OnboardingEvent,
+  type OnboardingMachineState,
+  type OnboardingStep,
+} from "./onboarding.ts";
+import type { RiskResult } from "./risk.ts";
+
+export interface SessionMessage {
+  role: "user" | "bot";
+  content: string;
+  isFile?: boolean;
+  isAccountDetails?: boolean;
+  /** Appended by a function rather than the client; kept when a client saves without it. */
+  fromServer?: boolean;
+}
+
+export interface SessionAccount {
+  accountNumber: string;
+  ifsc: string;
+  accountType: string;
+}
+
+export interface SessionSnapshot {
+  sessionId: string;
+  onboarding: OnboardingMachineState;
+  riskResult: RiskResult | null;
+  account: SessionAccount | null;
+  messages: SessionMessage[];
+  /** Base64 of the most recently uploaded document, for the face match. */
+  documentBase64?: string;
+}
+
+/** Events the client applies as the applicant answers; the functions apply the rest. */
+export type ClientOnboardingEvent = Extract<OnboardingEvent, { type: (typeof CLIENT_EVENT_TYPES)[number] }>;
+
+/** A client's session_save: the events it applied since its last save, and its risk result and transcript. */
+export interface ClientSave {
+  sessionId: string;
+  events: ClientOnboardingEvent[];
+  riskResult: RiskResult | null;
+  messages: SessionMessage[];
+}
+
+export const CLIENT_EVENT_TYPES = [
+  "EMPLOYMENT_SELECTED",
+  "DOCUMENT_VERIFIED",
+  "INCOME_SUBMITTED",
+  "STATEMENT_VERIFIED",
+  "STATEMENT_SKIPPED",
+  "FACE_VERIFIED",
+  "RISK_SCORED",
+  "EMAIL_SENT",
+  "EMAIL_SKIPPED",
+] as const satisfies readonly OnboardingEvent["type"][];
+
+export function isClientEvent(event: OnboardingEvent): event is ClientOnboardingEvent {
+  return (CLIENT_EVENT_TYPES as readonly string[]).includes(event.type);
+}
+
+/**
+ * The machine state to resume from a stored one: its step, with context fields
+ * added since it was saved at their initial values. A state without a valid
+ * step starts over.
+ */
+export function restoreOnboarding(state: OnboardingMachineState | null): OnboardingMachineState {
+  const initial = initialOnboardingState();
+  if (!isOnboardingStep(state?.step)) return initial;
+  return { step: state.step, context: { ...initial.context, ...state.context } };
+}
+
+export const RESUME_GREETING = "👋 Welcome back! Picking up where you left off.";
+
+/** Steps that ChatPage re-enters through the stream on resume, replaying their action (camera, upload prompt, …). */
+export function replaysOnResume(step: OnboardingStep): boolean {
+  return step !== "email" && step !== "done";
+}
+
+/** The transcript ChatPage shows when it resumes a snapshot: the saved messages and a greeting. */
+export function resumeTranscript(snapshot: SessionSnapshot, greeting = RESUME_GREETING): SessionMessage[] {
+  return [...snapshot.messages, { role: "bot", content: greeting }];
+}
+
+/**
+ * The snapshot to store for a client's session_save: the stored state with the
+ * client's events applied where the machine accepts them, the stored account,
+ * and the client's transcript with any function-appended message it has not
+ * seen yet added to the end.
+ */
+export function mergeClientSave(stored: SessionSnapshot, save: ClientSave): SessionSnapshot {
+  const onboarding = save.events.reduce((state, event) => transition(state, event).state, stored.onboarding);
+  const seen = new Set(save.messages.filter((m) => m.fromServer).map((m) => m.content));
+  const unseen = stored.messages.filter((m) => m.fromServer && !seen.has(m.content));
+  return {
+    sessionId: stored.sessionId,
+    onboarding,
+    riskResult: save.riskResult,
+    account: stored.account,
+    messages: [...save.messages, ...unseen],
+  };
+}
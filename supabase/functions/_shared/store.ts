@@ -0,0 +1,132 @@
+// Persistence contract used by the edge function handlers. The Supabase-backed
+// implementation lives in persistence.ts (Deno only); handlers receive a store
+// through their dependencies so they can run without a database, e.g. in tests.
+
+import type { FunnelData } from "./analytics.ts";
+import type { AuditEntry, AuditEvent } from "./audit.ts";
+import type { SessionHandoff } from "./handoff.ts";
+import type { LivenessChallenge, LivenessPrompt } from "./liveness.ts";
+import type {
+  BehaviorSummary,
+  ReviewCase,
+  ReviewCaseDetail,
+  ReviewOutcome,
+  ReviewStatus,
+  ReviewTrigger,
+  ReviewVerification,
+} from "./review.ts";
+import type { RiskModelSet, RiskResult } from "./risk.ts";
+import type { SessionSnapshot } from "./session.ts";
+
+export interface StoredDocument {
+  documentType: string | null;
+  mimeType: string;
+  base64: string;
+  qrData: string | null;
+}
+
+/** A session as loaded for a write; version moves on with every save (see updateSession). */
+export interface StoredSession extends SessionSnapshot {
+  version: number;
+}
+
+export type RiskModelRole = "champion" | "challenger";
+
+export type VerificationKind = "document" | "face" | "liveness" | "spoof" | "income" | "screening";
+
+export interface OnboardingStore {
+  createSession(): Promise<string>;
+  sessionExists(sessionId: string): Promise<boolean>;
+  /** withDocument false skips fetching the latest document from storage. */
+  loadSession(sessionId: string, withDocument?: boolean): Promise<StoredSession | null>;
+  /**
+   * Stores the snapshot if the session is still at version; false when another
+   * write landed first. Handlers write through updateSession.
+   */
+  saveSession(snapshot: SessionSnapshot, version: number): Promise<boolean>;
+  /** Returns the handoff id. */
+  openHandoff(sessionId: string, expiresAt: string): Promise<string>;
+  /** Marks the handoff claimed; null when it does not exist or was already claimed. */
+  takeHandoff(handoffId: string): Promise<SessionHandoff | null>;
+  /** Stores the file and returns the document row id. */
+  recordDocument(sessionId: string, doc: StoredDocument): Promise<string>;
+  recordVerification(sessionId: string, kind: VerificationKind, verdict: string | null, result: unknown, documentId?: string | null): Promise<void>;
+  /** Champion and challenger scores are both kept so the models can be compared. */
+  recordRisk(sessionId: string, risk: RiskResult, role: RiskModelRole): Promise<void>;
+  /** The latest PAN or Aadhaar upload verify-document accepted; null when there is none. */
+  loadVerifiedDocument(sessionId: string): Promise<StoredDocument | null>;
+  /** The session's verification results, oldest first. */
+  loadVerifications(sessionId: string): Promise<ReviewVerification[]>;
+  /** The champion model's latest score; null when risk was never scored. */
+  loadRiskResult(sessionId: string): Promise<RiskResult | null>;
+  /** Returns the challenge id. */
+  openLivenessChallenge(sessionId: string, prompts: LivenessPrompt[], expiresAt: string): Promise<string>;
+  /** Marks the challenge answered; null when it is not this session's or was already answered. */
+  takeLivenessChallenge(challengeId: string, sessionId: string): Promise<LivenessChallenge | null>;
+  /** The configured champion and challenger, or null when no model is configured. */
+  loadRiskModels(): Promise<RiskModelSet | null>;
+  /** Parks the application in the review queue; returns the open case's id if it is already there. */
+  openReview(sessionId: string, triggers: ReviewTrigger[], behavior: BehaviorSummary): Promise<string>;
+  /** Oldest first. */
+  listReviews(status?: ReviewStatus): Promise<ReviewCase[]>;
+  loadReview(caseId: string): Promise<ReviewCaseDetail | null>;
+  /** Records the decision on a pending case; null when the case does not exist or was already decided. */
+  decideReview(caseId: string, outcome: ReviewOutcome): Promise<ReviewCase | null>;
+  /** Raw funnel rows for the admin dashboard; see analytics.ts. */
+  loadFunnelData(since: string, until: string): Promise<FunnelData>;
+  /** Seals the entry onto the end of the session's audit chain. */
+  appendAudit(sessionId: string, entry: AuditEntry): Promise<AuditEvent>;
+  /** The session's audit events, oldest first. */
+  loadAuditTrail(sessionId: string): Promise<AuditEvent[]>;
+}
+
+/**
+ * Runs a write without letting a storage failure break the onboarding flow.
+ * Persistence is an audit/resume aid, not a gate.
+ */
+export async function bestEffort<T>(label: string, fn: () => Promise<T>): Promise<T | null> {
+  try {
+    return await fn();
+  } catch (err) {
+    console.error(`Persistence error (${label}):`, err);
+    return null;
+  }
+}
+
+/**
+ * Appends to the session's audit trail without failing the request. A failed
+ * append leaves a gap in the trail, so it is logged as its own event for
+ * alerting rather than as a generic persistence error.
+ */
+export async function recordAudit(store: OnboardingStore, sessionId: string, entry: AuditEntry): Promise<AuditEvent | null> {
+  try {
+    return await store.appendAudit(sessionId, entry);
+  } catch (err) {
+    console.error(JSON.stringify({ event: "audit_append_failed", sessionId, eventType: entry.eventType, error: String(err) }));
+    return null;
+  }
+}
+
+/** Writes that keep losing the race for a session give up after this many attempts. */
+const SESSION_WRITE_ATTEMPTS = 5;
+
+/**
+ * Applies change to the stored session and saves the result. When another
+ * write landed in between (ChatPage's autosave, a screening result, a review
+ * decision) the session is loaded again and change re-applied, so no write
+ * overwrites one it never saw. change returns null to leave the session as it
+ * is; so does a session that does not exist. Returns what was saved.
+ */
+export async function updateSession(
+  store: OnboardingStore,
+  sessionId: string,
+  change: (stored: StoredSession) => SessionSnapshot | null,
+): Promise<SessionSnapshot | null> {
+  for (let attempt = 1; ; attempt++) {
+    const stored = await store.loadSession(sessionId, false);
+    const next = stored && change(stored);
+    if (!stored || !next) return null;
+    if (await store.saveSession(next, stored.version)) return next;
+    if (attempt === SESSION_WRITE_ATTEMPTS) throw new Error(`Session ${sessionId} kept changing during the write`);
+  }
+}
@@ -0,0 +1,33 @@
+// Loads the screening watch lists from disk. Deno only.
+//
+// By default the lists bundled with the screen-applicant function are used
+// (deployed through `static_files` in config.toml); WATCHLIST_DIR points at
+// another directory, e.g. one refreshed from the UN and OFAC downloads.
+
+import { watchListFromFile, type WatchList } from "./screening.ts";
+
+const BUNDLED_DIR = new URL("../screen-applicant/watchlists/", import.meta.url);
+
+let cached: Promise<WatchList[]> | null = null;
+
+async function readWatchLists(dir: string | URL): Promise<WatchList[]> {
+  const base = typeof dir === "string" ? new URL(dir.endsWith("/") ? dir : `${dir}/`, "file:///") : dir;
+  const lists: WatchList[] = [];
+  for await (const file of Deno.readDir(base)) {
+    if (!file.isFile || !/\.(xml|csv)$/i.test(file.name)) continue;
+    lists.push(watchListFromFile(file.name, await Deno.readTextFile(new URL(file.name, base))));
+  }
+  if (!lists.length) throw new Error(`No watch lists found in ${base.pathname}`);
+  return lists;
+}
+
+/** Read once per instance; a failed read is retried on the next call. */
+export function loadWatchLists(dir?: string): Promise<WatchList[]> {
+  if (!cached) {
+    cached = readWatchLists(dir || BUNDLED_DIR).catch((err) => {
+      cached = null;
+      throw err;
+    });
+  }
+  return cached;
+}
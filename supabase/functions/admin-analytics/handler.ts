@@ -0,0 +1,27 @@
+// Onboarding funnel analytics for the /admin dashboard: stage conversion and
+// drop-off, document verdicts, risk levels and time per step over the last
+// `days` days (see analytics.ts). Admins only.
+
+import { AdminFunnelRequestSchema, type AdminFunnelRequest, type ErrorResponse } from "../_shared/api.ts";
+import { buildFunnelReport } from "../_shared/analytics.ts";
+import { defineEndpoint, json, type Caller, type EndpointDeps } from "../_shared/http.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function adminFunnel(request: AdminFunnelRequest, { store }: EndpointDeps, { staff }: Caller): Promise<Response> {
+  if (staff?.role !== "admin") return json({ error: "Admin access required" } satisfies ErrorResponse, 403);
+  if (!store) return json({ error: "Analytics storage not configured" } satisfies ErrorResponse, 503);
+
+  const until = new Date();
+  const since = new Date(until.getTime() - request.days * DAY_MS);
+  const data = await store.loadFunnelData(since.toISOString(), until.toISOString());
+  return json(buildFunnelReport(data));
+}
+
+export const adminAnalyticsEndpoint = defineEndpoint<AdminFunnelRequest>({
+  name: "admin-analytics",
+  schema: AdminFunnelRequestSchema,
+  auth: "staff",
+  failureMessage: "Analytics error",
+  handle: adminFunnel,
+});
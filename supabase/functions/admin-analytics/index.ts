@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { adminAnalyticsEndpoint } from "./handler.ts";
+
+serveEndpoint(adminAnalyticsEndpoint);
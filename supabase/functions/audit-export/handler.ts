@@ -0,0 +1,31 @@
+// Per-applicant audit trail export for compliance and regulators: every
+// recorded decision on one onboarding session, oldest first, with the result
+// of re-checking its hash chain (see audit.ts). Admins only.
+
+import { AuditExportRequestSchema, type AuditExportRequest, type AuditExportResponse, type ErrorResponse } from "../_shared/api.ts";
+import { verifyAuditChain } from "../_shared/audit.ts";
+import { defineEndpoint, json, type Caller, type EndpointDeps } from "../_shared/http.ts";
+
+async function auditExport(request: AuditExportRequest, { store }: EndpointDeps, { staff }: Caller): Promise<Response> {
+  if (staff?.role !== "admin") return json({ error: "Admin access required" } satisfies ErrorResponse, 403);
+  if (!store) return json({ error: "Audit storage not configured" } satisfies ErrorResponse, 503);
+  if (!(await store.sessionExists(request.sessionId))) return json({ error: "Session not found" } satisfies ErrorResponse, 404);
+
+  const events = await store.loadAuditTrail(request.sessionId);
+  const chain = await verifyAuditChain(events);
+  if (!chain.valid) {
+    console.error(JSON.stringify({ event: "audit_chain_broken", sessionId: request.sessionId, brokenAt: chain.brokenAt }));
+  }
+  console.log(JSON.stringify({ event: "audit_exported", sessionId: request.sessionId, by: staff.email, events: events.length }));
+
+  const trail: AuditExportResponse = { sessionId: request.sessionId, exportedAt: new Date().toISOString(), events, chain };
+  return json(trail);
+}
+
+export const auditExportEndpoint = defineEndpoint<AuditExportRequest>({
+  name: "audit-export",
+  schema: AuditExportRequestSchema,
+  auth: "staff",
+  failureMessage: "Audit export failed",
+  handle: auditExport,
+});
@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { auditExportEndpoint } from "./handler.ts";
+
+serveEndpoint(auditExportEndpoint);
@@ -0,0 +1,57 @@
+// Passive anti-spoofing: combines the on-device signals from the selfie burst
+// with the vision model's judgement of its key frames into a spoof score (see
+// antiSpoof.ts). FaceVerification refuses the selfie unless the outcome passed.
+
+import { DetectSpoofRequestSchema, type DetectSpoofRequest, type DetectSpoofResponse } from "../_shared/api.ts";
+import { spoofScore, type SpoofModelAssessment } from "../_shared/antiSpoof.ts";
+import { SYSTEM_ACTOR } from "../_shared/audit.ts";
+import { defineEndpoint, json, type EndpointDeps } from "../_shared/http.ts";
+import type { LlmContentPart } from "../_shared/llm.ts";
+import { completeValidated, SpoofModelAssessmentSchema } from "../_shared/modelOutput.ts";
+import { bestEffort, recordAudit } from "../_shared/store.ts";
+
+const SPOOF_PROMPT = `You are a presentation attack detection analyst for remote identity verification. You are given frames from a few seconds of selfie video, in order. Judge whether they show a live person in front of the camera or a presentation attack: a photo or video replayed on a screen, a printed photo, a cut-out or a mask.
+
+Look for: screen bezels, pixel grids or moiré, reflections and glare off glass, paper edges or curl, halftone dots, flat lighting with no depth, a face that does not move naturally between frames, and mask edges.
+
+Respond ONLY with a raw JSON object (no markdown, no code blocks):
+{ "spoofLikelihood": number (0-100, 100 = certainly an attack), "indicators": string[] (attack signs seen, empty if none), "reason": string (max 25 words) }`;
+
+async function detectSpoof(request: DetectSpoofRequest, { store, llm }: EndpointDeps): Promise<Response> {
+  const { signals, keyFrames, sessionId } = request;
+
+  const content: LlmContentPart[] = [
+    { type: "text", text: `${keyFrames.length} frames from ${Math.round(signals.durationMs)} ms of selfie video:` },
+    ...keyFrames.map((f): LlmContentPart => ({ type: "image_url", image_url: { url: `data:image/jpeg;base64,${f}` } })),
+  ];
+  const { value: model, raw } = await completeValidated<SpoofModelAssessment>(llm(), {
+    role: "vision",
+    messages: [
+      { role: "system", content: SPOOF_PROMPT },
+      { role: "user", content },
+    ],
+  }, SpoofModelAssessmentSchema);
+  const result: DetectSpoofResponse = spoofScore(signals, model);
+
+  if (result.verdict !== "live") {
+    console.log(JSON.stringify({ event: "spoof_suspected", sessionId, score: result.score, verdict: result.verdict }));
+  }
+  if (store && sessionId) {
+    const verdict = model ? result.verdict.toUpperCase() : null;
+    await bestEffort("spoof result", () => store.recordVerification(sessionId, "spoof", verdict, { ...result, signals, model: model ?? { raw } }));
+    await recordAudit(store, sessionId, {
+      eventType: "spoof_result",
+      actor: SYSTEM_ACTOR,
+      payload: { verdict: result.verdict, outcome: result.outcome, score: result.score, localScore: result.localScore, modelScore: result.modelScore },
+    });
+  }
+  return json(result);
+}
+
+export const detectSpoofEndpoint = defineEndpoint<DetectSpoofRequest>({
+  name: "detect-spoof",
+  schema: DetectSpoofRequestSchema,
+  auth: "session",
+  failureMessage: "Anti-spoofing check failed",
+  handle: detectSpoof,
+});
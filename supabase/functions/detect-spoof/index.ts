@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { detectSpoofEndpoint } from "./handler.ts";
+
+serveEndpoint(detectSpoofEndpoint);
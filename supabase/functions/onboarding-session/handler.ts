@@ -0,0 +1,139 @@
+// Onboarding sessions: start, resume and save, the handoff to another device
+// (see handoff.ts) and opening the account at the end (see account.ts). Open to
+// any anon-key caller since this is where a session id comes from in the first
+// place.
+
+import {
+  SessionRequestSchema,
+  type AccountCreateResponse,
+  type ErrorResponse,
+  type SessionHandoffResponse,
+  type SessionRequest,
+} from "../_shared/api.ts";
+import { issueAccount } from "../_shared/account.ts";
+import { SYSTEM_ACTOR } from "../_shared/audit.ts";
+import { HANDOFF_TTL_SECONDS } from "../_shared/handoff.ts";
+import { defineEndpoint, json, type EndpointDeps } from "../_shared/http.ts";
+import { faceVerified, suspiciousDocuments } from "../_shared/evidence.ts";
+import { transition } from "../_shared/onboarding.ts";
+import { reviewTriggers, type ReviewTrigger } from "../_shared/review.ts";
+import { mergeClientSave } from "../_shared/session.ts";
+import { recordAudit, updateSession, type OnboardingStore } from "../_shared/store.ts";
+
+type AccountCreateRequest = Extract<SessionRequest, { action: "account_create" }>;
+
+// The account is opened against the stored session, so the trail records it once and only when the machine allows it.
+// ChatPage saves its pending events first. The selfie checks must have passed and
+// the review triggers are rebuilt from what the functions stored; if any fires
+// the application goes to review instead.
+async function createAccount({ sessionId, behavior }: AccountCreateRequest, store: OnboardingStore): Promise<Response> {
+  const [verifications, risk] = await Promise.all([store.loadVerifications(sessionId), store.loadRiskResult(sessionId)]);
+  let unchanged: Response | null = null;
+  let held: ReviewTrigger[] = [];
+  const saved = await updateSession(store, sessionId, (stored) => {
+    held = [];
+    const { context } = stored.onboarding;
+    if (stored.account && context.accountCreated) {
+      unchanged = json({ onboarding: stored.onboarding, account: stored.account } satisfies AccountCreateResponse);
+      return null;
+    }
+    if (!faceVerified(verifications)) {
+      unchanged = json({ error: "The liveness, anti-spoofing and face match checks have not all passed." } satisfies ErrorResponse, 409);
+      return null;
+    }
+    // Students are not model-scored; anyone else's score must be on file for the risk_high trigger
+    if (!risk && context.employmentType !== "student") {
+      unchanged = json({ error: "Risk has not been scored." } satisfies ErrorResponse, 409);
+      return null;
+    }
+
+    const triggers = context.review === "approved" ? [] : reviewTriggers({
+      suspiciousDocuments: suspiciousDocuments(verifications),
+      behavior,
+      riskLevel: risk?.level ?? null,
+      screening: context.screening,
+      review: context.review,
+    });
+    if (triggers.length) {
+      const requested = transition(stored.onboarding, { type: "REVIEW_REQUESTED" });
+      if (!requested.accepted) {
+        unchanged = json({ error: requested.reason ?? "Manual review is not expected at this step." } satisfies ErrorResponse, 409);
+        return null;
+      }
+      held = triggers;
+      return { ...stored, onboarding: requested.state };
+    }
+
+    const result = transition(stored.onboarding, { type: "ACCOUNT_CREATED" });
+    if (!result.accepted) {
+      unchanged = json({ error: result.reason ?? "Account creation is not allowed" } satisfies ErrorResponse, 409);
+      return null;
+    }
+    unchanged = null;
+    return { ...stored, onboarding: result.state, account: issueAccount(result.state.context.employmentType) };
+  });
+  if (saved && held.length) {
+    const caseId = await store.openReview(sessionId, held, behavior);
+    console.log(JSON.stringify({ event: "review_requested", sessionId, caseId, triggers: held.map((t) => t.code) }));
+    return json({ error: "Account creation is on hold pending manual review." } satisfies ErrorResponse, 409);
+  }
+  if (!saved?.account) return unchanged ?? json({ error: "Session not found" } satisfies ErrorResponse, 404);
+
+  const { onboarding, account } = saved;
+  const { screening, review } = onboarding.context;
+  await recordAudit(store, sessionId, {
+    eventType: "account_created",
+    actor: SYSTEM_ACTOR,
+    payload: { ...account, riskLevel: risk?.level ?? null, screening, review },
+  });
+  return json({ onboarding, account } satisfies AccountCreateResponse);
+}
+
+async function session(request: SessionRequest, { store }: EndpointDeps): Promise<Response> {
+  if (!store) return json({ error: "Session storage not configured" } satisfies ErrorResponse, 503);
+
+  if (request.action === "session_start") {
+    return json({ sessionId: await store.createSession() });
+  }
+
+  if (request.action === "session_resume") {
+    const snapshot = await store.loadSession(request.sessionId);
+    if (!snapshot) return json({ error: "Session not found" } satisfies ErrorResponse, 404);
+    return json(snapshot);
+  }
+
+  if (request.action === "session_handoff") {
+    if (!(await store.sessionExists(request.sessionId))) return json({ error: "Session not found" } satisfies ErrorResponse, 404);
+    const expiresAt = new Date(Date.now() + HANDOFF_TTL_SECONDS * 1000).toISOString();
+    const handoffId = await store.openHandoff(request.sessionId, expiresAt);
+    return json({ handoffId, expiresAt } satisfies SessionHandoffResponse);
+  }
+
+  if (request.action === "session_claim") {
+    const handoff = await store.takeHandoff(request.handoffId);
+    if (!handoff) return json({ error: "This link has already been used" } satisfies ErrorResponse, 409);
+    if (Date.parse(handoff.expiresAt) < Date.now()) return json({ error: "This link has expired" } satisfies ErrorResponse, 409);
+    const snapshot = await store.loadSession(handoff.sessionId);
+    if (!snapshot) return json({ error: "Session not found" } satisfies ErrorResponse, 404);
+    await recordAudit(store, handoff.sessionId, {
+      eventType: "device_handoff",
+      actor: SYSTEM_ACTOR,
+      payload: { handoffId: handoff.id, step: snapshot.onboarding.step },
+    });
+    return json(snapshot);
+  }
+
+  if (request.action === "account_create") return createAccount(request, store);
+
+  const saved = await updateSession(store, request.save.sessionId, (stored) => mergeClientSave(stored, request.save));
+  if (!saved) return json({ error: "Session not found" } satisfies ErrorResponse, 404);
+  return json({ success: true });
+}
+
+export const sessionEndpoint = defineEndpoint<SessionRequest>({
+  name: "onboarding-session",
+  schema: SessionRequestSchema,
+  auth: "anon",
+  failureMessage: "Session storage error",
+  handle: session,
+});
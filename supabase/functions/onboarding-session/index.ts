@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { sessionEndpoint } from "./handler.ts";
+
+serveEndpoint(sessionEndpoint);
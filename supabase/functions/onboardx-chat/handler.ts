@@ -0,0 +1,56 @@
+// Onboarding chat: streams the assistant's reply for the current step followed
+// by the step's action events.
+
+import { ChatRequestSchema, type ChatRequest } from "../_shared/api.ts";
+import { defineEndpoint, eventStream, type EndpointDeps } from "../_shared/http.ts";
+import type { LlmMessage } from "../_shared/llm.ts";
+import { describeStep, initialOnboardingState, type OnboardingMachineState } from "../_shared/onboarding.ts";
+import { toEventStream } from "../_shared/protocol.ts";
+
+// The client owns step transitions via the shared state machine; the model
+// only writes prose for the step it is told about.
+async function chat(request: ChatRequest, { llm }: EndpointDeps): Promise<Response> {
+  const { messages, fileData } = request;
+  const onboardingState: OnboardingMachineState = request.onboarding ?? initialOnboardingState();
+
+  const systemPrompt = `You are OnboardX, a friendly AI banking onboarding assistant for Indian users. Help users open a bank account quickly.
+
+The onboarding flow is fixed: employment type → PAN card → Aadhaar card → monthly income and bank statement (both skipped for students) → face verification → risk scoring → account creation → email. You do NOT decide when a step is complete — the system does. Only talk about the current step below, and never claim a step is done unless the system says so.
+
+${describeStep(onboardingState)}
+
+DOCUMENT VERIFICATION CONTEXT: When document verification results are provided, incorporate the findings:
+- If verdict is "GENUINE": Acknowledge documents are verified.
+- If verdict is "SUSPICIOUS": Warn the user about suspicious elements and ask them to re-upload a clearer/original document.
+- If verdict is "LIKELY_FAKE": Reject the document and explain why. Ask user to upload a genuine document.
+- If the system says a document was NOT accepted, explain why and ask for the correct document.
+- Always mention if QR code verification passed or failed for Aadhaar.
+- Always mention if PAN format validation passed or failed.
+
+Keep replies SHORT (1-3 sentences), warm, professional, use emojis occasionally 🎉. Stay strictly on banking onboarding. Never break character. Never generate account numbers. Do NOT ask for email or phone number unless the current step is EMAIL.`;
+
+  const last = messages[messages.length - 1].content;
+  const userContent: LlmMessage["content"] = fileData
+    ? [
+        { type: "image_url", image_url: { url: `data:${fileData.mimeType};base64,${fileData.base64}` } },
+        { type: "text", text: last },
+      ]
+    : last;
+
+  const apiMessages: LlmMessage[] = [
+    { role: "system", content: systemPrompt },
+    ...messages.slice(0, -1),
+    { role: "user", content: userContent },
+  ];
+
+  const chatStream = await llm().streamChat({ role: "chat", messages: apiMessages });
+  return eventStream(toEventStream(chatStream, onboardingState.step));
+}
+
+export const chatEndpoint = defineEndpoint<ChatRequest>({
+  name: "onboardx-chat",
+  schema: ChatRequestSchema,
+  auth: "session",
+  failureMessage: "AI gateway error",
+  handle: chat,
+});
@@ -0,0 +1,39 @@
+// Parks an application in the manual review queue. ChatPage calls this instead
+// of opening the account when reviewTriggers (see review.ts) finds a reason; a
+// reviewer then decides the case through review-cases. The case is only opened
+// once the stored session has taken REVIEW_REQUESTED, so an application cannot
+// be queued twice or after it was decided.
+
+import { RequestReviewRequestSchema, type ErrorResponse, type RequestReviewRequest, type RequestReviewResponse } from "../_shared/api.ts";
+import { defineEndpoint, json, type EndpointDeps } from "../_shared/http.ts";
+import { transition } from "../_shared/onboarding.ts";
+import { updateSession } from "../_shared/store.ts";
+
+async function requestReview(request: RequestReviewRequest, { store }: EndpointDeps): Promise<Response> {
+  // Without a queue nobody would ever see the case, so the account stays unopened
+  if (!store) return json({ error: "Review queue not configured" } satisfies ErrorResponse, 503);
+
+  const { sessionId, triggers, behavior } = request;
+  let refusal = "Session not found";
+  const saved = await updateSession(store, sessionId, (session) => {
+    const result = transition(session.onboarding, { type: "REVIEW_REQUESTED" });
+    if (!result.accepted) {
+      refusal = result.reason ?? "Manual review is not expected at this step.";
+      return null;
+    }
+    return { ...session, onboarding: result.state };
+  });
+  if (!saved) return json({ error: refusal } satisfies ErrorResponse, 409);
+
+  const caseId = await store.openReview(sessionId, triggers, behavior);
+  console.log(JSON.stringify({ event: "review_requested", sessionId, caseId, triggers: triggers.map((t) => t.code) }));
+  return json({ caseId } satisfies RequestReviewResponse);
+}
+
+export const requestReviewEndpoint = defineEndpoint<RequestReviewRequest>({
+  name: "request-review",
+  schema: RequestReviewRequestSchema,
+  auth: "session",
+  failureMessage: "Could not submit the application for review",
+  handle: requestReview,
+});
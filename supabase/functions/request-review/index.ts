@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { requestReviewEndpoint } from "./handler.ts";
+
+serveEndpoint(requestReviewEndpoint);
@@ -0,0 +1,82 @@
+// Reviewer access to the manual review queue: list cases, open one with its
+// documents, verification results, risk breakdown and behavioural flags, and
+// decide it. Staff only.
+//
+// A decision is applied to the applicant's stored session through the state
+// machine (REVIEW_DECIDED) with a note in their transcript, so they see the
+// outcome — or the upload prompt — when they resume.
+
+import { ReviewCasesRequestSchema, type ErrorResponse, type ReviewCasesRequest } from "../_shared/api.ts";
+import { defineEndpoint, json, type Caller, type EndpointDeps } from "../_shared/http.ts";
+import { transition } from "../_shared/onboarding.ts";
+import { reviewDecisionMessage, type ReviewOutcome } from "../_shared/review.ts";
+import { recordAudit, updateSession, type OnboardingStore } from "../_shared/store.ts";
+
+type DecideRequest = Extract<ReviewCasesRequest, { action: "review_decide" }>;
+
+async function applyToSession(store: OnboardingStore, sessionId: string, outcome: ReviewOutcome): Promise<void> {
+  await updateSession(store, sessionId, (snapshot) => {
+    const result = transition(snapshot.onboarding, {
+      type: "REVIEW_DECIDED",
+      decision: outcome.decision,
+      documentType: outcome.documentType ?? undefined,
+    });
+    if (!result.accepted) {
+      // The case is decided either way; the session simply was not waiting on it
+      console.error(`review-cases: session ${sessionId} not updated: ${result.reason}`);
+      return null;
+    }
+    return {
+      ...snapshot,
+      onboarding: result.state,
+      messages: [...snapshot.messages, { role: "bot", content: reviewDecisionMessage(outcome), fromServer: true }],
+    };
+  });
+}
+
+async function decide(request: DecideRequest, store: OnboardingStore, reviewer: string): Promise<Response> {
+  const outcome: ReviewOutcome = {
+    decision: request.decision,
+    reason: request.reason,
+    documentType: request.decision === "request_reupload" ? request.documentType ?? null : null,
+    reviewer,
+    decidedAt: new Date().toISOString(),
+  };
+
+  const decided = await store.decideReview(request.caseId, outcome);
+  if (!decided) return json({ error: "Case not found or already decided" } satisfies ErrorResponse, 409);
+
+  await recordAudit(store, decided.sessionId, {
+    eventType: "review_decision",
+    actor: reviewer,
+    payload: { caseId: decided.id, decision: outcome.decision, reason: outcome.reason, documentType: outcome.documentType },
+  });
+  await applyToSession(store, decided.sessionId, outcome);
+  console.log(JSON.stringify({ event: "review_decided", caseId: decided.id, decision: outcome.decision, reviewer }));
+  return json(decided);
+}
+
+async function reviewCases(request: ReviewCasesRequest, { store }: EndpointDeps, { staff }: Caller): Promise<Response> {
+  if (!store) return json({ error: "Review queue not configured" } satisfies ErrorResponse, 503);
+  if (!staff) return json({ error: "Staff sign-in required" } satisfies ErrorResponse, 401);
+
+  switch (request.action) {
+    case "review_list":
+      return json(await store.listReviews(request.status));
+    case "review_case": {
+      const detail = await store.loadReview(request.caseId);
+      if (!detail) return json({ error: "Case not found" } satisfies ErrorResponse, 404);
+      return json(detail);
+    }
+    case "review_decide":
+      return decide(request, store, staff.email);
+  }
+}
+
+export const reviewCasesEndpoint = defineEndpoint<ReviewCasesRequest>({
+  name: "review-cases",
+  schema: ReviewCasesRequestSchema,
+  auth: "staff",
+  failureMessage: "Review queue error",
+  handle: reviewCases,
+});
@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { reviewCasesEndpoint } from "./handler.ts";
+
+serveEndpoint(reviewCasesEndpoint);
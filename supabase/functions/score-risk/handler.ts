@@ -0,0 +1,54 @@
+// Risk scoring: runs the champion risk model (see risk.ts) on the applicant's
+// profile and records the result against the session. When a challenger model
+// is configured it is scored in shadow: logged and recorded, never returned.
+//
+// With a session, the verified income and whether the documents and the selfie
+// passed their checks come from the session's stored results (see
+// evidence.ts); the request's own values only count without one.
+
+import { ScoreRiskRequestSchema, type ScoreRiskRequest } from "../_shared/api.ts";
+import { SYSTEM_ACTOR } from "../_shared/audit.ts";
+import { documentsVerified, faceVerified, verifiedIncome } from "../_shared/evidence.ts";
+import { defineEndpoint, json, type EndpointDeps } from "../_shared/http.ts";
+import { calculateRisk, DEFAULT_RISK_MODEL, type RiskModelSet, type RiskResult } from "../_shared/risk.ts";
+import { bestEffort, recordAudit } from "../_shared/store.ts";
+
+const summary = (r: RiskResult) => ({ modelVersion: r.modelVersion, probability: r.probability, level: r.level });
+
+async function scoreRisk(request: ScoreRiskRequest, { store }: EndpointDeps): Promise<Response> {
+  const { sessionId, ...declared } = request;
+
+  const stored = store && sessionId ? await store.loadVerifications(sessionId) : null;
+  const inputs = stored
+    ? { ...declared, verifiedIncome: verifiedIncome(stored), documentsVerified: documentsVerified(stored), faceVerified: faceVerified(stored) }
+    : declared;
+
+  const configured = store ? await bestEffort("risk models", () => store.loadRiskModels()) : null;
+  const models: RiskModelSet = configured ?? { champion: DEFAULT_RISK_MODEL, challenger: null };
+
+  const result = calculateRisk(inputs, models.champion);
+  const shadow = models.challenger ? calculateRisk(inputs, models.challenger) : null;
+
+  if (shadow) {
+    console.log(JSON.stringify({ event: "risk_shadow_score", sessionId, champion: summary(result), challenger: summary(shadow) }));
+  }
+  if (store && sessionId) {
+    await bestEffort("risk result", () => store.recordRisk(sessionId, result, "champion"));
+    // Only the champion decides; the shadow score is not part of the trail
+    await recordAudit(store, sessionId, {
+      eventType: "risk_score",
+      actor: SYSTEM_ACTOR,
+      payload: { ...summary(result), dti: result.dti, foir: result.foir, reasonCodes: result.reasonCodes },
+    });
+    if (shadow) await bestEffort("shadow risk result", () => store.recordRisk(sessionId, shadow, "challenger"));
+  }
+  return json(result);
+}
+
+export const scoreRiskEndpoint = defineEndpoint<ScoreRiskRequest>({
+  name: "score-risk",
+  schema: ScoreRiskRequestSchema,
+  auth: "session",
+  failureMessage: "Risk scoring failed",
+  handle: scoreRisk,
+});
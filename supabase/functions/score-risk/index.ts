@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { scoreRiskEndpoint } from "./handler.ts";
+
+serveEndpoint(scoreRiskEndpoint);
@@ -0,0 +1,58 @@
+// Compliance screening: matches the name and date of birth read off the
+// session's PAN card against the sanctions, PEP and adverse-media watch lists
+// (see screening.ts) and applies the outcome to the stored session through the
+// state machine (SCREENING_COMPLETED). A probable match holds account creation
+// until compliance has reviewed it, and screening again does not lift it.
+
+import { ScreenApplicantRequestSchema, type ErrorResponse, type ScreenApplicantRequest, type ScreenApplicantResponse } from "../_shared/api.ts";
+import { SYSTEM_ACTOR } from "../_shared/audit.ts";
+import { defineEndpoint, json, type EndpointDeps } from "../_shared/http.ts";
+import { transition, type IdentitySummary } from "../_shared/onboarding.ts";
+import { screenIdentity } from "../_shared/screening.ts";
+import { bestEffort, recordAudit, updateSession } from "../_shared/store.ts";
+
+const sameIdentity = (a: IdentitySummary | null, b: IdentitySummary) => a?.name === b.name && a?.dob === b.dob;
+
+async function screenApplicant({ sessionId }: ScreenApplicantRequest, { store, watchLists }: EndpointDeps): Promise<Response> {
+  // The outcome has to land on the session for account creation to see it
+  if (!store) return json({ error: "Session storage not configured" } satisfies ErrorResponse, 503);
+
+  const stored = await store.loadSession(sessionId, false);
+  const identity = stored?.onboarding.context.panIdentity;
+  if (!identity?.name) return json({ error: "No PAN card details to screen yet" } satisfies ErrorResponse, 409);
+  const subject = { name: identity.name, dob: identity.dob };
+
+  // A missing or unreadable list fails the request rather than screening clear
+  const result: ScreenApplicantResponse = screenIdentity(subject, await watchLists());
+
+  if (result.outcome !== "clear") {
+    console.log(JSON.stringify({ event: "screening_hit", sessionId, outcome: result.outcome, hits: result.hits.length }));
+  }
+  let refusal = "The PAN card details changed during screening";
+  const saved = await updateSession(store, sessionId, (session) => {
+    if (!sameIdentity(session.onboarding.context.panIdentity, subject)) return null;
+    const applied = transition(session.onboarding, { type: "SCREENING_COMPLETED", outcome: result.outcome });
+    if (!applied.accepted) {
+      refusal = applied.reason ?? "Screening is not expected at this step.";
+      return null;
+    }
+    return { ...session, onboarding: applied.state };
+  });
+  await bestEffort("screening result", () =>
+    store.recordVerification(sessionId, "screening", result.outcome.toUpperCase(), { subject, ...result }));
+  await recordAudit(store, sessionId, {
+    eventType: "screening_result",
+    actor: SYSTEM_ACTOR,
+    payload: { outcome: result.outcome, hits: result.hits.map((h) => ({ listId: h.listId, entryId: h.entryId, score: h.score })) },
+  });
+  if (!saved) return json({ error: refusal } satisfies ErrorResponse, 409);
+  return json(result);
+}
+
+export const screenApplicantEndpoint = defineEndpoint<ScreenApplicantRequest>({
+  name: "screen-applicant",
+  schema: ScreenApplicantRequestSchema,
+  auth: "session",
+  failureMessage: "Screening failed",
+  handle: screenApplicant,
+});
@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { screenApplicantEndpoint } from "./handler.ts";
+
+serveEndpoint(screenApplicantEndpoint);
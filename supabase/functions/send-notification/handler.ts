@@ -0,0 +1,80 @@
+// Notifications: emails the new account's details to the applicant via Resend.
+
+import { SendEmailRequestSchema, type ErrorResponse, type SendEmailRequest } from "../_shared/api.ts";
+import { SYSTEM_ACTOR } from "../_shared/audit.ts";
+import { defineEndpoint, json, type EndpointDeps } from "../_shared/http.ts";
+import { recordAudit, type OnboardingStore } from "../_shared/store.ts";
+
+async function recordSend(store: OnboardingStore | null, request: SendEmailRequest, success: boolean): Promise<void> {
+  const { sessionId, to, accountDetails } = request;
+  if (!store || !sessionId) return;
+  await recordAudit(store, sessionId, {
+    eventType: "email_sent",
+    actor: SYSTEM_ACTOR,
+    payload: { to, accountNumber: accountDetails.accountNumber, success },
+  });
+}
+
+async function sendEmail(request: SendEmailRequest, { env, store }: EndpointDeps): Promise<Response> {
+  const RESEND_API_KEY = env("RESEND_API_KEY");
+  if (!RESEND_API_KEY) return json({ error: "Email service not configured" } satisfies ErrorResponse, 500);
+
+  const { to, accountDetails } = request;
+  const htmlBody = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #0a0a0a; color: #fff; border-radius: 12px; overflow: hidden;">
+      <div style="background: linear-gradient(135deg, #8b0000, #cc0000); padding: 30px; text-align: center;">
+        <h1 style="margin: 0; font-size: 28px; letter-spacing: 2px;">Onboard<span style="color: #ff6666;">X</span></h1>
+        <p style="margin: 8px 0 0; font-size: 14px; opacity: 0.9;">Your Digital Banking Partner</p>
+      </div>
+      <div style="padding: 30px;">
+        <h2 style="color: #22c55e; margin-top: 0;">🎉 Account Created Successfully!</h2>
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+          <tr><td style="padding: 10px; color: #999; border-bottom: 1px solid #222;">Account Number</td><td style="padding: 10px; color: #fff; font-weight: bold; border-bottom: 1px solid #222;">${accountDetails.accountNumber}</td></tr>
+          <tr><td style="padding: 10px; color: #999; border-bottom: 1px solid #222;">IFSC Code</td><td style="padding: 10px; color: #fff; font-weight: bold; border-bottom: 1px solid #222;">${accountDetails.ifsc}</td></tr>
+          <tr><td style="padding: 10px; color: #999; border-bottom: 1px solid #222;">Branch</td><td style="padding: 10px; color: #fff; border-bottom: 1px solid #222;">OnboardX Digital Branch, Mumbai</td></tr>
+          <tr><td style="padding: 10px; color: #999; border-bottom: 1px solid #222;">Account Type</td><td style="padding: 10px; color: #fff; border-bottom: 1px solid #222;">${accountDetails.accountType}</td></tr>
+          ${accountDetails.monthlyIncome ? `<tr><td style="padding: 10px; color: #999; border-bottom: 1px solid #222;">Monthly Income</td><td style="padding: 10px; color: #fff; border-bottom: 1px solid #222;">₹${accountDetails.monthlyIncome}</td></tr>` : ""}
+          ${accountDetails.riskLevel ? `<tr><td style="padding: 10px; color: #999;">Risk Level</td><td style="padding: 10px; color: #fff;">${accountDetails.riskLevel}</td></tr>` : ""}
+        </table>
+        <p style="color: #666; font-size: 12px; margin-top: 30px; text-align: center;">This is an automated email from OnboardX. Please save these details for your records.</p>
+      </div>
+    </div>`;
+
+  try {
+    const emailResp = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${RESEND_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: "OnboardX <onboarding@resend.dev>",
+        to: [to],
+        subject: "🎉 Your OnboardX Bank Account Details",
+        html: htmlBody,
+      }),
+    });
+
+    if (!emailResp.ok) {
+      const errText = await emailResp.text();
+      console.error("Resend error:", emailResp.status, errText);
+      await recordSend(store, request, false);
+      return json({ success: false, error: "Failed to send email" }, 500);
+    }
+
+    await recordSend(store, request, true);
+    return json({ success: true });
+  } catch (err) {
+    console.error("Email send error:", err);
+    await recordSend(store, request, false);
+    return json({ success: false, error: "Email service error" }, 500);
+  }
+}
+
+export const sendNotificationEndpoint = defineEndpoint<SendEmailRequest>({
+  name: "send-notification",
+  schema: SendEmailRequestSchema,
+  auth: "session",
+  failureMessage: "Email service error",
+  handle: sendEmail,
+});
@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { sendNotificationEndpoint } from "./handler.ts";
+
+serveEndpoint(sendNotificationEndpoint);
@@ -0,0 +1,159 @@
+// Document verification: the vision model's forensic report on a PAN or
+// Aadhaar image, adjusted by the deterministic QR, ID number and cross-document
+// identity checks.
+
+import { checkAadhaarQr, type QrCheck } from "../_shared/aadhaarQr.ts";
+import {
+  VerifyDocumentRequestSchema,
+  type DocumentVerification,
+  type VerifyDocumentRequest,
+  type VerifyDocumentResponse,
+} from "../_shared/api.ts";
+import { SYSTEM_ACTOR } from "../_shared/audit.ts";
+import { defineEndpoint, json, type EndpointDeps } from "../_shared/http.ts";
+import { checkIdNumber, validatePANFormat, type IdNumberCheck } from "../_shared/idValidation.ts";
+import { matchIdentities, type IdentityMatch } from "../_shared/identityMatch.ts";
+import type { LlmMessage } from "../_shared/llm.ts";
+import { completeValidated, DocumentReportSchema } from "../_shared/modelOutput.ts";
+import { bestEffort, recordAudit } from "../_shared/store.ts";
+
+async function verifyDocument(request: VerifyDocumentRequest, { env, store, llm }: EndpointDeps): Promise<Response> {
+  const { imageBase64, mimeType, qrData, documentType, compareWith, sessionId } = request;
+
+  // PAN format check if PAN number extracted
+  let panCheck: { valid: boolean; reason: string } | null = null;
+  if (request.panNumber) {
+    panCheck = validatePANFormat(request.panNumber);
+  }
+
+  const verifyPrompt = `You are a KYC document forensic analyst. Analyze the uploaded ${documentType || "identity document"} image for authenticity.
+
+Perform ALL these checks:
+
+1. **DOCUMENT TYPE DETECTION**: Identify if this is a PAN card, Aadhaar card, or other document.
+
+2. **IMAGE TAMPERING DETECTION**:
+ - Check for signs of digital editing (inconsistent fonts, misaligned text, color anomalies, blurred edges around text/photo)
+ - Check if the photo appears digitally pasted or manipulated
+ - Check for pixelation or resolution inconsistencies between areas
+ - Check for copy-paste artifacts or cloning marks
+
+3. **FORMAT & LAYOUT VALIDATION**:
+ - For PAN: Verify correct NSDL/UTI layout, Income Tax Department logo, hologram area, correct font
+ - For Aadhaar: Verify UIDAI logo, correct layout, emblem of India, proper formatting
+ - Check print quality indicators (professional vs home-printed)
+
+4. **PHYSICAL SECURITY FEATURES** (visible in image):
+ - Micro text presence/absence
+ - Holographic elements (if visible)
+ - Ghost image (for Aadhaar)
+ - Proper embossing indicators
+ - Issue/print date formatting
+
+5. **DATA CONSISTENCY**:
+ - Does the name format match standard government document formatting?
+ - Are dates in correct format?
+ - Is the ID number format valid?
+${panCheck ? `\n6. **PAN FORMAT CHECK**: ${panCheck.reason}` : ""}
+
+Respond ONLY with a raw JSON object (no markdown, no code blocks):
+{
+"documentType": "PAN" | "Aadhaar" | "Unknown",
+"isAuthentic": boolean,
+"confidenceScore": number (0-100),
+"tamperedAreas": string[] (list of suspicious areas, empty if none),
+"formatValid": boolean,
+"securityFeatures": { "detected": string[], "missing": string[] },
+"extractedData": { "name": string | null, "idNumber": string | null, "dob": string | null, "gender": string | null },
+"qrConsistent": null,
+"riskFlags": string[] (list of red flags),
+"overallVerdict": "GENUINE" | "SUSPICIOUS" | "LIKELY_FAKE",
+"reason": string (max 50 words summarizing the analysis)
+}`;
+
+  const verifyMessages: LlmMessage[] = [
+    { role: "system", content: verifyPrompt },
+    {
+      role: "user",
+      content: [
+        { type: "text", text: `Analyze this ${documentType || "document"} for authenticity.` },
+        { type: "image_url", image_url: { url: `data:${mimeType};base64,${imageBase64}` } },
+      ],
+    },
+  ];
+
+  const { value: parsed, raw: content } = await completeValidated<DocumentVerification>(llm(), { role: "vision", messages: verifyMessages }, DocumentReportSchema);
+
+  // Secure QR is decoded and compared deterministically; the model never sees it
+  let qrCheck: QrCheck | null = null;
+  if (qrData) {
+    qrCheck = await checkAadhaarQr(qrData, parsed?.extractedData, env("AADHAAR_QR_PUBLIC_KEY"));
+    if (parsed) {
+      parsed.qrConsistent = qrCheck.consistent;
+      if (qrCheck.signatureValid === false) parsed.riskFlags = [...(parsed.riskFlags ?? []), "Aadhaar QR signature is invalid"];
+      parsed.riskFlags = [...(parsed.riskFlags ?? []), ...qrCheck.mismatches];
+      if ((qrCheck.signatureValid === false || qrCheck.consistent === false) && parsed.overallVerdict === "GENUINE") {
+        parsed.overallVerdict = "SUSPICIOUS";
+      }
+    }
+  }
+
+  // Structural ID checks (PAN format, Aadhaar Verhoeff) override the model's
+  // verdict. A number that could not be read at all is not evidence of a fake,
+  // so the outcome is left inconclusive and the card is uploaded again.
+  const idNumberCheck: IdNumberCheck | null = parsed
+    ? checkIdNumber(parsed.documentType, parsed.extractedData?.idNumber)
+    : null;
+  if (parsed && idNumberCheck && !idNumberCheck.valid) {
+    parsed.formatValid = false;
+    if (!idNumberCheck.missing) parsed.overallVerdict = "LIKELY_FAKE";
+    parsed.riskFlags = [...(parsed.riskFlags ?? []), idNumberCheck.reason];
+  }
+
+  // Cross-document identity check against the previously accepted document
+  const identityMatch: IdentityMatch | null = compareWith && parsed?.extractedData
+    ? matchIdentities(compareWith, parsed.extractedData)
+    : null;
+  if (parsed && identityMatch && !identityMatch.match) {
+    parsed.riskFlags = [...(parsed.riskFlags ?? []), "Identity does not match the previously uploaded document"];
+  }
+
+  if (store && sessionId) {
+    const documentId = await bestEffort("document verification", async () => {
+      const documentId = await store.recordDocument(sessionId, {
+        documentType: parsed?.documentType ?? documentType ?? null,
+        mimeType,
+        base64: imageBase64,
+        qrData: qrData ?? null,
+      });
+      await store.recordVerification(sessionId, "document", parsed?.overallVerdict ?? null, { ...(parsed ?? { raw: content }), qrCheck, idNumberCheck, identityMatch }, documentId);
+      return documentId;
+    });
+    await recordAudit(store, sessionId, {
+      eventType: "document_verdict",
+      actor: SYSTEM_ACTOR,
+      payload: {
+        documentId,
+        documentType: parsed?.documentType ?? documentType ?? null,
+        verdict: parsed?.overallVerdict ?? null,
+        confidenceScore: parsed?.confidenceScore ?? null,
+        riskFlags: parsed?.riskFlags ?? [],
+        qrSignatureValid: qrCheck?.signatureValid ?? null,
+        idNumberValid: idNumberCheck?.valid ?? null,
+        identityMatch: identityMatch?.match ?? null,
+      },
+    });
+  }
+
+  const outcome = !parsed || idNumberCheck?.missing ? "inconclusive" : parsed.overallVerdict === "LIKELY_FAKE" ? "failed" : "passed";
+  const response: VerifyDocumentResponse = { verification: parsed, outcome, raw: content, qrCheck, idNumberCheck, identityMatch };
+  return json(response);
+}
+
+export const verifyDocumentEndpoint = defineEndpoint<VerifyDocumentRequest>({
+  name: "verify-document",
+  schema: VerifyDocumentRequestSchema,
+  auth: "session",
+  failureMessage: "Document verification failed",
+  handle: verifyDocument,
+});
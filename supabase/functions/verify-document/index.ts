@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { verifyDocumentEndpoint } from "./handler.ts";
+
+serveEndpoint(verifyDocumentEndpoint);
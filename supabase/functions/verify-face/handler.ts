@@ -0,0 +1,144 @@
+// Face match against the document portrait (see faceMatch.ts): face_locate
+// finds the portrait on the session's verified card and the face in the
+// selfie, face_match crops the portrait from that card, scores it against the
+// selfie crop FaceVerification cut against the configured thresholds and
+// records the crops for audit.
+
+import {
+  FaceMatchRequestSchema,
+  type ErrorResponse,
+  type FaceLocateResponse,
+  type FaceMatchRequest,
+  type FaceMatchResponse,
+} from "../_shared/api.ts";
+import { SYSTEM_ACTOR, sha256Hex } from "../_shared/audit.ts";
+import {
+  faceMatchThresholds,
+  locateFaces,
+  scoreFaceMatch,
+  type FaceLocateAssessment,
+  type FaceMatchAssessment,
+} from "../_shared/faceMatch.ts";
+import { defineEndpoint, json, type EndpointDeps } from "../_shared/http.ts";
+import type { LlmContentPart } from "../_shared/llm.ts";
+import { completeValidated, FaceLocateAssessmentSchema, FaceMatchAssessmentSchema } from "../_shared/modelOutput.ts";
+import { bestEffort, recordAudit, type OnboardingStore } from "../_shared/store.ts";
+
+type LocateRequest = Extract<FaceMatchRequest, { action: "face_locate" }>;
+type MatchRequest = Extract<FaceMatchRequest, { action: "face_match" }>;
+
+const image = (base64: string): LlmContentPart => ({ type: "image_url", image_url: { url: `data:image/jpeg;base64,${base64}` } });
+
+const BOX_FORMAT = `{ "x": number, "y": number, "width": number, "height": number } | null`;
+
+const LOCATE_PROMPT = `You are a face localisation AI for remote identity verification. You are given an Indian PAN or Aadhaar card image, then a selfie.
+
+Find the holder's portrait photo printed on the card, and the applicant's face in the selfie. Give each as a tight bounding box around the face (forehead to chin, ear to ear), in fractions of that image's width and height (0 to 1) measured from its top-left corner. Ignore ghost images, holograms and any other face. Use null when there is no clear face.
+
+Respond ONLY with a raw JSON object (no markdown, no code blocks):
+{ "document": ${BOX_FORMAT}, "selfie": ${BOX_FORMAT}, "reason": string (max 20 words) }`;
+
+const MATCH_PROMPT = `You are a face matching AI for remote identity verification. You are given two face crops: first the portrait printed on the applicant's ID card, then their live selfie. The card photo may be years old, low resolution, greyscale or printed.
+
+Judge whether both show the same person from stable features (face shape, eyes, nose, mouth, ears, hairline); ignore age, glasses, facial hair, lighting, expression and image quality.
+
+Respond ONLY with a raw JSON object (no markdown, no code blocks):
+{ "similarity": number (0-100, 100 = certainly the same person), "samePerson": boolean, "reason": string (max 25 words) }`;
+
+const noDocument = () => json({ error: "No verified PAN or Aadhaar card to match the selfie against." } satisfies ErrorResponse, 409);
+
+/** The card verify-document accepted for the session, base64. */
+async function verifiedCard(store: OnboardingStore, sessionId: string | null | undefined): Promise<string | null> {
+  return sessionId ? (await store.loadVerifiedDocument(sessionId))?.base64 ?? null : null;
+}
+
+// Without a database there is no card on file, so the request's copy stands in for it
+async function locate(request: LocateRequest, { store, llm }: EndpointDeps): Promise<Response> {
+  const document = store ? await verifiedCard(store, request.sessionId) : request.document;
+  if (!document) return noDocument();
+
+  const { value: assessment } = await completeValidated<FaceLocateAssessment>(llm(), {
+    role: "vision",
+    messages: [
+      { role: "system", content: LOCATE_PROMPT },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "ID card:" },
+          image(document),
+          { type: "text", text: "Selfie:" },
+          image(request.selfie),
+        ],
+      },
+    ],
+  }, FaceLocateAssessmentSchema);
+  return json(locateFaces(assessment) satisfies FaceLocateResponse);
+}
+
+async function match(request: MatchRequest, { env, store, llm, cropFace }: EndpointDeps): Promise<Response> {
+  const { selfie, sessionId } = request;
+  let documentImage = request.document.image ?? null;
+  if (store) {
+    // Cut from the card on file, so whatever box the client sends can only frame the card holder
+    const card = await verifiedCard(store, sessionId);
+    documentImage = card && await cropFace(card, request.document.box);
+  }
+  if (!documentImage) return noDocument();
+  const document = { image: documentImage, box: request.document.box };
+
+  const { value: assessment, raw } = await completeValidated<FaceMatchAssessment>(llm(), {
+    role: "vision",
+    messages: [
+      { role: "system", content: MATCH_PROMPT },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "ID card portrait:" },
+          image(document.image),
+          { type: "text", text: "Selfie:" },
+          image(selfie.image),
+        ],
+      },
+    ],
+  }, FaceMatchAssessmentSchema);
+  const result: FaceMatchResponse = {
+    ...scoreFaceMatch(assessment, faceMatchThresholds(env)),
+    crops: { selfie: selfie.image, document: document.image },
+  };
+
+  if (store && sessionId) {
+    const verdict = assessment ? result.verdict.toUpperCase() : null;
+    await bestEffort("face result", () => store.recordVerification(sessionId, "face", verdict, {
+      ...result,
+      boxes: { selfie: selfie.box, document: document.box },
+      assessment: assessment ?? { raw },
+    }));
+    await recordAudit(store, sessionId, {
+      eventType: "face_result",
+      actor: SYSTEM_ACTOR,
+      payload: {
+        verdict,
+        outcome: result.outcome,
+        similarity: result.similarity,
+        thresholds: result.thresholds,
+        reason: result.reason,
+        // The crops themselves are in the face verification result
+        selfieCrop: { box: selfie.box, sha256: await sha256Hex(selfie.image) },
+        documentCrop: { box: document.box, sha256: await sha256Hex(document.image) },
+      },
+    });
+  }
+  return json(result);
+}
+
+function verifyFace(request: FaceMatchRequest, deps: EndpointDeps): Promise<Response> {
+  return request.action === "face_locate" ? locate(request, deps) : match(request, deps);
+}
+
+export const verifyFaceEndpoint = defineEndpoint<FaceMatchRequest>({
+  name: "verify-face",
+  schema: FaceMatchRequestSchema,
+  auth: "session",
+  failureMessage: "Face verification failed",
+  handle: verifyFace,
+});
@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { verifyFaceEndpoint } from "./handler.ts";
+
+serveEndpoint(verifyFaceEndpoint);
@@ -0,0 +1,37 @@
+// Income verification: parses an uploaded bank statement (see bankStatement.ts),
+// works out the income it supports and compares it with the declared income.
+// The analysis is recorded against the session; the statement itself is not
+// stored.
+
+import { VerifyIncomeRequestSchema, type ErrorResponse, type VerifyIncomeRequest, type VerifyIncomeResponse } from "../_shared/api.ts";
+import { analyseStatement, parseStatementCsv, parseStatementText, StatementParseError, type StatementTransaction } from "../_shared/bankStatement.ts";
+import { defineEndpoint, json, type EndpointDeps } from "../_shared/http.ts";
+import { bestEffort } from "../_shared/store.ts";
+
+async function verifyIncome(request: VerifyIncomeRequest, { store }: EndpointDeps): Promise<Response> {
+  const { format, content, declaredIncome, sessionId } = request;
+
+  let transactions: StatementTransaction[];
+  try {
+    transactions = format === "csv" ? parseStatementCsv(content) : parseStatementText(content.split(/\r?\n/));
+  } catch (err) {
+    if (err instanceof StatementParseError) return json({ error: err.message } satisfies ErrorResponse, 422);
+    throw err;
+  }
+
+  const verification: VerifyIncomeResponse = analyseStatement(transactions, declaredIncome);
+
+  if (store && sessionId) {
+    await bestEffort("income verification", () =>
+      store.recordVerification(sessionId, "income", verification.consistent ? "CONSISTENT" : "MISMATCH", verification));
+  }
+  return json(verification);
+}
+
+export const verifyIncomeEndpoint = defineEndpoint<VerifyIncomeRequest>({
+  name: "verify-income",
+  schema: VerifyIncomeRequestSchema,
+  auth: "session",
+  failureMessage: "Income verification failed",
+  handle: verifyIncome,
+});
@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { verifyIncomeEndpoint } from "./handler.ts";
+
+serveEndpoint(verifyIncomeEndpoint);
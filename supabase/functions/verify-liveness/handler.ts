@@ -0,0 +1,104 @@
+// Active liveness: issues a random challenge for the session, then has the
+// vision model judge whether the captured frames respond to each prompt, and
+// scores the result (see liveness.ts). FaceVerification runs this before the
+// face match.
+
+import {
+  LivenessRequestSchema,
+  type ErrorResponse,
+  type LivenessRequest,
+  type LivenessStartResponse,
+  type LivenessVerifyResponse,
+} from "../_shared/api.ts";
+import { SYSTEM_ACTOR } from "../_shared/audit.ts";
+import { defineEndpoint, json, type EndpointDeps } from "../_shared/http.ts";
+import type { LlmContentPart } from "../_shared/llm.ts";
+import {
+  LIVENESS_CHALLENGE_TTL_SECONDS,
+  LIVENESS_PROMPT_TEXT,
+  pickLivenessPrompts,
+  scoreLiveness,
+  type LivenessAssessment,
+  type LivenessPrompt,
+} from "../_shared/liveness.ts";
+import { completeValidated, LivenessAssessmentSchema } from "../_shared/modelOutput.ts";
+import { bestEffort, recordAudit, type OnboardingStore } from "../_shared/store.ts";
+
+type VerifyRequest = Extract<LivenessRequest, { action: "liveness_verify" }>;
+
+const frame = (base64: string): LlmContentPart => ({ type: "image_url", image_url: { url: `data:image/jpeg;base64,${base64}` } });
+
+function livenessPrompt(prompts: LivenessPrompt[]): string {
+  return `You are a liveness detection AI for remote identity verification. The applicant was shown ${prompts.length} prompts one after another and the camera captured a short burst of frames while each was on screen. You are given a neutral baseline frame, then each prompt's frames in order.
+
+For EACH prompt, judge from the change between the baseline and that prompt's frames whether the person actually performed it:
+${prompts.map((p) => `- ${p}: "${LIVENESS_PROMPT_TEXT[p]}"`).join("\n")}
+
+Also judge whether every frame shows the same live person. A printed photo, a screen replay, a mask or a still image cannot respond to the prompts: treat frames that do not change, or change in ways that do not match the prompt, as NOT performed.
+
+Respond ONLY with a raw JSON object (no markdown, no code blocks):
+{
+"challenges": [{ "prompt": ${prompts.map((p) => `"${p}"`).join(" | ")}, "performed": boolean, "confidence": number (0-100), "reason": string (max 15 words) }],
+"sameFace": boolean,
+"reason": string (max 25 words)
+}`;
+}
+
+async function start(sessionId: string, store: OnboardingStore): Promise<Response> {
+  const prompts = pickLivenessPrompts();
+  const expiresAt = new Date(Date.now() + LIVENESS_CHALLENGE_TTL_SECONDS * 1000).toISOString();
+  const challengeId = await store.openLivenessChallenge(sessionId, prompts, expiresAt);
+  return json({ challengeId, prompts, expiresAt } satisfies LivenessStartResponse);
+}
+
+async function verify(request: VerifyRequest, store: OnboardingStore, { llm }: EndpointDeps): Promise<Response> {
+  const { challengeId, baseline, responses, sessionId } = request;
+
+  const challenge = await store.takeLivenessChallenge(challengeId, sessionId);
+  if (!challenge) return json({ error: "Liveness challenge not found or already answered" } satisfies ErrorResponse, 409);
+  if (Date.parse(challenge.expiresAt) < Date.now()) return json({ error: "Liveness challenge expired" } satisfies ErrorResponse, 409);
+  if (responses.map((r) => r.prompt).join() !== challenge.prompts.join()) {
+    return json({ error: "Responses do not match the challenge" } satisfies ErrorResponse, 400);
+  }
+
+  const content: LlmContentPart[] = [{ type: "text", text: "Baseline frame:" }, frame(baseline)];
+  responses.forEach((r, i) => {
+    content.push({ type: "text", text: `Prompt ${i + 1} — ${r.prompt}: "${LIVENESS_PROMPT_TEXT[r.prompt]}" (${r.frames.length} frames in order):` });
+    content.push(...r.frames.map(frame));
+  });
+
+  const { value: assessment, raw } = await completeValidated<LivenessAssessment>(llm(), {
+    role: "vision",
+    messages: [
+      { role: "system", content: livenessPrompt(challenge.prompts) },
+      { role: "user", content },
+    ],
+  }, LivenessAssessmentSchema);
+  const result: LivenessVerifyResponse = scoreLiveness(challenge.prompts, assessment);
+
+  const verdict = assessment ? (result.passed ? "PASSED" : "FAILED") : null;
+  await bestEffort("liveness result", () => store.recordVerification(sessionId, "liveness", verdict, { ...result, challengeId, assessment: assessment ?? { raw } }));
+  await recordAudit(store, sessionId, {
+    eventType: "liveness_result",
+    actor: SYSTEM_ACTOR,
+    payload: { challengeId, verdict, score: result.score, challenges: result.challenges.map((c) => ({ prompt: c.prompt, passed: c.passed, confidence: c.confidence })) },
+  });
+  return json(result);
+}
+
+async function verifyLiveness(request: LivenessRequest, deps: EndpointDeps): Promise<Response> {
+  // Challenges must be remembered between start and verify to be single-use
+  const { store } = deps;
+  if (!store) return json({ error: "Liveness challenges not configured" } satisfies ErrorResponse, 503);
+
+  if (request.action === "liveness_start") return start(request.sessionId, store);
+  return verify(request, store, deps);
+}
+
+export const verifyLivenessEndpoint = defineEndpoint<LivenessRequest>({
+  name: "verify-liveness",
+  schema: LivenessRequestSchema,
+  auth: "session",
+  failureMessage: "Liveness check failed",
+  handle: verifyLiveness,
+});
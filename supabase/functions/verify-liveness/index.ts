@@ -0,0 +1,4 @@
+import { serveEndpoint } from "../_shared/runtime.ts";
+import { verifyLivenessEndpoint } from "./handler.ts";
+
+serveEndpoint(verifyLivenessEndpoint);
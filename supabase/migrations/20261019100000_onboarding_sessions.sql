@@ -0,0 +1,72 @@
+-- Onboarding sessions and everything the onboardx-chat function records against them.
+-- All tables are written by the edge function with the service role; RLS is enabled
+-- with no policies so the publishable key cannot read or write them directly.
+
+create table public.onboarding_sessions (
+  id uuid primary key default gen_random_uuid(),
+  step text not null default 'employment',
+  state jsonb not null,
+  risk_result jsonb,
+  account jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.onboarding_messages (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.onboarding_sessions (id) on delete cascade,
+  position integer not null,
+  role text not null check (role in ('user', 'bot')),
+  content text not null,
+  is_file boolean not null default false,
+  is_account_details boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (session_id, position)
+);
+
+create table public.onboarding_documents (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.onboarding_sessions (id) on delete cascade,
+  document_type text,
+  mime_type text not null,
+  storage_path text not null,
+  sha256 text not null,
+  qr_data text,
+  created_at timestamptz not null default now()
+);
+
+create table public.verification_results (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.onboarding_sessions (id) on delete cascade,
+  document_id uuid references public.onboarding_documents (id) on delete set null,
+  kind text not null check (kind in ('document', 'face')),
+  verdict text,
+  result jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create table public.risk_results (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.onboarding_sessions (id) on delete cascade,
+  probability double precision not null,
+  level text not null check (level in ('Low', 'Medium', 'High')),
+  dti double precision not null,
+  result jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index onboarding_messages_session_idx on public.onboarding_messages (session_id, position);
+create index onboarding_documents_session_idx on public.onboarding_documents (session_id, created_at);
+create index verification_results_session_idx on public.verification_results (session_id, created_at);
+create index risk_results_session_idx on public.risk_results (session_id, created_at);
+
+alter table public.onboarding_sessions enable row level security;
+alter table public.onboarding_messages enable row level security;
+alter table public.onboarding_documents enable row level security;
+alter table public.verification_results enable row level security;
+alter table public.risk_results enable row level security;
+
+-- Document images are kept so a resumed session can still run the face match.
+insert into storage.buckets (id, name, public)
+values ('onboarding-documents', 'onboarding-documents', false)
+on conflict (id) do nothing;
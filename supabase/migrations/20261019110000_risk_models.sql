@@ -0,0 +1,42 @@
+-- Versioned risk model definitions (see RiskModel in _shared/risk.ts). At most
+-- one champion scores applicants; an optional challenger runs in shadow.
+create table public.risk_models (
+  version text primary key,
+  status text not null default 'retired' check (status in ('champion', 'challenger', 'retired')),
+  definition jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index risk_models_active_status_idx on public.risk_models (status)
+  where status in ('champion', 'challenger');
+
+alter table public.risk_models enable row level security;
+
+insert into public.risk_models (version, status, definition) values (
+  'lr-v1',
+  'champion',
+  '{
+    "intercept": -1.5,
+    "incomeBands": [
+      { "above": 80000, "coefficient": -1.2, "band": "above ₹80,000", "label": "high income" },
+      { "above": 40000, "coefficient": -0.5, "band": "₹40,001–₹80,000", "label": "moderate income" },
+      { "above": 20000, "coefficient": 0.2, "band": "₹20,001–₹40,000", "label": "lower-moderate income" },
+      { "above": 10000, "coefficient": 0.8, "band": "₹10,001–₹20,000", "label": "low income" },
+      { "above": null, "coefficient": 1.5, "band": "₹10,000 or less", "label": "low income" }
+    ],
+    "employment": { "salaried": -0.8, "business": 0.1, "freelancer": 0.6, "student": 1.2 },
+    "otherEmployment": 0.3,
+    "documents": { "verified": -0.4, "unverified": 0.3 },
+    "face": { "verified": -0.3, "unverified": 0.2 },
+    "cutoffs": { "medium": 0.35, "high": 0.65 }
+  }'::jsonb
+);
+
+-- Every score records the model that produced it and whether it was shadow.
+-- Scores written before this migration all came from lr-v1.
+alter table public.risk_results
+  add column model_version text not null default 'lr-v1',
+  add column role text not null default 'champion' check (role in ('champion', 'challenger'));
+alter table public.risk_results alter column model_version drop default;
+
+create index risk_results_model_idx on public.risk_results (model_version, role, created_at);
@@ -0,0 +1,31 @@
+-- lr-v2: lr-v1 plus FOIR bands now that applicants declare EMIs, rent and
+-- credit card dues. lr-v1 is kept, retired, so its scores stay explainable.
+update public.risk_models set status = 'retired' where version = 'lr-v1';
+
+insert into public.risk_models (version, status, definition) values (
+  'lr-v2',
+  'champion',
+  '{
+    "intercept": -1.5,
+    "incomeBands": [
+      { "above": 80000, "coefficient": -1.2, "band": "above ₹80,000", "label": "high income" },
+      { "above": 40000, "coefficient": -0.5, "band": "₹40,001–₹80,000", "label": "moderate income" },
+      { "above": 20000, "coefficient": 0.2, "band": "₹20,001–₹40,000", "label": "lower-moderate income" },
+      { "above": 10000, "coefficient": 0.8, "band": "₹10,001–₹20,000", "label": "low income" },
+      { "above": null, "coefficient": 1.5, "band": "₹10,000 or less", "label": "low income" }
+    ],
+    "foirBands": [
+      { "above": 60, "coefficient": 1, "band": "above 60%", "label": "very high obligations" },
+      { "above": 50, "coefficient": 0.6, "band": "50–60%", "label": "high obligations" },
+      { "above": 35, "coefficient": 0.2, "band": "35–50%", "label": "moderate obligations" },
+      { "above": null, "coefficient": -0.2, "band": "35% or less", "label": "low obligations" }
+    ],
+    "employment": { "salaried": -0.8, "business": 0.1, "freelancer": 0.6, "student": 1.2 },
+    "otherEmployment": 0.3,
+    "documents": { "verified": -0.4, "unverified": 0.3 },
+    "face": { "verified": -0.3, "unverified": 0.2 },
+    "cutoffs": { "medium": 0.35, "high": 0.65 }
+  }'::jsonb
+);
+
+alter table public.risk_results add column foir double precision;
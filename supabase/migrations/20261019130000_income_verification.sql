@@ -0,0 +1,5 @@
+-- Bank statement income verification is recorded alongside document and face
+-- results. Only the analysis is kept; the statement itself is not stored.
+alter table public.verification_results drop constraint verification_results_kind_check;
+alter table public.verification_results
+  add constraint verification_results_kind_check check (kind in ('document', 'face', 'income'));
@@ -0,0 +1,5 @@
+-- Sanctions, PEP and adverse-media screening outcomes are recorded alongside
+-- the other verification results, with the hits that produced them.
+alter table public.verification_results drop constraint verification_results_kind_check;
+alter table public.verification_results
+  add constraint verification_results_kind_check check (kind in ('document', 'face', 'income', 'screening'));
@@ -0,0 +1,23 @@
+-- Applications parked for manual review (see _shared/review.ts) and the
+-- reviewer's decision on each. Reviewers are Supabase Auth users whose
+-- app_metadata.role is 'reviewer' or 'admin', set with the service role.
+create table public.review_cases (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.onboarding_sessions (id) on delete cascade,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected', 'reupload_requested')),
+  triggers jsonb not null,
+  behavior jsonb not null,
+  decision text check (decision in ('approve', 'reject', 'request_reupload')),
+  decision_reason text,
+  document_type text check (document_type in ('PAN', 'Aadhaar')),
+  reviewed_by text,
+  decided_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- One open case per application.
+create unique index review_cases_pending_idx on public.review_cases (session_id) where status = 'pending';
+create index review_cases_status_idx on public.review_cases (status, created_at);
+
+alter table public.review_cases enable row level security;
@@ -0,0 +1,20 @@
+-- The first time each session entered each onboarding step, for the admin
+-- dashboard's time-per-step figures (see _shared/analytics.ts).
+create table public.onboarding_step_events (
+  id bigint generated always as identity primary key,
+  session_id uuid not null references public.onboarding_sessions (id) on delete cascade,
+  step text not null,
+  entered_at timestamptz not null default now(),
+  unique (session_id, step)
+);
+
+create index onboarding_step_events_entered_idx on public.onboarding_step_events (entered_at);
+create index onboarding_sessions_created_idx on public.onboarding_sessions (created_at);
+
+alter table public.onboarding_step_events enable row level security;
+
+-- Earlier sessions only know when they started and when they last moved.
+insert into public.onboarding_step_events (session_id, step, entered_at)
+select id, 'employment', created_at from public.onboarding_sessions
+union all
+select id, step, updated_at from public.onboarding_sessions where step <> 'employment';
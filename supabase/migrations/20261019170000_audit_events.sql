@@ -0,0 +1,37 @@
+-- Append-only audit trail of onboarding decisions (see _shared/audit.ts). Each
+-- session's events are hash chained by the edge functions; the table itself
+-- refuses updates, deletes and truncation, and an onboarding session cannot be
+-- deleted once it has audit events.
+create table public.audit_events (
+  id bigint generated always as identity primary key,
+  session_id uuid not null references public.onboarding_sessions (id),
+  sequence integer not null check (sequence > 0),
+  event_type text not null check (event_type in (
+    'document_verdict', 'face_result', 'risk_score', 'screening_result',
+    'review_decision', 'account_created', 'email_sent'
+  )),
+  actor text not null,
+  payload jsonb not null,
+  created_at timestamptz not null,
+  prev_hash text not null check (prev_hash ~ '^[0-9a-f]{64}$'),
+  hash text not null check (hash ~ '^[0-9a-f]{64}$'),
+  -- Concurrent appends to one chain race for the same sequence; one of them loses
+  unique (session_id, sequence)
+);
+
+create function public.audit_events_append_only() returns trigger
+language plpgsql as $$
+begin
+  raise exception 'audit_events is append-only';
+end;
+$$;
+
+create trigger audit_events_no_update_delete
+  before update or delete on public.audit_events
+  for each row execute function public.audit_events_append_only();
+
+create trigger audit_events_no_truncate
+  before truncate on public.audit_events
+  for each statement execute function public.audit_events_append_only();
+
+alter table public.audit_events enable row level security;
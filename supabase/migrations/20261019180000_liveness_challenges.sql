@@ -0,0 +1,26 @@
+-- Active liveness challenges issued by verify-liveness (see _shared/liveness.ts).
+-- Each can be answered once, before it expires; the outcome is recorded in
+-- verification_results as kind 'liveness' and in the audit trail.
+create table public.liveness_challenges (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.onboarding_sessions (id) on delete cascade,
+  prompts jsonb not null,
+  expires_at timestamptz not null,
+  answered_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index liveness_challenges_session_idx on public.liveness_challenges (session_id);
+
+alter table public.liveness_challenges enable row level security;
+
+alter table public.verification_results drop constraint verification_results_kind_check;
+alter table public.verification_results
+  add constraint verification_results_kind_check check (kind in ('document', 'face', 'liveness', 'income', 'screening'));
+
+alter table public.audit_events drop constraint audit_events_event_type_check;
+alter table public.audit_events
+  add constraint audit_events_event_type_check check (event_type in (
+    'document_verdict', 'face_result', 'liveness_result', 'risk_score', 'screening_result',
+    'review_decision', 'account_created', 'email_sent'
+  ));
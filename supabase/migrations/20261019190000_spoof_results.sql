@@ -0,0 +1,12 @@
+-- Passive anti-spoofing outcomes from detect-spoof (see _shared/antiSpoof.ts)
+-- are recorded with the other verification results and in the audit trail.
+alter table public.verification_results drop constraint verification_results_kind_check;
+alter table public.verification_results
+  add constraint verification_results_kind_check check (kind in ('document', 'face', 'liveness', 'spoof', 'income', 'screening'));
+
+alter table public.audit_events drop constraint audit_events_event_type_check;
+alter table public.audit_events
+  add constraint audit_events_event_type_check check (event_type in (
+    'document_verdict', 'face_result', 'liveness_result', 'spoof_result', 'risk_score', 'screening_result',
+    'review_decision', 'account_created', 'email_sent'
+  ));
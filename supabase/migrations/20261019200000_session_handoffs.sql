@@ -0,0 +1,22 @@
+-- Handoffs that let an applicant continue a session on another device, e.g.
+-- the face check on a phone when the desktop has no camera (see
+-- _shared/handoff.ts). Each can be claimed once, before it expires; the claim
+-- is recorded in the audit trail.
+create table public.session_handoffs (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.onboarding_sessions (id) on delete cascade,
+  expires_at timestamptz not null,
+  claimed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index session_handoffs_session_idx on public.session_handoffs (session_id);
+
+alter table public.session_handoffs enable row level security;
+
+alter table public.audit_events drop constraint audit_events_event_type_check;
+alter table public.audit_events
+  add constraint audit_events_event_type_check check (event_type in (
+    'document_verdict', 'face_result', 'liveness_result', 'spoof_result', 'risk_score', 'screening_result',
+    'review_decision', 'account_created', 'email_sent', 'device_handoff'
+  ));
@@ -0,0 +1,4 @@
+-- Messages appended by a function (e.g. a reviewer's decision) rather than the
+-- client. A client's session_save keeps them even when its own transcript is
+-- stale (see mergeClientSave in _shared/session.ts).
+alter table public.onboarding_messages add column from_server boolean not null default false;
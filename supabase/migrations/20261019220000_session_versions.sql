@@ -0,0 +1,5 @@
+-- Optimistic concurrency for session writes. Every save bumps the version and
+-- only lands if the row is still at the version it was loaded at, so a client
+-- save and a function's write (screening, review decision) cannot overwrite
+-- each other (see updateSession in _shared/store.ts).
+alter table public.onboarding_sessions add column version integer not null default 0;